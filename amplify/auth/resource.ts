@@ -8,4 +8,9 @@ export const auth = defineAuth({
   loginWith: {
     email: true,
   },
+  // 認証アプリ（TOTP）による二段階認証。利用は各ユーザーの任意とする
+  multifactor: {
+    mode: 'OPTIONAL',
+    totp: true,
+  },
 });
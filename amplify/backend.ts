@@ -1,8 +1,91 @@
 import { defineBackend } from '@aws-amplify/backend';
+import { RemovalPolicy, Stack } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Policy, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { EventSourceMapping, StartingPosition } from 'aws-cdk-lib/aws-lambda';
 import { auth } from './auth/resource';
 import { data } from './data/resource';
+import { dataEvents } from './functions/data-events/resource';
+import { offeringReader } from './functions/offering-reader/resource';
+import { rankingSnapshots } from './functions/ranking-snapshots/resource';
+import { tableEnvName, type TableModel } from './functions/shared/tables';
+import { storage } from './storage/resource';
 
-defineBackend({
+const backend = defineBackend({
   auth,
   data,
+  storage,
+  offeringReader,
+  dataEvents,
+  rankingSnapshots,
 });
+
+const tables = backend.data.resources.tables;
+
+// 供物の読み取り関数に、読み取るテーブル（魂紋の統計値を含む）の権限とテーブル名を渡す
+const readerTables: TableModel[] = ['Offering', 'OfferingRevision', 'Comment', 'Follow', 'UserProfile'];
+for (const model of readerTables) {
+  tables[model].grantReadData(backend.offeringReader.resources.lambda);
+  backend.offeringReader.addEnvironment(tableEnvName(model), tables[model].tableName);
+}
+
+// 順位の写し関数に、順位を付ける供物・導き・所属を読むテーブルと写しを書き込むテーブルの権限とテーブル名を渡す
+const snapshotsLambda = backend.rankingSnapshots.resources.lambda;
+const snapshotSourceTables: TableModel[] = ['Offering', 'Comment', 'UserProfile'];
+for (const model of snapshotSourceTables) {
+  tables[model].grantReadData(snapshotsLambda);
+  backend.rankingSnapshots.addEnvironment(tableEnvName(model), tables[model].tableName);
+}
+tables.RankingSnapshot.grantWriteData(snapshotsLambda);
+backend.rankingSnapshots.addEnvironment(tableEnvName('RankingSnapshot'), tables.RankingSnapshot.tableName);
+
+// テーブルの変更の後処理関数に、集計値・統計値・便りを書き込むテーブルの権限とテーブル名を渡す
+const eventsLambda = backend.dataEvents.resources.lambda;
+const eventTargetTables: TableModel[] = ['Offering', 'Comment', 'UserProfile', 'Notification'];
+for (const model of eventTargetTables) {
+  tables[model].grantReadWriteData(eventsLambda);
+  backend.dataEvents.addEnvironment(tableEnvName(model), tables[model].tableName);
+}
+
+// テーブルの変更の後処理関数に、処理済みの印のテーブルを渡す（再試行されたレコードで同じ加算を繰り返さないため）
+// 印はストリームのレコードの保持期間を過ぎれば要らないため、expiresAt を過ぎたものは TTL で消す
+const ledgerTable = new Table(Stack.of(eventsLambda), 'DataEventLedger', {
+  partitionKey: { name: 'id', type: AttributeType.STRING },
+  billingMode: BillingMode.PAY_PER_REQUEST,
+  timeToLiveAttribute: 'expiresAt',
+  removalPolicy: RemovalPolicy.DESTROY,
+});
+ledgerTable.grantReadWriteData(eventsLambda);
+backend.dataEvents.addEnvironment(tableEnvName('DataEventLedger'), ledgerTable.tableName);
+
+// テーブルの変更の後処理関数に、便りの宛先（縁者・保存した探求）を調べるテーブルの権限とテーブル名を渡す
+const eventLookupTables: TableModel[] = ['Follow', 'SavedSearch'];
+for (const model of eventLookupTables) {
+  tables[model].grantReadData(eventsLambda);
+  backend.dataEvents.addEnvironment(tableEnvName(model), tables[model].tableName);
+}
+
+// テーブルの変更の後処理関数に、変更を受けるテーブルのストリームを渡す
+// 失敗したレコードは batchItemFailures で返し、そのレコードから再試行させる
+const eventSourceTables: TableModel[] = ['Like', 'CommentPrayer', 'OfferingView', 'Offering', 'Comment', 'Follow'];
+for (const model of eventSourceTables) {
+  const table = tables[model];
+  const policy = new Policy(Stack.of(table), `DataEventsStreamPolicy${model}`, {
+    statements: [
+      new PolicyStatement({
+        actions: ['dynamodb:DescribeStream', 'dynamodb:GetRecords', 'dynamodb:GetShardIterator', 'dynamodb:ListStreams'],
+        resources: [table.tableStreamArn!],
+      }),
+    ],
+  });
+  eventsLambda.role?.attachInlinePolicy(policy);
+
+  const mapping = new EventSourceMapping(Stack.of(table), `DataEventsStreamMapping${model}`, {
+    target: eventsLambda,
+    eventSourceArn: table.tableStreamArn,
+    startingPosition: StartingPosition.LATEST,
+    reportBatchItemFailures: true,
+  });
+  mapping.node.addDependency(policy);
+  backend.dataEvents.addEnvironment(tableEnvName(model), table.tableName);
+}
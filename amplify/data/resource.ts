@@ -1,17 +1,393 @@
 import { type ClientSchema, a, defineData } from "@aws-amplify/backend";
+import { offeringReader } from "../functions/offering-reader/resource";
 
-/*== STEP 1 ===============================================================
-The section below creates a Todo database table with a "content" field. Try
-adding a new "isDone" field as a boolean. The authorization rule below
-specifies that any user authenticated via an API key can "create", "read",
-"update", and "delete" any "Todo" records.
-=========================================================================*/
+/**
+ * 供物台（Kumotsudai）- データモデル定義
+ *
+ * フロントエンドの `types/domain.ts` にある `Offering` / `Comment` / `User`
+ * インターフェースに対応するモデル群。
+ *
+ * - UserProfile : 魂紋（ユーザー）。主キー userId には Cognito の sub を用いる
+ * - Offering    : 供物（投稿）
+ * - Comment     : 導き（コメント）
+ * - Like        : 祈念（いいね）
+ * - CommentPrayer : 導きへの祈念
+ * - OfferingView : 供物の閲覧（魂紋・供物・日ごとに1件）
+ * - Notification : 便り（アプリ内通知）
+ * - SavedSearch : 保存した探求（名前付きの検索式と絞り込み条件）
+ * - Follow : 縁（魂紋どうしのフォロー。結んだ側・結ばれた側ごとに1件）
+ * - OfferingRevision : 供物の改訂履歴（改める前の版を保存）
+ * - RankingSnapshot : 順位の写し（ランキングの区分・日ごとに1件）
+ *
+ * 所有者判定はいずれも Cognito の `sub` クレームと ID フィールドの一致で行い、
+ * 認証済みユーザーには読み取りのみを許可する。
+ * 供物とそれに付く改訂履歴・導き・祈念・閲覧の読み取りは記録した本人に限り、
+ * 他の魂紋には閲覧可否を確かめる関数（offering-reader）の問い合わせから返す。
+ */
 const schema = a.schema({
-  Todo: a
+  // 魂紋（ユーザープロフィール）
+  // 統計値（供物数・総祈念数・総導き数・総閲覧数）は data-events 関数が公開中の供物から集計してテーブルに直接書き込む値で、
+  // 本人にも書き換えさせないためスキーマには持たせない（読み取りは offering-reader の listUserStats・getUserStats）
+  UserProfile: a
     .model({
-      content: a.string(),
+      userId: a.id().required(),
+      name: a.string().required(),
+      email: a.email().required(),
+      department: a.string(),
+      age: a.string(),
+      avatar: a.string(),
+      joinedAt: a.datetime().required(),
+      offerings: a.hasMany('Offering', 'authorId'),
+      comments: a.hasMany('Comment', 'authorId'),
+      likes: a.hasMany('Like', 'userId'),
+      commentPrayers: a.hasMany('CommentPrayer', 'userId'),
     })
-    .authorization(allow => [allow.owner()]),
+    .identifier(['userId'])
+    .secondaryIndexes((index) => [
+      index('email').queryField('listUserProfilesByEmail'),
+    ])
+    .authorization((allow) => [
+      allow.ownerDefinedIn('userId').identityClaim('sub'),
+      allow.authenticated().to(['read']),
+    ]),
+
+  // 供物（投稿）
+  // 祈念者（likedBy）・閲覧数（viewCount）は data-events 関数がテーブルに直接書き込む集計値で、
+  // 作者にも書き換えさせないためスキーマには持たせない（項目は amplify/functions/shared/tables.ts）
+  Offering: a
+    .model({
+      title: a.string().required(),
+      content: a.string().required(),
+      author: a.string().required(),
+      authorId: a.id().required(),
+      authorProfile: a.belongsTo('UserProfile', 'authorId'),
+      genres: a.string().array().required(),
+      // 添付画像の保存先のパス（Amplify Storage。表示時に URL を取得する）
+      imagePaths: a.string().array(),
+      // 題名・内容の #タグ（奉納・改訂のたびに抽出し直す。未設定の既存レコードは表示時に抽出する）
+      tags: a.string().array(),
+      // 公開範囲（未設定の既存レコードは public として扱う）
+      // followers は作者本人と作者と縁を結んだ魂紋にのみ offering-reader が返す
+      visibility: a.enum(['public', 'followers']),
+      // 未設定の既存レコードは published として扱う
+      // draft は作者の下書き（一覧取得時に除外する）
+      status: a.enum(['draft', 'published', 'archived', 'deleted']),
+      createdAt: a.datetime().required(),
+      // 題名・内容・ジャンルを最後に改めた日時（下書きでは最後に保存した日時）
+      editedAt: a.datetime(),
+      comments: a.hasMany('Comment', 'offeringId'),
+      likes: a.hasMany('Like', 'offeringId'),
+      views: a.hasMany('OfferingView', 'offeringId'),
+      revisions: a.hasMany('OfferingRevision', 'offeringId'),
+    })
+    .secondaryIndexes((index) => [
+      index('authorId').sortKeys(['createdAt']).queryField('listOfferingsByAuthor'),
+      // 公開中の供物を新しい順にページ取得する（status 未設定のレコードは索引に含まれない）
+      index('status').sortKeys(['createdAt']).queryField('listOfferingsByStatus'),
+    ])
+    // 下書き・秘蔵中の供物を他の魂紋に読ませないため、読み取りも作者本人に限る（一覧・取得は下の問い合わせを使う）
+    .authorization((allow) => [
+      allow.ownerDefinedIn('authorId').identityClaim('sub'),
+    ]),
+
+  // 導き（コメント）
+  // 導きへの祈念者（likedBy）は data-events 関数がテーブルに直接書き込む集計値（スキーマには持たせない）
+  Comment: a
+    .model({
+      offeringId: a.id().required(),
+      offering: a.belongsTo('Offering', 'offeringId'),
+      authorId: a.id().required(),
+      authorProfile: a.belongsTo('UserProfile', 'authorId'),
+      author: a.string().required(),
+      content: a.string().required(),
+      // 導きの種類（GraphQL の列挙値は英字のみのため、GuidanceType との対応はリポジトリ層で行う）
+      // 未設定の既存レコードは種類なしとして扱う
+      guidanceType: a.enum(['empathy', 'support', 'gratitude', 'question', 'suggestion', 'learning']),
+      // 返信先の導き（スレッドの起点）。未設定なら供物への直接の導き
+      parentId: a.id(),
+      createdAt: a.datetime().required(),
+      prayers: a.hasMany('CommentPrayer', 'commentId'),
+    })
+    .secondaryIndexes((index) => [
+      index('offeringId').sortKeys(['createdAt']).queryField('listCommentsByOffering'),
+      index('authorId').sortKeys(['createdAt']).queryField('listCommentsByAuthor'),
+    ])
+    // 導きは供物と同じ閲覧可否に従うため、読み取りは書いた本人に限る（閲覧は offering-reader の問い合わせを使う）
+    .authorization((allow) => [
+      allow.ownerDefinedIn('authorId').identityClaim('sub'),
+    ]),
+
+  // 供物の改訂履歴
+  // 改める直前の題名・内容・ジャンルを保存し、revisedAt に改めた日時を記録する
+  OfferingRevision: a
+    .model({
+      offeringId: a.id().required(),
+      offering: a.belongsTo('Offering', 'offeringId'),
+      editorId: a.id().required(),
+      title: a.string().required(),
+      content: a.string().required(),
+      genres: a.string().array().required(),
+      revisedAt: a.datetime().required(),
+    })
+    .secondaryIndexes((index) => [
+      index('offeringId').sortKeys(['revisedAt']).queryField('listRevisionsByOffering'),
+    ])
+    // 秘蔵中の供物の旧版を他の魂紋に読ませないため、読み取りも改めた本人に限る（閲覧は listVisibleRevisions を使う）
+    .authorization((allow) => [
+      allow.ownerDefinedIn('editorId').identityClaim('sub'),
+    ]),
+
+  // 祈念（いいね）
+  // 作成・削除のたびに data-events 関数が供物の祈念者（likedBy）を更新する
+  // 主キーを (offeringId, userId) とし、同じ魂紋の重複した祈念は作成時に弾く
+  Like: a
+    .model({
+      offeringId: a.id().required(),
+      offering: a.belongsTo('Offering', 'offeringId'),
+      userId: a.id().required(),
+      user: a.belongsTo('UserProfile', 'userId'),
+      createdAt: a.datetime().required(),
+    })
+    .identifier(['offeringId', 'userId'])
+    .secondaryIndexes((index) => [
+      index('offeringId').sortKeys(['createdAt']).queryField('listLikesByOffering'),
+      index('userId').sortKeys(['createdAt']).queryField('listLikesByUser'),
+    ])
+    // 祈念者の一覧は offering-reader が供物に付けて返すため、読み取りは祈念した本人に限る
+    .authorization((allow) => [
+      allow.ownerDefinedIn('userId').identityClaim('sub'),
+    ]),
+
+  // 導きへの祈念
+  // 供物単位でまとめて取得できるよう offeringId も保持する
+  // 作成・削除のたびに data-events 関数が導きの祈念者（likedBy）を更新する
+  // 主キーを (commentId, userId) とし、同じ魂紋の重複した祈念は作成時に弾く
+  CommentPrayer: a
+    .model({
+      commentId: a.id().required(),
+      comment: a.belongsTo('Comment', 'commentId'),
+      offeringId: a.id().required(),
+      userId: a.id().required(),
+      user: a.belongsTo('UserProfile', 'userId'),
+      createdAt: a.datetime().required(),
+    })
+    .identifier(['commentId', 'userId'])
+    .secondaryIndexes((index) => [
+      index('offeringId').sortKeys(['createdAt']).queryField('listCommentPrayersByOffering'),
+      index('userId').sortKeys(['createdAt']).queryField('listCommentPrayersByUser'),
+    ])
+    // 導きへの祈念者の一覧は offering-reader が導きに付けて返すため、読み取りは祈念した本人に限る
+    .authorization((allow) => [
+      allow.ownerDefinedIn('userId').identityClaim('sub'),
+    ]),
+
+  // 供物の閲覧
+  // 主キーを (offeringId, viewerId, viewedOn) とし、同じ日の重複した閲覧は作成時に弾く
+  // viewedOn は閲覧者の端末の日付（data-events 関数は受け付けた日付から外れたものと、作者本人の閲覧を数えない）
+  // 作成のたびに data-events 関数が供物の閲覧数（viewCount）を加算する
+  OfferingView: a
+    .model({
+      offeringId: a.id().required(),
+      offering: a.belongsTo('Offering', 'offeringId'),
+      viewerId: a.id().required(),
+      viewedOn: a.date().required(),
+      createdAt: a.datetime().required(),
+    })
+    .identifier(['offeringId', 'viewerId', 'viewedOn'])
+    // 閲覧数は offering-reader が供物に付けて返すため、読み取りは閲覧した本人に限る
+    .authorization((allow) => [
+      allow.ownerDefinedIn('viewerId').identityClaim('sub'),
+    ]),
+
+  // 便り（アプリ内通知）
+  // 便りは祈念・導き・縁などの記録の変更を受けて data-events 関数が書き込み、クライアントには作成させない
+  // 閲覧・既読化・削除は受信者本人に限る
+  Notification: a
+    .model({
+      userId: a.id().required(),
+      type: a.enum([
+        'prayer_received',
+        'guidance_received',
+        'guidance_reply',
+        'saved_search_match',
+        'mention_received',
+        'follower_new',
+        'offering_featured',
+        'system_announcement',
+        'maintenance',
+      ]),
+      title: a.string().required(),
+      content: a.string().required(),
+      offeringId: a.id(),
+      guidanceId: a.id(),
+      actorId: a.id(),
+      isRead: a.boolean().required(),
+      createdAt: a.datetime().required(),
+      readAt: a.datetime(),
+    })
+    .secondaryIndexes((index) => [
+      index('userId').sortKeys(['createdAt']).queryField('listNotificationsByUser'),
+    ])
+    .authorization((allow) => [
+      allow.ownerDefinedIn('userId').identityClaim('sub').to(['read', 'update', 'delete']),
+    ]),
+
+  // 保存した探求
+  // 読み書きは持ち主本人に限り、奉納された供物との照合は data-events 関数が行う
+  SavedSearch: a
+    .model({
+      userId: a.id().required(),
+      name: a.string().required(),
+      query: a.string().required(),
+      genre: a.string(),
+      author: a.string(),
+      dateRange: a.enum(['all', 'today', 'week', 'month']),
+      minLikes: a.integer(),
+      createdAt: a.datetime().required(),
+    })
+    .secondaryIndexes((index) => [
+      index('userId').sortKeys(['createdAt']).queryField('listSavedSearchesByUser'),
+    ])
+    .authorization((allow) => [
+      allow.ownerDefinedIn('userId').identityClaim('sub'),
+    ]),
+
+  // 縁（フォロー）
+  // 主キーを (followerId, followeeId) とし、同じ相手との重複した縁は作成時に弾く
+  // 縁者（フォロワー）の一覧は followeeId の索引から取得する
+  Follow: a
+    .model({
+      followerId: a.id().required(),
+      followeeId: a.id().required(),
+      createdAt: a.datetime().required(),
+    })
+    .identifier(['followerId', 'followeeId'])
+    .secondaryIndexes((index) => [
+      index('followeeId').sortKeys(['createdAt']).queryField('listFollowsByFollowee'),
+    ])
+    .authorization((allow) => [
+      allow.ownerDefinedIn('followerId').identityClaim('sub'),
+      allow.authenticated().to(['read']),
+    ]),
+
+  // 順位の写し
+  // ranking-snapshots 関数が1時間ごとに種別・期間・所属の区分ごとの上位の順位をその日の写しに書き込み、クライアントには書き込ませない
+  // 主キーを (scope, takenOn) とし、区分の最新の写し（現在の順位）と前の日の写しは takenOn の降順で取得する
+  // 写しは全員に公開中の供物だけから取るため、認証済みの魂紋すべてに読み取りを許可する
+  RankingSnapshot: a
+    .model({
+      scope: a.string().required(),
+      takenOn: a.date().required(),
+      // 供物ID → 順位
+      ranks: a.json().required(),
+      createdAt: a.datetime().required(),
+    })
+    .identifier(['scope', 'takenOn'])
+    .authorization((allow) => [
+      allow.authenticated().to(['read']),
+    ]),
+
+  // 閲覧者に見せてよい供物（offering-reader が導き・祈念者・閲覧数を付けて返す）
+  // visibility・status・guidanceType は Offering・Comment の列挙値をそのまま文字列で返す
+  VisibleComment: a.customType({
+    id: a.id().required(),
+    authorId: a.id().required(),
+    author: a.string().required(),
+    content: a.string().required(),
+    guidanceType: a.string(),
+    parentId: a.id(),
+    createdAt: a.datetime().required(),
+    likedBy: a.id().required().array().required(),
+  }),
+
+  VisibleOffering: a.customType({
+    id: a.id().required(),
+    title: a.string().required(),
+    content: a.string().required(),
+    author: a.string().required(),
+    authorId: a.id().required(),
+    genres: a.string().required().array().required(),
+    imagePaths: a.string().array(),
+    tags: a.string().array(),
+    visibility: a.string(),
+    status: a.string(),
+    createdAt: a.datetime().required(),
+    editedAt: a.datetime(),
+    likedBy: a.id().required().array().required(),
+    views: a.integer().required(),
+    comments: a.ref('VisibleComment').required().array().required(),
+  }),
+
+  VisibleRevision: a.customType({
+    id: a.id().required(),
+    offeringId: a.id().required(),
+    editorId: a.id().required(),
+    title: a.string().required(),
+    content: a.string().required(),
+    genres: a.string().required().array().required(),
+    revisedAt: a.datetime().required(),
+  }),
+
+  VisibleOfferingPage: a.customType({
+    items: a.ref('VisibleOffering').required().array().required(),
+    nextToken: a.string(),
+  }),
+
+  // 魂紋の統計値（offering-reader が UserProfile のテーブルから返す。未集計は 0）
+  UserStats: a.customType({
+    userId: a.id().required(),
+    offeringCount: a.integer().required(),
+    totalLikes: a.integer().required(),
+    totalComments: a.integer().required(),
+    totalViews: a.integer().required(),
+  }),
+
+  // 公開中の供物の1ページ（新しい順）
+  listPublishedOfferings: a
+    .query()
+    .arguments({ limit: a.integer().required(), nextToken: a.string() })
+    .returns(a.ref('VisibleOfferingPage').required())
+    .authorization((allow) => [allow.authenticated()])
+    .handler(a.handler.function(offeringReader)),
+
+  // 供物の取得（存在しない・見せない供物は null）
+  getVisibleOffering: a
+    .query()
+    .arguments({ offeringId: a.id().required() })
+    .returns(a.ref('VisibleOffering'))
+    .authorization((allow) => [allow.authenticated()])
+    .handler(a.handler.function(offeringReader)),
+
+  // 作者の供物一覧（新しい順、見せない供物を除く）
+  listVisibleOfferingsByAuthor: a
+    .query()
+    .arguments({ authorId: a.id().required() })
+    .returns(a.ref('VisibleOffering').array())
+    .authorization((allow) => [allow.authenticated()])
+    .handler(a.handler.function(offeringReader)),
+
+  // 供物の改訂履歴（古い順。見せない供物は空）
+  listVisibleRevisions: a
+    .query()
+    .arguments({ offeringId: a.id().required() })
+    .returns(a.ref('VisibleRevision').array())
+    .authorization((allow) => [allow.authenticated()])
+    .handler(a.handler.function(offeringReader)),
+
+  // 全魂紋の統計値
+  listUserStats: a
+    .query()
+    .returns(a.ref('UserStats').required().array().required())
+    .authorization((allow) => [allow.authenticated()])
+    .handler(a.handler.function(offeringReader)),
+
+  // 魂紋の統計値（存在しない魂紋は null）
+  getUserStats: a
+    .query()
+    .arguments({ userId: a.id().required() })
+    .returns(a.ref('UserStats'))
+    .authorization((allow) => [allow.authenticated()])
+    .handler(a.handler.function(offeringReader)),
 });
 
 export type Schema = ClientSchema<typeof schema>;
@@ -24,32 +400,3 @@ export const data = defineData({
     defaultAuthorizationMode: 'userPool',
   },
 });
-
-/*== STEP 2 ===============================================================
-Go to your frontend source code. From your client-side code, generate a
-Data client to make CRUDL requests to your table. (THIS SNIPPET WILL ONLY
-WORK IN THE FRONTEND CODE FILE.)
-
-Using JavaScript or Next.js React Server Components, Middleware, Server 
-Actions or Pages Router? Review how to generate Data clients for those use
-cases: https://docs.amplify.aws/gen2/build-a-backend/data/connect-to-API/
-=========================================================================*/
-
-/*
-"use client"
-import { generateClient } from "aws-amplify/data";
-import type { Schema } from "@/amplify/data/resource";
-
-const client = generateClient<Schema>() // use this Data client for CRUDL requests
-*/
-
-/*== STEP 3 ===============================================================
-Fetch records from the database and use them in your frontend component.
-(THIS SNIPPET WILL ONLY WORK IN THE FRONTEND CODE FILE.)
-=========================================================================*/
-
-/* For example, in a React component, you can use this snippet in your
-  function's RETURN statement */
-// const { data: todos } = await client.models.Todo.list()
-
-// return <ul>{todos.map(todo => <li key={todo.id}>{todo.content}</li>)}</ul>
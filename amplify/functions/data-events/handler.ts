@@ -0,0 +1,316 @@
+/**
+ * 供物台（Kumotsudai）- テーブルの変更の後処理関数
+ *
+ * Like・CommentPrayer・OfferingView の DynamoDB ストリームを受け、
+ * 供物・導きに集計値を原子的に書き込む（ADD / DELETE による更新）。
+ * 読み取り時に祈念・閲覧の全件を数えずに済むよう、offering-reader はこの集計値を返す。
+ * 便りはクライアントには作成させず、記録の変更を受けてここで作成する（送り主を偽れないようにするため）。
+ * 失敗したレコードは再試行されるため、加算は処理済みの印と合わせて一度だけ行い（ledger.ts）、
+ * 便りの ID はレコードの eventID から決めて同じ便りを重ねない。
+ * 魂紋の統計値も公開中の供物の記録の変更ごとに加減し、クライアントに全件を集計させない。
+ * 探求は持ち主にしか読めないため、奉納された供物との照合もここで行う。
+ *
+ * 機能:
+ * - 祈念の作成・削除 : 供物の祈念者（likedBy）・作者の総祈念数の加減、作者への祈念の便り
+ * - 導きへの祈念の作成・削除 : 導きの祈念者（likedBy）への追加・削除
+ * - 閲覧の記録の作成 : 供物の閲覧数（viewCount）・作者の総閲覧数の加算
+ *   （作者本人の閲覧と、閲覧日が受け付けた日付から外れた記録は数えない）
+ * - 供物の公開・非公開の切り替え : 作者・導きの主の統計値の加減
+ * - 供物の奉納（作成時の公開・下書きの公開） : 本文で呼ばれた魂紋・一致する探求の持ち主への便り
+ * - 導きの記録・削除 : 導きの主の総導き数の加減、供物の作者・返信先の導きの主・本文で呼ばれた魂紋への便り
+ * - 縁の結び : 縁を結ばれた魂紋への便り
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { AttributeValue } from '@aws-sdk/client-dynamodb';
+import { GetCommand, UpdateCommand, type UpdateCommandOutput } from '@aws-sdk/lib-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import type { DynamoDBRecord, DynamoDBStreamHandler } from 'aws-lambda';
+import { isPlausibleDayKey } from '../../../src/services/calendar';
+import {
+  buildFollowNotification,
+  buildGuidanceNotifications,
+  buildMentionNotifications,
+  buildPrayerNotification,
+  buildSavedSearchNotifications,
+} from '../../../src/services/notifications';
+import { findMatchingSavedSearches } from '../../../src/services/searchQuery';
+import { documentClient, modelOfStreamArn, tableName } from '../shared/dynamodb';
+import type {
+  ICommentItem,
+  ICommentPrayerItem,
+  IFollowItem,
+  ILikeItem,
+  IOfferingItem,
+  IOfferingViewItem,
+  TableModel,
+} from '../shared/tables';
+import {
+  getActor,
+  listMentionableUsers,
+  listSavedSearches,
+  loadViewerIds,
+  putNotifications,
+  toPublishedOffering,
+} from './notifications';
+import { updateOnce } from './ledger';
+import { addUserStats, applyOfferingStats, isCountedOffering } from './userStats';
+
+/** ストリームを受けるモデル */
+const STREAM_MODELS: TableModel[] = ['Like', 'CommentPrayer', 'OfferingView', 'Offering', 'Comment', 'Follow'];
+
+/**
+ * ストリームのレコードを1件ずつ処理する
+ * 失敗したレコードは batchItemFailures として返し、そのレコード以降を再試行させる
+ */
+export const handler: DynamoDBStreamHandler = async (event) => {
+  for (const record of event.Records) {
+    try {
+      await handleRecord(record);
+    } catch (error) {
+      console.error('テーブルの変更の後処理に失敗しました', { eventID: record.eventID, error });
+      return { batchItemFailures: [{ itemIdentifier: record.dynamodb?.SequenceNumber ?? '' }] };
+    }
+  }
+  return { batchItemFailures: [] };
+};
+
+/**
+ * モデルと変更の種類ごとの振り分け
+ */
+async function handleRecord(record: DynamoDBRecord): Promise<void> {
+  const model = modelOfStreamArn(record.eventSourceARN, STREAM_MODELS);
+  switch (model) {
+    case 'Offering':
+      return handleOfferingRecord(record);
+    case 'Comment':
+      return handleCommentRecord(record);
+    case 'Follow':
+      return handleFollowRecord(record);
+    default:
+      return handleRelationRecord(model, record);
+  }
+}
+
+/**
+ * 祈念・導きへの祈念・閲覧の記録の変更
+ * これらの記録は作成・削除のみで、更新はされない
+ */
+async function handleRelationRecord(model: TableModel, record: DynamoDBRecord): Promise<void> {
+  const action = record.eventName === 'INSERT' ? 'ADD' : record.eventName === 'REMOVE' ? 'DELETE' : null;
+  if (!action) return;
+
+  const image = action === 'ADD' ? record.dynamodb?.NewImage : record.dynamodb?.OldImage;
+  const eventId = eventIdOf(record);
+  switch (model) {
+    case 'Like': {
+      const like = toItem<ILikeItem>(image);
+      const offering = await updateLikers<IOfferingItem>('Offering', like.offeringId, like.userId, action);
+      if (!offering) return;
+      if (isCountedOffering(offering)) {
+        await addUserStats(offering.authorId, { totalLikes: action === 'ADD' ? 1 : -1 }, eventId);
+      }
+      if (action === 'ADD') await notifyPrayer(offering, like.userId, eventId);
+      return;
+    }
+    case 'CommentPrayer': {
+      const prayer = toItem<ICommentPrayerItem>(image);
+      await updateLikers('Comment', prayer.commentId, prayer.userId, action);
+      return;
+    }
+    case 'OfferingView': {
+      if (action !== 'ADD') return;
+      const view = toItem<IOfferingViewItem>(image);
+      if (!isPlausibleDayKey(view.viewedOn, receivedAt(record))) return;
+      if (!(await addViewCount(view.offeringId, view.viewerId, eventId))) return;
+      const offering = await getItem<IOfferingItem>('Offering', view.offeringId);
+      if (offering && isCountedOffering(offering)) await addUserStats(offering.authorId, { totalViews: 1 }, eventId);
+      return;
+    }
+  }
+}
+
+/**
+ * 供物の変更
+ * 公開中になった・公開中でなくなった供物について、作者・導きの主の統計値を加減する
+ * 公開中として作成された供物と、下書きから公開された供物について、便りを届ける
+ * （集計値の書き込みや編集による更新、秘蔵からの再公開では届けない）
+ */
+async function handleOfferingRecord(record: DynamoDBRecord): Promise<void> {
+  const previous = record.dynamodb?.OldImage ? toItem<IOfferingItem>(record.dynamodb.OldImage) : null;
+  const current = record.dynamodb?.NewImage ? toItem<IOfferingItem>(record.dynamodb.NewImage) : null;
+  const wasCounted = !!previous && isCountedOffering(previous);
+  const isCounted = !!current && isCountedOffering(current);
+  const eventId = eventIdOf(record);
+
+  if (current && isCounted && !wasCounted) await applyOfferingStats(current, 1, eventId);
+  if (previous && wasCounted && !isCounted) await applyOfferingStats(previous, -1, eventId);
+  if (current && isCounted && (!previous || previous.status === 'draft')) await notifyPublished(current, eventId);
+}
+
+/**
+ * 奉納された供物の本文で呼ばれた魂紋と、一致する探求の持ち主への便り（供物を見られない魂紋を除く）
+ */
+async function notifyPublished(offering: IOfferingItem, eventId: string): Promise<void> {
+  const [users, viewerIds, savedSearches] = await Promise.all([
+    listMentionableUsers(offering.content),
+    loadViewerIds(offering),
+    listSavedSearches(),
+  ]);
+  const actor = { id: offering.authorId, name: offering.author };
+  const published = toPublishedOffering(offering);
+  const matched = findMatchingSavedSearches(published, savedSearches).filter(
+    (savedSearch) => !viewerIds || viewerIds.has(savedSearch.userId)
+  );
+  await putNotifications(
+    [...buildMentionNotifications(offering, users, actor, { viewerIds }), ...buildSavedSearchNotifications(published, matched)],
+    eventId
+  );
+}
+
+/**
+ * 導きの変更
+ * 公開中の供物への導きの記録・削除について、導きの主の総導き数を加減する
+ * 記録された導きについて、供物の作者・返信先の導きの主へ導き・返信の便りを、
+ * 導きの本文で呼ばれた魂紋へ便りを届ける（呼ばれた便りは、導き・返信の便りを受け取る魂紋を除く）
+ */
+async function handleCommentRecord(record: DynamoDBRecord): Promise<void> {
+  const eventId = eventIdOf(record);
+  if (record.eventName === 'REMOVE') {
+    const removed = toItem<ICommentItem>(record.dynamodb?.OldImage);
+    const offering = await getItem<IOfferingItem>('Offering', removed.offeringId);
+    if (offering && isCountedOffering(offering)) await addUserStats(removed.authorId, { totalComments: -1 }, eventId);
+    return;
+  }
+  if (record.eventName !== 'INSERT') return;
+
+  const comment = toItem<ICommentItem>(record.dynamodb?.NewImage);
+  const [offering, parent, users] = await Promise.all([
+    getItem<IOfferingItem>('Offering', comment.offeringId),
+    comment.parentId ? getItem<ICommentItem>('Comment', comment.parentId) : Promise.resolve(null),
+    listMentionableUsers(comment.content),
+  ]);
+  if (!offering) return;
+  if (isCountedOffering(offering)) await addUserStats(comment.authorId, { totalComments: 1 }, eventId);
+
+  const actor = { id: comment.authorId, name: comment.author };
+  const guidance = buildGuidanceNotifications(offering, comment, actor, parent ?? undefined);
+  const notifiedIds = new Set(guidance.map((notification) => notification.userId));
+  const viewerIds = users.length > 0 ? await loadViewerIds(offering) : null;
+  await putNotifications(
+    [...guidance, ...buildMentionNotifications(offering, users, actor, { viewerIds, notifiedIds }, comment)],
+    eventId
+  );
+}
+
+/**
+ * 縁の変更
+ * 縁が結ばれたとき、縁を結ばれた魂紋へ便りを届ける（解かれたときは届けない）
+ */
+async function handleFollowRecord(record: DynamoDBRecord): Promise<void> {
+  if (record.eventName !== 'INSERT') return;
+
+  const follow = toItem<IFollowItem>(record.dynamodb?.NewImage);
+  const actor = await getActor(follow.followerId);
+  const notification = actor && buildFollowNotification(follow.followeeId, actor);
+  if (notification) await putNotifications([notification], eventIdOf(record));
+}
+
+/**
+ * 供物の作者への祈念の便り（祈念した魂紋が見つからない場合は届けない）
+ */
+async function notifyPrayer(offering: IOfferingItem, userId: string, eventId: string): Promise<void> {
+  const actor = await getActor(userId);
+  const notification = actor && buildPrayerNotification(offering, actor);
+  if (notification) await putNotifications([notification], eventId);
+}
+
+/**
+ * 供物・導きの取得（存在しない場合は null）
+ */
+async function getItem<T>(model: 'Offering' | 'Comment', id: string): Promise<T | null> {
+  const result = await documentClient.send(new GetCommand({ TableName: tableName(model), Key: { id } }));
+  return (result.Item as T | undefined) ?? null;
+}
+
+/**
+ * レコードの ID（再試行されても変わらないため、処理済みの印・便りの ID に用いる）
+ */
+function eventIdOf(record: DynamoDBRecord): string {
+  if (!record.eventID) {
+    throw new Error('ストリームのレコードに eventID がありません');
+  }
+  return record.eventID;
+}
+
+/**
+ * 変更を受け付けた時刻（ストリームがレコードに付けるサーバー側の時刻）
+ */
+function receivedAt(record: DynamoDBRecord): Date {
+  const seconds = record.dynamodb?.ApproximateCreationDateTime;
+  return seconds ? new Date(seconds * 1000) : new Date();
+}
+
+/**
+ * ストリームの画像を項目に変換
+ */
+function toItem<T>(image: Record<string, unknown> | undefined): T {
+  if (!image) {
+    throw new Error('ストリームのレコードに項目の画像がありません');
+  }
+  return unmarshall(image as Record<string, AttributeValue>) as T;
+}
+
+/**
+ * 祈念者の集合への追加・削除
+ * 対象が削除済みの場合は項目を作らない
+ * @returns 更新後の供物・導き（対象が削除済みの場合は null）
+ */
+async function updateLikers<T>(
+  model: 'Offering' | 'Comment',
+  id: string,
+  userId: string,
+  action: 'ADD' | 'DELETE'
+): Promise<T | null> {
+  return ignoreMissingTarget<T>(
+    documentClient.send(
+      new UpdateCommand({
+        TableName: tableName(model),
+        Key: { id },
+        UpdateExpression: `${action} likedBy :likers`,
+        ConditionExpression: 'attribute_exists(id)',
+        ExpressionAttributeValues: { ':likers': new Set([userId]) },
+        ReturnValues: 'ALL_NEW',
+      })
+    )
+  );
+}
+
+/**
+ * 供物の閲覧数の加算（レコードごとに一度だけ。作者本人の閲覧は数えない）
+ * @returns 閲覧数に数えたか（供物が削除済み、または作者本人の閲覧の場合は false）
+ */
+async function addViewCount(offeringId: string, viewerId: string, eventId: string): Promise<boolean> {
+  return updateOnce(`${eventId}:viewCount`, {
+    TableName: tableName('Offering'),
+    Key: { id: offeringId },
+    UpdateExpression: 'ADD viewCount :one',
+    ConditionExpression: 'attribute_exists(id) AND authorId <> :viewerId',
+    ExpressionAttributeValues: { ':one': 1, ':viewerId': viewerId },
+  });
+}
+
+/**
+ * 更新後の項目の取り出し
+ * 対象の項目が存在しない（条件付き書き込みで弾かれた）場合は何もせず null を返す
+ */
+async function ignoreMissingTarget<T>(update: Promise<UpdateCommandOutput>): Promise<T | null> {
+  try {
+    return ((await update).Attributes as T | undefined) ?? null;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return null;
+    throw error;
+  }
+}
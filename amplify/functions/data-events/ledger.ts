@@ -0,0 +1,61 @@
+/**
+ * 供物台（Kumotsudai）- テーブルの変更の後処理関数の処理済みの印
+ *
+ * 失敗したストリームのレコードは再試行されるため、集計値の加算（ADD）をそのまま行うと
+ * 再試行のたびに数え直してしまう。加算と処理済みの印の書き込みを1つのトランザクションで行い、
+ * 印が既にある加算は適用しない。印の ID はストリームのレコードの eventID と加算先から作る。
+ *
+ * 機能:
+ * - 一度だけの更新（印が既にある場合は適用済みとして扱う）
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { TransactWriteCommand, type UpdateCommandInput } from '@aws-sdk/lib-dynamodb';
+import { documentClient, tableName } from '../shared/dynamodb';
+import type { IDataEventLedgerItem } from '../shared/tables';
+
+/** 印を残す期間（ストリームのレコードの保持期間の24時間より長くする） */
+const LEDGER_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+/** トランザクションに含める更新 */
+export type LedgerUpdate = Pick<
+  UpdateCommandInput,
+  'TableName' | 'Key' | 'ConditionExpression' | 'ExpressionAttributeNames' | 'ExpressionAttributeValues'
+> & { UpdateExpression: string };
+
+/**
+ * 一度だけの更新
+ * @param ledgerId 印の ID（ストリームのレコードの eventID と加算先から作る）
+ * @returns 更新が適用されているか（今回または以前の試行で適用済みなら true、更新の条件を満たさない場合は false）
+ */
+export async function updateOnce(ledgerId: string, update: LedgerUpdate): Promise<boolean> {
+  const item: IDataEventLedgerItem = { id: ledgerId, expiresAt: Math.floor(Date.now() / 1000) + LEDGER_TTL_SECONDS };
+  try {
+    await documentClient.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          {
+            Put: {
+              TableName: tableName('DataEventLedger'),
+              Item: item,
+              ConditionExpression: 'attribute_not_exists(id)',
+            },
+          },
+          { Update: update },
+        ],
+      })
+    );
+    return true;
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'TransactionCanceledException') throw error;
+
+    // 理由は TransactItems の順（印・更新）に並ぶ。条件の不成立以外（競合・スロットリング）は再試行させる
+    const [ledger, target] = (error as TransactionCanceledException).CancellationReasons ?? [];
+    if (ledger?.Code === 'ConditionalCheckFailed') return true;
+    if (target?.Code === 'ConditionalCheckFailed' && (!ledger?.Code || ledger.Code === 'None')) return false;
+    throw error;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * 供物台（Kumotsudai）- テーブルの変更の後処理関数の便り
+ *
+ * 便りの組み立て（src/services/notifications.ts）に渡す魂紋・閲覧者・探求を読み、
+ * 組み立てた便りを Notification のテーブルへ直接書き込む。
+ * 便りの ID はもとになったストリームのレコードの eventID から決まるため、再試行されても同じ便りは一度しか書き込まない。
+ * 魂紋・探求の一覧は変更ごとに表を読み直さず、関数の実行環境が使い回される間は一定時間だけ使い回す。
+ *
+ * 機能:
+ * - 便りの書き込み（ID が同じ便りは書き込み済みとして扱う）
+ * - 祈念・縁を結んだ魂紋の取得
+ * - 本文で呼ばれうる魂紋の取得（@名前 を含まない本文では読まない）
+ * - 供物を見られる魂紋の取得（縁者のみの供物では作者本人と縁者）
+ * - 全魂紋の保存した探求の取得・探求と照合する供物への変換
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import { createHash } from 'node:crypto';
+import { GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { extractMentionNames } from '../../../src/services/markdown';
+import type { NewNotification } from '../../../src/services/repositories/types';
+import type { Offering, SavedSearch } from '../../../src/types/domain';
+import { documentClient, queryAll, scanAll, tableName } from '../shared/dynamodb';
+import {
+  TABLE_INDEXES,
+  type IFollowItem,
+  type INotificationItem,
+  type IOfferingItem,
+  type ISavedSearchItem,
+  type IUserProfileItem,
+} from '../shared/tables';
+
+/** 魂紋・探求の一覧を使い回す時間（新しい魂紋・探求は最長でこの時間だけ遅れて照合される） */
+const LOOKUP_CACHE_MS = 60 * 1000;
+
+/**
+ * 便りの書き込み（受け取る魂紋ごとに1件）
+ * 再試行で同じ便りを重ねないよう、ID が既にある便りは書き込まない
+ * @param eventId 便りのもとになったストリームのレコードの eventID
+ */
+export async function putNotifications(notifications: NewNotification[], eventId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await Promise.all(
+    notifications.map(async (notification) => {
+      const item: INotificationItem = {
+        id: notificationId(eventId, notification),
+        userId: notification.userId,
+        type: notification.type,
+        title: notification.title,
+        content: notification.content,
+        offeringId: notification.relatedData?.offeringId,
+        guidanceId: notification.relatedData?.guidanceId,
+        actorId: notification.relatedData?.userId,
+        isRead: false,
+        createdAt: now,
+        updatedAt: now,
+        __typename: 'Notification',
+      };
+      try {
+        await documentClient.send(
+          new PutCommand({ TableName: tableName('Notification'), Item: item, ConditionExpression: 'attribute_not_exists(id)' })
+        );
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return;
+        throw error;
+      }
+    })
+  );
+}
+
+/**
+ * 便りの ID（レコードの eventID・受け手・種類・内容から決まる UUID 形式の値）
+ */
+function notificationId(eventId: string, notification: NewNotification): string {
+  const hex = createHash('sha256')
+    .update(JSON.stringify([eventId, notification.userId, notification.type, notification.title, notification.content]))
+    .digest('hex');
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20, 32)].join('-');
+}
+
+/**
+ * 便りを送る操作をした魂紋（魂紋が見つからない場合は null）
+ */
+export async function getActor(userId: string): Promise<{ id: string; name: string } | null> {
+  const result = await documentClient.send(
+    new GetCommand({
+      TableName: tableName('UserProfile'),
+      Key: { userId },
+      ProjectionExpression: 'userId, #name',
+      ExpressionAttributeNames: { '#name': 'name' },
+    })
+  );
+  const item = result.Item as IUserProfileItem | undefined;
+  return item ? { id: item.userId, name: item.name } : null;
+}
+
+/**
+ * 本文で呼ばれうる魂紋（呼び名の照合は便りの組み立てで行う）
+ * 本文に @名前 がなければ魂紋の表を読まずに空を返す
+ */
+export async function listMentionableUsers(source: string): Promise<{ id: string; name: string }[]> {
+  if (extractMentionNames(source).length === 0) return [];
+  return loadMentionableUsers();
+}
+
+/**
+ * 全魂紋の保存した探求
+ */
+export function listSavedSearches(): Promise<SavedSearch[]> {
+  return loadSavedSearches();
+}
+
+/** 全魂紋の名前（一定時間使い回す） */
+const loadMentionableUsers = cacheFor(LOOKUP_CACHE_MS, async () => {
+  const users = await scanAll<IUserProfileItem>({
+    TableName: tableName('UserProfile'),
+    ProjectionExpression: 'userId, #name',
+    ExpressionAttributeNames: { '#name': 'name' },
+  });
+  return users.map((item) => ({ id: item.userId, name: item.name }));
+});
+
+/** 全魂紋の保存した探求（一定時間使い回す） */
+const loadSavedSearches = cacheFor(LOOKUP_CACHE_MS, async (): Promise<SavedSearch[]> => {
+  const items = await scanAll<ISavedSearchItem>({ TableName: tableName('SavedSearch') });
+  return items.map((item) => ({
+    id: item.id,
+    userId: item.userId,
+    name: item.name,
+    query: item.query,
+    filters: {
+      genre: item.genre ?? 'all',
+      author: item.author ?? '',
+      date: item.dateRange ?? 'all',
+      minLikes: item.minLikes ?? 0,
+    },
+    createdAt: new Date(item.createdAt),
+  }));
+});
+
+/**
+ * 探求と照合する供物（奉納されたばかりのため、祈念・導き・閲覧は持たない）
+ */
+export function toPublishedOffering(item: IOfferingItem): Offering {
+  return {
+    id: item.id,
+    title: item.title,
+    content: item.content,
+    author: item.author,
+    authorId: item.authorId,
+    genres: item.genres,
+    imagePaths: item.imagePaths ?? [],
+    tags: item.tags ?? [],
+    visibility: item.visibility ?? 'public',
+    status: 'published',
+    createdAt: new Date(item.createdAt),
+    editedAt: item.editedAt ? new Date(item.editedAt) : undefined,
+    likes: 0,
+    comments: [],
+    likedBy: [],
+    views: 0,
+  };
+}
+
+/**
+ * 供物を見られる魂紋（縁者のみの供物では作者本人と縁者。全員に公開の供物は null）
+ * 縁者は Follow の索引 followeeId から取得する
+ */
+export async function loadViewerIds(offering: IOfferingItem): Promise<Set<string> | null> {
+  if (offering.visibility !== 'followers') return null;
+
+  const follows = await queryAll<Pick<IFollowItem, 'followerId'>>({
+    TableName: tableName('Follow'),
+    IndexName: TABLE_INDEXES.followsByFollowee,
+    KeyConditionExpression: 'followeeId = :followeeId',
+    ExpressionAttributeValues: { ':followeeId': offering.authorId },
+    ProjectionExpression: 'followerId',
+  });
+  return new Set([offering.authorId, ...follows.map((follow) => follow.followerId)]);
+}
+
+/**
+ * 読み込んだ結果を一定時間使い回す読み込み
+ * 関数の実行環境が使い回される間だけ有効で、読み込みに失敗した結果は使い回さない
+ */
+function cacheFor<T>(durationMs: number, load: () => Promise<T>): () => Promise<T> {
+  let cached: { promise: Promise<T>; expiresAt: number } | null = null;
+
+  return () => {
+    const now = Date.now();
+    if (!cached || cached.expiresAt <= now) {
+      const entry = { promise: load(), expiresAt: now + durationMs };
+      entry.promise.catch(() => {
+        if (cached === entry) cached = null;
+      });
+      cached = entry;
+    }
+    return cached.promise;
+  };
+}
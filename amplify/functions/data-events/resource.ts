@@ -0,0 +1,15 @@
+import { defineFunction } from '@aws-amplify/backend';
+
+/**
+ * テーブルの変更の後処理
+ * 祈念・導きへの祈念・閲覧の記録（DynamoDB ストリーム）を受け、供物・導きの集計値を更新する
+ * 祈念・供物・導き・縁の記録を受け、受け手への便りを作成する
+ * 公開中の供物の記録の変更を受け、魂紋の統計値を加減する
+ * テーブルを読み書きするため data のスタックに置く（backend.ts でストリームと権限を渡す）
+ */
+export const dataEvents = defineFunction({
+  name: 'data-events',
+  entry: './handler.ts',
+  timeoutSeconds: 60,
+  resourceGroupName: 'data',
+});
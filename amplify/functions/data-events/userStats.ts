@@ -0,0 +1,81 @@
+/**
+ * 供物台（Kumotsudai）- テーブルの変更の後処理関数の魂紋の統計値
+ *
+ * 魂紋の統計値（供物数・総祈念数・総導き数・総閲覧数）は、公開中の供物だけを数える。
+ * 供物の公開・非公開の切り替えと、公開中の供物への祈念・導き・閲覧の記録ごとに、
+ * UserProfile に差分を原子的に加算する（ADD による更新）。
+ * 加算は処理済みの印と同じトランザクションで行い（ledger.ts）、再試行されたレコードで二度数えない。
+ * 既存の魂紋の統計値は scripts/backfill-offerings.ts で数え直す。
+ *
+ * 機能:
+ * - 集計対象の供物（公開中）の判定
+ * - 魂紋の統計値への差分の加算
+ * - 供物の公開・非公開の切り替えに伴う作者・導きの主の統計値の加減
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import { queryAll, tableName } from '../shared/dynamodb';
+import { TABLE_INDEXES, type ICommentItem, type IOfferingItem, type UserStatField } from '../shared/tables';
+import { updateOnce } from './ledger';
+
+/**
+ * 統計値の集計対象の供物か（status が未設定の既存の供物は公開中として扱う）
+ */
+export function isCountedOffering(offering: Pick<IOfferingItem, 'status'>): boolean {
+  return (offering.status ?? 'published') === 'published';
+}
+
+/**
+ * 魂紋の統計値への差分の加算（レコードごとに一度だけ）
+ * 魂紋が存在しない場合は項目を作らない
+ * @param eventId 加算のもとになったストリームのレコードの eventID
+ */
+export async function addUserStats(
+  userId: string,
+  increments: Partial<Record<UserStatField, number>>,
+  eventId: string
+): Promise<void> {
+  const fields = (Object.keys(increments) as UserStatField[]).filter((field) => increments[field]);
+  if (fields.length === 0) return;
+
+  await updateOnce(`${eventId}:${userId}:${fields.join('+')}`, {
+    TableName: tableName('UserProfile'),
+    Key: { userId },
+    UpdateExpression: `ADD ${fields.map((field) => `${field} :${field}`).join(', ')}`,
+    ConditionExpression: 'attribute_exists(userId)',
+    ExpressionAttributeValues: Object.fromEntries(fields.map((field) => [`:${field}`, increments[field]])),
+  });
+}
+
+/**
+ * 供物が公開された（sign = 1）・公開をやめた（sign = -1）ときの統計値の加減
+ * 作者の供物数・総祈念数・総閲覧数と、供物に導きを記した魂紋の総導き数を加減する
+ */
+export async function applyOfferingStats(offering: IOfferingItem, sign: 1 | -1, eventId: string): Promise<void> {
+  const comments = await queryAll<Pick<ICommentItem, 'authorId'>>({
+    TableName: tableName('Comment'),
+    IndexName: TABLE_INDEXES.commentsByOffering,
+    KeyConditionExpression: 'offeringId = :offeringId',
+    ExpressionAttributeValues: { ':offeringId': offering.id },
+    ProjectionExpression: 'authorId',
+  });
+  const commentCounts = new Map<string, number>();
+  for (const comment of comments) {
+    commentCounts.set(comment.authorId, (commentCounts.get(comment.authorId) ?? 0) + 1);
+  }
+
+  await addUserStats(
+    offering.authorId,
+    {
+      offeringCount: sign,
+      totalLikes: sign * (offering.likedBy?.size ?? 0),
+      totalViews: sign * (offering.viewCount ?? 0),
+    },
+    eventId
+  );
+  for (const [userId, count] of commentCounts) {
+    await addUserStats(userId, { totalComments: sign * count }, eventId);
+  }
+}
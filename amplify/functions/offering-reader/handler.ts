@@ -0,0 +1,345 @@
+/**
+ * 供物台（Kumotsudai）- 供物の読み取り関数
+ *
+ * Offering モデルの読み取りは作者本人に限るため、他の魂紋の供物はこの関数が
+ * 閲覧可否（src/services/visibility.ts）を確かめてから返す。見せない供物は導き・祈念を読まず、返却もしない。
+ * 閲覧者は AppSync が検証した Cognito の sub とし、縁者のみの供物は閲覧者の縁（Follow）で判定する。
+ *
+ * 機能:
+ * - listPublishedOfferings : 公開中の供物の1ページ（新しい順）
+ * - getVisibleOffering : 供物の取得（見せない供物は null）
+ * - listVisibleOfferingsByAuthor : 作者の供物一覧（新しい順）
+ * - listVisibleRevisions : 供物の改訂履歴（古い順。見せない供物は空）
+ * - listUserStats・getUserStats : 魂紋の統計値（data-events 関数が書き込んだ値）
+ * - 導き（導きへの祈念を含む）・祈念者・閲覧数の付与
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import { GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { AppSyncIdentityCognito, AppSyncResolverEvent } from 'aws-lambda';
+import { isViewableOffering } from '../../../src/services/visibility';
+import { decodePageToken, documentClient, encodePageToken, queryAll, scanAll, tableName } from '../shared/dynamodb';
+import {
+  TABLE_INDEXES,
+  type ICommentItem,
+  type IFollowItem,
+  type IOfferingItem,
+  type IOfferingRevisionItem,
+  type IUserProfileItem,
+  type UserStatField,
+} from '../shared/tables';
+
+/** 1ページの最大件数 */
+const MAX_PAGE_SIZE = 100;
+
+/** 1ページを埋めるために索引を読む最大回数（見せない供物が続く場合に打ち切る） */
+const MAX_PAGE_READS = 10;
+
+/** 各問い合わせの引数 */
+interface IReaderArguments {
+  listPublishedOfferings: { limit: number; nextToken?: string | null };
+  getVisibleOffering: { offeringId: string };
+  listVisibleOfferingsByAuthor: { authorId: string };
+  listVisibleRevisions: { offeringId: string };
+  listUserStats: Record<string, never>;
+  getUserStats: { userId: string };
+}
+
+/** 返却する導き（data/resource.ts の VisibleComment） */
+interface IVisibleComment {
+  id: string;
+  authorId: string;
+  author: string;
+  content: string;
+  guidanceType: string | null;
+  parentId: string | null;
+  createdAt: string;
+  likedBy: string[];
+}
+
+/** 返却する供物（data/resource.ts の VisibleOffering） */
+interface IVisibleOffering {
+  id: string;
+  title: string;
+  content: string;
+  author: string;
+  authorId: string;
+  genres: string[];
+  imagePaths: string[] | null;
+  tags: string[] | null;
+  visibility: string | null;
+  status: string | null;
+  createdAt: string;
+  editedAt: string | null;
+  likedBy: string[];
+  views: number;
+  comments: IVisibleComment[];
+}
+
+/** 返却する1ページ（data/resource.ts の VisibleOfferingPage） */
+interface IVisibleOfferingPage {
+  items: IVisibleOffering[];
+  nextToken: string | null;
+}
+
+/** 返却する魂紋の統計値（data/resource.ts の UserStats） */
+interface IUserStats extends Record<UserStatField, number> {
+  userId: string;
+}
+
+/** 統計値として読む UserProfile の項目 */
+const USER_STATS_PROJECTION = 'userId, offeringCount, totalLikes, totalComments, totalViews';
+
+/**
+ * 問い合わせ名ごとの振り分け
+ */
+export const handler = async (
+  event: AppSyncResolverEvent<IReaderArguments[keyof IReaderArguments]>
+): Promise<
+  IVisibleOfferingPage | IVisibleOffering | IVisibleOffering[] | IOfferingRevisionItem[] | IUserStats | IUserStats[] | null
+> => {
+  const viewerId = (event.identity as AppSyncIdentityCognito | undefined)?.sub ?? null;
+
+  switch (event.info.fieldName) {
+    case 'listPublishedOfferings':
+      return listPublishedOfferings(event.arguments as IReaderArguments['listPublishedOfferings'], viewerId);
+    case 'getVisibleOffering':
+      return getVisibleOffering(event.arguments as IReaderArguments['getVisibleOffering'], viewerId);
+    case 'listVisibleOfferingsByAuthor':
+      return listVisibleOfferingsByAuthor(event.arguments as IReaderArguments['listVisibleOfferingsByAuthor'], viewerId);
+    case 'listVisibleRevisions':
+      return listVisibleRevisions(event.arguments as IReaderArguments['listVisibleRevisions'], viewerId);
+    case 'listUserStats':
+      return listUserStats();
+    case 'getUserStats':
+      return getUserStats(event.arguments as IReaderArguments['getUserStats']);
+    default:
+      throw new Error('未対応の問い合わせです');
+  }
+};
+
+/**
+ * 公開中の供物の1ページ（新しい順）
+ * status の索引から公開中の供物だけを読み、公開範囲の外の供物を除いてページを埋める
+ * ページの途中で埋まった場合は、最後に返す供物の索引キーを続きの位置とする
+ */
+async function listPublishedOfferings(
+  args: IReaderArguments['listPublishedOfferings'],
+  viewerId: string | null
+): Promise<IVisibleOfferingPage> {
+  const limit = Math.min(Math.max(args.limit, 1), MAX_PAGE_SIZE);
+  const followingIds = await listFollowingIds(viewerId);
+  const visible: IOfferingItem[] = [];
+  let startKey = decodePageToken(args.nextToken);
+
+  for (let read = 0; read < MAX_PAGE_READS && visible.length < limit; read++) {
+    const page = await documentClient.send(
+      new QueryCommand({
+        TableName: tableName('Offering'),
+        IndexName: TABLE_INDEXES.offeringsByStatus,
+        KeyConditionExpression: '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': 'published' },
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: startKey,
+      })
+    );
+
+    const items = (page.Items ?? []) as IOfferingItem[];
+    startKey = page.LastEvaluatedKey;
+    for (const [index, item] of items.entries()) {
+      if (!isViewableOffering(item, viewerId, followingIds)) continue;
+      visible.push(item);
+      if (visible.length === limit) {
+        if (index < items.length - 1) startKey = { id: item.id, status: item.status, createdAt: item.createdAt };
+        break;
+      }
+    }
+    if (!startKey) break;
+  }
+
+  const items = await Promise.all(visible.map(withRelations));
+  return { items, nextToken: encodePageToken(startKey) };
+}
+
+/**
+ * 供物の取得（存在しない・見せない供物は null）
+ */
+async function getVisibleOffering(
+  args: IReaderArguments['getVisibleOffering'],
+  viewerId: string | null
+): Promise<IVisibleOffering | null> {
+  const item = await getViewableItem(args.offeringId, viewerId);
+  return item ? withRelations(item) : null;
+}
+
+/**
+ * 作者の供物一覧（新しい順、見せない供物を除く）
+ */
+async function listVisibleOfferingsByAuthor(
+  args: IReaderArguments['listVisibleOfferingsByAuthor'],
+  viewerId: string | null
+): Promise<IVisibleOffering[]> {
+  const [items, followingIds] = await Promise.all([
+    queryAll<IOfferingItem>({
+      TableName: tableName('Offering'),
+      IndexName: TABLE_INDEXES.offeringsByAuthor,
+      KeyConditionExpression: 'authorId = :authorId',
+      ExpressionAttributeValues: { ':authorId': args.authorId },
+      ScanIndexForward: false,
+    }),
+    listFollowingIds(viewerId),
+  ]);
+
+  return Promise.all(items.filter((item) => isViewableOffering(item, viewerId, followingIds)).map(withRelations));
+}
+
+/**
+ * 供物の改訂履歴（古い順）
+ * 改訂前の版も供物の内容のため、見せない供物の履歴は読まずに空を返す
+ */
+async function listVisibleRevisions(
+  args: IReaderArguments['listVisibleRevisions'],
+  viewerId: string | null
+): Promise<IOfferingRevisionItem[]> {
+  if (!(await getViewableItem(args.offeringId, viewerId))) return [];
+
+  return queryAll<IOfferingRevisionItem>({
+    TableName: tableName('OfferingRevision'),
+    IndexName: TABLE_INDEXES.revisionsByOffering,
+    KeyConditionExpression: 'offeringId = :offeringId',
+    ExpressionAttributeValues: { ':offeringId': args.offeringId },
+    ScanIndexForward: true,
+  });
+}
+
+/**
+ * 全魂紋の統計値
+ */
+async function listUserStats(): Promise<IUserStats[]> {
+  const items = await scanAll<IUserProfileItem>({
+    TableName: tableName('UserProfile'),
+    ProjectionExpression: USER_STATS_PROJECTION,
+  });
+  return items.map(toUserStats);
+}
+
+/**
+ * 魂紋の統計値（存在しない魂紋は null）
+ */
+async function getUserStats(args: IReaderArguments['getUserStats']): Promise<IUserStats | null> {
+  const result = await documentClient.send(
+    new GetCommand({
+      TableName: tableName('UserProfile'),
+      Key: { userId: args.userId },
+      ProjectionExpression: USER_STATS_PROJECTION,
+    })
+  );
+  const item = result.Item as IUserProfileItem | undefined;
+  return item ? toUserStats(item) : null;
+}
+
+/**
+ * 魂紋の項目から統計値を取り出す（未集計は 0）
+ */
+function toUserStats(item: IUserProfileItem): IUserStats {
+  return {
+    userId: item.userId,
+    offeringCount: item.offeringCount ?? 0,
+    totalLikes: item.totalLikes ?? 0,
+    totalComments: item.totalComments ?? 0,
+    totalViews: item.totalViews ?? 0,
+  };
+}
+
+/**
+ * 閲覧者に見せてよい供物の項目（存在しない・見せない供物は null）
+ * 縁者のみの供物は、閲覧者が作者と縁を結んでいるかを確かめる
+ */
+async function getViewableItem(offeringId: string, viewerId: string | null): Promise<IOfferingItem | null> {
+  const result = await documentClient.send(new GetCommand({ TableName: tableName('Offering'), Key: { id: offeringId } }));
+
+  const item = result.Item as IOfferingItem | undefined;
+  if (!item) return null;
+
+  const followingIds = item.visibility === 'followers' && (await isFollowing(viewerId, item.authorId)) ? [item.authorId] : [];
+  return isViewableOffering(item, viewerId, followingIds) ? item : null;
+}
+
+/**
+ * 閲覧者の結縁先の魂紋 ID（Follow の主キー followerId で取得）
+ */
+async function listFollowingIds(viewerId: string | null): Promise<string[]> {
+  if (!viewerId) return [];
+
+  const follows = await queryAll<Pick<IFollowItem, 'followeeId'>>({
+    TableName: tableName('Follow'),
+    KeyConditionExpression: 'followerId = :followerId',
+    ExpressionAttributeValues: { ':followerId': viewerId },
+    ProjectionExpression: 'followeeId',
+  });
+  return follows.map((follow) => follow.followeeId);
+}
+
+/**
+ * 閲覧者が作者と縁を結んでいるか
+ */
+async function isFollowing(viewerId: string | null, authorId: string): Promise<boolean> {
+  if (!viewerId) return false;
+
+  const result = await documentClient.send(
+    new GetCommand({ TableName: tableName('Follow'), Key: { followerId: viewerId, followeeId: authorId } })
+  );
+  return !!result.Item;
+}
+
+/**
+ * 供物への導き・祈念者・閲覧数の付与
+ * 祈念者・閲覧数は data-events 関数が供物に書き込んだ集計値を使い、祈念・閲覧の記録は読まない
+ */
+async function withRelations(item: IOfferingItem): Promise<IVisibleOffering> {
+  return {
+    id: item.id,
+    title: item.title,
+    content: item.content,
+    author: item.author,
+    authorId: item.authorId,
+    genres: item.genres,
+    imagePaths: item.imagePaths ?? null,
+    tags: item.tags ?? null,
+    visibility: item.visibility ?? null,
+    status: item.status ?? null,
+    createdAt: item.createdAt,
+    editedAt: item.editedAt ?? null,
+    likedBy: [...(item.likedBy ?? [])],
+    views: item.viewCount ?? 0,
+    comments: await listComments(item.id),
+  };
+}
+
+/**
+ * 供物に寄せられた導きの一覧（古い順、導きへの祈念者を含む）
+ */
+async function listComments(offeringId: string): Promise<IVisibleComment[]> {
+  const comments = await queryAll<ICommentItem>({
+    TableName: tableName('Comment'),
+    IndexName: TABLE_INDEXES.commentsByOffering,
+    KeyConditionExpression: 'offeringId = :offeringId',
+    ExpressionAttributeValues: { ':offeringId': offeringId },
+    ScanIndexForward: true,
+  });
+
+  return comments.map((comment) => ({
+    id: comment.id,
+    authorId: comment.authorId,
+    author: comment.author,
+    content: comment.content,
+    guidanceType: comment.guidanceType ?? null,
+    parentId: comment.parentId ?? null,
+    createdAt: comment.createdAt,
+    likedBy: [...(comment.likedBy ?? [])],
+  }));
+}
@@ -0,0 +1,14 @@
+import { defineFunction } from '@aws-amplify/backend';
+
+/**
+ * 供物の読み取り
+ * 閲覧者に見せてよい供物だけを DynamoDB から読み出し、導き・祈念・閲覧数を付けて返す
+ * Offering モデルの読み取りは作者本人に限るため、他の魂紋の供物はこの関数を介して取得する
+ * テーブルを読むため data のスタックに置く（backend.ts で権限とテーブル名を渡す）
+ */
+export const offeringReader = defineFunction({
+  name: 'offering-reader',
+  entry: './handler.ts',
+  timeoutSeconds: 30,
+  resourceGroupName: 'data',
+});
@@ -0,0 +1,124 @@
+/**
+ * 供物台（Kumotsudai）- 順位の写し関数
+ *
+ * 1時間ごとの定期実行で、全員に公開中の供物の順位を種別・期間・所属の区分ごとに計算し
+ * （src/services/ranking.ts）、区分ごとのその日の写しを RankingSnapshot のテーブルへ直接書き込む。
+ * 同じ日のうちは写しを上書きするため、最新の写しが現在の順位、その前の日の写しが順位の変動の比較元になる。
+ * 縁者のみの供物は閲覧者によって見え方が異なるため、写しには含めない。
+ *
+ * 機能:
+ * - 全員に公開中の供物と導きの読み取り
+ * - 作者の所属の読み取り
+ * - 区分ごとの順位の写しの書き込み
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import type { ScheduledHandler } from 'aws-lambda';
+import { DEPARTMENTS, RANKING_TYPES } from '../../../src/components/data/constants';
+import { takeRankingSnapshots } from '../../../src/services/ranking';
+import type { Comment, Offering } from '../../../src/types/domain';
+import { documentClient, scanAll, tableName } from '../shared/dynamodb';
+import type { ICommentItem, IOfferingItem, IRankingSnapshotItem, IUserProfileItem } from '../shared/tables';
+
+export const handler: ScheduledHandler = async () => {
+  const [offerings, departmentByUserId] = await Promise.all([listRankedOfferings(), loadDepartments()]);
+
+  const snapshots = takeRankingSnapshots(offerings, {
+    types: RANKING_TYPES.map((type) => type.value),
+    departments: DEPARTMENTS.filter((department) => department.value),
+    departmentOf: (authorId) => departmentByUserId.get(authorId),
+  });
+
+  const createdAt = new Date().toISOString();
+  for (const snapshot of snapshots) {
+    const item: IRankingSnapshotItem = {
+      scope: snapshot.scope,
+      takenOn: snapshot.takenOn,
+      ranks: { ...snapshot.ranks },
+      createdAt,
+      updatedAt: createdAt,
+      __typename: 'RankingSnapshot',
+    };
+    await documentClient.send(new PutCommand({ TableName: tableName('RankingSnapshot'), Item: item }));
+  }
+};
+
+/**
+ * 順位を付ける供物（全員に公開中のもの。status・visibility が未設定の既存の供物を含める）
+ */
+async function listRankedOfferings(): Promise<Offering[]> {
+  const [items, comments] = await Promise.all([
+    scanAll<IOfferingItem>({
+      TableName: tableName('Offering'),
+      FilterExpression:
+        '(attribute_not_exists(#status) OR #status = :published) AND (attribute_not_exists(visibility) OR visibility = :public)',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':published': 'published', ':public': 'public' },
+    }),
+    scanAll<ICommentItem>({ TableName: tableName('Comment') }),
+  ]);
+
+  const commentsByOffering = new Map<string, Comment[]>();
+  for (const comment of comments) {
+    const offeringComments = commentsByOffering.get(comment.offeringId) ?? [];
+    offeringComments.push(toComment(comment));
+    commentsByOffering.set(comment.offeringId, offeringComments);
+  }
+  return items.map((item) => toOffering(item, commentsByOffering.get(item.id) ?? []));
+}
+
+/**
+ * 魂紋 ID → 所属
+ */
+async function loadDepartments(): Promise<Map<string, string | null | undefined>> {
+  const users = await scanAll<Pick<IUserProfileItem, 'userId' | 'department'>>({
+    TableName: tableName('UserProfile'),
+    ProjectionExpression: 'userId, department',
+  });
+  return new Map(users.map((user) => [user.userId, user.department]));
+}
+
+/**
+ * 導きの項目をフロントエンド型に変換（種類は順位に用いないため付けない）
+ */
+function toComment(item: ICommentItem): Comment {
+  const likedBy = [...(item.likedBy ?? [])];
+  return {
+    id: item.id,
+    authorId: item.authorId,
+    author: item.author,
+    content: item.content,
+    parentId: item.parentId ?? undefined,
+    createdAt: new Date(item.createdAt),
+    likes: likedBy.length,
+    likedBy,
+  };
+}
+
+/**
+ * 供物の項目をフロントエンド型に変換
+ */
+function toOffering(item: IOfferingItem, comments: Comment[]): Offering {
+  const likedBy = [...(item.likedBy ?? [])];
+  return {
+    id: item.id,
+    title: item.title,
+    content: item.content,
+    author: item.author,
+    authorId: item.authorId,
+    genres: item.genres,
+    imagePaths: item.imagePaths ?? [],
+    tags: item.tags ?? [],
+    visibility: 'public',
+    status: 'published',
+    createdAt: new Date(item.createdAt),
+    editedAt: item.editedAt ? new Date(item.editedAt) : undefined,
+    likes: likedBy.length,
+    comments,
+    likedBy,
+    views: item.viewCount ?? 0,
+  };
+}
@@ -0,0 +1,15 @@
+import { defineFunction } from '@aws-amplify/backend';
+
+/**
+ * 順位の写し
+ * 1時間ごとに全員に公開中の供物の順位を種別・期間・所属の区分ごとに計算し、RankingSnapshot のその日の写しを書き直す
+ * 画面は区分の最新の写しを現在の順位として示し、前の日の写しと比べて順位の変動を示す
+ * テーブルを読み書きするため data のスタックに置く（backend.ts で権限とテーブル名を渡す）
+ */
+export const rankingSnapshots = defineFunction({
+  name: 'ranking-snapshots',
+  entry: './handler.ts',
+  schedule: 'every 1h',
+  timeoutSeconds: 300,
+  resourceGroupName: 'data',
+});
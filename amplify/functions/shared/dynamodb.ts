@@ -0,0 +1,125 @@
+/**
+ * 供物台（Kumotsudai）- サーバー側の関数の DynamoDB ヘルパー
+ *
+ * 機能:
+ * - DocumentClient の共有
+ * - 環境変数からのテーブル名の取得・ストリームの変更元の特定
+ * - 全ページの問い合わせ・全件の読み取り・件数の集計
+ * - ページの続きの位置（LastEvaluatedKey）とトークンの相互変換
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  ScanCommand,
+  type QueryCommandInput,
+  type QueryCommandOutput,
+  type ScanCommandInput,
+  type ScanCommandOutput,
+} from '@aws-sdk/lib-dynamodb';
+import { tableEnvName, type TableModel } from './tables';
+
+/** 問い合わせの続きの位置 */
+export type ItemKey = Record<string, unknown>;
+
+/** DocumentClient（未設定の項目は書き込まない） */
+export const documentClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * モデルのテーブル名（backend.ts で渡した環境変数から取得）
+ */
+export function tableName(model: TableModel): string {
+  const name = process.env[tableEnvName(model)];
+  if (!name) {
+    throw new Error(`${model} のテーブル名が設定されていません`);
+  }
+  return name;
+}
+
+/**
+ * ストリームの ARN（arn:...:table/<テーブル名>/stream/...）から変更元のモデルを特定する
+ * @param models 関数がストリームを受けるモデル
+ */
+export function modelOfStreamArn(arn: string | undefined, models: readonly TableModel[]): TableModel {
+  const name = arn?.split('/')[1];
+  const model = models.find((candidate) => process.env[tableEnvName(candidate)] === name);
+  if (!model) {
+    throw new Error(`ストリームの変更元のテーブルが不明です: ${arn}`);
+  }
+  return model;
+}
+
+/**
+ * LastEvaluatedKey を辿って全ページを問い合わせる
+ */
+export async function queryAll<T>(input: Omit<QueryCommandInput, 'ExclusiveStartKey'>): Promise<T[]> {
+  const items: T[] = [];
+  let startKey: ItemKey | undefined = undefined;
+
+  do {
+    const page: QueryCommandOutput = await documentClient.send(new QueryCommand({ ...input, ExclusiveStartKey: startKey }));
+    items.push(...((page.Items ?? []) as T[]));
+    startKey = page.LastEvaluatedKey;
+  } while (startKey);
+
+  return items;
+}
+
+/**
+ * LastEvaluatedKey を辿ってテーブルの全件を読む
+ */
+export async function scanAll<T>(input: Omit<ScanCommandInput, 'ExclusiveStartKey'>): Promise<T[]> {
+  const items: T[] = [];
+  let startKey: ItemKey | undefined = undefined;
+
+  do {
+    const page: ScanCommandOutput = await documentClient.send(new ScanCommand({ ...input, ExclusiveStartKey: startKey }));
+    items.push(...((page.Items ?? []) as T[]));
+    startKey = page.LastEvaluatedKey;
+  } while (startKey);
+
+  return items;
+}
+
+/**
+ * 条件に合う項目の件数（項目は取得しない）
+ */
+export async function countAll(input: Omit<QueryCommandInput, 'ExclusiveStartKey' | 'Select'>): Promise<number> {
+  let count = 0;
+  let startKey: ItemKey | undefined = undefined;
+
+  do {
+    const page: QueryCommandOutput = await documentClient.send(new QueryCommand({ ...input, Select: 'COUNT', ExclusiveStartKey: startKey }));
+    count += page.Count ?? 0;
+    startKey = page.LastEvaluatedKey;
+  } while (startKey);
+
+  return count;
+}
+
+/**
+ * 続きの位置をクライアントへ渡すトークンに変換
+ */
+export function encodePageToken(key: ItemKey | undefined): string | null {
+  return key ? Buffer.from(JSON.stringify(key)).toString('base64url') : null;
+}
+
+/**
+ * トークンから続きの位置を復元（不正なトークンは例外）
+ */
+export function decodePageToken(token: string | null | undefined): ItemKey | undefined {
+  if (!token) return undefined;
+  try {
+    const key: unknown = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (key && typeof key === 'object' && !Array.isArray(key)) return key as ItemKey;
+  } catch {
+    // 下で不正なトークンとして扱う
+  }
+  throw new Error('ページのトークンが不正です');
+}
@@ -0,0 +1,193 @@
+/**
+ * 供物台（Kumotsudai）- サーバー側の関数が読み書きするテーブル
+ *
+ * 関数には backend.ts でテーブル名を環境変数として渡し、
+ * AppSync を介さず DynamoDB を直接読み書きさせる。
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+/** 関数が読み書きするモデル（DataEventLedger はデータのスキーマの外に backend.ts が作るテーブル） */
+export type TableModel =
+  | 'UserProfile'
+  | 'Offering'
+  | 'OfferingRevision'
+  | 'Comment'
+  | 'Like'
+  | 'CommentPrayer'
+  | 'OfferingView'
+  | 'Notification'
+  | 'SavedSearch'
+  | 'Follow'
+  | 'RankingSnapshot'
+  | 'DataEventLedger';
+
+/**
+ * モデルのテーブル名を渡す環境変数の名前（例: CommentPrayer → COMMENT_PRAYER_TABLE_NAME）
+ */
+export function tableEnvName(model: TableModel): string {
+  return `${model.replace(/(?<=[a-z])(?=[A-Z])/g, '_').toUpperCase()}_TABLE_NAME`;
+}
+
+/**
+ * 二次索引の名前（data/resource.ts の secondaryIndexes に Amplify が付ける既定の名前）
+ */
+export const TABLE_INDEXES = {
+  offeringsByStatus: 'offeringsByStatusAndCreatedAt',
+  offeringsByAuthor: 'offeringsByAuthorIdAndCreatedAt',
+  revisionsByOffering: 'offeringRevisionsByOfferingIdAndRevisedAt',
+  commentsByOffering: 'commentsByOfferingIdAndCreatedAt',
+  commentPrayersByOffering: 'commentPrayersByOfferingIdAndCreatedAt',
+  followsByFollowee: 'followsByFolloweeIdAndCreatedAt',
+} as const;
+
+// ============================================================================
+// テーブルの項目（Amplify が保存する形。未設定の項目は null または欠落）
+// ============================================================================
+
+/** 魂紋の統計値（data/resource.ts の UserStats の項目） */
+export type UserStatField = 'offeringCount' | 'totalLikes' | 'totalComments' | 'totalViews';
+
+/**
+ * 魂紋
+ * 統計値はスキーマに持たせず、data-events 関数だけが公開中の供物から集計して書き込む
+ * （本人にも書き換えさせないため。読み取りは offering-reader の listUserStats・getUserStats）
+ */
+export interface IUserProfileItem extends Partial<Record<UserStatField, number | null>> {
+  userId: string;
+  name: string;
+  department?: string | null;
+}
+
+/**
+ * 供物
+ * likedBy・viewCount はスキーマに持たせず、data-events 関数だけが書き込む集計値
+ * （作者にも書き換えさせないため。未集計の既存レコードは scripts/backfill-offerings.ts で埋める）
+ */
+export interface IOfferingItem {
+  id: string;
+  title: string;
+  content: string;
+  author: string;
+  authorId: string;
+  genres: string[];
+  imagePaths?: string[] | null;
+  tags?: string[] | null;
+  visibility?: 'public' | 'followers' | null;
+  status?: 'draft' | 'published' | 'archived' | 'deleted' | null;
+  createdAt: string;
+  editedAt?: string | null;
+  /** 祈念者の魂紋 ID（String Set。祈念の作成・削除で追加・削除する） */
+  likedBy?: Set<string>;
+  /** 閲覧数（閲覧の記録の作成で1ずつ加算する） */
+  viewCount?: number;
+}
+
+export interface IOfferingRevisionItem {
+  id: string;
+  offeringId: string;
+  editorId: string;
+  title: string;
+  content: string;
+  genres: string[];
+  revisedAt: string;
+}
+
+/**
+ * 導き
+ * likedBy はスキーマに持たせず、data-events 関数だけが書き込む集計値
+ */
+export interface ICommentItem {
+  id: string;
+  offeringId: string;
+  authorId: string;
+  author: string;
+  content: string;
+  guidanceType?: string | null;
+  parentId?: string | null;
+  createdAt: string;
+  /** 導きへの祈念者の魂紋 ID（String Set。導きへの祈念の作成・削除で追加・削除する） */
+  likedBy?: Set<string>;
+}
+
+export interface ILikeItem {
+  offeringId: string;
+  userId: string;
+  createdAt: string;
+}
+
+export interface IOfferingViewItem {
+  offeringId: string;
+  viewerId: string;
+  viewedOn: string;
+  createdAt: string;
+}
+
+/**
+ * 便り
+ * 関数から直接書き込むため、AppSync が付ける updatedAt・__typename も自前で設定する
+ */
+export interface INotificationItem {
+  id: string;
+  userId: string;
+  type: string;
+  title: string;
+  content: string;
+  offeringId?: string;
+  guidanceId?: string;
+  actorId?: string;
+  isRead: boolean;
+  createdAt: string;
+  updatedAt: string;
+  __typename: 'Notification';
+}
+
+export interface ISavedSearchItem {
+  id: string;
+  userId: string;
+  name: string;
+  query: string;
+  genre?: string | null;
+  author?: string | null;
+  dateRange?: 'all' | 'today' | 'week' | 'month' | null;
+  minLikes?: number | null;
+  createdAt: string;
+}
+
+export interface IFollowItem {
+  followerId: string;
+  followeeId: string;
+  createdAt: string;
+}
+
+export interface ICommentPrayerItem {
+  commentId: string;
+  offeringId: string;
+  userId: string;
+  createdAt: string;
+}
+
+/**
+ * 順位の写し
+ * 関数から直接書き込むため、AppSync が付ける updatedAt・__typename も自前で設定する
+ */
+export interface IRankingSnapshotItem {
+  scope: string;
+  takenOn: string;
+  ranks: Record<string, number>;
+  createdAt: string;
+  updatedAt: string;
+  __typename: 'RankingSnapshot';
+}
+
+/**
+ * 処理済みの変更の印
+ * data-events 関数が加算と同じトランザクションで書き込み、再試行されたレコードで同じ加算を繰り返さないようにする
+ * （expiresAt を過ぎた印は DynamoDB の TTL で消える）
+ */
+export interface IDataEventLedgerItem {
+  id: string;
+  /** 消してよい時刻（UNIX 時間の秒） */
+  expiresAt: number;
+}
@@ -0,0 +1,21 @@
+import { defineStorage } from '@aws-amplify/backend';
+
+/**
+ * 供物の添付画像・魂紋の画像（アイコン）の保存先
+ * 画像は投稿者の Cognito Identity ID ごとの領域に保存し、投稿者本人のみが書き込み・削除できる
+ * 供物・魂紋は認証済みユーザー全員が閲覧するため、読み取りは認証済みユーザー全員に許可する
+ * @see https://docs.amplify.aws/gen2/build-a-backend/storage
+ */
+export const storage = defineStorage({
+  name: 'kumotsudaiMedia',
+  access: (allow) => ({
+    'offering-images/{entity_id}/*': [
+      allow.entity('identity').to(['read', 'write', 'delete']),
+      allow.authenticated.to(['read']),
+    ],
+    'avatars/{entity_id}/*': [
+      allow.entity('identity').to(['read', 'write', 'delete']),
+      allow.authenticated.to(['read']),
+    ],
+  }),
+});
@@ -6,7 +6,8 @@ import tseslint from 'typescript-eslint'
 import { globalIgnores } from 'eslint/config'
 
 export default tseslint.config([
-  globalIgnores(['dist']),
+  // import/ と amplify-backup/ は移行前の控え（ビルド対象外）
+  globalIgnores(['dist', 'import', 'amplify-backup']),
   {
     files: ['**/*.{ts,tsx}'],
     extends: [
@@ -20,4 +21,17 @@ export default tseslint.config([
       globals: globals.browser,
     },
   },
+  {
+    // shadcn/ui の生成コードはバリアント定義をコンポーネントと同じファイルから公開する
+    files: ['src/components/ui/**/*.tsx'],
+    rules: {
+      'react-refresh/only-export-components': 'off',
+    },
+  },
+  {
+    files: ['amplify/**/*.ts', 'scripts/**/*.ts', '*.config.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ])
@@ -0,0 +1,190 @@
+/**
+ * 供物台（Kumotsudai）- 供物の集計値の埋め戻し
+ *
+ * data-events 関数が書き込む集計値（供物・導きの祈念者、供物の閲覧数）を、
+ * 祈念・導きへの祈念・閲覧の記録から数え直して書き込む（作者本人の閲覧は数えない）。
+ * 公開状態（status）・公開範囲（visibility）が未設定の既存の供物には、公開中・全員に公開を書き込む
+ * （status の索引に載せ、公開中の供物の一覧に含めるため）。
+ * 魂紋の統計値（供物数・総祈念数・総導き数・総閲覧数）も公開中の供物から数え直して書き込む。
+ * 集計値の導入前から存在するレコードに対して、デプロイ後に一度実行する。
+ * 記録から数え直すため、何度実行しても同じ結果になる。
+ *
+ * 起動:
+ *   OFFERING_TABLE_NAME=... COMMENT_TABLE_NAME=... LIKE_TABLE_NAME=... \
+ *   COMMENT_PRAYER_TABLE_NAME=... OFFERING_VIEW_TABLE_NAME=... USER_PROFILE_TABLE_NAME=... npm run backfill
+ * テーブル名は Amplify のコンソール（データ）またはデプロイ先の DynamoDB で確認する。
+ * 認証情報・リージョンは AWS SDK の既定（AWS_PROFILE / AWS_REGION など）に従う。
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import { ScanCommand, UpdateCommand, type ScanCommandOutput } from '@aws-sdk/lib-dynamodb';
+import { countAll, documentClient, queryAll, scanAll, tableName, type ItemKey } from '../amplify/functions/shared/dynamodb';
+import {
+  TABLE_INDEXES,
+  type ICommentItem,
+  type ICommentPrayerItem,
+  type ILikeItem,
+  type IOfferingItem,
+  type IUserProfileItem,
+  type UserStatField,
+} from '../amplify/functions/shared/tables';
+
+/** 魂紋の統計値 */
+type UserStats = Record<UserStatField, number>;
+
+/**
+ * 供物の表を1ページずつ読み、供物ごとに集計値を書き込んだ後、魂紋の統計値を書き込む
+ */
+async function main(): Promise<void> {
+  const statsByUser = new Map<string, UserStats>();
+  let startKey: ItemKey | undefined = undefined;
+  let processed = 0;
+
+  do {
+    const page: ScanCommandOutput = await documentClient.send(
+      new ScanCommand({ TableName: tableName('Offering'), ExclusiveStartKey: startKey })
+    );
+    for (const offering of (page.Items ?? []) as IOfferingItem[]) {
+      await backfillAccessFields(offering);
+      await backfillOffering(offering, statsByUser);
+      processed++;
+    }
+    startKey = page.LastEvaluatedKey;
+    console.info(`${processed} 件の供物を処理しました`);
+  } while (startKey);
+
+  await writeUserStats(statsByUser);
+}
+
+/**
+ * 未設定の公開状態・公開範囲を、既存の供物の扱い（公開中・全員に公開）で書き込む
+ */
+async function backfillAccessFields(offering: IOfferingItem): Promise<void> {
+  if (offering.status && offering.visibility) return;
+
+  await documentClient.send(
+    new UpdateCommand({
+      TableName: tableName('Offering'),
+      Key: { id: offering.id },
+      UpdateExpression: 'SET #status = if_not_exists(#status, :published), visibility = if_not_exists(visibility, :public)',
+      ConditionExpression: 'attribute_exists(id)',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':published': 'published', ':public': 'public' },
+    })
+  );
+}
+
+/**
+ * 供物とその導きの集計値を記録から数え直す
+ * 公開中の供物は、作者・導きの主の統計値に加える
+ */
+async function backfillOffering(offering: IOfferingItem, statsByUser: Map<string, UserStats>): Promise<void> {
+  const byOffering = {
+    KeyConditionExpression: 'offeringId = :offeringId',
+    ExpressionAttributeValues: { ':offeringId': offering.id },
+  };
+  const [likes, views, comments, prayers] = await Promise.all([
+    queryAll<ILikeItem>({ TableName: tableName('Like'), ...byOffering }),
+    countAll({
+      TableName: tableName('OfferingView'),
+      KeyConditionExpression: byOffering.KeyConditionExpression,
+      FilterExpression: 'viewerId <> :authorId',
+      ExpressionAttributeValues: { ...byOffering.ExpressionAttributeValues, ':authorId': offering.authorId },
+    }),
+    queryAll<ICommentItem>({ TableName: tableName('Comment'), IndexName: TABLE_INDEXES.commentsByOffering, ...byOffering }),
+    queryAll<ICommentPrayerItem>({
+      TableName: tableName('CommentPrayer'),
+      IndexName: TABLE_INDEXES.commentPrayersByOffering,
+      ...byOffering,
+    }),
+  ]);
+
+  await writeLikers('Offering', offering.id, likes.map((like) => like.userId), views);
+  for (const comment of comments) {
+    const likers = prayers.filter((prayer) => prayer.commentId === comment.id).map((prayer) => prayer.userId);
+    await writeLikers('Comment', comment.id, likers);
+  }
+
+  if ((offering.status ?? 'published') !== 'published') return;
+  const authorStats = statsOf(statsByUser, offering.authorId);
+  authorStats.offeringCount += 1;
+  authorStats.totalLikes += likes.length;
+  authorStats.totalViews += views;
+  for (const comment of comments) {
+    statsOf(statsByUser, comment.authorId).totalComments += 1;
+  }
+}
+
+/**
+ * 魂紋の統計値（未集計の魂紋は 0 から数える）
+ */
+function statsOf(statsByUser: Map<string, UserStats>, userId: string): UserStats {
+  let stats = statsByUser.get(userId);
+  if (!stats) {
+    stats = { offeringCount: 0, totalLikes: 0, totalComments: 0, totalViews: 0 };
+    statsByUser.set(userId, stats);
+  }
+  return stats;
+}
+
+/**
+ * すべての魂紋に統計値を書き込む（公開中の供物を持たない魂紋は 0）
+ */
+async function writeUserStats(statsByUser: Map<string, UserStats>): Promise<void> {
+  const users = await scanAll<Pick<IUserProfileItem, 'userId'>>({
+    TableName: tableName('UserProfile'),
+    ProjectionExpression: 'userId',
+  });
+
+  for (const { userId } of users) {
+    const stats = statsOf(statsByUser, userId);
+    await documentClient.send(
+      new UpdateCommand({
+        TableName: tableName('UserProfile'),
+        Key: { userId },
+        UpdateExpression:
+          'SET offeringCount = :offeringCount, totalLikes = :totalLikes, totalComments = :totalComments, totalViews = :totalViews',
+        ConditionExpression: 'attribute_exists(userId)',
+        ExpressionAttributeValues: {
+          ':offeringCount': stats.offeringCount,
+          ':totalLikes': stats.totalLikes,
+          ':totalComments': stats.totalComments,
+          ':totalViews': stats.totalViews,
+        },
+      })
+    );
+  }
+  console.info(`${users.length} 件の魂紋の統計値を書き込みました`);
+}
+
+/**
+ * 祈念者の集合（と閲覧数）の書き込み
+ * DynamoDB は空の集合を保存できないため、祈念者がいない場合は属性を消す
+ */
+async function writeLikers(model: 'Offering' | 'Comment', id: string, likers: string[], viewCount?: number): Promise<void> {
+  const assignments = viewCount === undefined ? [] : ['viewCount = :viewCount'];
+  const values: Record<string, unknown> = viewCount === undefined ? {} : { ':viewCount': viewCount };
+  if (likers.length > 0) {
+    assignments.push('likedBy = :likers');
+    values[':likers'] = new Set(likers);
+  }
+
+  const set = assignments.length > 0 ? `SET ${assignments.join(', ')}` : '';
+  const remove = likers.length > 0 ? '' : 'REMOVE likedBy';
+  await documentClient.send(
+    new UpdateCommand({
+      TableName: tableName(model),
+      Key: { id },
+      UpdateExpression: [set, remove].filter(Boolean).join(' '),
+      ConditionExpression: 'attribute_exists(id)',
+      ExpressionAttributeValues: Object.keys(values).length > 0 ? values : undefined,
+    })
+  );
+}
+
+main().catch((error: unknown) => {
+  console.error('供物の集計値の埋め戻しに失敗しました', error);
+  process.exitCode = 1;
+});
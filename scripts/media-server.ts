@@ -0,0 +1,136 @@
+/**
+ * 供物台（Kumotsudai）- ローカル画像サーバー
+ *
+ * Amplify Storage（S3）の代わりに開発環境で使う画像の保存先。
+ * 供物の添付画像・魂紋の画像を開発機のファイルとして保存し、HTTP で読み書きする。
+ * Node.js の標準モジュールのみで実装する。
+ *
+ * 起動:
+ *   npm run media               （既定: http://localhost:8788、保存先: .local-media/）
+ *   MEDIA_PORT=9000 MEDIA_DIR=/tmp/media npm run media
+ * アプリ側は REACT_APP_DATA_BACKEND=local / REACT_APP_LOCAL_MEDIA_URL=http://localhost:8788 で接続する。
+ *
+ * 機能:
+ * - PUT /media/<パス> で保存、GET で取得、DELETE で削除
+ * - 画像の種類（JPEG・PNG）と大きさの制限
+ * - パスの検証（保存先の外への書き込みを防ぐ）
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { dirname, resolve, sep } from 'node:path';
+
+/** 受け付ける画像の最大長（端末で縮小した後の上限に合わせる） */
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+/** 受け付ける拡張子と MIME タイプ */
+const CONTENT_TYPES: ReadonlyMap<string, string> = new Map([
+  ['jpg', 'image/jpeg'],
+  ['png', 'image/png'],
+]);
+
+/** 受け付けるパス（/media/ 以降。英数字・ハイフン・下線の階層と拡張子） */
+const MEDIA_PATH_PATTERN = /^\/media\/((?:[A-Za-z0-9_-]+\/)*[A-Za-z0-9_-]+\.([a-z]+))$/;
+
+const mediaDir = resolve(process.env.MEDIA_DIR ?? '.local-media');
+
+/**
+ * 応答の送信（ブラウザから直接読み書きするため CORS を許可する）
+ */
+function send(response: ServerResponse, status: number, body: string | Buffer = '', contentType = 'text/plain; charset=utf-8'): void {
+  response.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Content-Type': contentType,
+  });
+  response.end(body);
+}
+
+/**
+ * 要求本文の読み取り
+ * @returns 本文（上限を超えた場合は null）
+ */
+async function readBody(request: IncomingMessage): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_UPLOAD_BYTES) return null;
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 要求の処理
+ */
+async function handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+
+  const match = MEDIA_PATH_PATTERN.exec(new URL(request.url ?? '/', 'http://localhost').pathname);
+  const contentType = match ? CONTENT_TYPES.get(match[2]) : undefined;
+  if (!match || !contentType) {
+    send(response, 404, '画像が見つかりません\n');
+    return;
+  }
+
+  const filePath = resolve(mediaDir, match[1]);
+  if (!filePath.startsWith(mediaDir + sep)) {
+    send(response, 400, 'パスが不正です\n');
+    return;
+  }
+
+  switch (request.method) {
+    case 'GET': {
+      const data = await readFile(filePath).catch(() => null);
+      if (data) {
+        send(response, 200, data, contentType);
+      } else {
+        send(response, 404, '画像が見つかりません\n');
+      }
+      return;
+    }
+    case 'PUT': {
+      if (request.headers['content-type'] !== contentType) {
+        send(response, 415, '拡張子と画像の種類が一致しません\n');
+        return;
+      }
+      const body = await readBody(request);
+      if (!body) {
+        send(response, 413, `画像は ${MAX_UPLOAD_BYTES} バイトまでです\n`);
+        return;
+      }
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+      console.log(`[media] 保存 ${match[1]}（${body.length} バイト）`);
+      send(response, 201);
+      return;
+    }
+    case 'DELETE':
+      await rm(filePath, { force: true });
+      console.log(`[media] 削除 ${match[1]}`);
+      send(response, 204);
+      return;
+    default:
+      send(response, 405, '対応していない操作です\n');
+  }
+}
+
+const server = createServer((request, response) => {
+  handleRequest(request, response).catch((error) => {
+    console.error('[media] 処理に失敗しました:', error);
+    if (!response.headersSent) send(response, 500, '処理に失敗しました\n');
+  });
+});
+
+const port = Number(process.env.MEDIA_PORT ?? 8788);
+server.listen(port, () => {
+  console.log(`[media] http://localhost:${port} で待機しています（保存先: ${mediaDir}）`);
+});
@@ -0,0 +1,254 @@
+/**
+ * 供物台（Kumotsudai）- ローカル リアルタイムサーバー
+ *
+ * AWS WebSocket API の代わりに開発環境で使う WebSocket サーバー。
+ * Node.js の標準モジュールのみで RFC 6455 の最小限（テキストフレーム・ping/pong・close）を実装する。
+ *
+ * 起動:
+ *   npm run realtime            （既定: ws://localhost:8787）
+ *   REALTIME_PORT=9000 npm run realtime
+ * アプリ側は REACT_APP_REALTIME_ENABLED=true / REACT_APP_WS_URL=ws://localhost:8787 で接続する。
+ *
+ * 機能:
+ * - prayer / guidance / notification を送信者以外の全接続へ中継
+ * - heartbeat への応答
+ * - 不正なメッセージへの error 応答
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+/** ハンドシェイクで使う固定 GUID（RFC 6455） */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** 受け付けるフレームの最大長 */
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+/** 中継するメッセージの種類 */
+const RELAYED_TYPES: ReadonlySet<string> = new Set(['prayer', 'guidance', 'notification']);
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * 接続中のクライアント
+ */
+interface IConnection {
+  readonly id: string;
+  readonly socket: Duplex;
+  /** 未処理の受信データ */
+  buffer: Buffer;
+}
+
+const connections = new Map<string, IConnection>();
+
+/**
+ * フレームの組み立て（サーバーからの送信はマスクしない）
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * 先頭フレームの読み取り
+ * @returns フレームと消費したバイト数（データが揃っていない場合は null）
+ */
+function decodeFrame(buffer: Buffer): { fin: boolean; opcode: number; payload: Buffer; size: number } | null {
+  if (buffer.length < 2) return null;
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < offset + 2) return null;
+    length = buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (length === 127) {
+    if (buffer.length < offset + 8) return null;
+    const longLength = buffer.readBigUInt64BE(offset);
+    if (longLength > BigInt(MAX_PAYLOAD_BYTES)) throw new Error('payload too large');
+    length = Number(longLength);
+    offset += 8;
+  }
+  if (length > MAX_PAYLOAD_BYTES) throw new Error('payload too large');
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+  return { fin, opcode, payload, size: offset + length };
+}
+
+/**
+ * メッセージの送信
+ */
+function sendMessage(connection: IConnection, message: object): void {
+  if (!connection.socket.writable) return;
+  connection.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+}
+
+/**
+ * エラーメッセージの送信
+ */
+function sendError(connection: IConnection, reason: string): void {
+  sendMessage(connection, {
+    type: 'error',
+    payload: { reason },
+    timestamp: new Date().toISOString(),
+    messageId: randomUUID()
+  });
+}
+
+/**
+ * 接続の終了
+ */
+function closeConnection(connection: IConnection, code: number = 1000): void {
+  if (!connections.delete(connection.id)) return;
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code, 0);
+  if (connection.socket.writable) connection.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+  console.log(`[realtime] 切断 ${connection.id}（接続数 ${connections.size}）`);
+}
+
+/**
+ * テキストメッセージの処理
+ */
+function handleText(connection: IConnection, text: string): void {
+  let message: { type?: unknown; messageId?: unknown };
+  try {
+    message = JSON.parse(text);
+  } catch {
+    sendError(connection, 'JSON として解釈できません');
+    return;
+  }
+  if (typeof message?.type !== 'string' || typeof message.messageId !== 'string') {
+    sendError(connection, 'type と messageId は必須です');
+    return;
+  }
+
+  if (message.type === 'heartbeat') {
+    sendMessage(connection, {
+      type: 'heartbeat',
+      payload: null,
+      timestamp: new Date().toISOString(),
+      messageId: randomUUID()
+    });
+    return;
+  }
+
+  if (!RELAYED_TYPES.has(message.type)) {
+    sendError(connection, `未対応のメッセージです: ${message.type}`);
+    return;
+  }
+
+  // 受け取った内容をそのまま中継する（messageId で受信側が重複を除く）
+  const frame = encodeFrame(OPCODE_TEXT, Buffer.from(text));
+  for (const other of connections.values()) {
+    if (other.id !== connection.id && other.socket.writable) other.socket.write(frame);
+  }
+}
+
+/**
+ * 受信データの処理
+ */
+function handleData(connection: IConnection, chunk: Buffer): void {
+  connection.buffer = Buffer.concat([connection.buffer, chunk]);
+
+  for (;;) {
+    let frame: ReturnType<typeof decodeFrame>;
+    try {
+      frame = decodeFrame(connection.buffer);
+    } catch {
+      closeConnection(connection, 1009);
+      return;
+    }
+    if (!frame) return;
+    connection.buffer = connection.buffer.subarray(frame.size);
+
+    switch (frame.opcode) {
+      case OPCODE_TEXT:
+        // アプリのメッセージは小さいため、分割フレームは扱わない
+        if (!frame.fin) {
+          closeConnection(connection, 1003);
+          return;
+        }
+        handleText(connection, frame.payload.toString('utf8'));
+        break;
+      case OPCODE_PING:
+        connection.socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        break;
+      case OPCODE_PONG:
+        break;
+      case OPCODE_CLOSE:
+        closeConnection(connection);
+        return;
+      default:
+        closeConnection(connection, 1003);
+        return;
+    }
+  }
+}
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain; charset=utf-8' });
+  response.end('WebSocket で接続してください\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const connection: IConnection = { id: randomUUID(), socket, buffer: Buffer.alloc(0) };
+  connections.set(connection.id, connection);
+  console.log(`[realtime] 接続 ${connection.id}（接続数 ${connections.size}）`);
+
+  socket.on('data', (chunk: Buffer) => handleData(connection, chunk));
+  socket.on('close', () => closeConnection(connection));
+  socket.on('error', () => closeConnection(connection));
+});
+
+const port = Number(process.env.REALTIME_PORT ?? 8787);
+server.listen(port, () => {
+  console.log(`[realtime] ws://localhost:${port} で待機しています`);
+});
@@ -28,15 +28,19 @@ import React, {
   useCallback,
   useMemo,
 } from "react";
-import { AppProvider, useApp } from "./components/AppContext";
+import { AppProvider } from "./components/AppContext";
+import { useApp } from "./components/useApp";
 import { LoginScreen } from "./components/LoginScreen";
 import { RegisterScreen } from "./components/RegisterScreen";
+import { ConfirmSignUpScreen } from "./components/ConfirmSignUpScreen";
+import { OfferingRouteModal } from "./components/OfferingRouteModal";
 import { MainApp } from "./components/MainApp";
 import { ProfileEditScreen } from "./components/ProfileEditScreen";
 import { HelpScreen } from "./components/HelpScreen";
 import { ContactScreen } from "./components/ContactScreen";
 import { CreatorsScreen } from "./components/CreatorsScreen";
 import { UserProfileScreen } from "./components/UserProfileScreen";
+import { NotificationsScreen } from "./components/NotificationsScreen";
 import { UltraFastLoadingScreen } from "./components/LoadingScreen";
 import { OptimizedNetworkMonitor } from "./components/NetworkMonitor";
 import { EnterpriseErrorBoundary } from "./components/ErrorBoundary";
@@ -69,7 +73,7 @@ import type { ISystemStatus } from "./types/enterprise";
  */
 const OptimizedAppRouter: React.FC = () => {
   // Context から状態取得
-  const { currentScreen, theme } = useApp();
+  const { currentScreen, theme, isRestoringSession, isAuthenticated } = useApp();
 
   // 依存関係注入（サービス層）- useMemo で最適化
   const performanceMonitor = useMemo(
@@ -323,6 +327,14 @@ const OptimizedAppRouter: React.FC = () => {
         );
         break;
 
+      case "confirmSignUp":
+        screenComponent = (
+          <div role="main" aria-label="刻印確認画面">
+            <ConfirmSignUpScreen />
+          </div>
+        );
+        break;
+
       case "main":
         screenComponent = (
           <div
@@ -377,6 +389,14 @@ const OptimizedAppRouter: React.FC = () => {
         );
         break;
 
+      case "notifications":
+        screenComponent = (
+          <div {...commonProps} aria-label="便り">
+            <NotificationsScreen />
+          </div>
+        );
+        break;
+
       default:
         screenComponent = (
           <div role="main" aria-label="ログイン画面">
@@ -585,12 +605,14 @@ const OptimizedAppRouter: React.FC = () => {
       const screenNames = {
         login: "ログイン画面",
         register: "新規登録画面",
+        confirmSignUp: "刻印確認画面",
         main: "メインアプリケーション",
         profile: "プロフィール編集画面",
         help: "ヘルプ画面",
         contact: "お問い合わせ画面",
         creators: "制作者情報画面",
         userProfile: "ユーザープロフィール画面",
+        notifications: "便り画面",
       } as const;
 
       const screenName =
@@ -619,12 +641,14 @@ const OptimizedAppRouter: React.FC = () => {
       const titles = {
         login: "供物台 - ログイン | 神秘的な森の投稿アプリ",
         register: "供物台 - 新規登録 | 神秘的な森の投稿アプリ",
+        confirmSignUp: "供物台 - 刻印の確認",
         main: "供物台 - 神秘の森 | 投稿・評価アプリケーション",
         profile: "供物台 - プロフィール編集",
         help: "供物台 - ヘルプ・サポート",
         contact: "供物台 - お問い合わせ",
         creators: "供物台 - 制作者情報",
         userProfile: "供物台 - ユーザープロフィール",
+        notifications: "供物台 - 便り",
       } as const;
 
       const newTitle =
@@ -677,8 +701,8 @@ const OptimizedAppRouter: React.FC = () => {
     );
   }
 
-  // ローディング状態の表示
-  if (isLoading) {
+  // ローディング状態の表示（セッション復元中も含む）
+  if (isLoading || isRestoringSession) {
     return (
       <UltraFastLoadingScreen
         theme={theme}
@@ -693,6 +717,9 @@ const OptimizedAppRouter: React.FC = () => {
     <>
       {renderScreen()}
 
+      {/* 供物の詳細（/offerings/:id）は画面に重ねて表示 */}
+      {isAuthenticated && <OfferingRouteModal />}
+
       {/* 開発環境専用：最適化されたシステムステータス */}
       {config.environment === "development" && (
         <div className="fixed bottom-4 left-4 z-50 bg-card border rounded-lg p-3 text-xs shadow-lg">
@@ -1,63 +1,159 @@
-import React, { createContext, useContext, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
-import { Auth } from 'aws-amplify/auth';
-import { generateClient } from 'aws-amplify/data';
-import type { Schema } from '@/amplify/data/resource';
+import { toast } from 'sonner';
+import type { IApiResponse, ICursorPage, OfferingStatus } from '../types/enterprise';
+import type {
+  AppNotification,
+  Comment,
+  Follow,
+  FollowRelations,
+  Offering,
+  OfferingRevision,
+  OfferingVisibility,
+  SavedSearch,
+  SearchFilters,
+  User
+} from '../types/domain';
+import { AppConfigManager } from '../services/config';
+import {
+  avatarImagePath,
+  AVATAR_SIZES,
+  createRepositories,
+  isStoredAvatar,
+  LocalStore,
+  type IAuthSession,
+  type IRepositories,
+  type ITotpSetup,
+  type NewAvatarUpload,
+  type NewImageUpload,
+  type NewUserProfile,
+  type OfferingDraftUpdate,
+  type OfferingUpdate
+} from '../services/repositories';
+import {
+  buildRoutePath,
+  createRoute,
+  isGuestOnlyScreen,
+  isProtectedScreen,
+  parseRoute,
+  readCurrentRoute,
+  type IRouteState
+} from '../services/router';
+import { toDayKey } from '../services/calendar';
+import { extractOfferingTags } from '../services/mentions';
+import type { IRankingStanding } from '../services/ranking';
+import { RealtimeClient, type RealtimeMessage } from '../services/realtime';
+import { isWithinAudience } from '../services/visibility';
+import { AppContext } from './useApp';
 
 // ==========================
 // 型定義群
 // ==========================
 
-// 導き（コメント）の型
-export interface Comment {
-  id: string;
-  authorId: string;
-  author: string;
-  content: string;
-  createdAt: Date;
-}
+// ドメインモデルの型（定義は types/domain.ts。画面側はこのモジュールから読み込む）
+export type {
+  AppNotification,
+  Comment,
+  Follow,
+  FollowRelations,
+  Offering,
+  OfferingRevision,
+  OfferingVisibility,
+  SavedSearch,
+  SearchFilters,
+  User
+};
 
-// 供物（投稿）の型
-export interface Offering {
-  id: string;
-  title: string;
-  content: string;
-  author: string;
-  authorId: string;
-  genres: string[];
-  createdAt: Date;
-  likes: number;
-  comments: Comment[];
-  likedBy: string[];
-}
+// 画面の種類（URL との対応は services/router.ts を参照）
+export type AppScreen = 'login' | 'register' | 'confirmSignUp' | 'main' | 'profile' | 'help' | 'contact' | 'creators' | 'userProfile' | 'notifications';
 
-// 魂紋（ユーザー）の型
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-  department: string;
-  age: string;
-  avatar?: string;
-  joinedAt: Date;
-  offeringCount: number;
-  totalLikes: number;
-  totalComments: number;
-}
+// 認証操作（刻印確認・結界文の変更/再設定）の結果
+export type AuthActionResult =
+  | 'success'
+  | 'incorrectPassword'
+  | 'invalidPassword'
+  | 'codeMismatch'
+  | 'codeExpired'
+  | 'limitExceeded'
+  | 'userNotFound'
+  | 'failed';
+
+// 認証基盤の例外名から操作結果への変換
+const toAuthActionResult = (error: unknown): Exclude<AuthActionResult, 'success'> => {
+  const name = error instanceof Error ? error.name : '';
+  switch (name) {
+    case 'NotAuthorizedException': return 'incorrectPassword';
+    case 'InvalidPasswordException': return 'invalidPassword';
+    case 'CodeMismatchException':
+    case 'EnableSoftwareTokenMFAException': return 'codeMismatch';
+    case 'ExpiredCodeException': return 'codeExpired';
+    case 'LimitExceededException':
+    case 'TooManyRequestsException': return 'limitExceeded';
+    case 'UserNotFoundException': return 'userNotFound';
+    default: return 'failed';
+  }
+};
+
+// ページ取得の応答から1ページ分を取り出す（失敗は例外として扱う）
+const unwrapOfferingPage = (response: IApiResponse<ICursorPage<Offering>>): ICursorPage<Offering> => {
+  if (!response.success || !response.data) {
+    throw new Error(response.error?.message ?? '供物のページ取得に失敗しました');
+  }
+  return response.data;
+};
+
+// 読み込んだ供物を一覧へ合流させる（同じ供物は読み込んだ方で置き換え、新しい順に並べる）
+const mergeOfferings = (current: Offering[], loaded: Offering[]): Offering[] => {
+  const byId = new Map(current.map(offering => [offering.id, offering]));
+  for (const offering of loaded) byId.set(offering.id, offering);
+  return [...byId.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+// 供物の作者が切り替えられる状態（draft は奉納前の下書き用）
+export type OfferingManageStatus = Extract<OfferingStatus, 'published' | 'archived' | 'deleted'>;
+
+// 確認待ちの刻印情報（確認後に魂紋を作成するため保持する）
+const PENDING_REGISTRATION_KEY = 'pendingRegistration';
+
+// 便りの再取得間隔
+const NOTIFICATION_POLL_INTERVAL_MS = 60_000;
+
+// 再読み込みの合図を受けてから便りを読み込むまでの待ち時間（サーバー側で便りが作成されるまで）
+const NOTIFICATION_DELIVERY_DELAY_MS = 3_000;
+
+// 供物一覧の1ページあたりの件数
+const OFFERING_PAGE_SIZE = 30;
+
+// 添付画像の表示用 URL を使い回す期間（Amplify の署名付き URL の有効期間より短くする）
+const IMAGE_URL_CACHE_MS = 50 * 60 * 1000;
 
 // アプリ全体の状態管理型
-interface AppContextType {
+export interface AppContextType {
   // 認証・画面・テーマなどのUI状態
   isAuthenticated: boolean;
   currentUser: User | null;
-  currentScreen: 'login' | 'register' | 'main' | 'profile' | 'help' | 'contact' | 'creators' | 'userProfile';
+  currentScreen: AppScreen;
   selectedUserId: string | null;
+  selectedOfferingId: string | null;
   theme: 'autumn' | 'winter';
+  isRestoringSession: boolean;
+  pendingConfirmationEmail: string | null;
+  isTotpChallengePending: boolean;
 
-  // データ管理
+  // データ管理（offerings は公開中の供物のうち、公開範囲に含まれるもののみ）
   offerings: Offering[];
   users: User[];
-  cognitoUser: any | null;
+  cognitoUser: IAuthSession | null;
+  isDataLoading: boolean;
+  hasMoreOfferings: boolean; // 未読み込みの公開中の供物が残っているか
+  isLoadingMoreOfferings: boolean;
+  notifications: AppNotification[];
+  unreadNotificationCount: number;
+  savedSearches: SavedSearch[];
+  savedSearchToRun: SavedSearch | null; // サイドバーから実行を求められた探求（探求の壇が適用する）
+  tagSearchToRun: string | null; // 本文・サイドバーのタグから探求を求められたタグ（探求の壇が適用する）
+  followingIds: string[]; // 降霊中の魂紋の結縁先（新しい順）
+  followerIds: string[]; // 降霊中の魂紋の縁者（新しい順）
 
   // フィルタ・ソート設定
   searchQuery: string;
@@ -67,17 +163,60 @@ interface AppContextType {
 
   // アクション関数
   login: (email: string, password: string) => Promise<boolean>;
-  register: (userData: Omit<User, 'id' | 'joinedAt' | 'offeringCount' | 'totalLikes' | 'totalComments'> & { password: string }) => Promise<boolean>;
+  confirmTotpSignIn: (code: string) => Promise<AuthActionResult>;
+  cancelTotpChallenge: () => void;
+  register: (userData: Omit<User, 'id' | 'joinedAt' | 'offeringCount' | 'totalLikes' | 'totalComments' | 'totalViews'> & { password: string }) => Promise<boolean>;
+  confirmRegistration: (code: string) => Promise<AuthActionResult>;
+  resendConfirmationCode: () => Promise<boolean>;
   logout: () => void;
   setCurrentScreen: (screen: AppContextType['currentScreen']) => void;
   setSelectedUserId: (userId: string | null) => void;
+  setSelectedOfferingId: (offeringId: string | null) => void;
   toggleTheme: () => void;
-  addOffering: (offering: Omit<Offering, 'id' | 'createdAt' | 'likes' | 'comments' | 'likedBy'>) => void;
-  likeOffering: (offeringId: string) => void;
-  addComment: (offeringId: string, content: string) => void;
-  updateProfile: (userData: Partial<Pick<User, 'name' | 'department' | 'age' | 'avatar'>>) => void;
-  changePassword: (oldPassword: string, newPassword: string) => boolean;
+  addOffering: (offering: Omit<Offering, 'id' | 'status' | 'createdAt' | 'editedAt' | 'likes' | 'comments' | 'likedBy' | 'views' | 'tags'>) => Promise<boolean>;
+  editOffering: (offeringId: string, changes: OfferingUpdate) => Promise<boolean>;
+  changeOfferingStatus: (offeringId: string, status: OfferingManageStatus) => Promise<boolean>;
+  getOfferingRevisions: (offeringId: string) => Promise<OfferingRevision[] | null>;
+  getDrafts: () => Promise<Offering[] | null>;
+  saveDraft: (draftId: string | null, draft: OfferingDraftUpdate) => Promise<Offering | null>;
+  publishDraft: (draftId: string, draft: OfferingDraftUpdate) => Promise<boolean>;
+  discardDraft: (draftId: string) => Promise<boolean>;
+  uploadOfferingImage: (image: NewImageUpload) => Promise<string | null>;
+  removeOfferingImages: (paths: string[]) => Promise<void>;
+  resolveImageUrl: (path: string) => Promise<string | null>;
+  likeOffering: (offeringId: string) => Promise<void>;
+  addComment: (offeringId: string, content: string, options?: Pick<Comment, 'type' | 'parentId'>) => Promise<boolean>;
+  likeComment: (offeringId: string, commentId: string) => Promise<void>;
+  recordOfferingView: (offeringId: string) => Promise<void>;
+  markNotificationRead: (notificationId: string) => Promise<void>;
+  markAllNotificationsRead: () => Promise<void>;
+  saveSearch: (name: string, query: string, filters: SearchFilters) => Promise<boolean>;
+  deleteSavedSearch: (savedSearchId: string) => Promise<boolean>;
+  runSavedSearch: (savedSearchId: string) => void;
+  clearSavedSearchToRun: () => void;
+  runTagSearch: (tag: string) => void;
+  clearTagSearchToRun: () => void;
+  isFollowing: (userId: string) => boolean;
+  followUser: (userId: string) => Promise<boolean>;
+  unfollowUser: (userId: string) => Promise<boolean>;
+  getFollowRelations: (userId: string) => Promise<FollowRelations | null>;
+  loadFollowingOfferings: () => Promise<void>;
+  getRankingStanding: (scope: string) => Promise<IRankingStanding | null>;
+  refreshData: () => Promise<void>;
+  loadMoreOfferings: () => Promise<void>;
+  loadOffering: (offeringId: string) => Promise<Offering | null>;
+  loadUserOfferings: (userId: string) => Promise<void>;
+  updateProfile: (userData: Partial<Pick<User, 'name' | 'department' | 'age'>>) => void;
+  updateAvatar: (images: NewAvatarUpload | null) => Promise<boolean>;
+  changePassword: (oldPassword: string, newPassword: string) => Promise<AuthActionResult>;
+  requestPasswordReset: (email: string) => Promise<AuthActionResult>;
+  confirmPasswordReset: (email: string, code: string, newPassword: string) => Promise<AuthActionResult>;
+  isTotpEnabled: () => Promise<boolean>;
+  beginTotpSetup: () => Promise<ITotpSetup | null>;
+  verifyTotpSetup: (code: string) => Promise<AuthActionResult>;
+  disableTotp: () => Promise<AuthActionResult>;
   getUserById: (userId: string) => User | undefined;
+  getOfferingById: (offeringId: string) => Offering | undefined;
   getOfferingsByUserId: (userId: string) => Offering[];
   getLikedOfferingsByUserId: (userId: string) => Offering[];
   getCommentedOfferingsByUserId: (userId: string) => Offering[];
@@ -88,76 +227,242 @@ interface AppContextType {
 }
 
 // ==========================
-// コンテキストとフック定義
+// プロバイダコンポーネント
 // ==========================
 
-const AppContext = createContext<AppContextType | undefined>(undefined);
+interface AppProviderProps {
+  children: ReactNode;
+  /** リポジトリ一式（省略時は AppConfigManager.dataBackend に従って生成） */
+  repositories?: IRepositories;
+}
 
-export const useApp = () => {
-  const context = useContext(AppContext);
-  if (context === undefined) {
-    throw new Error('useApp must be used within an AppProvider');
-  }
-  return context;
-};
+export const AppProvider: React.FC<AppProviderProps> = ({ children, repositories: injectedRepositories }) => {
+  // 永続化層（Amplify / ローカル）
+  const repositories = useMemo(
+    () => injectedRepositories ?? createRepositories(AppConfigManager.getInstance()),
+    [injectedRepositories]
+  );
 
-// ==========================
-// プロバイダコンポーネント
-// ==========================
+  // 確認待ちの刻印情報の保存先（再読み込み後も保持）
+  const pendingStore = useMemo(() => new LocalStore(), []);
 
-export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   // UI状態
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [cognitoUser, setCognitoUser] = useState<any | null>(null);
-  const [currentScreen, setCurrentScreen] = useState<AppContextType['currentScreen']>('login');
-  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [cognitoUser, setCognitoUser] = useState<IAuthSession | null>(null);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
+  const [pendingConfirmationEmail, setPendingConfirmationEmail] = useState<string | null>(null);
+  const [isTotpChallengePending, setIsTotpChallengePending] = useState(false);
+  // 画面状態（初期値は URL から復元）
+  const initialRoute = useMemo(() => readCurrentRoute(), []);
+  const [currentScreen, setCurrentScreenState] = useState<AppScreen>(initialRoute.screen);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(initialRoute.userId);
+  const [selectedOfferingId, setSelectedOfferingId] = useState<string | null>(initialRoute.offeringId);
+  const [loginRedirect, setLoginRedirect] = useState<string | null>(initialRoute.redirect);
+  // 次の URL 同期を履歴の置き換えで行うか（リダイレクト・初期表示の正規化）
+  const replaceHistoryRef = useRef(true);
   const [theme, setTheme] = useState<'autumn' | 'winter'>('autumn');
 
-  // データ状態
+  // 降霊中の魂紋の縁（魂紋 ID、新しい順）
+  const [followingIds, setFollowingIds] = useState<string[]>([]);
+  const [followerIds, setFollowerIds] = useState<string[]>([]);
+
+  // データ状態（秘蔵中・公開範囲外の供物を含む。取り下げ済みは保持しない）
   const [offerings, setOfferings] = useState<Offering[]>([]);
+  const publishedOfferings = useMemo(
+    () => offerings.filter(o => o.status === 'published' && isWithinAudience(o, currentUser?.id ?? null, followingIds)),
+    [offerings, currentUser?.id, followingIds]
+  );
   const [users, setUsers] = useState<User[]>([]);
+  const [isDataLoading, setIsDataLoading] = useState(false);
+  // 公開中の供物の次のページの位置（null は読み込み済み）
+  const [offeringsCursor, setOfferingsCursor] = useState<string | null>(null);
+  const [isLoadingMoreOfferings, setIsLoadingMoreOfferings] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const unreadNotificationCount = useMemo(() => notifications.filter(n => !n.isRead).length, [notifications]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [savedSearchToRun, setSavedSearchToRun] = useState<SavedSearch | null>(null);
+  const [tagSearchToRun, setTagSearchToRun] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
   const [sortBy, setSortBy] = useState<'likes' | 'comments' | 'date'>('likes');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
 
+  // 画面遷移（供物の詳細表示は閉じる）
+  const setCurrentScreen = (screen: AppScreen) => {
+    setCurrentScreenState(screen);
+    setSelectedOfferingId(null);
+  };
+
+  // 画面状態の一括適用
+  const applyRoute = (route: IRouteState, options: { replace?: boolean } = {}) => {
+    if (options.replace) replaceHistoryRef.current = true;
+    setCurrentScreenState(route.screen);
+    setSelectedUserId(route.userId);
+    setSelectedOfferingId(route.offeringId);
+    setLoginRedirect(route.redirect);
+  };
+
+  // 降霊後の遷移（降霊画面へ送られる前の画面があればそこへ戻す）
+  const enterApp = () => {
+    const url = loginRedirect ? new URL(loginRedirect, window.location.origin) : null;
+    const target = url ? parseRoute(url.pathname, url.search) : null;
+    applyRoute(target && isProtectedScreen(target.screen) ? target : createRoute('main'), { replace: true });
+  };
+
+  // 認証セッションの確立（魂紋の読み込みを含む）
+  // 魂紋が見つからなければ、初回の降霊とみなして作成する
+  const establishSession = async (session: IAuthSession): Promise<void> => {
+    const profile = (await repositories.users.get(session.userId)) ?? (await createMissingProfile(session));
+    setCognitoUser(session);
+    setCurrentUser(profile);
+    setIsAuthenticated(true);
+  };
+
+  // 見つからない魂紋の作成
+  // 認証基盤の属性から作成し、この端末に確認待ちの刻印情報があれば所属・年代・写し絵を補う
+  // （刻印と確認を別の端末で行った場合や、刻印情報が消された場合も魂紋を作成できるようにする）
+  const createMissingProfile = async (session: IAuthSession): Promise<User | null> => {
+    try {
+      const attributes = await repositories.auth.getUserAttributes();
+      const stored = pendingStore.read<NewUserProfile | null>(PENDING_REGISTRATION_KEY, null);
+      const pending = stored?.id === session.userId ? stored : null;
+      const profile = await repositories.users.create({
+        id: session.userId,
+        email: attributes.email,
+        name: attributes.name ?? pending?.name ?? attributes.email.split('@')[0],
+        department: pending?.department ?? '',
+        age: pending?.age ?? '',
+        avatar: pending?.avatar,
+      });
+      if (pending) pendingStore.remove(PENDING_REGISTRATION_KEY);
+      return profile;
+    } catch (error) {
+      console.error('魂紋の作成失敗:', error);
+      return null;
+    }
+  };
+
+  // 起動時のセッション復元（再読み込みで降霊画面へ戻さない）
+  useEffect(() => {
+    let cancelled = false;
+
+    const restoreSession = async () => {
+      try {
+        const session = await repositories.auth.getCurrentSession();
+        if (session && !cancelled) {
+          await establishSession(session);
+        }
+      } catch (error) {
+        console.error('セッション復元失敗:', error);
+      } finally {
+        if (!cancelled) setIsRestoringSession(false);
+      }
+    };
+
+    restoreSession();
+    return () => {
+      cancelled = true;
+    };
+  }, [repositories]);
+
+  // 保護された画面の制御
+  // 未降霊で保護画面を開いた場合は降霊画面へ送り、降霊後に元の画面へ戻す
+  useEffect(() => {
+    if (isRestoringSession) return;
+
+    if (!isAuthenticated && isProtectedScreen(currentScreen)) {
+      const redirect = buildRoutePath(createRoute(currentScreen, { userId: selectedUserId, offeringId: selectedOfferingId }));
+      applyRoute(createRoute('login', { redirect: redirect === '/' ? null : redirect }), { replace: true });
+    } else if (isAuthenticated && isGuestOnlyScreen(currentScreen)) {
+      enterApp();
+    }
+  }, [isRestoringSession, isAuthenticated, currentScreen]);
+
+  // 画面状態を URL へ反映
+  useEffect(() => {
+    const path = buildRoutePath({
+      screen: currentScreen,
+      userId: selectedUserId,
+      offeringId: selectedOfferingId,
+      redirect: loginRedirect
+    });
+    if (path === window.location.pathname + window.location.search) return;
+
+    if (replaceHistoryRef.current) {
+      window.history.replaceState(null, '', path);
+    } else {
+      window.history.pushState(null, '', path);
+    }
+    replaceHistoryRef.current = false;
+  }, [currentScreen, selectedUserId, selectedOfferingId, loginRedirect]);
+
+  // ブラウザの戻る・進むを画面状態へ反映
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = readCurrentRoute();
+      // 供物の詳細は背後の画面を保ったまま開く
+      if (route.offeringId && isProtectedScreen(currentScreen)) {
+        setSelectedOfferingId(route.offeringId);
+        return;
+      }
+      applyRoute(route);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [currentScreen]);
+
   // 降霊（ログインCognito認証）
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
-      const user = await Auth.signIn(email, password);
-      setCognitoUser(user);
-      setIsAuthenticated(true);
-      setCurrentScreen('main');
+      const result = await repositories.auth.signIn(email, password);
+      // 二段階認証が有効な場合は認証コードの入力を待つ
+      if (result.type === 'totpRequired') {
+        setIsTotpChallengePending(true);
+        return true;
+      }
+      await establishSession(result.session);
       return true;
     } catch (error) {
+      // 刻印の確認が済んでいない場合は確認コードを再送して確認画面へ
+      if (error instanceof Error && error.name === 'UserNotConfirmedException') {
+        setPendingConfirmationEmail(email);
+        repositories.auth.resendSignUpCode(email).catch(resendError => console.error('確認の符の再送失敗:', resendError));
+        setCurrentScreen('confirmSignUp');
+        return true;
+      }
       console.error('降霊失敗:', error);
       return false;
     }
   };
 
+  // 二段階認証コードによる降霊の完了
+  const confirmTotpSignIn = async (code: string): Promise<AuthActionResult> => {
+    try {
+      const session = await repositories.auth.confirmSignInWithTotp(code);
+      setIsTotpChallengePending(false);
+      await establishSession(session);
+      return 'success';
+    } catch (error) {
+      console.error('二段階認証失敗:', error);
+      return toAuthActionResult(error);
+    }
+  };
+
+  // 二段階認証の入力を取りやめて降霊フォームへ戻る
+  const cancelTotpChallenge = () => setIsTotpChallengePending(false);
+
   // 魂紋の刻印（新規登録）
-  // 新規登録（Cognito + DynamoDB）
-  const register = async (userData: Omit<User, 'id' | 'joinedAt' | 'offeringCount' | 'totalLikes' | 'totalComments'> & { password: string }): Promise<boolean> => {
+  // 認証基盤への登録のみ行い、魂紋はメール確認後に作成する
+  const register = async (userData: Omit<User, 'id' | 'joinedAt' | 'offeringCount' | 'totalLikes' | 'totalComments' | 'totalViews'> & { password: string }): Promise<boolean> => {
     const { name, email, password, department, age, avatar } = userData;
     try {
-      await Auth.signUp({
-        username: email,
-        password,
-        attributes: { email }
-      });
+      const { userId } = await repositories.auth.signUp(email, password, name);
+      pendingStore.write<NewUserProfile>(PENDING_REGISTRATION_KEY, { id: userId, name, email, department, age, avatar });
 
-      const client = generateClient<Schema>();
-      await client.models.User.create({
-        name,
-        email,
-        department,
-        age,
-        avatar,
-        joinedAt: new Date().toISOString(),
-      });
-
-      setCurrentScreen('login');
+      setPendingConfirmationEmail(email);
+      setCurrentScreen('confirmSignUp');
       return true;
     } catch (error) {
       console.error('登録失敗:', error);
@@ -165,79 +470,855 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // 刻印の確認（メールの確認コード）
+  const confirmRegistration = async (code: string): Promise<AuthActionResult> => {
+    if (!pendingConfirmationEmail) return 'failed';
+    try {
+      const session = await repositories.auth.confirmSignUp(pendingConfirmationEmail, code);
+      setPendingConfirmationEmail(null);
+
+      if (session) {
+        await establishSession(session);
+      } else {
+        // 自動降霊できなかった場合は、初回の降霊時に魂紋を作成する
+        setCurrentScreen('login');
+      }
+      return 'success';
+    } catch (error) {
+      console.error('刻印の確認失敗:', error);
+      return toAuthActionResult(error);
+    }
+  };
+
+  // 確認コードの再送信
+  const resendConfirmationCode = async (): Promise<boolean> => {
+    if (!pendingConfirmationEmail) return false;
+    try {
+      await repositories.auth.resendSignUpCode(pendingConfirmationEmail);
+      return true;
+    } catch (error) {
+      console.error('確認の符の再送失敗:', error);
+      return false;
+    }
+  };
+
   // 離脱（ログアウト）
   const logout = () => {
+    repositories.auth.signOut().catch(error => console.error('離脱失敗:', error));
     setIsAuthenticated(false);
     setCurrentUser(null);
-    setCurrentScreen('login');
-    setSelectedUserId(null);
+    setCognitoUser(null);
+    setIsTotpChallengePending(false);
+    setOfferings([]);
+    setOfferingsCursor(null);
+    setUsers([]);
+    setNotifications([]);
+    setSavedSearches([]);
+    setSavedSearchToRun(null);
+    setFollowingIds([]);
+    setFollowerIds([]);
+    applyRoute(createRoute('login'));
   };
 
   // テーマ切替
   const toggleTheme = () => setTheme(prev => (prev === 'autumn' ? 'winter' : 'autumn'));
 
-  // 新たな供物の追加
-  const addOffering: AppContextType['addOffering'] = (offering) => {
-    if (!currentUser) return;
-    const newOffering: Offering = {
+  // 供物・魂紋の読み込み
+  // 公開中の供物は最初のページのみ、降霊中のユーザーの供物は秘蔵中を含めてすべて読み込む
+  const refreshData = async (): Promise<void> => {
+    setIsDataLoading(true);
+    try {
+      const [firstPage, ownOfferings] = await Promise.all([
+        repositories.offerings.listPage({ limit: OFFERING_PAGE_SIZE }).then(unwrapOfferingPage),
+        currentUser ? repositories.offerings.listByAuthor(currentUser.id) : Promise.resolve([])
+      ]);
+      // 魂紋の統計値はサーバー側（data-events）が公開中の供物のすべてから集計した値を読む
+      const loadedUsers = await repositories.users.list();
+      setOfferings(mergeOfferings(firstPage.items, ownOfferings));
+      setOfferingsCursor(firstPage.pagination.nextCursor);
+      setUsers(loadedUsers);
+      // 最新の統計値を持つ魂紋で降霊中のユーザーを置き換える
+      setCurrentUser(prev => prev ? loadedUsers.find(u => u.id === prev.id) ?? prev : prev);
+    } catch (error) {
+      console.error('供物の読み込み失敗:', error);
+      toast.error('供物の読み込みに失敗しました', {
+        description: 'しばらく時間をおいて再度お試しください'
+      });
+    } finally {
+      setIsDataLoading(false);
+    }
+  };
+
+  // 読み込んだ供物を一覧へ合流させる
+  const applyLoadedOfferings = (loaded: Offering[]) => {
+    setOfferings(prev => mergeOfferings(prev, loaded));
+  };
+
+  // 公開中の供物の次のページの読み込み（無限スクロール）
+  const loadMoreOfferings = async (): Promise<void> => {
+    if (!offeringsCursor || isLoadingMoreOfferings) return;
+    setIsLoadingMoreOfferings(true);
+    try {
+      const page = unwrapOfferingPage(
+        await repositories.offerings.listPage({ cursor: offeringsCursor, limit: OFFERING_PAGE_SIZE })
+      );
+      applyLoadedOfferings(page.items);
+      setOfferingsCursor(page.pagination.nextCursor);
+    } catch (error) {
+      console.error('供物の追加読み込み失敗:', error);
+      toast.error('供物の読み込みに失敗しました');
+    } finally {
+      setIsLoadingMoreOfferings(false);
+    }
+  };
+
+  // ランキングの区分の現在の順位（サーバー側で付けた写し。順位の付いた供物は loadOffering で読み込む）
+  const getRankingStanding = async (scope: string): Promise<IRankingStanding | null> => {
+    try {
+      return await repositories.rankingSnapshots.getStanding(scope);
+    } catch (error) {
+      console.error('順位の写しの取得失敗:', error);
+      return null;
+    }
+  };
+
+  // 未読み込みの供物の取得（供物の URL を直接開いた場合）
+  const loadOffering = async (offeringId: string): Promise<Offering | null> => {
+    const loaded = getOfferingById(offeringId);
+    if (loaded) return loaded;
+    try {
+      const offering = await repositories.offerings.get(offeringId);
+      if (!offering || !isVisibleOffering(offering)) return null;
+      applyLoadedOfferings([offering]);
+      return offering;
+    } catch (error) {
+      console.error('供物の読み込み失敗:', error);
+      return null;
+    }
+  };
+
+  // 魂紋の供物のすべての読み込み（魂紋の画面を開いた場合）
+  const loadUserOfferings = async (userId: string): Promise<void> => {
+    try {
+      applyLoadedOfferings(await repositories.offerings.listByAuthor(userId));
+    } catch (error) {
+      console.error('魂紋の供物の読み込み失敗:', error);
+    }
+  };
+
+  // 結縁先の魂紋の供物のすべての読み込み（縁の壇を開いた場合）
+  const loadFollowingOfferings = async (): Promise<void> => {
+    if (followingIds.length === 0) return;
+    try {
+      const loaded = await Promise.all(followingIds.map(userId => repositories.offerings.listByAuthor(userId)));
+      applyLoadedOfferings(loaded.flat());
+    } catch (error) {
+      console.error('結縁先の供物の読み込み失敗:', error);
+      toast.error('縁の壇の供物の読み込みに失敗しました');
+    }
+  };
+
+  // 降霊後に初期データを読み込む
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshData();
+    }
+  }, [isAuthenticated, repositories]);
+
+  // 便りの読み込み（失敗しても画面の操作は妨げない）
+  const refreshNotifications = async (userId: string): Promise<void> => {
+    try {
+      setNotifications(await repositories.notifications.list(userId));
+    } catch (error) {
+      console.error('便りの読み込み失敗:', error);
+    }
+  };
+
+  // 降霊中は便りを定期的に読み込む
+  useEffect(() => {
+    const userId = currentUser?.id;
+    if (!isAuthenticated || !userId) return;
+
+    refreshNotifications(userId);
+    const timer = window.setInterval(() => refreshNotifications(userId), NOTIFICATION_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isAuthenticated, currentUser?.id, repositories]);
+
+  // 降霊中の魂紋の保存した探求を読み込む
+  useEffect(() => {
+    const userId = currentUser?.id;
+    if (!isAuthenticated || !userId) return;
+
+    repositories.savedSearches.listByUser(userId)
+      .then(setSavedSearches)
+      .catch(error => console.error('保存した探求の読み込み失敗:', error));
+  }, [isAuthenticated, currentUser?.id, repositories]);
+
+  // 降霊中の魂紋の縁を読み込む
+  useEffect(() => {
+    const userId = currentUser?.id;
+    if (!isAuthenticated || !userId) return;
+
+    Promise.all([repositories.follows.listFollowing(userId), repositories.follows.listFollowers(userId)])
+      .then(([following, followers]) => {
+        setFollowingIds(following.map(follow => follow.followeeId));
+        setFollowerIds(followers.map(follow => follow.followerId));
+      })
+      .catch(error => console.error('縁の読み込み失敗:', error));
+  }, [isAuthenticated, currentUser?.id, repositories]);
+
+  // リアルタイム通信（他のセッションでの祈念・導き・便りを即時に反映する）
+  const realtimeRef = useRef<RealtimeClient | null>(null);
+
+  useEffect(() => {
+    const userId = currentUser?.id;
+    const config = AppConfigManager.getInstance();
+    if (!isAuthenticated || !userId || !config.realtimeEnabled) return;
+
+    const client = new RealtimeClient({ url: config.wsEndpoint, senderId: userId });
+    const handleMessage = (message: RealtimeMessage) => {
+      switch (message.type) {
+        case 'prayer': {
+          const { offeringId, userId: prayerId, liked } = message.payload;
+          setOfferings(prev => prev.map(offering => {
+            if (offering.id !== offeringId || offering.likedBy.includes(prayerId) === liked) return offering;
+            return {
+              ...offering,
+              likes: liked ? offering.likes + 1 : offering.likes - 1,
+              likedBy: liked ? [...offering.likedBy, prayerId] : offering.likedBy.filter(id => id !== prayerId)
+            };
+          }));
+          break;
+        }
+        case 'guidance': {
+          const { offeringId, comment } = message.payload;
+          setOfferings(prev => prev.map(offering =>
+            offering.id === offeringId && !offering.comments.some(c => c.id === comment.id)
+              ? { ...offering, comments: [...offering.comments, { ...comment, createdAt: new Date(comment.createdAt) }] }
+              : offering
+          ));
+          break;
+        }
+        case 'notification':
+          if (message.payload.userId === userId) {
+            window.setTimeout(() => refreshNotifications(userId), NOTIFICATION_DELIVERY_DELAY_MS);
+          }
+          break;
+      }
+    };
+
+    const unsubscribe = client.subscribe(handleMessage);
+    client.connect();
+    realtimeRef.current = client;
+    return () => {
+      unsubscribe();
+      client.disconnect();
+      realtimeRef.current = null;
+    };
+  }, [isAuthenticated, currentUser?.id, repositories]);
+
+  // 便りの受け手への再読み込みの合図
+  // 便りはサーバー側（data-events）が記録の変更を受けて作成するため、受け手は少し待ってから読み込む
+  const signalNotifications = (recipientIds: (string | undefined)[]) => {
+    for (const userId of new Set(recipientIds)) {
+      if (userId && userId !== currentUser?.id) realtimeRef.current?.publish('notification', { userId });
+    }
+  };
+
+  // 便りの既読化（楽観的更新）
+  const markNotificationsRead = async (notificationIds: string[]): Promise<void> => {
+    if (notificationIds.length === 0) return;
+    const previous = notifications;
+    const readAt = new Date();
+    setNotifications(prev => prev.map(n => notificationIds.includes(n.id) ? { ...n, isRead: true, readAt } : n));
+
+    try {
+      await repositories.notifications.markRead(notificationIds);
+    } catch (error) {
+      console.error('便りの既読化失敗:', error);
+      setNotifications(previous);
+      toast.error('便りを既読にできませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
+  const markNotificationRead = async (notificationId: string): Promise<void> => {
+    if (notifications.some(n => n.id === notificationId && !n.isRead)) {
+      await markNotificationsRead([notificationId]);
+    }
+  };
+
+  const markAllNotificationsRead = () => markNotificationsRead(notifications.filter(n => !n.isRead).map(n => n.id));
+
+  // 探求の保存（楽観的更新）
+  const saveSearch: AppContextType['saveSearch'] = async (name, query, filters) => {
+    if (!currentUser) return false;
+    const tempId = `pending-${crypto.randomUUID()}`;
+    const pendingSearch: SavedSearch = { id: tempId, userId: currentUser.id, name, query, filters, createdAt: new Date() };
+    setSavedSearches(prev => [pendingSearch, ...prev]);
+
+    try {
+      const savedSearch = await repositories.savedSearches.create({ userId: currentUser.id, name, query, filters });
+      setSavedSearches(prev => prev.map(s => s.id === tempId ? savedSearch : s));
+      return true;
+    } catch (error) {
+      console.error('探求の保存失敗:', error);
+      setSavedSearches(prev => prev.filter(s => s.id !== tempId));
+      return false;
+    }
+  };
+
+  // 保存した探求の削除（楽観的更新）
+  const deleteSavedSearch: AppContextType['deleteSavedSearch'] = async (savedSearchId) => {
+    const target = savedSearches.find(s => s.id === savedSearchId);
+    if (!target || savedSearchId.startsWith('pending-')) return false;
+    setSavedSearches(prev => prev.filter(s => s.id !== savedSearchId));
+
+    try {
+      await repositories.savedSearches.delete(savedSearchId);
+      return true;
+    } catch (error) {
+      console.error('保存した探求の削除失敗:', error);
+      setSavedSearches(prev => [...prev, target].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+      return false;
+    }
+  };
+
+  // 保存した探求の実行（メイン画面の探求の壇で条件を適用する）
+  const runSavedSearch = (savedSearchId: string) => {
+    const target = savedSearches.find(s => s.id === savedSearchId);
+    if (!target) return;
+    setSavedSearchToRun(target);
+    setCurrentScreen('main');
+  };
+
+  const clearSavedSearchToRun = () => setSavedSearchToRun(null);
+
+  // タグでの探求（詳細表示・他の画面からもメイン画面の探求の壇へ移る）
+  const runTagSearch = (tag: string) => {
+    setTagSearchToRun(tag);
+    setSelectedOfferingId(null);
+    setCurrentScreen('main');
+  };
+
+  const clearTagSearchToRun = () => setTagSearchToRun(null);
+
+  // 縁（フォロー）
+  const isFollowing = (userId: string) => followingIds.includes(userId);
+
+  // 縁を結ぶ（楽観的更新）
+  const followUser = async (userId: string): Promise<boolean> => {
+    if (!currentUser || userId === currentUser.id) return false;
+    if (followingIds.includes(userId)) return true;
+    setFollowingIds(prev => [userId, ...prev.filter(id => id !== userId)]);
+
+    try {
+      await repositories.follows.follow(currentUser.id, userId);
+      signalNotifications([userId]);
+      return true;
+    } catch (error) {
+      console.error('縁の結び失敗:', error);
+      setFollowingIds(prev => prev.filter(id => id !== userId));
+      return false;
+    }
+  };
+
+  // 縁を解く（楽観的更新）
+  const unfollowUser = async (userId: string): Promise<boolean> => {
+    if (!currentUser || !followingIds.includes(userId)) return false;
+    const previous = followingIds;
+    setFollowingIds(prev => prev.filter(id => id !== userId));
+
+    try {
+      await repositories.follows.unfollow(currentUser.id, userId);
+      return true;
+    } catch (error) {
+      console.error('縁の解き失敗:', error);
+      setFollowingIds(previous);
+      return false;
+    }
+  };
+
+  // 魂紋の縁者・結縁先（魂紋の画面の表示用）
+  const getFollowRelations = async (userId: string): Promise<FollowRelations | null> => {
+    try {
+      const [followers, following] = await Promise.all([
+        repositories.follows.listFollowers(userId),
+        repositories.follows.listFollowing(userId)
+      ]);
+      return {
+        followerIds: followers.map(follow => follow.followerId),
+        followingIds: following.map(follow => follow.followeeId)
+      };
+    } catch (error) {
+      console.error('縁の取得失敗:', error);
+      return null;
+    }
+  };
+
+  // 新たな供物の追加（楽観的更新）
+  const addOffering: AppContextType['addOffering'] = async (offering) => {
+    if (!currentUser) return false;
+    const tempId = `pending-${crypto.randomUUID()}`;
+    const pendingOffering: Offering = {
       ...offering,
-      id: Date.now().toString(),
+      tags: extractOfferingTags(offering),
+      id: tempId,
+      status: 'published',
       createdAt: new Date(),
       likes: 0,
       comments: [],
-      likedBy: []
+      likedBy: [],
+      views: 0
     };
-    setOfferings(prev => [newOffering, ...prev]);
+    setOfferings(prev => [pendingOffering, ...prev]);
+
+    try {
+      const savedOffering = await repositories.offerings.create(offering);
+      setOfferings(prev => prev.map(o => o.id === tempId ? savedOffering : o));
+      return true;
+    } catch (error) {
+      console.error('供物の奉納失敗:', error);
+      setOfferings(prev => prev.filter(o => o.id !== tempId));
+      return false;
+    }
+  };
+
+  // 供物の改訂（楽観的更新）
+  // 祈念・導きは改訂中にも増えうるため、題名・内容・ジャンル・タグ・公開範囲のみ差し替える
+  const editOffering: AppContextType['editOffering'] = async (offeringId, changes) => {
+    const target = offerings.find(o => o.id === offeringId);
+    if (!currentUser || !target || target.authorId !== currentUser.id) return false;
+
+    const applyChanges = (source: Pick<Offering, 'title' | 'content' | 'genres' | 'tags' | 'visibility' | 'editedAt'>) =>
+      setOfferings(prev => prev.map(offering =>
+        offering.id === offeringId
+          ? {
+              ...offering,
+              title: source.title,
+              content: source.content,
+              genres: source.genres,
+              tags: source.tags,
+              visibility: source.visibility,
+              editedAt: source.editedAt
+            }
+          : offering
+      ));
+
+    applyChanges({ ...changes, tags: extractOfferingTags(changes), editedAt: new Date() });
+
+    try {
+      const savedOffering = await repositories.offerings.update(target, changes);
+      applyChanges(savedOffering);
+      return true;
+    } catch (error) {
+      console.error('供物の改訂失敗:', error);
+      applyChanges(target);
+      return false;
+    }
+  };
+
+  // 供物の秘蔵・公開・取り下げ（楽観的更新）
+  // 取り下げた供物は一覧から除き、詳細表示中であれば閉じる
+  const changeOfferingStatus: AppContextType['changeOfferingStatus'] = async (offeringId, status) => {
+    const target = offerings.find(o => o.id === offeringId);
+    if (!currentUser || !target || target.authorId !== currentUser.id) return false;
+
+    if (status === 'deleted') {
+      setOfferings(prev => prev.filter(o => o.id !== offeringId));
+      if (selectedOfferingId === offeringId) setSelectedOfferingId(null);
+    } else {
+      setOfferings(prev => prev.map(offering => offering.id === offeringId ? { ...offering, status } : offering));
+    }
+
+    try {
+      await repositories.offerings.setStatus(offeringId, status);
+      return true;
+    } catch (error) {
+      console.error('供物の状態変更失敗:', error);
+      setOfferings(prev => prev.some(o => o.id === offeringId)
+        ? prev.map(offering => offering.id === offeringId ? target : offering)
+        : [...prev, target].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+      return false;
+    }
+  };
+
+  // 供物の改訂履歴（古い順）
+  const getOfferingRevisions = async (offeringId: string): Promise<OfferingRevision[] | null> => {
+    try {
+      return await repositories.offerings.listRevisions(offeringId);
+    } catch (error) {
+      console.error('改訂履歴の取得失敗:', error);
+      return null;
+    }
+  };
+
+  // 降霊中の魂紋の下書き一覧（最後に保存した順）
+  const getDrafts = async (): Promise<Offering[] | null> => {
+    if (!currentUser) return null;
+    try {
+      return await repositories.offerings.listDrafts(currentUser.id);
+    } catch (error) {
+      console.error('下書きの取得失敗:', error);
+      return null;
+    }
+  };
+
+  // 下書きの保存（draftId が null の場合は新たに作成）
+  const saveDraft: AppContextType['saveDraft'] = async (draftId, draft) => {
+    if (!currentUser) return null;
+    try {
+      return draftId
+        ? await repositories.offerings.saveDraft(draftId, draft)
+        : await repositories.offerings.createDraft({ ...draft, author: currentUser.name, authorId: currentUser.id });
+    } catch (error) {
+      console.error('下書きの保存失敗:', error);
+      return null;
+    }
+  };
+
+  // 下書きの奉納（保存済みの下書きを公開して一覧へ加える）
+  const publishDraft: AppContextType['publishDraft'] = async (draftId, draft) => {
+    if (!currentUser) return false;
+    try {
+      const publishedOffering = await repositories.offerings.publishDraft(draftId, draft);
+      setOfferings(prev => [publishedOffering, ...prev.filter(o => o.id !== draftId)]);
+      return true;
+    } catch (error) {
+      console.error('下書きの奉納失敗:', error);
+      return false;
+    }
+  };
+
+  // 下書きの破棄
+  const discardDraft = async (draftId: string): Promise<boolean> => {
+    try {
+      await repositories.offerings.setStatus(draftId, 'deleted');
+      return true;
+    } catch (error) {
+      console.error('下書きの破棄失敗:', error);
+      return false;
+    }
+  };
+
+  // 添付画像・魂紋の画像の表示用 URL（期限付きの URL は期限の少し前まで使い回す）
+  const imageUrlCacheRef = useRef(new Map<string, { url: Promise<string | null>; expiresAt: number }>());
+  const resolveImageUrl = (path: string): Promise<string | null> => {
+    const cached = imageUrlCacheRef.current.get(path);
+    if (cached && cached.expiresAt > Date.now()) return cached.url;
+
+    const url = repositories.media.getUrl(path).catch(error => {
+      console.error('画像の URL の取得失敗:', error);
+      imageUrlCacheRef.current.delete(path);
+      return null;
+    });
+    imageUrlCacheRef.current.set(path, { url, expiresAt: Date.now() + IMAGE_URL_CACHE_MS });
+    return url;
+  };
+
+  // 添付画像の保存（奉納・下書きの保存の前に行い、保存先のパスを供物に記す）
+  const uploadOfferingImage = async (image: NewImageUpload): Promise<string | null> => {
+    if (!currentUser) return null;
+    try {
+      return await repositories.media.uploadOfferingImage(image);
+    } catch (error) {
+      console.error('画像の保存失敗:', error);
+      return null;
+    }
+  };
+
+  // 使われなくなった添付画像の削除（失敗しても操作は妨げない）
+  const removeOfferingImages = async (paths: string[]): Promise<void> => {
+    await Promise.all(paths.map(path =>
+      repositories.media.remove(path).catch(error => console.error('画像の削除失敗:', error))
+    ));
+    for (const path of paths) imageUrlCacheRef.current.delete(path);
   };
 
-  // 供物への祈念（いいね）
-  const likeOffering = (offeringId: string) => {
+  // 供物への祈念（いいね・楽観的更新）
+  const likeOffering = async (offeringId: string): Promise<void> => {
     if (!currentUser) return;
+    const target = offerings.find(o => o.id === offeringId);
+    if (!target) return;
+
+    const liked = target.likedBy.includes(currentUser.id);
     setOfferings(prev => prev.map(offering => {
       if (offering.id !== offeringId) return offering;
-      const liked = offering.likedBy.includes(currentUser.id);
       return {
         ...offering,
         likes: liked ? offering.likes - 1 : offering.likes + 1,
         likedBy: liked ? offering.likedBy.filter(id => id !== currentUser.id) : [...offering.likedBy, currentUser.id]
       };
     }));
+
+    try {
+      if (liked) {
+        await repositories.offerings.removeLike(offeringId, currentUser.id);
+      } else {
+        await repositories.offerings.addLike(offeringId, currentUser.id);
+        signalNotifications([target.authorId]);
+      }
+      realtimeRef.current?.publish('prayer', { offeringId, userId: currentUser.id, liked: !liked });
+    } catch (error) {
+      console.error('祈念の記録失敗:', error);
+      setOfferings(prev => prev.map(offering => offering.id === offeringId ? target : offering));
+      toast.error('祈念を届けられませんでした', {
+        description: '再度お試しください'
+      });
+    }
   };
 
-  // 導き（コメント）の追加
-  const addComment: AppContextType['addComment'] = (offeringId, content) => {
-    if (!currentUser) return;
-    const newComment: Comment = {
-      id: Date.now().toString(),
+  // 導き（コメント）の追加（楽観的更新）
+  // 返信の場合は options.parentId にスレッドの起点となる導きを指定する
+  const addComment: AppContextType['addComment'] = async (offeringId, content, options = {}) => {
+    if (!currentUser) return false;
+    const tempId = `pending-${crypto.randomUUID()}`;
+    const pendingComment: Comment = {
+      id: tempId,
       authorId: currentUser.id,
       author: currentUser.name,
       content,
-      createdAt: new Date()
+      type: options.type,
+      parentId: options.parentId,
+      createdAt: new Date(),
+      likes: 0,
+      likedBy: []
     };
     setOfferings(prev => prev.map(offering =>
-      offering.id === offeringId ? { ...offering, comments: [...offering.comments, newComment] } : offering
+      offering.id === offeringId ? { ...offering, comments: [...offering.comments, pendingComment] } : offering
     ));
+
+    try {
+      const savedComment = await repositories.comments.create(offeringId, pendingComment);
+      setOfferings(prev => prev.map(offering =>
+        offering.id === offeringId
+          ? { ...offering, comments: offering.comments.map(c => c.id === tempId ? savedComment : c) }
+          : offering
+      ));
+      const target = offerings.find(o => o.id === offeringId);
+      signalNotifications([
+        target?.authorId,
+        target?.comments.find(c => c.id === savedComment.parentId)?.authorId
+      ]);
+      realtimeRef.current?.publish('guidance', {
+        offeringId,
+        comment: { ...savedComment, createdAt: savedComment.createdAt.toISOString() }
+      });
+      return true;
+    } catch (error) {
+      console.error('導きの記録失敗:', error);
+      setOfferings(prev => prev.map(offering =>
+        offering.id === offeringId
+          ? { ...offering, comments: offering.comments.filter(c => c.id !== tempId) }
+          : offering
+      ));
+      toast.error('導きを記せませんでした', {
+        description: '再度お試しください'
+      });
+      return false;
+    }
+  };
+
+  // 導きへの祈念（楽観的更新）
+  const likeComment = async (offeringId: string, commentId: string): Promise<void> => {
+    if (!currentUser || commentId.startsWith('pending-')) return;
+    const target = offerings.find(o => o.id === offeringId)?.comments.find(c => c.id === commentId);
+    if (!target) return;
+
+    const liked = target.likedBy.includes(currentUser.id);
+    const replaceComment = (comment: Comment) => setOfferings(prev => prev.map(offering =>
+      offering.id === offeringId
+        ? { ...offering, comments: offering.comments.map(c => c.id === commentId ? comment : c) }
+        : offering
+    ));
+
+    replaceComment({
+      ...target,
+      likes: liked ? target.likes - 1 : target.likes + 1,
+      likedBy: liked ? target.likedBy.filter(id => id !== currentUser.id) : [...target.likedBy, currentUser.id]
+    });
+
+    try {
+      if (liked) {
+        await repositories.comments.removeLike(commentId, currentUser.id);
+      } else {
+        await repositories.comments.addLike(offeringId, commentId, currentUser.id);
+      }
+    } catch (error) {
+      console.error('導きへの祈念の記録失敗:', error);
+      replaceComment(target);
+      toast.error('祈念を届けられませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
+  // 閲覧の記録（作者本人の閲覧は数えない）
+  // 同じ日に同じ供物を開き直しても、このセッションでは問い合わせない
+  const recordedViewsRef = useRef(new Set<string>());
+  const recordOfferingView = async (offeringId: string): Promise<void> => {
+    const target = offerings.find(o => o.id === offeringId);
+    if (!currentUser || !target || target.authorId === currentUser.id || offeringId.startsWith('pending-')) return;
+
+    const viewedOn = toDayKey(new Date());
+    const key = `${offeringId}:${currentUser.id}:${viewedOn}`;
+    if (recordedViewsRef.current.has(key)) return;
+    recordedViewsRef.current.add(key);
+
+    try {
+      const counted = await repositories.offerings.addView(offeringId, currentUser.id, viewedOn);
+      if (counted) {
+        setOfferings(prev => prev.map(offering =>
+          offering.id === offeringId ? { ...offering, views: offering.views + 1 } : offering
+        ));
+      }
+    } catch (error) {
+      // 閲覧数は目安のため、記録できなくても利用者には知らせない
+      console.error('閲覧の記録失敗:', error);
+      recordedViewsRef.current.delete(key);
+    }
   };
 
   // 魂紋の更新（プロフィール）
   const updateProfile: AppContextType['updateProfile'] = (userData) => {
     if (!currentUser) return;
+    const previousUser = currentUser;
     const updatedUser = { ...currentUser, ...userData };
     setCurrentUser(updatedUser);
     setUsers(prev => prev.map(u => u.id === updatedUser.id ? updatedUser : u));
+
+    repositories.users.update(currentUser.id, userData).catch(error => {
+      console.error('写し絵の更新失敗:', error);
+      setCurrentUser(previousUser);
+      setUsers(prev => prev.map(u => u.id === previousUser.id ? previousUser : u));
+      toast.error('写し絵を保存できませんでした', {
+        description: '再度お試しください'
+      });
+    });
   };
 
-  // 符丁の改変（仮）
-  const changePassword = (oldPassword: string, newPassword: string): boolean => {
-    const isValid = oldPassword.length > 0 && newPassword.length >= 6;
-    return isValid;
+  // 魂紋の画像の差し替え（null で取り外す）
+  // 新しい画像の保存 → 魂紋の更新 → 古い画像の削除の順に行い、魂紋が存在しない画像を指すことがないようにする
+  // 古い画像は差し替え後に必ず削除し、不適切な画像を差し替えた後に URL から見え続けないようにする
+  const updateAvatar = async (images: NewAvatarUpload | null): Promise<boolean> => {
+    if (!currentUser) return false;
+    const previousAvatar = currentUser.avatar;
+
+    let avatar = '';
+    if (images) {
+      try {
+        avatar = await repositories.media.uploadAvatar(images);
+      } catch (error) {
+        console.error('魂紋の画像の保存失敗:', error);
+        return false;
+      }
+    }
+
+    try {
+      await repositories.users.update(currentUser.id, { avatar });
+    } catch (error) {
+      console.error('魂紋の画像の更新失敗:', error);
+      if (avatar) removeAvatarImages(avatar);
+      return false;
+    }
+
+    const updatedUser = { ...currentUser, avatar };
+    setCurrentUser(updatedUser);
+    setUsers(prev => prev.map(u => u.id === updatedUser.id ? updatedUser : u));
+    if (isStoredAvatar(previousAvatar)) removeAvatarImages(previousAvatar);
+    return true;
+  };
+
+  // 魂紋の画像の縮小版すべての削除（以前の URL 入力欄の値は対象外）
+  const removeAvatarImages = (avatar: string): Promise<void> =>
+    removeOfferingImages(AVATAR_SIZES.map(size => avatarImagePath(avatar, size)));
+
+  // 結界文（パスワード）の変更
+  const changePassword = async (oldPassword: string, newPassword: string): Promise<AuthActionResult> => {
+    try {
+      await repositories.auth.changePassword(oldPassword, newPassword);
+      return 'success';
+    } catch (error) {
+      console.error('結界文の変更失敗:', error);
+      return toAuthActionResult(error);
+    }
+  };
+
+  // 結界文の再設定コードの送信（降霊前）
+  const requestPasswordReset = async (email: string): Promise<AuthActionResult> => {
+    try {
+      await repositories.auth.requestPasswordReset(email);
+      return 'success';
+    } catch (error) {
+      console.error('再設定の符の送信失敗:', error);
+      return toAuthActionResult(error);
+    }
+  };
+
+  // 再設定コードを用いた結界文の再設定
+  const confirmPasswordReset = async (email: string, code: string, newPassword: string): Promise<AuthActionResult> => {
+    try {
+      await repositories.auth.confirmPasswordReset(email, code, newPassword);
+      return 'success';
+    } catch (error) {
+      console.error('結界文の再設定失敗:', error);
+      return toAuthActionResult(error);
+    }
   };
   
+  // 二段階認証（TOTP）の設定状況
+  const isTotpEnabled = async (): Promise<boolean> => {
+    try {
+      return await repositories.auth.isTotpEnabled();
+    } catch (error) {
+      console.error('二段階認証の状態取得失敗:', error);
+      return false;
+    }
+  };
+
+  // 二段階認証の登録開始
+  const beginTotpSetup = async (): Promise<ITotpSetup | null> => {
+    try {
+      return await repositories.auth.beginTotpSetup();
+    } catch (error) {
+      console.error('二段階認証の登録開始失敗:', error);
+      return null;
+    }
+  };
+
+  // 認証アプリの最初のコードを検証して二段階認証を有効化
+  const verifyTotpSetup = async (code: string): Promise<AuthActionResult> => {
+    try {
+      await repositories.auth.verifyTotpSetup(code);
+      return 'success';
+    } catch (error) {
+      console.error('二段階認証の有効化失敗:', error);
+      return toAuthActionResult(error);
+    }
+  };
+
+  // 二段階認証の無効化
+  const disableTotp = async (): Promise<AuthActionResult> => {
+    try {
+      await repositories.auth.disableTotp();
+      return 'success';
+    } catch (error) {
+      console.error('二段階認証の無効化失敗:', error);
+      return toAuthActionResult(error);
+    }
+  };
+
   // ユーザーデータ取得群
+  // 秘蔵中の供物は作者本人にのみ、縁者のみの供物は作者本人と作者の縁者にのみ見せる
+  const isVisibleOffering = (offering: Offering) =>
+    (offering.status === 'published' || offering.authorId === currentUser?.id) &&
+    isWithinAudience(offering, currentUser?.id ?? null, followingIds);
   const getUserById = (userId: string) => users.find(u => u.id === userId);
-  const getOfferingsByUserId = (userId: string) => offerings.filter(o => o.authorId === userId);
-  const getLikedOfferingsByUserId = (userId: string) => offerings.filter(o => o.likedBy.includes(userId));
-  const getCommentedOfferingsByUserId = (userId: string) => offerings.filter(o => o.comments.some(c => c.authorId === userId));
+  const getOfferingById = (offeringId: string) => offerings.find(o => o.id === offeringId && isVisibleOffering(o));
+  const getOfferingsByUserId = (userId: string) => offerings.filter(o => o.authorId === userId && isVisibleOffering(o));
+  const getLikedOfferingsByUserId = (userId: string) => publishedOfferings.filter(o => o.likedBy.includes(userId));
+  const getCommentedOfferingsByUserId = (userId: string) => publishedOfferings.filter(o => o.comments.some(c => c.authorId === userId));
 
   // ==========================
   // コンテキストプロバイダ
@@ -248,26 +1329,83 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     currentUser,
     currentScreen,
     selectedUserId,
+    selectedOfferingId,
     theme,
-    offerings,
+    isRestoringSession,
+    pendingConfirmationEmail,
+    isTotpChallengePending,
+    offerings: publishedOfferings,
     users,
     cognitoUser,
+    isDataLoading,
+    hasMoreOfferings: offeringsCursor !== null,
+    isLoadingMoreOfferings,
+    notifications,
+    unreadNotificationCount,
+    savedSearches,
+    savedSearchToRun,
+    tagSearchToRun,
+    followingIds,
+    followerIds,
     searchQuery,
     selectedGenres,
     sortBy,
     sortOrder,
     login,
+    confirmTotpSignIn,
+    cancelTotpChallenge,
     register,
+    confirmRegistration,
+    resendConfirmationCode,
     logout,
     setCurrentScreen,
     setSelectedUserId,
+    setSelectedOfferingId,
     toggleTheme,
     addOffering,
+    editOffering,
+    changeOfferingStatus,
+    getOfferingRevisions,
+    getDrafts,
+    saveDraft,
+    publishDraft,
+    discardDraft,
+    uploadOfferingImage,
+    removeOfferingImages,
+    resolveImageUrl,
     likeOffering,
     addComment,
+    likeComment,
+    recordOfferingView,
+    markNotificationRead,
+    markAllNotificationsRead,
+    saveSearch,
+    deleteSavedSearch,
+    runSavedSearch,
+    clearSavedSearchToRun,
+    runTagSearch,
+    clearTagSearchToRun,
+    isFollowing,
+    followUser,
+    unfollowUser,
+    getFollowRelations,
+    loadFollowingOfferings,
+    getRankingStanding,
+    refreshData,
+    loadMoreOfferings,
+    loadOffering,
+    loadUserOfferings,
     updateProfile,
+    updateAvatar,
     changePassword,
+    requestPasswordReset,
+    confirmPasswordReset,
+    isTotpEnabled,
+    beginTotpSetup,
+    verifyTotpSetup,
+    disableTotp,
     getUserById,
+    getOfferingById,
     getOfferingsByUserId,
     getLikedOfferingsByUserId,
     getCommentedOfferingsByUserId,
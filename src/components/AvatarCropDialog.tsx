@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { useApp } from './useApp';
+import { loadImage, prepareAvatar, type IAvatarCrop } from '../services/media';
+
+interface AvatarCropDialogProps {
+  /** 切り抜く画像（null の間は閉じている） */
+  file: File | null;
+  onClose: () => void;
+}
+
+/** 切り抜き枠の一辺（CSS px） */
+const VIEWPORT_SIZE = 256;
+
+/** 拡大率の上限（1 は画像の短辺いっぱいの切り抜き） */
+const MAX_ZOOM = 4;
+
+/** 矢印キー1回で動かす量（CSS px） */
+const KEYBOARD_STEP = 16;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// 拡大率と中心から切り抜き範囲を求める（画像の外にはみ出さないよう寄せる）
+const toCrop = (image: ImageBitmap, zoom: number, center: { x: number; y: number }): IAvatarCrop => {
+  const size = Math.min(image.width, image.height) / zoom;
+  return {
+    x: clamp(center.x - size / 2, 0, image.width - size),
+    y: clamp(center.y - size / 2, 0, image.height - size),
+    size
+  };
+};
+
+// 魂紋の画像を正方形に切り抜くダイアログ（ドラッグ・矢印キーで位置、スライダー・ホイールで拡大率を調整）
+export const AvatarCropDialog: React.FC<AvatarCropDialogProps> = ({ file, onClose }) => {
+  const { updateAvatar } = useApp();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState({ x: 0, y: 0 });
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 画像の読み込み（閉じたら解放する）
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+
+    loadImage(file)
+      .then(bitmap => {
+        if (cancelled) {
+          bitmap.close();
+          return;
+        }
+        loaded = bitmap;
+        setImage(bitmap);
+        setZoom(1);
+        setCenter({ x: bitmap.width / 2, y: bitmap.height / 2 });
+      })
+      .catch(error => {
+        toast.error(error instanceof Error ? error.message : '画像を読み込めませんでした');
+        onClose();
+      });
+
+    return () => {
+      cancelled = true;
+      setImage(null);
+      loaded?.close();
+    };
+  }, [file]);
+
+  const crop = image ? toCrop(image, zoom, center) : null;
+
+  // 切り抜き範囲の描画（画面の解像度に合わせて描く）
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image || !crop) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(VIEWPORT_SIZE * ratio);
+    canvas.height = Math.round(VIEWPORT_SIZE * ratio);
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, canvas.width, canvas.height);
+  }, [image, crop?.x, crop?.y, crop?.size]);
+
+  // 切り抜き範囲の移動（画面上の移動量を元画像の px に換算し、画像を動かした向きに範囲を逆に動かす）
+  const moveBy = (dx: number, dy: number) => {
+    if (!crop) return;
+    const scale = crop.size / VIEWPORT_SIZE;
+    setCenter({
+      x: crop.x + crop.size / 2 - dx * scale,
+      y: crop.y + crop.size / 2 - dy * scale
+    });
+  };
+
+  const changeZoom = (value: number) => setZoom(clamp(value, 1, MAX_ZOOM));
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    moveBy(e.clientX - drag.x, e.clientY - drag.y);
+    dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerEnd = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [KEYBOARD_STEP, 0],
+      ArrowRight: [-KEYBOARD_STEP, 0],
+      ArrowUp: [0, KEYBOARD_STEP],
+      ArrowDown: [0, -KEYBOARD_STEP]
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      moveBy(...moves[e.key]);
+    } else if (e.key === '+' || e.key === '=') {
+      e.preventDefault();
+      changeZoom(zoom + 0.25);
+    } else if (e.key === '-') {
+      e.preventDefault();
+      changeZoom(zoom - 0.25);
+    }
+  };
+
+  // 切り抜いた画像の保存（大きさごとの縮小版を作り、古い画像と差し替える）
+  const handleSave = async () => {
+    if (!image || !crop) return;
+
+    setIsSaving(true);
+    try {
+      const success = await updateAvatar(await prepareAvatar(image, crop));
+      if (success) {
+        toast.success('写し絵の画像を差し替えました');
+        onClose();
+      } else {
+        toast.error('写し絵の画像を保存できませんでした', {
+          description: '再度お試しください'
+        });
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '画像を切り抜けませんでした');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-primary">写し絵の画像を切り抜く</DialogTitle>
+          <DialogDescription>
+            ドラッグまたは矢印キーで位置を、スライダーで大きさを合わせてください
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center space-y-4">
+          <div
+            className="relative overflow-hidden rounded-md bg-muted"
+            style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+          >
+            <canvas
+              ref={canvasRef}
+              tabIndex={0}
+              role="img"
+              aria-label="切り抜く範囲（ドラッグ・矢印キーで移動、＋・－キーで拡大・縮小）"
+              className="h-full w-full cursor-move touch-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerEnd}
+              onPointerCancel={handlePointerEnd}
+              onWheel={(e) => changeZoom(zoom - e.deltaY * 0.002)}
+              onKeyDown={handleKeyDown}
+            />
+            {/* 丸く表示される範囲の目安 */}
+            <div className="pointer-events-none absolute inset-0 rounded-full shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]" />
+          </div>
+
+          <div className="flex w-full items-center space-x-3">
+            <ZoomOut size={16} className="shrink-0 text-muted-foreground" />
+            <Slider
+              value={[zoom]}
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              onValueChange={([value]) => changeZoom(value)}
+              disabled={!image || isSaving}
+              aria-label="拡大率"
+            />
+            <ZoomIn size={16} className="shrink-0 text-muted-foreground" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            取りやめる
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!image || isSaving}>
+            {isSaving ? '保存中...' : 'この範囲で保存'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from './ui/input-otp';
+import { useApp } from './useApp';
+import { KumotsudaiLogo } from './KumotsudaiLogo';
+import { TreePine, ArrowLeft, MailCheck, RefreshCw } from 'lucide-react';
+
+// 確認コードの桁数（Cognito の既定値）
+const CODE_LENGTH = 6;
+
+// 再送信の待機秒数
+const RESEND_COOLDOWN_SECONDS = 60;
+
+// 刻印の確認（メール確認コード入力）コンポーネント
+export const ConfirmSignUpScreen: React.FC = () => {
+  const {
+    confirmRegistration,
+    resendConfirmationCode,
+    pendingConfirmationEmail,
+    setCurrentScreen,
+    theme
+  } = useApp();
+
+  // フォームの状態管理
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isExpired, setIsExpired] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [cooldown, setCooldown] = useState(RESEND_COOLDOWN_SECONDS);
+
+  // 再送信までのカウントダウン
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  // 確認処理
+  const handleConfirm = async (value: string = code) => {
+    if (value.length !== CODE_LENGTH || isSubmitting) return;
+
+    setError('');
+    setIsSubmitting(true);
+    const result = await confirmRegistration(value);
+    setIsSubmitting(false);
+
+    switch (result) {
+      case 'success':
+        toast.success('魂紋の刻印が完了しました！', {
+          description: '神秘の森へようこそ',
+          duration: 5000,
+        });
+        break;
+      case 'codeMismatch':
+        setError('確認の符が一致しません。メールに記された符をご確認ください。');
+        setCode('');
+        break;
+      case 'codeExpired':
+        setIsExpired(true);
+        setError('確認の符の期限が切れています。新しい符を送り直してください。');
+        setCode('');
+        break;
+      default:
+        setError('確認に失敗しました。しばらく時間をおいて再度お試しください。');
+    }
+  };
+
+  // 確認コードの再送信
+  const handleResend = async () => {
+    setIsResending(true);
+    const success = await resendConfirmationCode();
+    setIsResending(false);
+
+    if (success) {
+      setError('');
+      setIsExpired(false);
+      setCode('');
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      toast.success('新しい確認の符を送りました', {
+        description: 'メールをご確認ください'
+      });
+    } else {
+      toast.error('確認の符を送れませんでした', {
+        description: 'しばらく時間をおいて再度お試しください'
+      });
+    }
+  };
+
+  return (
+    <div className={`min-h-screen flex items-center justify-center p-4 transition-all duration-300 ${
+      theme === 'autumn' ? 'autumn-theme' : 'winter-theme'
+    }`}>
+      {/* 背景の装飾エフェクト */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute top-10 left-10 opacity-20">
+          <TreePine size={40} className="text-primary" />
+        </div>
+        <div className="absolute bottom-20 left-20 opacity-10">
+          <TreePine size={80} className="text-accent" />
+        </div>
+        <div className="absolute bottom-10 right-10 opacity-25">
+          <TreePine size={30} className="text-primary" />
+        </div>
+      </div>
+
+      {/* メインの確認カード */}
+      <Card className="w-full max-w-md relative z-10 shadow-2xl backdrop-blur-sm bg-card/95">
+        <CardHeader className="text-center space-y-4">
+          {/* ヘッダーボタン */}
+          <div className="flex justify-start">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setCurrentScreen('login')}
+              className="text-muted-foreground hover:text-primary"
+            >
+              <ArrowLeft size={16} className="mr-2" />
+              降霊画面へ
+            </Button>
+          </div>
+
+          <div className="flex justify-center mb-2">
+            <KumotsudaiLogo
+              size="medium"
+              showSubtitle={false}
+              animated={true}
+              clickable={false}
+            />
+          </div>
+
+          <CardTitle className="text-primary text-xl mb-2 flex items-center justify-center gap-2">
+            <MailCheck size={20} />
+            刻印の確認
+          </CardTitle>
+
+          <CardDescription className="text-muted-foreground">
+            {pendingConfirmationEmail ? (
+              <>
+                <span className="font-medium text-foreground break-all">{pendingConfirmationEmail}</span>
+                <br />
+                に届いた{CODE_LENGTH}桁の確認の符を入力してください
+              </>
+            ) : (
+              '確認待ちの刻印がありません。降霊画面からやり直してください。'
+            )}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleConfirm();
+            }}
+            className="space-y-6"
+          >
+            {/* 確認コード入力 */}
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={CODE_LENGTH}
+                pattern={REGEXP_ONLY_DIGITS}
+                value={code}
+                onChange={(value) => {
+                  setCode(value);
+                  if (error && !isExpired) setError('');
+                }}
+                onComplete={(value: string) => handleConfirm(value)}
+                disabled={!pendingConfirmationEmail || isSubmitting || isExpired}
+                autoFocus
+                aria-label="確認の符"
+              >
+                <InputOTPGroup>
+                  <InputOTPSlot index={0} />
+                  <InputOTPSlot index={1} />
+                  <InputOTPSlot index={2} />
+                </InputOTPGroup>
+                <InputOTPSeparator />
+                <InputOTPGroup>
+                  <InputOTPSlot index={3} />
+                  <InputOTPSlot index={4} />
+                  <InputOTPSlot index={5} />
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+
+            {/* エラーメッセージ */}
+            {error && (
+              <div
+                role="alert"
+                className="text-destructive text-center p-2 bg-destructive/10 rounded-md border border-destructive/20"
+              >
+                {error}
+              </div>
+            )}
+
+            {/* 確認ボタン */}
+            <Button
+              type="submit"
+              className="w-full bg-primary hover:bg-primary/90 text-primary-foreground"
+              disabled={!pendingConfirmationEmail || isSubmitting || isExpired || code.length !== CODE_LENGTH}
+            >
+              {isSubmitting ? '確認中...' : '刻印を確かめる'}
+            </Button>
+          </form>
+
+          {/* 再送信 */}
+          <div className="text-center space-y-1">
+            <p className="text-sm text-muted-foreground">符が届かない・期限が切れた場合は</p>
+            <Button
+              type="button"
+              variant={isExpired ? 'default' : 'outline'}
+              size="sm"
+              onClick={handleResend}
+              disabled={!pendingConfirmationEmail || isResending || (cooldown > 0 && !isExpired)}
+            >
+              <RefreshCw size={14} className={`mr-2 ${isResending ? 'animate-spin' : ''}`} />
+              {cooldown > 0 && !isExpired ? `符を送り直す（${cooldown}秒後）` : '符を送り直す'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
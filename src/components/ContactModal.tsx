@@ -89,7 +89,7 @@ export const ContactModal: React.FC<ContactModalProps> = ({
       });
       setErrors({});
       onClose();
-    } catch (error) {
+    } catch {
       toast.error('囁きの送信に失敗しました', {
         description: '再度お試しください'
       });
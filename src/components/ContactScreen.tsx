@@ -6,7 +6,7 @@ import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { ArrowLeft, Send, Mail, Bug, Lightbulb, HelpCircle } from 'lucide-react';
-import { useApp } from './AppContext';
+import { useApp } from './useApp';
 import { toast } from 'sonner';
 
 // 囁き（お問い合わせ）画面コンポーネント
@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Badge } from './ui/badge';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { ArrowLeft, TreePine, Github, Twitter, Mail } from 'lucide-react';
-import { useApp } from './AppContext';
+import { useApp } from './useApp';
 import { creatorsData } from './data/creatorsData';
 
 // 制作者画面コンポーネント
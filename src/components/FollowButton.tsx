@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { UserMinus, UserPlus } from 'lucide-react';
+import { useApp } from './useApp';
+
+interface FollowButtonProps {
+  /** 縁を結ぶ・解く相手 */
+  userId: string;
+  size?: 'sm' | 'default';
+  className?: string;
+}
+
+// 縁を結ぶ・解くボタンコンポーネント（自分自身には表示しない）
+export const FollowButton: React.FC<FollowButtonProps> = ({ userId, size = 'sm', className = '' }) => {
+  const { currentUser, isFollowing, followUser, unfollowUser } = useApp();
+  const [isPending, setIsPending] = useState(false);
+
+  if (!currentUser || currentUser.id === userId) return null;
+
+  const following = isFollowing(userId);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // 一覧の項目のクリック（魂紋の写し絵の表示）と重ならないようにする
+    e.stopPropagation();
+    setIsPending(true);
+    const success = following ? await unfollowUser(userId) : await followUser(userId);
+    setIsPending(false);
+
+    if (!success) {
+      toast.error(following ? '縁を解けませんでした' : '縁を結べませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={following ? 'outline' : 'default'}
+      size={size}
+      className={className}
+      onClick={handleClick}
+      disabled={isPending}
+      aria-pressed={following}
+    >
+      {following ? <UserMinus size={16} className="mr-1" /> : <UserPlus size={16} className="mr-1" />}
+      {following ? '縁を解く' : '縁を結ぶ'}
+    </Button>
+  );
+};
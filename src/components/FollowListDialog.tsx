@@ -0,0 +1,70 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { UserAvatarImage } from './UserAvatarImage';
+import { FollowButton } from './FollowButton';
+import { useApp } from './useApp';
+import type { User } from './AppContext';
+
+interface FollowListDialogProps {
+  title: string;
+  description: string;
+  /** 表示する魂紋（新しい順） */
+  userIds: string[];
+  /** 一覧が空のときの文言 */
+  emptyMessage: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// 縁者・結縁先の一覧ダイアログ
+export const FollowListDialog: React.FC<FollowListDialogProps> = ({ title, description, userIds, emptyMessage, isOpen, onClose }) => {
+  const { getUserById, setSelectedUserId, setCurrentScreen } = useApp();
+
+  // 読み込み済みの魂紋のみ表示する（刻印を取り消した魂紋などは除く）
+  const listedUsers = userIds.map(getUserById).filter((user): user is User => !!user);
+
+  // 魂紋の写し絵へ移る
+  const openUser = (userId: string) => {
+    onClose();
+    setSelectedUserId(userId);
+    setCurrentScreen('userProfile');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[70vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-primary">{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {listedUsers.length > 0 ? (
+          <ul className="divide-y divide-border">
+            {listedUsers.map(user => (
+              <li key={user.id} className="flex items-center justify-between space-x-3 py-3">
+                <button
+                  type="button"
+                  className="flex min-w-0 flex-1 items-center space-x-3 text-left hover:opacity-80"
+                  onClick={() => openUser(user.id)}
+                >
+                  <Avatar className="h-10 w-10">
+                    <UserAvatarImage avatar={user.avatar} alt={user.name} displaySize={40} />
+                    <AvatarFallback className="bg-accent text-primary">{user.name.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="truncate text-primary">{user.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">{user.department}</p>
+                  </div>
+                </button>
+                <FollowButton userId={user.id} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="py-6 text-center text-sm text-muted-foreground">{emptyMessage}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { UserAvatarImage } from './UserAvatarImage';
+import { Loader2, Sparkles, Users } from 'lucide-react';
+import { useApp } from './useApp';
+import { OfferingCard } from './OfferingCard';
+import { FollowButton } from './FollowButton';
+import { VirtualizedList } from './VirtualizedList';
+
+// 縁を結ぶ相手の候補の件数
+const SUGGESTION_LIMIT = 5;
+
+// 縁を結んだ魂紋の供物の一覧（縁の壇）コンポーネント
+export const FollowingTab: React.FC = () => {
+  const { offerings, users, currentUser, followingIds, loadFollowingOfferings, setSelectedUserId, setCurrentScreen } = useApp();
+  const [isLoading, setIsLoading] = useState(false);
+
+  // 結縁先の供物は読み込み済みのページに関わらずすべて読み込む
+  useEffect(() => {
+    if (followingIds.length === 0) return;
+    let cancelled = false;
+    setIsLoading(true);
+    loadFollowingOfferings().finally(() => {
+      if (!cancelled) setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [followingIds]);
+
+  // 結縁先の供物（新しい順）
+  const followingOfferings = useMemo(() => {
+    const following = new Set(followingIds);
+    return offerings.filter(offering => following.has(offering.authorId));
+  }, [offerings, followingIds]);
+
+  // 縁を結ぶ相手の候補（まだ縁のない魂紋のうち、供物の多い順）
+  const suggestedUsers = useMemo(() => {
+    const following = new Set(followingIds);
+    return users
+      .filter(user => user.id !== currentUser?.id && !following.has(user.id) && user.offeringCount > 0)
+      .sort((a, b) => b.offeringCount - a.offeringCount || b.totalLikes - a.totalLikes)
+      .slice(0, SUGGESTION_LIMIT);
+  }, [users, currentUser?.id, followingIds]);
+
+  const openUser = (userId: string) => {
+    setSelectedUserId(userId);
+    setCurrentScreen('userProfile');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="content-hierarchy-2">
+          縁の壇
+          <span className="text-sm text-muted-foreground ml-2">
+            ({followingIds.length}人と縁を結んでいます)
+          </span>
+        </h2>
+        {isLoading && (
+          <span className="flex items-center text-sm text-muted-foreground" aria-live="polite">
+            <Loader2 size={16} className="mr-2 animate-spin" />
+            読み込んでいます…
+          </span>
+        )}
+      </div>
+
+      {followingOfferings.length > 0 ? (
+        <VirtualizedList
+          items={followingOfferings}
+          getKey={offering => offering.id}
+          gap={24}
+          renderItem={offering => <OfferingCard offering={offering} />}
+        />
+      ) : (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Users size={48} className="mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">
+              {followingIds.length === 0 ? 'まだ誰とも縁を結んでいません' : '縁を結んだ魂紋の供物はまだありません'}
+            </h3>
+            <p className="text-muted-foreground">
+              魂紋の写し絵で「縁を結ぶ」を押すと、その魂紋の供物がここに届きます
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 縁を結ぶ相手の候補 */}
+      {suggestedUsers.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center space-x-2 text-primary">
+              <Sparkles size={20} />
+              <span>縁を結んでみませんか</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-border">
+              {suggestedUsers.map(user => (
+                <li key={user.id} className="flex items-center justify-between space-x-3 py-3">
+                  <button
+                    type="button"
+                    className="flex min-w-0 flex-1 items-center space-x-3 text-left hover:opacity-80"
+                    onClick={() => openUser(user.id)}
+                  >
+                    <Avatar className="h-10 w-10">
+                      <UserAvatarImage avatar={user.avatar} alt={user.name} displaySize={40} />
+                      <AvatarFallback className="bg-accent text-primary">{user.name.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0">
+                      <p className="truncate text-primary">{user.name}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {user.department} ・ 供物 {user.offeringCount}
+                      </p>
+                    </div>
+                  </button>
+                  <FollowButton userId={user.id} />
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from './ui/input-otp';
+import { useApp } from './useApp';
+import type { AuthActionResult } from './AppContext';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+import { validatePasswordRules } from './passwordRules';
+import { VALIDATION_RULES } from './data/constants';
+import { ArrowLeft, KeyRound } from 'lucide-react';
+
+// 再設定コードの桁数（Cognito の既定値）
+const CODE_LENGTH = 6;
+
+interface ForgotPasswordFormProps {
+  /** 降霊フォームに入力済みの符丁 */
+  initialEmail: string;
+  /** 再設定完了時（再設定した符丁を返す） */
+  onComplete: (email: string) => void;
+  /** 降霊フォームへ戻る */
+  onCancel: () => void;
+}
+
+// 操作結果に対応するエラーメッセージ
+const getResetErrorMessage = (result: Exclude<AuthActionResult, 'success'>): string => {
+  switch (result) {
+    case 'userNotFound': return 'この符丁は刻印されていません。';
+    case 'codeMismatch': return '再設定の符が一致しません。メールに記された符をご確認ください。';
+    case 'codeExpired': return '再設定の符の期限が切れています。符を送り直してください。';
+    case 'invalidPassword': return '新しい結界文が規則を満たしていません。大文字・小文字・数字・記号を組み合わせてください。';
+    case 'limitExceeded': return '試行回数の上限に達しました。しばらく時間をおいて再度お試しください。';
+    default: return '再設定に失敗しました。しばらく時間をおいて再度お試しください。';
+  }
+};
+
+// 結界文の再設定フォーム（符の送信 → 符と新しい結界文の入力）
+export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ initialEmail, onComplete, onCancel }) => {
+  const { requestPasswordReset, confirmPasswordReset } = useApp();
+
+  // フォームの状態管理
+  const [step, setStep] = useState<'request' | 'confirm'>('request');
+  const [email, setEmail] = useState(initialEmail);
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 再設定コードの送信
+  const handleRequest = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    if (!email.trim()) {
+      setError('符丁を入力してください');
+      return;
+    }
+
+    setError('');
+    setIsSubmitting(true);
+    const result = await requestPasswordReset(email.trim());
+    setIsSubmitting(false);
+
+    if (result === 'success') {
+      setCode('');
+      setStep('confirm');
+      toast.success('再設定の符を送りました', {
+        description: 'メールをご確認ください'
+      });
+    } else {
+      setError(getResetErrorMessage(result));
+    }
+  };
+
+  // 新しい結界文の設定
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (code.length !== CODE_LENGTH) {
+      setError(`${CODE_LENGTH}桁の再設定の符を入力してください`);
+      return;
+    }
+
+    const ruleError = validatePasswordRules(newPassword);
+    if (ruleError) {
+      setError(ruleError);
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError('新しい結界文が一致しません');
+      return;
+    }
+
+    setError('');
+    setIsSubmitting(true);
+    const result = await confirmPasswordReset(email.trim(), code, newPassword);
+    setIsSubmitting(false);
+
+    if (result === 'success') {
+      toast.success('結界文を再設定しました', {
+        description: '新しい結界文で降霊してください'
+      });
+      onComplete(email.trim());
+    } else {
+      if (result === 'codeMismatch' || result === 'codeExpired') setCode('');
+      setError(getResetErrorMessage(result));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-primary">
+        <KeyRound size={18} />
+        <h2 className="font-medium">結界文の再設定</h2>
+      </div>
+
+      {step === 'request' ? (
+        <form onSubmit={handleRequest} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            刻印した符丁（メールアドレス）に再設定の符を送ります
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="reset-email" className="text-foreground">
+              呼び名（符丁）
+            </Label>
+            <Input
+              id="reset-email"
+              type="email"
+              autoComplete="email"
+              placeholder="あなたの符丁を入力してください"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-input-background border-border focus:border-primary transition-colors"
+            />
+          </div>
+
+          {error && (
+            <div role="alert" className="text-destructive text-center p-2 bg-destructive/10 rounded-md border border-destructive/20">
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? '送信中...' : '再設定の符を送る'}
+          </Button>
+        </form>
+      ) : (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            <span className="font-medium text-foreground break-all">{email}</span>
+            に届いた{CODE_LENGTH}桁の符と、新しい結界文を入力してください
+          </p>
+
+          {/* 再設定コード入力 */}
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={CODE_LENGTH}
+              pattern={REGEXP_ONLY_DIGITS}
+              value={code}
+              onChange={setCode}
+              disabled={isSubmitting}
+              aria-label="再設定の符"
+            >
+              <InputOTPGroup>
+                <InputOTPSlot index={0} />
+                <InputOTPSlot index={1} />
+                <InputOTPSlot index={2} />
+              </InputOTPGroup>
+              <InputOTPSeparator />
+              <InputOTPGroup>
+                <InputOTPSlot index={3} />
+                <InputOTPSlot index={4} />
+                <InputOTPSlot index={5} />
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+
+          {/* 新しい結界文 */}
+          <div className="space-y-2">
+            <Label htmlFor="reset-new-password" className="text-foreground">
+              新しい結界文
+            </Label>
+            <Input
+              id="reset-new-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder={`${VALIDATION_RULES.PASSWORD_MIN_LENGTH}文字以上の秘密の結界文`}
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="bg-input-background border-border focus:border-primary transition-colors"
+            />
+            <PasswordStrengthMeter password={newPassword} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reset-confirm-password" className="text-foreground">
+              結界文の確認
+            </Label>
+            <Input
+              id="reset-confirm-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder="新しい結界文を再入力"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="bg-input-background border-border focus:border-primary transition-colors"
+            />
+          </div>
+
+          {error && (
+            <div role="alert" className="text-destructive text-center p-2 bg-destructive/10 rounded-md border border-destructive/20">
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? '再設定中...' : '結界文を再設定する'}
+          </Button>
+
+          <div className="text-center">
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              className="text-muted-foreground"
+              onClick={() => handleRequest()}
+              disabled={isSubmitting}
+            >
+              符を送り直す
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="w-full text-muted-foreground hover:text-primary"
+        onClick={onCancel}
+      >
+        <ArrowLeft size={16} className="mr-2" />
+        降霊画面へ戻る
+      </Button>
+    </div>
+  );
+};
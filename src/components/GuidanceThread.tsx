@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { useApp } from './useApp';
+import type { Comment } from './AppContext';
+import { GuidanceTypePicker } from './GuidanceTypePicker';
+import { MarkdownContent } from './MarkdownContent';
+import { MentionSuggestions } from './MentionAutocomplete';
+import { useMentionAutocomplete } from './useMentionAutocomplete';
+import type { GuidanceType } from '../types/enterprise';
+import type { IGuidanceThread } from './guidanceThreads';
+import { Heart, Reply, Send } from 'lucide-react';
+
+interface GuidanceItemProps {
+  offeringId: string;
+  comment: Comment;
+  onReply?: () => void;
+}
+
+// 導き1件（種類・祈念・返信ボタン）
+const GuidanceItem: React.FC<GuidanceItemProps> = ({ offeringId, comment, onReply }) => {
+  const { currentUser, likeComment } = useApp();
+  const hasLiked = currentUser ? comment.likedBy.includes(currentUser.id) : false;
+  const isPending = comment.id.startsWith('pending-');
+
+  return (
+    <div className="flex space-x-3">
+      {/* アバター */}
+      <Avatar className="w-8 h-8">
+        <AvatarFallback className="text-xs bg-primary/10 text-primary">
+          {comment.author.charAt(0)}
+        </AvatarFallback>
+      </Avatar>
+
+      {/* コメント内容 */}
+      <div className="flex-1 space-y-1">
+        <div className="flex items-center space-x-2">
+          <span className="font-medium text-sm">{comment.author}</span>
+          {comment.type && (
+            <Badge variant="outline" className="text-xs">{comment.type}</Badge>
+          )}
+          <span className="text-xs text-muted-foreground">
+            {comment.createdAt.toLocaleDateString('ja-JP')}
+          </span>
+        </div>
+        <div className="bg-muted/50 p-3 rounded-lg">
+          <MarkdownContent source={comment.content} className="text-sm" />
+        </div>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => likeComment(offeringId, comment.id)}
+            disabled={!currentUser || isPending}
+            className={`h-7 px-2 text-xs ${hasLiked ? 'text-destructive' : 'text-muted-foreground hover:text-destructive'}`}
+            aria-label={hasLiked ? '祈念を取り消す' : 'この導きに祈念を捧げる'}
+          >
+            <Heart size={12} className={`mr-1 ${hasLiked ? 'fill-current' : ''}`} />
+            {comment.likes}
+          </Button>
+          {onReply && currentUser && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onReply}
+              disabled={isPending}
+              className="h-7 px-2 text-xs text-muted-foreground hover:text-primary"
+            >
+              <Reply size={12} className="mr-1" />
+              返信
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface GuidanceThreadProps {
+  offeringId: string;
+  thread: IGuidanceThread;
+}
+
+// 導きのスレッド表示（返信はスレッドの起点にまとめる）
+export const GuidanceThread: React.FC<GuidanceThreadProps> = ({ offeringId, thread }) => {
+  const { addComment } = useApp();
+
+  // 返信フォームの状態管理
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [replyType, setReplyType] = useState<GuidanceType>('共感');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const replyMention = useMentionAutocomplete(replyText, setReplyText);
+
+  // 返信の投稿
+  const handleSubmitReply = async () => {
+    if (!replyText.trim()) return;
+
+    setIsSubmitting(true);
+    const success = await addComment(offeringId, replyText.trim(), { type: replyType, parentId: thread.root.id });
+    setIsSubmitting(false);
+
+    if (success) {
+      setReplyText('');
+      setIsReplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <GuidanceItem offeringId={offeringId} comment={thread.root} onReply={() => setIsReplying(true)} />
+
+      {(thread.replies.length > 0 || isReplying) && (
+        <div className="ml-11 space-y-3 border-l-2 border-border pl-4">
+          {thread.replies.map(reply => (
+            <GuidanceItem
+              key={reply.id}
+              offeringId={offeringId}
+              comment={reply}
+              onReply={() => setIsReplying(true)}
+            />
+          ))}
+
+          {/* 返信フォーム */}
+          {isReplying && (
+            <div className="space-y-2">
+              <GuidanceTypePicker value={replyType} onChange={setReplyType} disabled={isSubmitting} />
+              <div className="relative">
+                <Textarea
+                  placeholder={`${thread.root.author} さんの導きに返信する...`}
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  className="min-h-[60px] resize-none text-sm"
+                  autoFocus
+                  {...replyMention.inputProps}
+                />
+                <MentionSuggestions {...replyMention.suggestionProps} />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setIsReplying(false);
+                    setReplyText('');
+                  }}
+                  disabled={isSubmitting}
+                >
+                  取りやめる
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleSubmitReply}
+                  disabled={!replyText.trim() || isSubmitting}
+                  className="flex items-center space-x-2"
+                >
+                  <Send size={14} />
+                  <span>{isSubmitting ? '記録中...' : '返信する'}</span>
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
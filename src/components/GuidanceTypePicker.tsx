@@ -0,0 +1,37 @@
+import React from 'react';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { GUIDANCE_TYPES } from './data/constants';
+import type { GuidanceType } from '../types/enterprise';
+
+interface GuidanceTypePickerProps {
+  value: GuidanceType;
+  onChange: (value: GuidanceType) => void;
+  disabled?: boolean;
+}
+
+// 導きの種類の選択
+export const GuidanceTypePicker: React.FC<GuidanceTypePickerProps> = ({ value, onChange, disabled = false }) => (
+  <ToggleGroup
+    type="single"
+    variant="outline"
+    size="sm"
+    value={value}
+    // 選択中の種類を押しても未選択にはしない
+    onValueChange={(next) => next && onChange(next as GuidanceType)}
+    disabled={disabled}
+    className="w-full"
+    aria-label="導きの種類"
+  >
+    {GUIDANCE_TYPES.map(type => (
+      <ToggleGroupItem
+        key={type.value}
+        value={type.value}
+        title={type.description}
+        aria-label={`${type.value}（${type.description}）`}
+        className="text-xs"
+      >
+        {type.value}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
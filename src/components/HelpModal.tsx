@@ -2,7 +2,7 @@ import React from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { Crown, Search, Plus, Heart, MessageCircle, TreePine, Moon, Sun } from 'lucide-react';
+import { Crown, Search, Plus, Heart, MessageCircle, TreePine, Moon, Sun, Users } from 'lucide-react';
 
 interface HelpModalProps {
   isOpen: boolean;
@@ -119,6 +119,26 @@ export const HelpModal: React.FC<HelpModalProps> = ({
               </CardContent>
             </Card>
 
+            {/* 縁の壇 */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Users size={20} className="text-primary" />
+                  <span>縁の壇</span>
+                </CardTitle>
+                <CardDescription>
+                  縁を結んだ参拝者の供物を確認できます
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <ul className="text-sm text-muted-foreground space-y-1 ml-4">
+                  <li>• 参拝者の写し絵で「縁を結ぶ」を押すとフォローできます</li>
+                  <li>• 縁を結んだ参拝者の供物が新しい順に並びます</li>
+                  <li>• 「縁者のみ」の供物は、作者と縁を結んだ参拝者にだけ表示されます</li>
+                </ul>
+              </CardContent>
+            </Card>
+
             {/* 献納の壇 */}
             <Card>
               <CardHeader>
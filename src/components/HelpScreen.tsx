@@ -3,7 +3,7 @@ import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Separator } from './ui/separator';
 import { ArrowLeft, Crown, Search, Plus, Heart, MessageCircle, Users } from 'lucide-react';
-import { useApp } from './AppContext';
+import { useApp } from './useApp';
 
 // 使い方画面コンポーネント
 export const HelpScreen: React.FC = () => {
@@ -45,7 +45,7 @@ export const HelpScreen: React.FC = () => {
           </Card>
 
           {/* 基本機能の説明 */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
             {/* 審神の壇 */}
             <Card className="shadow-lg border-2 border-border/50">
               <CardHeader>
@@ -56,12 +56,13 @@ export const HelpScreen: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <p className="text-muted-foreground mb-4">
-                  最も多くの祈念（いいね）を集めた供物や、活発な導き（コメント）がある供物を確認できます。
+                  祈念（いいね）や導き（コメント）、寄せた人の多さと新しさを合わせた点数で、注目の供物を確認できます。
                 </p>
                 <ul className="text-sm space-y-2">
-                  <li>• 祈念数ランキング</li>
-                  <li>• 導き数ランキング</li>
-                  <li>• 最新投稿の確認</li>
+                  <li>• 永久・季節・月満・七日の期間別ランキング</li>
+                  <li>• 種別（トレンド・祈念数・導き数・閲覧数など）と所属の切り替え</li>
+                  <li>• 順位を押すと点数の内訳を表示</li>
+                  <li>• 前回からの順位の変動</li>
                 </ul>
               </CardContent>
             </Card>
@@ -82,6 +83,28 @@ export const HelpScreen: React.FC = () => {
                   <li>• キーワード検索</li>
                   <li>• ジャンル絞り込み</li>
                   <li>• 並び替え機能</li>
+                  <li>• 探求の保存（サイドバーから再実行、一致する供物の奉納を便りでお知らせ）</li>
+                  <li>• #タグ での検索（本文のタグ・話題のタグを押しても探せます）</li>
+                </ul>
+              </CardContent>
+            </Card>
+
+            {/* 縁の壇 */}
+            <Card className="shadow-lg border-2 border-border/50">
+              <CardHeader>
+                <CardTitle className="text-primary flex items-center space-x-2">
+                  <Users size={20} className="text-winter-primary" />
+                  <span>縁の壇</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-muted-foreground mb-4">
+                  縁を結んだ（フォローした）参拝者の供物を、新しい順にまとめて確認できます。
+                </p>
+                <ul className="text-sm space-y-2">
+                  <li>• 写し絵の「縁を結ぶ」でフォロー、「縁を解く」で解除</li>
+                  <li>• 写し絵で縁者（フォロワー）・結縁先（フォロー中）の数と一覧を表示</li>
+                  <li>• 縁を結ばれると便りでお知らせ</li>
                 </ul>
               </CardContent>
             </Card>
@@ -100,7 +123,11 @@ export const HelpScreen: React.FC = () => {
                 </p>
                 <ul className="text-sm space-y-2">
                   <li>• 題名と内容の入力</li>
+                  <li>• Markdown による書式（コードブロック・箇条書き・引用・リンク）とプレビュー</li>
+                  <li>• @名前 での呼びかけ（入力中に候補を表示、呼ばれた魂紋へ便りでお知らせ）と #タグ</li>
                   <li>• ジャンルの選択</li>
+                  <li>• 公開範囲の選択（全員・縁者のみ）</li>
+                  <li>• 画像の添付（ドラッグ＆ドロップ・貼り付け、4枚まで）</li>
                   <li>• 供物の投稿</li>
                 </ul>
               </CardContent>
@@ -152,6 +179,7 @@ export const HelpScreen: React.FC = () => {
                     <li>• 建設的なコメントを心がけましょう</li>
                     <li>• 質問や追加情報の要求も歓迎</li>
                     <li>• 他の参拝者との議論も可能</li>
+                    <li>• @名前 で他の参拝者を呼びかけられます</li>
                   </ul>
                 </div>
               </div>
@@ -170,6 +198,7 @@ export const HelpScreen: React.FC = () => {
               <div className="space-y-4">
                 <p className="text-muted-foreground">
                   他の参拝者の名前やアイコンをクリックすると、その人の活動を確認できます。
+                  自分のアイコンは「写し絵の編集」で画像を選び、正方形に切り抜いて設定できます。
                 </p>
                 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -0,0 +1,21 @@
+import React from 'react';
+import type { IHighlightSegment } from '../services/search';
+
+interface HighlightedTextProps {
+  segments: readonly IHighlightSegment[];
+}
+
+// 検索で一致した箇所を強調する文字列コンポーネント
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.matched ? (
+        <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
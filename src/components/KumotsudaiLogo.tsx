@@ -20,7 +20,7 @@
  */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { useApp } from './AppContext';
+import { useApp } from './useApp';
 import { motion } from 'motion/react';
 
 // ロゴサイズの型定義
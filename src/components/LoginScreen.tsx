@@ -3,22 +3,25 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader } from './ui/card';
-import { useApp } from './AppContext';
+import { useApp } from './useApp';
 import { KumotsudaiLogo } from './KumotsudaiLogo';
+import { ForgotPasswordForm } from './ForgotPasswordForm';
+import { TotpChallengeForm } from './TotpChallengeForm';
 import { TreePine, Leaf, Snowflake } from 'lucide-react';
 
 // 降霊画面（ログイン）コンポーネント - 改良されたテーマ対応版
-export const LoginScreen: React.FC = async () => {
-  const { login, setCurrentScreen, theme, toggleTheme } = useApp();
+export const LoginScreen: React.FC = () => {
+  const { login, isTotpChallengePending, setCurrentScreen, theme, toggleTheme } = useApp();
   
   // フォームの状態管理
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
-  const success = await login(email, password);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResettingPassword, setIsResettingPassword] = useState(false);
 
   // ログイン処理
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!email || !password) {
@@ -26,6 +29,11 @@ export const LoginScreen: React.FC = async () => {
       return;
     }
 
+    setError('');
+    setIsSubmitting(true);
+    const success = await login(email, password);
+    setIsSubmitting(false);
+
     if (!success) {
       setError('降霊に失敗しました。呼び名と結界文をご確認ください。');
     }
@@ -114,78 +122,109 @@ export const LoginScreen: React.FC = async () => {
         </CardHeader>
 
         <CardContent>
-          {/* ログインフォーム */}
-          <form onSubmit={handleLogin} className="space-y-4">
-            {/* 呼び名（ユーザー名）入力 */}
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-foreground">
-                呼び名（符丁）
-              </Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="あなたの符丁を入力してください"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="bg-input-background border-border focus:border-primary transition-colors"
-              />
-            </div>
-
-            {/* 結界文（パスワード）入力 */}
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-foreground">
-                結界文
-              </Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="秘密の結界文を入力してください"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="bg-input-background border-border focus:border-primary transition-colors"
-              />
-            </div>
+          {isTotpChallengePending ? (
+            /* 二段階認証コードの入力 */
+            <TotpChallengeForm />
+          ) : isResettingPassword ? (
+            /* 結界文の再設定フォーム */
+            <ForgotPasswordForm
+              initialEmail={email}
+              onComplete={(resetEmail) => {
+                setEmail(resetEmail);
+                setPassword('');
+                setError('');
+                setIsResettingPassword(false);
+              }}
+              onCancel={() => setIsResettingPassword(false)}
+            />
+          ) : (
+            <>
+              {/* ログインフォーム */}
+              <form onSubmit={handleLogin} className="space-y-4">
+                {/* 呼び名（ユーザー名）入力 */}
+                <div className="space-y-2">
+                  <Label htmlFor="email" className="text-foreground">
+                    呼び名（符丁）
+                  </Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="あなたの符丁を入力してください"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="bg-input-background border-border focus:border-primary transition-colors"
+                  />
+                </div>
 
-            {/* エラーメッセージ */}
-            {error && (
-              <div className="text-destructive text-center p-2 bg-destructive/10 rounded-md border border-destructive/20">
-                {error}
-              </div>
-            )}
+                {/* 結界文（パスワード）入力 */}
+                <div className="space-y-2">
+                  <Label htmlFor="password" className="text-foreground">
+                    結界文
+                  </Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="秘密の結界文を入力してください"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="bg-input-background border-border focus:border-primary transition-colors"
+                  />
+                  <div className="text-right">
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="text-muted-foreground hover:text-primary p-0 h-auto"
+                      onClick={() => setIsResettingPassword(true)}
+                    >
+                      結界文を忘れた方
+                    </Button>
+                  </div>
+                </div>
 
-            {/* 降霊ボタン */}
-            <Button 
-              type="submit" 
-              className="w-full bg-primary hover:bg-primary/90 text-primary-foreground transition-all hover:scale-105"
-            >
-              降霊する
-            </Button>
+                {/* エラーメッセージ */}
+                {error && (
+                  <div className="text-destructive text-center p-2 bg-destructive/10 rounded-md border border-destructive/20">
+                    {error}
+                  </div>
+                )}
 
-            {/* 新規登録への案内 */}
-            <div className="text-center">
-              <p className="text-muted-foreground">
-                初めての方は
-                <Button
-                  type="button"
-                  variant="link"
-                  className="text-primary hover:text-primary/80 p-0 ml-1 hover:underline"
-                  onClick={() => setCurrentScreen('register')}
+                {/* 降霊ボタン */}
+                <Button 
+                  type="submit" 
+                  disabled={isSubmitting}
+                  className="w-full bg-primary hover:bg-primary/90 text-primary-foreground transition-all hover:scale-105"
                 >
-                  魂紋の刻印
+                  {isSubmitting ? '降霊中...' : '降霊する'}
                 </Button>
-                へ
-              </p>
-            </div>
-          </form>
 
-          {/* デモ用ガイド */}
-          <div className="mt-6 p-3 bg-accent/20 rounded-lg border border-accent/30">
-            <p className="text-xs text-muted-foreground text-center">
-              <strong>デモ用アカウント:</strong><br />
-              符丁: mikoto@shrine.jp<br />
-              結界文: password123
-            </p>
-          </div>
+                {/* 新規登録への案内 */}
+                <div className="text-center">
+                  <p className="text-muted-foreground">
+                    初めての方は
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="text-primary hover:text-primary/80 p-0 ml-1 hover:underline"
+                      onClick={() => setCurrentScreen('register')}
+                    >
+                      魂紋の刻印
+                    </Button>
+                    へ
+                  </p>
+                </div>
+              </form>
+
+              {/* デモ用ガイド */}
+              <div className="mt-6 p-3 bg-accent/20 rounded-lg border border-accent/30">
+                <p className="text-xs text-muted-foreground text-center">
+                  <strong>デモ用アカウント:</strong><br />
+                  符丁: mikoto@shrine.jp<br />
+                  結界文: password123
+                </p>
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
 
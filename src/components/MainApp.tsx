@@ -1,20 +1,26 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Button } from './ui/button';
-import { useApp } from './AppContext';
-import { Menu, Crown, Search, Plus, Moon, Sun } from 'lucide-react';
+import { useApp } from './useApp';
+import { Menu, Crown, Search, Plus, Moon, Sun, Users } from 'lucide-react';
 import { Sheet, SheetContent, SheetTrigger } from './ui/sheet';
 import { RankingTab } from './RankingTab';
 import { SearchTab } from './SearchTab';
+import { FollowingTab } from './FollowingTab';
 import { SubmissionTab } from './SubmissionTab';
 import { Sidebar } from './Sidebar';
 import { RightSidebar } from './RightSidebar';
 
 // X（Twitter）風のメインアプリケーションコンポーネント
 export const MainApp: React.FC = () => {
-  const { theme, toggleTheme } = useApp();
+  const { theme, toggleTheme, savedSearchToRun, tagSearchToRun } = useApp();
   const [activeTab, setActiveTab] = useState('ranking');
 
+  // 保存した探求・タグでの探求を求められたら探求の壇を開く（条件の適用は探求の壇が行う）
+  useEffect(() => {
+    if (savedSearchToRun || tagSearchToRun) setActiveTab('search');
+  }, [savedSearchToRun, tagSearchToRun]);
+
   return (
     <div className="min-h-screen flex">
       {/* デスクトップ用サイドバー */}
@@ -62,7 +68,7 @@ export const MainApp: React.FC = () => {
         {/* 神秘的なタブナビゲーション */}
         <div className="sticky top-0 lg:top-0 z-30 bg-card/90 backdrop-blur-md border-b border-border/50">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-3 bg-transparent border-0 rounded-none h-auto p-2 gap-2">
+            <TabsList className="grid w-full grid-cols-4 bg-transparent border-0 rounded-none h-auto p-2 gap-2">
               <TabsTrigger 
                 value="ranking" 
                 className="tab-trigger flex flex-col items-center justify-center group relative overflow-hidden large-clickable interactive-element mystical-glow haptic-feedback click-animation"
@@ -99,6 +105,21 @@ export const MainApp: React.FC = () => {
                 </div>
               </TabsTrigger>
               
+              <TabsTrigger 
+                value="following" 
+                className="tab-trigger flex flex-col items-center justify-center group relative overflow-hidden large-clickable interactive-element mystical-glow haptic-feedback click-animation"
+                role="tab"
+                aria-label="縁の壇 - フォロー中の魂紋の供物"
+              >
+                <div className="flex flex-col items-center space-y-1 relative z-10">
+                  <div className="relative">
+                    <Users size={22} className="transition-all duration-300 group-hover:scale-110" />
+                  </div>
+                  <span className="text-sm font-medium tracking-wide content-hierarchy-3">縁の壇</span>
+                  <span className="text-xs opacity-80 text-secondary">フォロー中</span>
+                </div>
+              </TabsTrigger>
+              
               <TabsTrigger 
                 value="submission" 
                 className="tab-trigger flex flex-col items-center justify-center group relative overflow-hidden large-clickable interactive-element mystical-glow haptic-feedback click-animation"
@@ -131,6 +152,10 @@ export const MainApp: React.FC = () => {
               <SearchTab />
             </TabsContent>
 
+            <TabsContent value="following" className="mt-0">
+              <FollowingTab />
+            </TabsContent>
+
             <TabsContent value="submission" className="mt-0">
               <SubmissionTab />
             </TabsContent>
@@ -0,0 +1,187 @@
+import React, { useMemo } from 'react';
+import { useApp } from './useApp';
+import type { User } from './AppContext';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../services/markdown';
+import { findUserByMention } from '../services/mentions';
+import { getLanguageLabel, highlightCode, type CodeTokenType } from '../services/syntaxHighlight';
+
+interface MarkdownContentProps {
+  /** Markdown で書かれた本文 */
+  source: string;
+  className?: string;
+  /** @名前・#タグ から魂紋の写し絵・探求の壇へ移れるか（入力中のプレビューでは false） */
+  interactive?: boolean;
+}
+
+// @名前 の照合先と、@名前・#タグ を押したときの移動先（移動先がなければ押せない文字として描く）
+interface IEntityActions {
+  readonly users: readonly User[];
+  readonly openUser?: (userId: string) => void;
+  readonly searchTag?: (tag: string) => void;
+}
+
+// 字句の種類ごとの表示スタイル
+const CODE_TOKEN_CLASS: Record<CodeTokenType, string | undefined> = {
+  plain: undefined,
+  keyword: 'text-purple-700 dark:text-purple-300',
+  literal: 'text-sky-700 dark:text-sky-300',
+  string: 'text-green-800 dark:text-green-300',
+  number: 'text-amber-700 dark:text-amber-300',
+  comment: 'text-muted-foreground italic'
+};
+
+// 見出しの表示スタイル（供物の題名より目立たないよう控えめにする）
+const HEADING_CLASS = ['text-lg font-semibold', 'text-base font-semibold', 'font-semibold', 'font-medium', 'font-medium', 'font-medium'];
+
+// @名前・#タグ の表示スタイル
+const ENTITY_CLASS = 'text-primary font-medium hover:underline underline-offset-2';
+
+// 行内の要素の描画
+const renderInline = (nodes: readonly MarkdownInline[], actions: IEntityActions): React.ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.kind) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, actions)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children, actions)}</em>;
+      case 'strike':
+        return <del key={index}>{renderInline(node.children, actions)}</del>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary underline underline-offset-2 break-all hover:text-primary/80"
+            // 供物カードのクリック（詳細の表示）と重ならないようにする
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInline(node.children, actions)}
+          </a>
+        );
+      case 'mention': {
+        // 呼び名の一致する魂紋がいなければ文字のまま表示する
+        const user = findUserByMention(node.name, actions.users);
+        if (!user) return <React.Fragment key={index}>@{node.name}</React.Fragment>;
+        const { openUser } = actions;
+        if (!openUser) return <span key={index} className="text-primary font-medium">@{node.name}</span>;
+        return (
+          <button
+            key={index}
+            type="button"
+            className={ENTITY_CLASS}
+            title={`${user.name} さんの写し絵`}
+            onClick={(e) => {
+              e.stopPropagation();
+              openUser(user.id);
+            }}
+          >
+            @{node.name}
+          </button>
+        );
+      }
+      case 'hashtag': {
+        const { searchTag } = actions;
+        if (!searchTag) return <span key={index} className="text-primary font-medium">#{node.tag}</span>;
+        return (
+          <button
+            key={index}
+            type="button"
+            className={ENTITY_CLASS}
+            title={`#${node.tag} の供物を探す`}
+            onClick={(e) => {
+              e.stopPropagation();
+              searchTag(node.tag);
+            }}
+          >
+            #{node.tag}
+          </button>
+        );
+      }
+    }
+  });
+
+// ブロック要素の描画
+const renderBlocks = (blocks: readonly MarkdownBlock[], actions: IEntityActions): React.ReactNode =>
+  blocks.map((block, index) => {
+    switch (block.kind) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, actions)}</p>;
+      case 'heading':
+        return (
+          <p key={index} role="heading" aria-level={block.level + 2} className={`text-foreground ${HEADING_CLASS[block.level - 1]}`}>
+            {renderInline(block.children, actions)}
+          </p>
+        );
+      case 'codeBlock': {
+        const label = getLanguageLabel(block.language);
+        return (
+          <div key={index} className="overflow-hidden rounded-md border bg-muted/60">
+            {label && (
+              <div className="border-b px-3 py-1 text-xs text-muted-foreground">{label}</div>
+            )}
+            <pre className="overflow-x-auto p-3 text-xs leading-relaxed">
+              <code className="font-mono text-foreground">
+                {highlightCode(block.code, block.language).map((token, tokenIndex) => (
+                  <span key={tokenIndex} className={CODE_TOKEN_CLASS[token.type]}>{token.text}</span>
+                ))}
+              </code>
+            </pre>
+          </div>
+        );
+      }
+      case 'quote':
+        return (
+          <blockquote key={index} className="space-y-2 border-l-4 border-primary/30 pl-3 text-muted-foreground">
+            {renderBlocks(block.children, actions)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="space-y-1">{renderBlocks(item, actions)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal space-y-1 pl-6">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc space-y-1 pl-6">{items}</ul>
+        );
+      }
+      case 'rule':
+        return <hr key={index} className="border-border" />;
+    }
+  });
+
+// Markdown で書かれた本文の表示コンポーネント
+// 構文木の要素のみを描き、本文中の HTML は文字として表示する
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ source, className = '', interactive = true }) => {
+  const { users, setSelectedUserId, setCurrentScreen, runTagSearch } = useApp();
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  const actions: IEntityActions = interactive
+    ? {
+        users,
+        openUser: (userId) => {
+          setSelectedUserId(userId);
+          setCurrentScreen('userProfile');
+        },
+        searchTag: runTagSearch
+      }
+    : { users };
+
+  return (
+    <div className={`space-y-3 break-words ${className}`}>
+      {renderBlocks(blocks, actions)}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { UserAvatarImage } from './UserAvatarImage';
+import { toMentionName } from '../services/mentions';
+import { mentionOptionId, type MentionSuggestionsProps } from './useMentionAutocomplete';
+
+// @名前 の候補の一覧（入力欄の直下に重ねて表示する。親要素は relative にすること）
+export const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({ id, candidates, activeIndex, onPick }) => {
+  if (candidates.length === 0) return null;
+
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      aria-label="呼びかける魂紋"
+      className="absolute left-0 top-full z-50 mt-1 w-64 max-w-full overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+    >
+      {candidates.map((user, index) => (
+        <li
+          key={user.id}
+          id={mentionOptionId(id, index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={`flex cursor-pointer items-center space-x-2 rounded-sm px-2 py-1.5 text-sm ${
+            index === activeIndex ? 'bg-accent text-accent-foreground' : ''
+          }`}
+          // 入力欄のフォーカスを外さずに選ぶ
+          onMouseDown={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onPick(user);
+          }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Avatar className="h-5 w-5">
+            <UserAvatarImage avatar={user.avatar} alt={user.name} displaySize={20} />
+            <AvatarFallback className="text-[10px] bg-accent text-primary">{user.name.charAt(0)}</AvatarFallback>
+          </Avatar>
+          <span className="truncate font-medium">@{toMentionName(user.name)}</span>
+          {user.department && <span className="truncate text-xs text-muted-foreground">{user.department}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Loader2 } from 'lucide-react';
+import { useApp } from './useApp';
+
+// 未読み込みの供物の続きを求める一覧の末尾コンポーネント
+// 一覧の末尾までスクロールすると自動で読み込むが、絞り込みで一覧が短い場合は押して読み込む
+export const MoreOfferingsFooter: React.FC = () => {
+  const { hasMoreOfferings, isLoadingMoreOfferings, loadMoreOfferings } = useApp();
+
+  if (!hasMoreOfferings) return null;
+
+  return (
+    <div className="flex justify-center py-4" aria-live="polite">
+      {isLoadingMoreOfferings ? (
+        <span className="flex items-center text-sm text-muted-foreground">
+          <Loader2 size={16} className="mr-2 animate-spin" />
+          供物を読み込んでいます…
+        </span>
+      ) : (
+        <Button variant="outline" size="sm" onClick={loadMoreOfferings} className="haptic-feedback">
+          さらに供物を読み込む
+        </Button>
+      )}
+    </div>
+  );
+};
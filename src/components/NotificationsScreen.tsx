@@ -0,0 +1,153 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent } from './ui/card';
+import { ArrowLeft, AtSign, Bell, CheckCheck, Heart, type LucideIcon, Megaphone, MessageCircle, Reply, SearchCheck, Sparkles, UserPlus, Wrench } from 'lucide-react';
+import { useApp } from './useApp';
+import type { AppNotification } from './AppContext';
+import type { NotificationType } from '../types/enterprise';
+
+// 便りの種類ごとの表示
+const NOTIFICATION_ICONS: Record<NotificationType, LucideIcon> = {
+  prayer_received: Heart,
+  guidance_received: MessageCircle,
+  guidance_reply: Reply,
+  saved_search_match: SearchCheck,
+  mention_received: AtSign,
+  follower_new: UserPlus,
+  offering_featured: Sparkles,
+  system_announcement: Megaphone,
+  maintenance: Wrench
+};
+
+// 受信日時の表示形式
+const formatReceivedAt = (date: Date) =>
+  `${date.toLocaleDateString('ja-JP')} ${date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}`;
+
+// 便り画面コンポーネント
+export const NotificationsScreen: React.FC = () => {
+  const {
+    notifications,
+    unreadNotificationCount,
+    markNotificationRead,
+    markAllNotificationsRead,
+    setCurrentScreen,
+    setSelectedOfferingId,
+    setSelectedUserId
+  } = useApp();
+
+  // 便りを開く（既読にし、関連する供物の詳細を表示。縁の便りは縁を結んだ魂紋の写し絵を表示）
+  const handleOpen = (notification: AppNotification) => {
+    markNotificationRead(notification.id);
+    const offeringId = notification.relatedData?.offeringId;
+    const userId = notification.relatedData?.userId;
+    if (offeringId) {
+      setSelectedOfferingId(offeringId);
+    } else if (notification.type === 'follower_new' && userId) {
+      setSelectedUserId(userId);
+      setCurrentScreen('userProfile');
+    }
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* ヘッダー */}
+      <header className="bg-card/95 backdrop-blur-sm border-b border-border sticky top-0 z-50">
+        <div className="flex items-center justify-between p-4">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setCurrentScreen('main')}
+              className="hover:bg-accent/50 transition-colors"
+            >
+              <ArrowLeft size={20} />
+            </Button>
+            <h1 className="text-primary">便り</h1>
+            {unreadNotificationCount > 0 && (
+              <Badge variant="secondary">未読 {unreadNotificationCount}件</Badge>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={markAllNotificationsRead}
+            disabled={unreadNotificationCount === 0}
+            className="flex items-center space-x-2"
+          >
+            <CheckCheck size={16} />
+            <span>すべて既読にする</span>
+          </Button>
+        </div>
+      </header>
+
+      {/* メインコンテンツ */}
+      <main className="container mx-auto p-4 max-w-2xl">
+        {notifications.length === 0 ? (
+          <Card className="shadow-lg border-2 border-border/50">
+            <CardContent className="flex flex-col items-center space-y-3 py-12 text-muted-foreground">
+              <Bell size={32} />
+              <p>まだ便りは届いていません</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <ul className="space-y-2" aria-label="便りの一覧">
+            {notifications.map(notification => {
+              const Icon = NOTIFICATION_ICONS[notification.type];
+              const offeringId = notification.relatedData?.offeringId;
+              const followerId = notification.type === 'follower_new' ? notification.relatedData?.userId : undefined;
+              const href = offeringId
+                ? `/offerings/${encodeURIComponent(offeringId)}`
+                : followerId ? `/users/${encodeURIComponent(followerId)}` : null;
+
+              return (
+                <li
+                  key={notification.id}
+                  className={`flex items-start gap-3 rounded-lg border p-4 transition-colors ${
+                    notification.isRead ? 'border-border bg-card/50' : 'border-primary/40 bg-primary/5'
+                  }`}
+                >
+                  <Icon size={18} className={`mt-0.5 shrink-0 ${notification.isRead ? 'text-muted-foreground' : 'text-primary'}`} />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      {!notification.isRead && (
+                        <span className="h-2 w-2 shrink-0 rounded-full bg-primary" aria-label="未読" />
+                      )}
+                      {/* 関連する供物があれば詳細（/offerings/:id）を、縁の便りは魂紋の写し絵（/users/:id）を開く */}
+                      {href ? (
+                        <a
+                          href={href}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            handleOpen(notification);
+                          }}
+                          className="font-medium text-sm hover:underline focus-visible:underline"
+                        >
+                          {notification.title}
+                        </a>
+                      ) : (
+                        <span className="font-medium text-sm">{notification.title}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground break-words">{notification.content}</p>
+                    <p className="text-xs text-muted-foreground">{formatReceivedAt(notification.createdAt)}</p>
+                  </div>
+                  {!notification.isRead && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => markNotificationRead(notification.id)}
+                      className="shrink-0 text-xs text-muted-foreground"
+                    >
+                      既読にする
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog';
+import { useApp } from './useApp';
+import type { Offering } from './AppContext';
+import { OfferingEditDialog } from './OfferingEditDialog';
+import { Archive, ArchiveRestore, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+
+interface OfferingActionsMenuProps {
+  offering: Offering;
+}
+
+// 作者向けの供物操作メニュー（改める・秘蔵・取り下げ）
+export const OfferingActionsMenu: React.FC<OfferingActionsMenuProps> = ({ offering }) => {
+  const { currentUser, changeOfferingStatus } = useApp();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+
+  // 作者本人かつ保存済みの供物のみ操作できる
+  if (!currentUser || offering.authorId !== currentUser.id || offering.id.startsWith('pending-')) {
+    return null;
+  }
+
+  const isArchived = offering.status === 'archived';
+
+  // 秘蔵・公開の切り替え
+  const handleToggleArchive = async () => {
+    const success = await changeOfferingStatus(offering.id, isArchived ? 'published' : 'archived');
+    if (success) {
+      toast.success(isArchived ? '供物を祭壇に戻しました' : '供物を秘蔵しました', {
+        description: isArchived ? '再び皆が拝見できます' : 'あなたの魂紋の頁でのみ表示されます'
+      });
+    } else {
+      toast.error('供物の状態を変えられませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
+  // 取り下げ
+  const handleDelete = async () => {
+    const success = await changeOfferingStatus(offering.id, 'deleted');
+    if (success) {
+      toast.success('供物を取り下げました');
+    } else {
+      toast.error('供物を取り下げられませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 text-muted-foreground hover:text-primary"
+            aria-label="供物の操作"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <MoreHorizontal size={16} />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuItem onSelect={() => setIsEditOpen(true)}>
+            <Pencil size={14} />
+            改める
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleToggleArchive}>
+            {isArchived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+            {isArchived ? '祭壇に戻す' : '秘蔵する'}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem variant="destructive" onSelect={() => setIsDeleteConfirmOpen(true)}>
+            <Trash2 size={14} />
+            取り下げる
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <OfferingEditDialog offering={offering} isOpen={isEditOpen} onClose={() => setIsEditOpen(false)} />
+
+      <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>供物を取り下げますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              「{offering.title}」を祭壇から取り下げます。寄せられた祈念と導きも表示されなくなり、元に戻せません。
+              一時的に隠したい場合は「秘蔵する」をお使いください。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取りやめる</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              取り下げる
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
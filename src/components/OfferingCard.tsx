@@ -1,23 +1,42 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { UserAvatarImage } from './UserAvatarImage';
 import { Input } from './ui/input';
-import { Heart, MessageCircle, Send, Trophy } from 'lucide-react';
-import { useApp, type Offering } from './AppContext';
+import { Archive, Eye, Heart, MessageCircle, Send, Users } from 'lucide-react';
+import { useApp } from './useApp';
+import type { Offering } from './AppContext';
+import { OfferingActionsMenu } from './OfferingActionsMenu';
+import { OfferingImageCarousel } from './OfferingImageCarousel';
+import { GuidanceTypePicker } from './GuidanceTypePicker';
+import { buildGuidanceThreads } from './guidanceThreads';
+import { RankingBadge } from './RankingBadge';
+import { HighlightedText } from './HighlightedText';
+import { MarkdownContent } from './MarkdownContent';
+import { MentionSuggestions } from './MentionAutocomplete';
+import { useMentionAutocomplete } from './useMentionAutocomplete';
+import type { IOfferingRankingItem } from '../services/ranking';
+import { buildSnippet, highlightText } from '../services/search';
+import { markdownToPlainText } from '../services/markdown';
+import type { GuidanceType } from '../types/enterprise';
 
 interface OfferingCardProps {
   offering: Offering;
   rank?: number; // ランキング表示用（オプション）
+  ranking?: IOfferingRankingItem; // 点数の内訳・順位の変動（ランキング表示用）
   showInteractions?: boolean; // いいね・コメント機能の表示有無
+  searchTerms?: readonly string[]; // 検索で一致した語（題名を強調し、内容は一致箇所の抜粋にする）
 }
 
 // 適切なサイズの供物カードコンポーネント
 export const OfferingCard: React.FC<OfferingCardProps> = ({ 
   offering, 
   rank, 
-  showInteractions = true 
+  ranking,
+  showInteractions = true,
+  searchTerms
 }) => {
   const { 
     currentUser, 
@@ -25,11 +44,17 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
     addComment, 
     setCurrentScreen, 
     setSelectedUserId, 
+    setSelectedOfferingId,
     getUserById 
   } = useApp();
   
   const [commentText, setCommentText] = useState('');
+  const [commentType, setCommentType] = useState<GuidanceType>('共感');
   const [showComments, setShowComments] = useState(false);
+  const commentMention = useMentionAutocomplete(commentText, setCommentText);
+
+  // カードではスレッドの起点のみ表示し、返信は詳細モーダルで表示する
+  const threads = useMemo(() => buildGuidanceThreads(offering.comments), [offering.comments]);
 
   // 現在のユーザーがいいねしているかチェック
   const isLiked = currentUser ? offering.likedBy.includes(currentUser.id) : false;
@@ -49,7 +74,7 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
     
     if (!commentText.trim() || !currentUser) return;
     
-    addComment(offering.id, commentText.trim());
+    addComment(offering.id, commentText.trim(), { type: commentType });
     setCommentText('');
   };
 
@@ -60,15 +85,8 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
     setCurrentScreen('userProfile');
   };
 
-  // 順位の色を取得（上位3位まで特別色）
-  const getRankColor = (rank: number) => {
-    switch (rank) {
-      case 1: return 'text-yellow-600'; // 金
-      case 2: return 'text-gray-500';   // 銀
-      case 3: return 'text-amber-600';  // 銅
-      default: return 'text-muted-foreground';
-    }
-  };
+  // 表示する順位（内訳があればその順位）
+  const displayRank = ranking?.rank ?? rank;
 
   // 投稿者の情報を取得
   const author = getUserById(offering.authorId);
@@ -79,14 +97,23 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
         <div className="flex items-start justify-between">
           <div className="flex-1">
             {/* ランキング表示（オプション） */}
-            {rank && (
-              <div className={`flex items-center space-x-2 mb-2 ${getRankColor(rank)}`}>
-                {rank <= 3 && <Trophy size={16} />}
-                <span className="font-bold text-sm">{rank}位</span>
-              </div>
-            )}
+            {displayRank && <RankingBadge rank={displayRank} item={ranking} />}
             
-            <CardTitle className="text-lg mb-2 text-primary leading-relaxed">{offering.title}</CardTitle>
+            <CardTitle className="text-lg mb-2 text-primary leading-relaxed">
+              {/* 題名クリックで詳細を開く（/offerings/:id） */}
+              <a
+                href={`/offerings/${encodeURIComponent(offering.id)}`}
+                onClick={(e) => {
+                  e.preventDefault();
+                  setSelectedOfferingId(offering.id);
+                }}
+                className="hover:underline focus-visible:underline"
+              >
+                {searchTerms
+                  ? <HighlightedText segments={highlightText(offering.title, searchTerms)} />
+                  : offering.title}
+              </a>
+            </CardTitle>
             
             {/* 投稿者情報 */}
             <div className="flex items-center space-x-2 mb-2">
@@ -98,7 +125,7 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
               >
                 <div className="flex items-center space-x-2">
                   <Avatar className="w-6 h-6">
-                    <AvatarImage src={author?.avatar} alt={offering.author} />
+                    <UserAvatarImage avatar={author?.avatar} alt={offering.author} displaySize={24} />
                     <AvatarFallback className="text-xs bg-accent text-primary">
                       {offering.author.charAt(0)}
                     </AvatarFallback>
@@ -110,9 +137,27 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
               </Button>
               <span className="text-xs text-muted-foreground">
                 • {offering.createdAt.toLocaleDateString('ja-JP')}
+                {offering.editedAt && '（改訂済み）'}
               </span>
             </div>
           </div>
+
+          {/* 秘蔵中・縁者のみの表示と作者向けの操作 */}
+          <div className="flex items-center space-x-1">
+            {offering.status === 'archived' && (
+              <Badge variant="outline" className="text-xs flex items-center space-x-1">
+                <Archive size={12} />
+                <span>秘蔵中</span>
+              </Badge>
+            )}
+            {offering.visibility === 'followers' && (
+              <Badge variant="outline" className="text-xs flex items-center space-x-1" title="作者と縁を結んだ魂紋にのみ見えます">
+                <Users size={12} />
+                <span>縁者のみ</span>
+              </Badge>
+            )}
+            <OfferingActionsMenu offering={offering} />
+          </div>
         </div>
         
         {/* ジャンルバッジ */}
@@ -126,10 +171,17 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
       </CardHeader>
 
       <CardContent className="space-y-4">
-        {/* 供物の内容 */}
-        <p className="text-muted-foreground leading-relaxed text-sm">
-          {offering.content}
-        </p>
+        {/* 供物の内容（検索結果では記法を除いた抜粋） */}
+        {searchTerms ? (
+          <p className="text-muted-foreground leading-relaxed text-sm">
+            <HighlightedText segments={buildSnippet(markdownToPlainText(offering.content), searchTerms)} />
+          </p>
+        ) : (
+          <MarkdownContent source={offering.content} className="text-muted-foreground leading-relaxed text-sm" />
+        )}
+
+        {/* 添付画像 */}
+        <OfferingImageCarousel paths={offering.imagePaths} title={offering.title} />
 
         {/* 統計情報とアクション */}
         {showInteractions && (
@@ -169,6 +221,16 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
                   <MessageCircle size={18} />
                   <span className="text-sm">{offering.comments.length}</span>
                 </Button>
+
+                {/* 閲覧数 */}
+                <div
+                  className="flex items-center space-x-1 px-2 text-muted-foreground"
+                  title="魂紋ごとに1日1回と数えた閲覧数"
+                  aria-label={`閲覧 ${offering.views}`}
+                >
+                  <Eye size={18} />
+                  <span className="text-sm">{offering.views}</span>
+                </div>
               </div>
             </div>
 
@@ -176,9 +238,9 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
             {showComments && (
               <div className="space-y-3 pt-3 border-t border-border">
                 {/* コメント一覧 */}
-                {offering.comments.length > 0 && (
+                {threads.length > 0 && (
                   <div className="space-y-3 max-h-60 overflow-y-auto">
-                    {offering.comments.map((comment) => {
+                    {threads.map(({ root: comment, replies }) => {
                       const commentAuthor = getUserById(comment.authorId);
                       return (
                         <div key={comment.id} className="bg-accent/20 p-3 rounded-lg">
@@ -190,7 +252,7 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
                               onClick={(e) => handleUserClick(comment.authorId, e)}
                             >
                               <Avatar className="w-5 h-5">
-                                <AvatarImage src={commentAuthor?.avatar} alt={comment.author} />
+                                <UserAvatarImage avatar={commentAuthor?.avatar} alt={comment.author} displaySize={20} />
                                 <AvatarFallback className="text-xs bg-accent text-primary">
                                   {comment.author.charAt(0)}
                                 </AvatarFallback>
@@ -208,11 +270,27 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
                                     {comment.author}
                                   </span>
                                 </Button>
+                                {comment.type && (
+                                  <Badge variant="outline" className="text-xs">{comment.type}</Badge>
+                                )}
                                 <span className="text-xs text-muted-foreground">
                                   {comment.createdAt.toLocaleDateString('ja-JP')} {comment.createdAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
                                 </span>
                               </div>
-                              <p className="text-sm">{comment.content}</p>
+                              <MarkdownContent source={comment.content} className="text-sm" />
+                              {replies.length > 0 && (
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto p-0 text-xs text-muted-foreground"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setSelectedOfferingId(offering.id);
+                                  }}
+                                >
+                                  返信 {replies.length}件を見る
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -222,22 +300,29 @@ export const OfferingCard: React.FC<OfferingCardProps> = ({
                 )}
 
                 {/* コメント投稿フォーム */}
+                {currentUser && (
+                  <GuidanceTypePicker value={commentType} onChange={setCommentType} />
+                )}
                 {currentUser && (
                   <form onSubmit={handleAddComment} className="flex space-x-2">
                     <div className="flex items-center space-x-2 flex-1">
                       <Avatar className="w-6 h-6">
-                        <AvatarImage src={currentUser.avatar} alt={currentUser.name} />
+                        <UserAvatarImage avatar={currentUser.avatar} alt={currentUser.name} displaySize={24} />
                         <AvatarFallback className="text-xs bg-accent text-primary">
                           {currentUser.name.charAt(0)}
                         </AvatarFallback>
                       </Avatar>
-                      <Input
-                        value={commentText}
-                        onChange={(e) => setCommentText(e.target.value)}
-                        placeholder="導きの言葉を捧げる..."
-                        className="flex-1 text-sm"
-                        onClick={(e) => e.stopPropagation()}
-                      />
+                      <div className="relative flex-1">
+                        <Input
+                          value={commentText}
+                          onChange={(e) => setCommentText(e.target.value)}
+                          placeholder="導きの言葉を捧げる..."
+                          className="text-sm"
+                          onClick={(e) => e.stopPropagation()}
+                          {...commentMention.inputProps}
+                        />
+                        <MentionSuggestions {...commentMention.suggestionProps} />
+                      </div>
                     </div>
                     <Button
                       type="submit"
@@ -1,12 +1,24 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { Badge } from './ui/badge';
-import { Avatar, AvatarFallback } from './ui/avatar';
-import { useApp } from './AppContext';
-import { Heart, MessageCircle, Send } from 'lucide-react';
+import { useApp } from './useApp';
+import { Eye, Heart, MessageCircle, Send, Link } from 'lucide-react';
+import { toast } from 'sonner';
 import type { Offering } from './AppContext';
+import { buildOfferingUrl } from '../services/router';
+import { OfferingActionsMenu } from './OfferingActionsMenu';
+import { OfferingImageCarousel } from './OfferingImageCarousel';
+import { MarkdownContent } from './MarkdownContent';
+import { MentionSuggestions } from './MentionAutocomplete';
+import { useMentionAutocomplete } from './useMentionAutocomplete';
+import { OfferingRevisionHistory } from './OfferingRevisionHistory';
+import { GuidanceTypePicker } from './GuidanceTypePicker';
+import { GuidanceThread } from './GuidanceThread';
+import { buildGuidanceThreads } from './guidanceThreads';
+import { GUIDANCE_TYPES } from './data/constants';
+import type { GuidanceType } from '../types/enterprise';
 
 interface OfferingDetailModalProps {
   offering: Offering;
@@ -20,9 +32,23 @@ export const OfferingDetailModal: React.FC<OfferingDetailModalProps> = ({
   isOpen,
   onClose
 }) => {
-  const { currentUser, likeOffering, addComment } = useApp();
+  const { currentUser, likeOffering, addComment, recordOfferingView } = useApp();
   const [commentText, setCommentText] = useState('');
+  const [commentType, setCommentType] = useState<GuidanceType>('共感');
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<GuidanceType | 'all'>('all');
+  const commentMention = useMentionAutocomplete(commentText, setCommentText);
+
+  // 導きのスレッド（絞り込み時は、いずれかの導きが該当するスレッドを表示）
+  const threads = useMemo(() => buildGuidanceThreads(offering.comments), [offering.comments]);
+  const filteredThreads = typeFilter === 'all'
+    ? threads
+    : threads.filter(thread => [thread.root, ...thread.replies].some(comment => comment.type === typeFilter));
+
+  // 開いたときに閲覧を記録する
+  useEffect(() => {
+    if (isOpen) recordOfferingView(offering.id);
+  }, [isOpen, offering.id]);
 
   // 現在のユーザーが祈念済みかチェック
   const hasLiked = currentUser ? offering.likedBy.includes(currentUser.id) : false;
@@ -34,16 +60,26 @@ export const OfferingDetailModal: React.FC<OfferingDetailModalProps> = ({
     }
   };
 
+  // 共有用リンクの写し取り
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildOfferingUrl(offering.id));
+      toast.success('供物への道標を写し取りました');
+    } catch {
+      toast.error('道標を写し取れませんでした');
+    }
+  };
+
   // 導き（コメント）の投稿
   const handleSubmitComment = async () => {
     if (!commentText.trim() || !currentUser) return;
 
     setIsSubmittingComment(true);
     
-    // 実際のアプリでは、ここでAPIを呼び出してバックエンドに送信
-    addComment(offering.id, commentText);
-    
-    setCommentText('');
+    const success = await addComment(offering.id, commentText, { type: commentType });
+    if (success) {
+      setCommentText('');
+    }
     setIsSubmittingComment(false);
   };
 
@@ -64,7 +100,15 @@ export const OfferingDetailModal: React.FC<OfferingDetailModalProps> = ({
           <div className="space-y-3">
             <div className="flex items-center justify-between text-sm text-muted-foreground">
               <span>投稿者：{offering.author}</span>
-              <span>{offering.createdAt.toLocaleDateString('ja-JP')}</span>
+              <div className="flex items-center space-x-2">
+                <span>
+                  {offering.createdAt.toLocaleDateString('ja-JP')}
+                  {offering.editedAt && `（${offering.editedAt.toLocaleDateString('ja-JP')} 改訂）`}
+                </span>
+                {offering.status === 'archived' && <Badge variant="outline">秘蔵中</Badge>}
+                {offering.visibility === 'followers' && <Badge variant="outline">縁者のみ</Badge>}
+                <OfferingActionsMenu offering={offering} />
+              </div>
             </div>
             
             {/* ジャンルバッジ */}
@@ -79,11 +123,12 @@ export const OfferingDetailModal: React.FC<OfferingDetailModalProps> = ({
 
           {/* 供物の内容 */}
           <div className="bg-card p-4 rounded-lg border">
-            <p className="whitespace-pre-wrap leading-relaxed">
-              {offering.content}
-            </p>
+            <MarkdownContent source={offering.content} className="leading-relaxed" />
           </div>
 
+          {/* 添付画像 */}
+          <OfferingImageCarousel paths={offering.imagePaths} title={offering.title} />
+
           {/* アクションボタン */}
           <div className="flex items-center space-x-4 pt-2 border-t">
             <Button
@@ -102,19 +147,42 @@ export const OfferingDetailModal: React.FC<OfferingDetailModalProps> = ({
               <MessageCircle size={16} />
               <span>導き {offering.comments.length}</span>
             </div>
+
+            <div className="flex items-center space-x-2 text-muted-foreground" title="魂紋ごとに1日1回と数えた閲覧数">
+              <Eye size={16} />
+              <span>閲覧 {offering.views}</span>
+            </div>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCopyLink}
+              className="ml-auto flex items-center space-x-2 text-muted-foreground"
+            >
+              <Link size={14} />
+              <span>道標を写す</span>
+            </Button>
           </div>
 
+          {/* 改訂履歴 */}
+          <OfferingRevisionHistory offering={offering} />
+
           {/* 導き（コメント）投稿フォーム */}
           {currentUser && (
             <div className="space-y-3 pt-4 border-t">
               <h4 className="text-primary">導きを記す</h4>
               <div className="space-y-3">
-                <Textarea
-                  placeholder="この供物に対する導きの言葉を記してください..."
-                  value={commentText}
-                  onChange={(e) => setCommentText(e.target.value)}
-                  className="min-h-[80px] resize-none"
-                />
+                <GuidanceTypePicker value={commentType} onChange={setCommentType} disabled={isSubmittingComment} />
+                <div className="relative">
+                  <Textarea
+                    placeholder="この供物に対する導きの言葉を記してください..."
+                    value={commentText}
+                    onChange={(e) => setCommentText(e.target.value)}
+                    className="min-h-[80px] resize-none"
+                    {...commentMention.inputProps}
+                  />
+                  <MentionSuggestions {...commentMention.suggestionProps} />
+                </div>
                 <div className="flex justify-end">
                   <Button
                     onClick={handleSubmitComment}
@@ -134,32 +202,32 @@ export const OfferingDetailModal: React.FC<OfferingDetailModalProps> = ({
           {offering.comments.length > 0 && (
             <div className="space-y-4 pt-4 border-t">
               <h4 className="text-primary">寄せられた導き</h4>
+
+              {/* 種類による絞り込み */}
+              <div className="flex flex-wrap gap-1" role="group" aria-label="導きの種類で絞り込む">
+                {(['all', ...GUIDANCE_TYPES.map(type => type.value)] as const).map(type => (
+                  <Button
+                    key={type}
+                    variant={typeFilter === type ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setTypeFilter(type)}
+                    aria-pressed={typeFilter === type}
+                  >
+                    {type === 'all' ? 'すべて' : type}
+                  </Button>
+                ))}
+              </div>
+
               <div className="space-y-4">
-                {offering.comments.map((comment) => (
-                  <div key={comment.id} className="flex space-x-3">
-                    {/* アバター */}
-                    <Avatar className="w-8 h-8">
-                      <AvatarFallback className="text-xs bg-primary/10 text-primary">
-                        {comment.author.charAt(0)}
-                      </AvatarFallback>
-                    </Avatar>
-                    
-                    {/* コメント内容 */}
-                    <div className="flex-1 space-y-1">
-                      <div className="flex items-center space-x-2">
-                        <span className="font-medium text-sm">{comment.author}</span>
-                        <span className="text-xs text-muted-foreground">
-                          {comment.createdAt.toLocaleDateString('ja-JP')}
-                        </span>
-                      </div>
-                      <div className="bg-muted/50 p-3 rounded-lg">
-                        <p className="whitespace-pre-wrap text-sm">
-                          {comment.content}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
+                {filteredThreads.map(thread => (
+                  <GuidanceThread key={thread.root.id} offeringId={offering.id} thread={thread} />
                 ))}
+                {filteredThreads.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    「{typeFilter}」の導きはまだありません
+                  </p>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { useApp } from './useApp';
+import type { Offering } from './AppContext';
+import { OfferingFormFields } from './OfferingFormFields';
+import { validateOfferingForm, type OfferingFormErrors, type OfferingFormValue } from './offeringForm';
+
+interface OfferingEditDialogProps {
+  offering: Offering;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// 供物を改めるダイアログ
+export const OfferingEditDialog: React.FC<OfferingEditDialogProps> = ({ offering, isOpen, onClose }) => {
+  const { editOffering } = useApp();
+
+  // フォームの状態管理
+  const [formData, setFormData] = useState<OfferingFormValue>({
+    title: offering.title,
+    content: offering.content,
+    genres: offering.genres,
+    visibility: offering.visibility
+  });
+  const [errors, setErrors] = useState<OfferingFormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 開くたびに現在の版から始める
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData({ title: offering.title, content: offering.content, genres: offering.genres, visibility: offering.visibility });
+    setErrors({});
+  }, [isOpen, offering.id]);
+
+  // フォーム入力値の更新
+  const updateFormData = <K extends keyof OfferingFormValue>(field: K, value: OfferingFormValue[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  // 変更の有無（変更がなければ改訂履歴を残さない）
+  const isChanged =
+    formData.title.trim() !== offering.title ||
+    formData.content.trim() !== offering.content ||
+    formData.genres.length !== offering.genres.length ||
+    formData.genres.some(genre => !offering.genres.includes(genre)) ||
+    formData.visibility !== offering.visibility;
+
+  // 改訂の保存
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors = validateOfferingForm(formData);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      toast.error('入力内容に不備があります');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const success = await editOffering(offering.id, {
+      title: formData.title.trim(),
+      content: formData.content.trim(),
+      genres: formData.genres,
+      visibility: formData.visibility
+    });
+    setIsSubmitting(false);
+
+    if (success) {
+      toast.success('供物を改めました', {
+        description: '改める前の版は改訂履歴に残ります'
+      });
+      onClose();
+    } else {
+      toast.error('供物を改められませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-primary">供物を改める</DialogTitle>
+          <DialogDescription>
+            題名・内容・ジャンル・公開範囲を改められます。改める前の版は改訂履歴として残ります。
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <OfferingFormFields
+            value={formData}
+            errors={errors}
+            onFieldChange={updateFormData}
+            idPrefix={`edit-${offering.id}`}
+          />
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              取りやめる
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !isChanged}>
+              {isSubmitting ? '保存中...' : '改める'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
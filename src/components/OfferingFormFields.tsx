@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { AVAILABLE_GENRES, OFFERING_VISIBILITIES, VALIDATION_RULES } from './data/constants';
+import { Eye, PencilLine, X } from 'lucide-react';
+import { MarkdownContent } from './MarkdownContent';
+import { MentionSuggestions } from './MentionAutocomplete';
+import { useMentionAutocomplete } from './useMentionAutocomplete';
+import type { OfferingVisibility } from './AppContext';
+import type { OfferingFormErrors, OfferingFormValue } from './offeringForm';
+
+interface OfferingFormFieldsProps {
+  /** 入力値 */
+  value: OfferingFormValue;
+  /** 項目ごとのエラー */
+  errors: OfferingFormErrors;
+  /** 項目の変更 */
+  onFieldChange: <K extends keyof OfferingFormValue>(field: K, value: OfferingFormValue[K]) => void;
+  /** 同じ画面に複数のフォームを置く場合の id 接頭辞 */
+  idPrefix?: string;
+}
+
+// 供物の題名・内容・ジャンル・公開範囲の入力欄
+export const OfferingFormFields: React.FC<OfferingFormFieldsProps> = ({
+  value,
+  errors,
+  onFieldChange,
+  idPrefix = 'offering'
+}) => {
+  // 内容欄の表示（編集・プレビュー）
+  const [isPreview, setIsPreview] = useState(false);
+  const mention = useMentionAutocomplete(value.content, (content) => onFieldChange('content', content));
+
+  // ジャンル選択の切り替え
+  const toggleGenre = (genre: string) => {
+    onFieldChange(
+      'genres',
+      value.genres.includes(genre) ? value.genres.filter(g => g !== genre) : [...value.genres, genre]
+    );
+  };
+
+  return (
+    <>
+      {/* 題名入力 */}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-title`} className="text-foreground">
+          題名 <span className="text-destructive">*</span>
+        </Label>
+        <Input
+          id={`${idPrefix}-title`}
+          placeholder="供物の題名を入力してください（例：今日の学習成果）"
+          value={value.title}
+          onChange={(e) => onFieldChange('title', e.target.value)}
+          className={`${errors.title ? 'border-destructive' : ''}`}
+          maxLength={VALIDATION_RULES.TITLE_MAX_LENGTH}
+        />
+        {errors.title && (
+          <p className="text-destructive text-sm">{errors.title}</p>
+        )}
+        <p className="text-muted-foreground text-xs">
+          {value.title.length}/{VALIDATION_RULES.TITLE_MAX_LENGTH}文字
+        </p>
+      </div>
+
+      {/* 内容入力 */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${idPrefix}-content`} className="text-foreground">
+            供物の内容 <span className="text-destructive">*</span>
+          </Label>
+          <div className="flex rounded-md border p-0.5" role="group" aria-label="内容の表示">
+            <Button
+              type="button"
+              variant={isPreview ? 'ghost' : 'secondary'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              aria-pressed={!isPreview}
+              onClick={() => setIsPreview(false)}
+            >
+              <PencilLine size={12} className="mr-1" />
+              編集
+            </Button>
+            <Button
+              type="button"
+              variant={isPreview ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              aria-pressed={isPreview}
+              onClick={() => setIsPreview(true)}
+            >
+              <Eye size={12} className="mr-1" />
+              プレビュー
+            </Button>
+          </div>
+        </div>
+        {isPreview ? (
+          <div className={`min-h-[150px] rounded-md border bg-muted/20 p-3 text-sm ${errors.content ? 'border-destructive' : ''}`}>
+            {value.content.trim() ? (
+              <MarkdownContent source={value.content} className="leading-relaxed" interactive={false} />
+            ) : (
+              <p className="text-muted-foreground">プレビューする内容がありません</p>
+            )}
+          </div>
+        ) : (
+          <div className="relative">
+            <Textarea
+              id={`${idPrefix}-content`}
+              placeholder="あなたの成果、学び、体験を詳しく記述してください。&#10;&#10;例：&#10;・今日新しく学んだこと&#10;・克服した課題について&#10;・感じた気づきや成長&#10;・他の人に共有したい知恵"
+              value={value.content}
+              onChange={(e) => onFieldChange('content', e.target.value)}
+              className={`min-h-[150px] resize-none ${errors.content ? 'border-destructive' : ''}`}
+              maxLength={VALIDATION_RULES.CONTENT_MAX_LENGTH}
+              {...mention.inputProps}
+            />
+            <MentionSuggestions {...mention.suggestionProps} />
+          </div>
+        )}
+        {errors.content && (
+          <p className="text-destructive text-sm">{errors.content}</p>
+        )}
+        <p className="text-muted-foreground text-xs">
+          {value.content.length}/{VALIDATION_RULES.CONTENT_MAX_LENGTH}文字 ・
+          Markdown（**強調**、`コード`、```言語名 のコードブロック、- 箇条書き、&gt; 引用、[表示](URL) のリンク）と、@名前 での呼びかけ・#タグ が使えます
+        </p>
+      </div>
+
+      {/* ジャンル選択 */}
+      <div className="space-y-3">
+        <Label className="text-foreground">
+          ジャンル選択 <span className="text-destructive">*</span>
+        </Label>
+        <p className="text-muted-foreground text-sm">
+          供物の種類を表すジャンルを選択してください（複数選択可）
+        </p>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {AVAILABLE_GENRES.map(genre => (
+            <div key={genre} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${idPrefix}-genre-${genre}`}
+                checked={value.genres.includes(genre)}
+                onCheckedChange={() => toggleGenre(genre)}
+              />
+              <label
+                htmlFor={`${idPrefix}-genre-${genre}`}
+                className="text-sm cursor-pointer select-none"
+              >
+                【{genre}】
+              </label>
+            </div>
+          ))}
+        </div>
+
+        {value.genres.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            <span className="text-sm text-muted-foreground">選択中：</span>
+            {value.genres.map(genre => (
+              <Button
+                key={genre}
+                type="button"
+                variant="secondary"
+                size="sm"
+                className="h-6 text-xs px-2"
+                onClick={() => toggleGenre(genre)}
+              >
+                【{genre}】
+                <X size={12} className="ml-1" />
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {errors.genres && (
+          <p className="text-destructive text-sm">{errors.genres}</p>
+        )}
+      </div>
+
+      {/* 公開範囲の選択 */}
+      <div className="space-y-2">
+        <Label className="text-foreground">公開範囲</Label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={value.visibility}
+          // 選択中の範囲を押しても未選択にはしない
+          onValueChange={(next) => next && onFieldChange('visibility', next as OfferingVisibility)}
+          className="justify-start"
+          aria-label="公開範囲"
+        >
+          {OFFERING_VISIBILITIES.map(visibility => (
+            <ToggleGroupItem
+              key={visibility.value}
+              value={visibility.value}
+              title={visibility.description}
+              className="px-4 text-xs"
+            >
+              {visibility.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <p className="text-muted-foreground text-xs">
+          {OFFERING_VISIBILITIES.find(v => v.value === value.visibility)?.description}
+        </p>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { useApp } from './useApp';
+import { useImageUrls } from './useImageUrls';
+import { IMAGE_ATTACHMENT_RULES, formatBytes, prepareImage, validateImageFile } from '../services/media';
+import { ImagePlus, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface OfferingImageAttachmentsProps {
+  /** 添付済みの画像の保存先のパス */
+  value: string[];
+  /** 添付画像の変更 */
+  onChange: (paths: string[]) => void;
+  /** 奉納中など操作を受け付けない状態 */
+  disabled?: boolean;
+}
+
+// 受け付ける画像の種類（ファイル選択の絞り込み用）
+const ACCEPT = IMAGE_ATTACHMENT_RULES.ACCEPTED_TYPES.join(',');
+
+// 供物の添付画像の入力欄（ドラッグ＆ドロップ・貼り付け・ファイル選択）
+// 画像は選ばれた時点で縮小して保存し、供物には保存先のパスのみを記す
+export const OfferingImageAttachments: React.FC<OfferingImageAttachmentsProps> = ({ value, onChange, disabled = false }) => {
+  const { uploadOfferingImage, removeOfferingImages } = useApp();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const urls = useImageUrls(value);
+
+  // 保存の完了を待つ間に value が変わるため、最新値に追加する
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  // 画像の追加（上限を超える分は受け付けない）
+  const addFiles = async (files: File[]) => {
+    if (disabled || files.length === 0) return;
+
+    const remaining = IMAGE_ATTACHMENT_RULES.MAX_COUNT - valueRef.current.length - uploadingCount;
+    if (files.length > remaining) {
+      toast.error(`画像は${IMAGE_ATTACHMENT_RULES.MAX_COUNT}枚まで添付できます`);
+    }
+
+    const accepted = files.slice(0, Math.max(0, remaining)).filter(file => {
+      const error = validateImageFile(file);
+      if (error) toast.error(error);
+      return !error;
+    });
+    if (accepted.length === 0) return;
+
+    setUploadingCount(count => count + accepted.length);
+    await Promise.all(accepted.map(async file => {
+      try {
+        const path = await uploadOfferingImage(await prepareImage(file));
+        if (path) {
+          onChange([...valueRef.current, path]);
+          valueRef.current = [...valueRef.current, path];
+        } else {
+          toast.error(`「${file.name}」を保存できませんでした`, { description: '再度お試しください' });
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : `「${file.name}」を添付できませんでした`);
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }));
+  };
+
+  // 画像の取り外し（保存した画像も削除する）
+  const removeImage = (path: string) => {
+    onChange(value.filter(p => p !== path));
+    removeOfferingImages([path]);
+  };
+
+  // 画面のどこで貼り付けても画像を受け付ける（画像以外の貼り付けは妨げない）
+  const addFilesRef = useRef(addFiles);
+  addFilesRef.current = addFiles;
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+      e.preventDefault();
+      addFilesRef.current(files);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const isFull = value.length + uploadingCount >= IMAGE_ATTACHMENT_RULES.MAX_COUNT;
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-foreground">添付画像</Label>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`rounded-lg border-2 border-dashed p-4 text-center transition-colors ${
+          isDragging ? 'border-primary bg-primary/5' : 'border-border'
+        }`}
+      >
+        <ImagePlus size={24} className="mx-auto mb-2 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          画像をここへドラッグするか、貼り付けてください
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="mt-2"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || isFull}
+        >
+          画像を選ぶ
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <p className="text-muted-foreground text-xs">
+        JPEG・PNG・WebP・GIF、1枚{formatBytes(IMAGE_ATTACHMENT_RULES.MAX_SOURCE_BYTES)}まで・{IMAGE_ATTACHMENT_RULES.MAX_COUNT}枚まで。
+        長辺{IMAGE_ATTACHMENT_RULES.MAX_DIMENSION}pxに縮小し、撮影日時や位置情報は取り除いて保存します
+      </p>
+
+      {(value.length > 0 || uploadingCount > 0) && (
+        <ul className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {value.map((path, index) => (
+            <li key={path} className="relative">
+              {urls[index] === undefined ? (
+                <div className="aspect-square w-full animate-pulse rounded-md bg-muted" />
+              ) : (
+                <ImageWithFallback
+                  src={urls[index] ?? undefined}
+                  alt={`添付画像 ${index + 1}`}
+                  className="aspect-square w-full rounded-md object-cover"
+                />
+              )}
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                className="absolute right-1 top-1 h-6 w-6 p-0"
+                onClick={() => removeImage(path)}
+                disabled={disabled}
+                aria-label={`添付画像 ${index + 1} を取り外す`}
+              >
+                <X size={12} />
+              </Button>
+            </li>
+          ))}
+          {Array.from({ length: uploadingCount }, (_, index) => (
+            <li
+              key={`uploading-${index}`}
+              className="flex aspect-square items-center justify-center rounded-md bg-muted"
+              aria-label="画像を保存しています"
+            >
+              <Loader2 size={20} className="animate-spin text-muted-foreground" />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from './ui/carousel';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { useImageUrls } from './useImageUrls';
+
+interface OfferingImageCarouselProps {
+  /** 添付画像の保存先のパス */
+  paths: readonly string[];
+  /** 代替テキストに用いる供物の題名 */
+  title: string;
+}
+
+// 供物の添付画像のカルーセルコンポーネント（1枚のみの場合は送りの操作を出さない）
+export const OfferingImageCarousel: React.FC<OfferingImageCarouselProps> = ({ paths, title }) => {
+  const urls = useImageUrls(paths);
+
+  if (paths.length === 0) return null;
+
+  const renderImage = (index: number) => {
+    const url = urls[index];
+    const alt = paths.length > 1 ? `${title}の添付画像（${index + 1}/${paths.length}）` : `${title}の添付画像`;
+    return url === undefined ? (
+      <div className="aspect-video w-full animate-pulse rounded-md bg-muted" aria-label="画像を読み込んでいます" />
+    ) : (
+      <ImageWithFallback
+        src={url ?? undefined}
+        alt={alt}
+        loading="lazy"
+        className="aspect-video w-full rounded-md bg-muted object-contain"
+      />
+    );
+  };
+
+  if (paths.length === 1) return renderImage(0);
+
+  return (
+    <Carousel className="w-full" aria-label={`${title}の添付画像`}>
+      <CarouselContent>
+        {paths.map((path, index) => (
+          <CarouselItem key={path}>{renderImage(index)}</CarouselItem>
+        ))}
+      </CarouselContent>
+      <CarouselPrevious className="left-2" aria-label="前の画像" />
+      <CarouselNext className="right-2" aria-label="次の画像" />
+    </Carousel>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { useApp } from './useApp';
+import type { Offering, OfferingRevision } from './AppContext';
+import { diffChars, diffLines, diffSets, type IDiffPart } from '../services/textDiff';
+import { ChevronDown, ChevronUp, History } from 'lucide-react';
+
+interface OfferingRevisionHistoryProps {
+  offering: Offering;
+}
+
+// 差分表示の1区間（改訂前の版 → 改訂後の版）
+interface IRevisionStep {
+  id: string;
+  revisedAt: Date;
+  before: Pick<OfferingRevision, 'title' | 'content' | 'genres'>;
+  after: Pick<OfferingRevision, 'title' | 'content' | 'genres'>;
+}
+
+// 差分の断片ごとの表示スタイル
+const DIFF_PART_CLASS: Record<IDiffPart['type'], string> = {
+  equal: '',
+  added: 'bg-green-500/15 text-green-800 dark:text-green-300',
+  removed: 'bg-destructive/10 text-destructive line-through'
+};
+
+// 日時の表示形式
+const formatRevisedAt = (date: Date) =>
+  `${date.toLocaleDateString('ja-JP')} ${date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}`;
+
+// 差分の断片列
+const DiffText: React.FC<{ parts: IDiffPart[]; block?: boolean }> = ({ parts, block = false }) => (
+  <span className={block ? 'block whitespace-pre-wrap' : undefined}>
+    {parts.map((part, index) => (
+      <span key={index} className={DIFF_PART_CLASS[part.type]}>
+        {part.value}
+        {/* 行単位の差分では断片の間に改行を補う */}
+        {block && index < parts.length - 1 ? '\n' : ''}
+      </span>
+    ))}
+  </span>
+);
+
+// 1回分の改訂の差分
+const RevisionDiff: React.FC<{ step: IRevisionStep }> = ({ step }) => {
+  const { before, after } = step;
+  const genreDiff = diffSets(before.genres, after.genres);
+
+  return (
+    <div className="space-y-3 text-sm">
+      {before.title !== after.title && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">題名</p>
+          <DiffText parts={diffChars(before.title, after.title)} />
+        </div>
+      )}
+
+      {(genreDiff.added.length > 0 || genreDiff.removed.length > 0) && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">ジャンル</p>
+          <div className="flex flex-wrap gap-1">
+            {genreDiff.removed.map(genre => (
+              <Badge key={`removed-${genre}`} variant="outline" className={DIFF_PART_CLASS.removed}>
+                【{genre}】
+              </Badge>
+            ))}
+            {genreDiff.added.map(genre => (
+              <Badge key={`added-${genre}`} variant="outline" className={DIFF_PART_CLASS.added}>
+                【{genre}】
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {before.content !== after.content && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">内容</p>
+          <div className="bg-muted/50 p-3 rounded-lg leading-relaxed">
+            <DiffText parts={diffLines(before.content, after.content)} block />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 供物の改訂履歴（各改訂の差分を新しい順に表示）
+export const OfferingRevisionHistory: React.FC<OfferingRevisionHistoryProps> = ({ offering }) => {
+  const { getOfferingRevisions } = useApp();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<OfferingRevision[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  // 開いたとき・改められたときに履歴を読み込む
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setHasError(false);
+    getOfferingRevisions(offering.id).then(result => {
+      if (cancelled) return;
+      setRevisions(result);
+      setHasError(result === null);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, offering.id, offering.editedAt?.getTime()]);
+
+  // 各改訂の前後の版（最後の改訂の後は現在の版）
+  const steps = useMemo<IRevisionStep[]>(() => {
+    if (!revisions) return [];
+    return revisions
+      .map((revision, index) => ({
+        id: revision.id,
+        revisedAt: revision.revisedAt,
+        before: revision,
+        after: revisions[index + 1] ?? offering
+      }))
+      .reverse();
+  }, [revisions, offering]);
+
+  // 改められていない供物には表示しない
+  if (!offering.editedAt) return null;
+
+  return (
+    <div className="space-y-3 pt-4 border-t">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center space-x-2 px-0 text-primary hover:bg-transparent"
+        aria-expanded={isOpen}
+      >
+        <History size={16} />
+        <span>改訂履歴</span>
+        {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </Button>
+
+      {isOpen && (
+        <div className="space-y-4">
+          {isLoading && !revisions && (
+            <p className="text-sm text-muted-foreground">改訂履歴を読み込んでいます...</p>
+          )}
+
+          {hasError && (
+            <p role="alert" className="text-sm text-destructive">
+              改訂履歴を読み込めませんでした。しばらく時間をおいて再度お試しください。
+            </p>
+          )}
+
+          {revisions && steps.length === 0 && (
+            <p className="text-sm text-muted-foreground">改訂履歴はありません</p>
+          )}
+
+          {steps.map((step, index) => (
+            <div key={step.id} className="space-y-2 rounded-lg border border-border p-3">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>第{steps.length - index + 1}版への改訂</span>
+                <span>{formatRevisedAt(step.revisedAt)}</span>
+              </div>
+              <RevisionDiff step={step} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useApp } from './useApp';
+import { OfferingDetailModal } from './OfferingDetailModal';
+
+// URL（/offerings/:id）で指定された供物の詳細モーダル
+export const OfferingRouteModal: React.FC = () => {
+  const { selectedOfferingId, setSelectedOfferingId, offerings, isDataLoading, getOfferingById, loadOffering } = useApp();
+  // 個別に取得を試みている供物ID
+  const [fetchingOfferingId, setFetchingOfferingId] = useState<string | null>(null);
+
+  const offering = selectedOfferingId ? getOfferingById(selectedOfferingId) : undefined;
+
+  // 読み込み済みのページにない供物は個別に取得し、それでも見つからなければ閉じる（削除済み・誤った道標）
+  useEffect(() => {
+    if (!selectedOfferingId || offering || isDataLoading || offerings.length === 0) return;
+    if (fetchingOfferingId === selectedOfferingId) return;
+
+    let cancelled = false;
+    setFetchingOfferingId(selectedOfferingId);
+    loadOffering(selectedOfferingId).then(loaded => {
+      if (cancelled) return;
+      setFetchingOfferingId(null);
+      if (loaded) return;
+      toast.error('供物が見つかりません', {
+        description: '取り下げられたか、道標が誤っている可能性があります'
+      });
+      setSelectedOfferingId(null);
+    });
+    return () => { cancelled = true; };
+  }, [selectedOfferingId, offering, isDataLoading, offerings.length]);
+
+  if (!offering) return null;
+
+  return (
+    <OfferingDetailModal
+      offering={offering}
+      isOpen={true}
+      onClose={() => setSelectedOfferingId(null)}
+    />
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { calculatePasswordStrength } from './passwordRules';
+
+// 強度に応じたバーの色
+const getPasswordStrengthColor = (strength: number): string => {
+  if (strength < 25) return 'bg-destructive';
+  if (strength < 50) return 'bg-amber-500';
+  if (strength < 75) return 'bg-yellow-500';
+  return 'bg-green-500';
+};
+
+// 結界文の強度表示コンポーネント（未入力時は何も表示しない）
+export const PasswordStrengthMeter: React.FC<{ password: string }> = ({ password }) => {
+  if (!password) return null;
+
+  const strength = calculatePasswordStrength(password);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">結界文の強度:</span>
+        <span className={`font-medium ${strength < 50 ? 'text-destructive' :
+            strength < 75 ? 'text-amber-600' : 'text-green-600'
+          }`}>
+          {strength < 25 ? '弱い' :
+            strength < 50 ? '普通' :
+              strength < 75 ? '強い' : '非常に強い'}
+        </span>
+      </div>
+      <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ${getPasswordStrengthColor(strength)}`}
+          style={{ width: `${strength}%` }}
+        />
+      </div>
+    </div>
+  );
+};
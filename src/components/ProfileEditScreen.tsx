@@ -1,26 +1,37 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Avatar, AvatarFallback } from './ui/avatar';
 import { Separator } from './ui/separator';
-import { ArrowLeft, Camera, Eye, EyeOff } from 'lucide-react';
-import { useApp } from './AppContext';
+import { ArrowLeft, Camera, Eye, EyeOff, Trash2 } from 'lucide-react';
+import { useApp } from './useApp';
+import { VALIDATION_RULES } from './data/constants';
 import { toast } from 'sonner';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+import { validatePasswordRules } from './passwordRules';
+import { TotpSetupCard } from './TotpSetupCard';
+import { UserAvatarImage } from './UserAvatarImage';
+import { AvatarCropDialog } from './AvatarCropDialog';
+import { IMAGE_ATTACHMENT_RULES, formatBytes, validateImageFile } from '../services/media';
 
 // プロフィール編集画面コンポーネント
 export const ProfileEditScreen: React.FC = () => {
-  const { currentUser, setCurrentScreen, updateProfile, changePassword } = useApp();
+  const { currentUser, setCurrentScreen, updateProfile, updateAvatar, changePassword, logout } = useApp();
   
   // プロフィール編集用の状態管理
   const [profileData, setProfileData] = useState({
     name: currentUser?.name || '',
     department: currentUser?.department || '',
-    age: currentUser?.age || '',
-    avatar: currentUser?.avatar || ''
+    age: currentUser?.age || ''
   });
 
+  // 魂紋の画像の状態管理（選んだ画像は切り抜きダイアログで保存する）
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const [cropFile, setCropFile] = useState<File | null>(null);
+  const [isRemovingAvatar, setIsRemovingAvatar] = useState(false);
+
   // パスワード変更用の状態管理
   const [passwordData, setPasswordData] = useState({
     oldPassword: '',
@@ -34,6 +45,7 @@ export const ProfileEditScreen: React.FC = () => {
     new: false,
     confirm: false
   });
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
 
   // プロフィール更新処理
   const handleProfileUpdate = () => {
@@ -46,8 +58,34 @@ export const ProfileEditScreen: React.FC = () => {
     toast.success('写し絵（プロフィール）を更新しました');
   };
 
+  // 魂紋の画像の選択
+  const handleAvatarSelect = (file: File | undefined) => {
+    if (!file) return;
+    const error = validateImageFile(file);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setCropFile(file);
+  };
+
+  // 魂紋の画像の取り外し（頭文字の表示に戻す）
+  const handleAvatarRemove = async () => {
+    setIsRemovingAvatar(true);
+    const success = await updateAvatar(null);
+    setIsRemovingAvatar(false);
+
+    if (success) {
+      toast.success('写し絵の画像を取り外しました');
+    } else {
+      toast.error('写し絵の画像を取り外せませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
   // パスワード変更処理
-  const handlePasswordChange = () => {
+  const handlePasswordChange = async () => {
     if (!passwordData.oldPassword || !passwordData.newPassword) {
       toast.error('すべてのパスワード欄を入力してください');
       return;
@@ -58,17 +96,38 @@ export const ProfileEditScreen: React.FC = () => {
       return;
     }
 
-    if (passwordData.newPassword.length < 6) {
-      toast.error('新しい結界文は6文字以上で入力してください');
+    const ruleError = validatePasswordRules(passwordData.newPassword);
+    if (ruleError) {
+      toast.error(ruleError);
       return;
     }
 
-    const success = changePassword(passwordData.oldPassword, passwordData.newPassword);
-    if (success) {
-      toast.success('結界文を変更しました');
-      setPasswordData({ oldPassword: '', newPassword: '', confirmPassword: '' });
-    } else {
-      toast.error('現在の結界文が正しくありません');
+    setIsChangingPassword(true);
+    const result = await changePassword(passwordData.oldPassword, passwordData.newPassword);
+    setIsChangingPassword(false);
+
+    switch (result) {
+      case 'success':
+        toast.success('結界文を変更しました');
+        setPasswordData({ oldPassword: '', newPassword: '', confirmPassword: '' });
+        break;
+      case 'incorrectPassword':
+        toast.error('現在の結界文が正しくありません');
+        break;
+      case 'invalidPassword':
+        toast.error('新しい結界文が規則を満たしていません', {
+          description: '大文字・小文字・数字・記号を組み合わせてください'
+        });
+        break;
+      case 'limitExceeded':
+        toast.error('試行回数の上限に達しました', {
+          description: 'しばらく時間をおいて再度お試しください'
+        });
+        break;
+      default:
+        toast.error('結界文を変更できませんでした', {
+          description: '再度お試しください'
+        });
     }
   };
 
@@ -106,31 +165,48 @@ export const ProfileEditScreen: React.FC = () => {
               {/* アバター編集 */}
               <div className="flex flex-col items-center space-y-4">
                 <Avatar className="w-24 h-24 border-4 border-primary/20">
-                  <AvatarImage src={profileData.avatar} alt="プロフィール画像" />
+                  <UserAvatarImage avatar={currentUser?.avatar} alt="プロフィール画像" displaySize={96} />
                   <AvatarFallback className="bg-accent text-primary">
                     {profileData.name.charAt(0)}
                   </AvatarFallback>
                 </Avatar>
-                <div className="w-full space-y-2">
-                  <Label htmlFor="avatar">写し絵（アイコンURL）</Label>
-                  <div className="flex space-x-2">
-                    <Input
-                      id="avatar"
-                      type="url"
-                      value={profileData.avatar}
-                      onChange={(e) => setProfileData(prev => ({ ...prev, avatar: e.target.value }))}
-                      placeholder="https://example.com/image.jpg"
-                      className="flex-1"
-                    />
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => avatarInputRef.current?.click()}
+                    disabled={isRemovingAvatar}
+                  >
+                    <Camera size={16} className="mr-1" />
+                    画像を選ぶ
+                  </Button>
+                  {currentUser?.avatar && (
                     <Button
-                      variant="outline"
+                      variant="ghost"
                       size="sm"
-                      onClick={() => setProfileData(prev => ({ ...prev, avatar: '' }))}
+                      onClick={handleAvatarRemove}
+                      disabled={isRemovingAvatar}
                     >
-                      <Camera size={16} />
+                      <Trash2 size={16} className="mr-1" />
+                      {isRemovingAvatar ? '取り外し中...' : '取り外す'}
                     </Button>
-                  </div>
+                  )}
+                  <input
+                    ref={avatarInputRef}
+                    type="file"
+                    accept={IMAGE_ATTACHMENT_RULES.ACCEPTED_TYPES.join(',')}
+                    className="hidden"
+                    aria-label="写し絵の画像"
+                    onChange={(e) => {
+                      handleAvatarSelect(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
                 </div>
+                <p className="text-muted-foreground text-xs text-center">
+                  JPEG・PNG・WebP・GIF（{formatBytes(IMAGE_ATTACHMENT_RULES.MAX_SOURCE_BYTES)}まで）。
+                  正方形に切り抜き、撮影日時や位置情報は取り除いて保存します
+                </p>
               </div>
 
               {/* 基本情報入力 */}
@@ -217,7 +293,7 @@ export const ProfileEditScreen: React.FC = () => {
                     type={showPasswords.new ? "text" : "password"}
                     value={passwordData.newPassword}
                     onChange={(e) => setPasswordData(prev => ({ ...prev, newPassword: e.target.value }))}
-                    placeholder="新しいパスワード（6文字以上）"
+                    placeholder={`新しいパスワード（${VALIDATION_RULES.PASSWORD_MIN_LENGTH}文字以上）`}
                   />
                   <Button
                     type="button"
@@ -229,6 +305,7 @@ export const ProfileEditScreen: React.FC = () => {
                     {showPasswords.new ? <EyeOff size={16} /> : <Eye size={16} />}
                   </Button>
                 </div>
+                <PasswordStrengthMeter password={passwordData.newPassword} />
               </div>
 
               <div className="space-y-2">
@@ -257,12 +334,16 @@ export const ProfileEditScreen: React.FC = () => {
                 onClick={handlePasswordChange}
                 variant="destructive"
                 className="w-full"
+                disabled={isChangingPassword}
               >
-                結界文を変更
+                {isChangingPassword ? '変更中...' : '結界文を変更'}
               </Button>
             </CardContent>
           </Card>
 
+          {/* 二段階認証セクション */}
+          <TotpSetupCard />
+
           {/* 降霊解除（ログアウト）セクション */}
           <Card className="shadow-lg border-2 border-destructive/20">
             <CardHeader>
@@ -275,7 +356,7 @@ export const ProfileEditScreen: React.FC = () => {
               <Button 
                 variant="destructive"
                 className="w-full"
-                onClick={() => setCurrentScreen('login')}
+                onClick={logout}
               >
                 降霊を解く（ログアウト）
               </Button>
@@ -283,6 +364,8 @@ export const ProfileEditScreen: React.FC = () => {
           </Card>
         </div>
       </main>
+
+      <AvatarCropDialog file={cropFile} onClose={() => setCropFile(null)} />
     </div>
   );
 };
\ No newline at end of file
@@ -5,8 +5,9 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Avatar, AvatarFallback } from './ui/avatar';
+import { UserAvatarImage } from './UserAvatarImage';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { useApp } from './AppContext';
+import { useApp } from './useApp';
 import { Edit2, Save, User, Mail, Building, Calendar, Heart, MessageCircle } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -119,6 +120,7 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({
               {/* アバター */}
               <div className="flex items-center space-x-4">
                 <Avatar className="w-16 h-16">
+                  <UserAvatarImage avatar={currentUser.avatar} alt={currentUser.name} displaySize={64} />
                   <AvatarFallback className="text-xl bg-primary/10 text-primary">
                     {currentUser.name.charAt(0)}
                   </AvatarFallback>
@@ -0,0 +1,126 @@
+import React from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import type { IOfferingRankingItem } from '../services/ranking';
+import type { IRankingItem, RankingType } from '../types/enterprise';
+import { ArrowDown, ArrowUp, Minus, Trophy } from 'lucide-react';
+
+interface RankingBadgeProps {
+  rank: number;
+  /** 点数の内訳（ない場合は順位のみ表示） */
+  item?: IOfferingRankingItem;
+}
+
+// 点数の内訳の表示名
+const BREAKDOWN_LABELS: ReadonlyArray<[keyof IRankingItem['scoreBreakdown'], string]> = [
+  ['prayers', '祈念'],
+  ['guidance', '導き'],
+  ['views', '閲覧'],
+  ['engagement', '交流'],
+  ['recency', '新しさ']
+];
+
+// 件数で並べる種別の表示名（点数で並べる種別・最新は件数を表示しない）
+const COUNT_LABELS: Partial<Record<RankingType, string>> = {
+  prayers: '祈念',
+  guidance: '導き',
+  views: '閲覧'
+};
+
+// 順位の色を取得（上位3位まで特別色）
+const getRankColor = (rank: number) => {
+  switch (rank) {
+    case 1: return 'text-yellow-600'; // 金
+    case 2: return 'text-gray-500';   // 銀
+    case 3: return 'text-amber-600';  // 銅
+    default: return 'text-muted-foreground';
+  }
+};
+
+// 前回からの順位の変動
+const RankChange: React.FC<{ item: IOfferingRankingItem }> = ({ item }) => {
+  if (item.previousRank === null) {
+    return <span className="text-xs font-medium text-primary">初登場</span>;
+  }
+  if (item.rankChange > 0) {
+    return (
+      <span className="flex items-center text-xs text-green-600" aria-label={`${item.rankChange}位上昇`}>
+        <ArrowUp size={12} />{item.rankChange}
+      </span>
+    );
+  }
+  if (item.rankChange < 0) {
+    return (
+      <span className="flex items-center text-xs text-destructive" aria-label={`${-item.rankChange}位下降`}>
+        <ArrowDown size={12} />{-item.rankChange}
+      </span>
+    );
+  }
+  return <Minus size={12} className="text-muted-foreground" aria-label="変動なし" />;
+};
+
+// ランキングの順位表示（押すと点数の内訳を表示）
+export const RankingBadge: React.FC<RankingBadgeProps> = ({ rank, item }) => {
+  const label = (
+    <>
+      {rank <= 3 && <Trophy size={16} />}
+      <span className="font-bold text-sm">{rank}位</span>
+    </>
+  );
+
+  if (!item) {
+    return <div className={`flex items-center space-x-2 mb-2 ${getRankColor(rank)}`}>{label}</div>;
+  }
+
+  // 点数以外で並べる種別では基準の件数のみ示す
+  if (item.type !== 'trending' && item.type !== 'popular') {
+    const countLabel = COUNT_LABELS[item.type];
+    return (
+      <div className="flex items-center space-x-2 mb-2">
+        <div className={`flex items-center space-x-2 ${getRankColor(rank)}`}>
+          {label}
+          {countLabel && <span className="text-xs font-normal">{countLabel} {item.value}</span>}
+        </div>
+        <RankChange item={item} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2 mb-2">
+      <Popover>
+        <PopoverTrigger
+          className={`flex items-center space-x-2 rounded-sm hover:underline focus-visible:underline ${getRankColor(rank)}`}
+          aria-label={`${rank}位・${item.score}点の内訳を見る`}
+        >
+          {label}
+          <span className="text-xs font-normal">{item.score}点</span>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3" align="start">
+          <div className="flex items-baseline justify-between">
+            <p className="text-sm font-medium">点数の内訳</p>
+            <p className="text-sm font-bold text-primary">{item.score}点</p>
+          </div>
+          <dl className="space-y-1 text-sm">
+            {BREAKDOWN_LABELS.map(([key, name]) => (
+              <div key={key} className="flex justify-between">
+                <dt className="text-muted-foreground">{name}</dt>
+                <dd>{item.scoreBreakdown[key]}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="text-xs text-muted-foreground">
+            {item.halfLifeDays === null
+              ? '累計のため、日数による減衰はありません'
+              : `${item.halfLifeDays}日ごとに半減します。捧げられてからの日数により、各点数を${Math.round(item.decay * 100)}%に減じています`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {item.previousRank === null
+              ? '前回の順位はありません'
+              : `前回は${item.previousRank}位でした`}
+          </p>
+        </PopoverContent>
+      </Popover>
+      <RankChange item={item} />
+    </div>
+  );
+};
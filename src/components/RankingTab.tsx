@@ -1,49 +1,119 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { useApp } from './AppContext';
-import { Calendar, Clock, Infinity } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useApp } from './useApp';
+import { Calendar, Clock, Infinity as InfinityIcon, Loader2 } from 'lucide-react';
 import { OfferingCard } from './OfferingCard';
+import { VirtualizedList } from './VirtualizedList';
+import { DEPARTMENTS, RANKING_TYPES } from './data/constants';
+import {
+  RANKING_PERIOD_KEYS,
+  rankFromStanding,
+  rankingScope,
+  topRankedIds,
+  type IOfferingRankingItem,
+  type IRankingStanding,
+  type RankingPeriodKey
+} from '../services/ranking';
+import type { RankingType } from '../types/enterprise';
+
+// 各期間の表示件数
+const RANKING_LIMIT = 10;
+
+// 所属の選択肢（未選択の項目を除く）
+const DEPARTMENT_OPTIONS = DEPARTMENTS.filter(department => department.value);
+
+// 現在の順位（期間 → 最新の写しと前の日の写し）
+type Standings = Record<RankingPeriodKey, IRankingStanding>;
+
+// 写しがまだない区分の順位
+const EMPTY_STANDING: IRankingStanding = { current: null, previous: null };
 
 // 適切なサイズのランキングタブコンポーネント
 export const RankingTab: React.FC = () => {
-  const { offerings } = useApp();
+  const { offerings, getRankingStanding, loadOffering } = useApp();
   const [activeRanking, setActiveRanking] = useState('eternal');
+  const [rankingType, setRankingType] = useState<RankingType>('trending');
+  const [department, setDepartment] = useState<string>('all');
+  const departmentScope = department === 'all' ? null : department;
+  const rankingTypeInfo = RANKING_TYPES.find(type => type.value === rankingType);
+
+  // 選択中の種別・所属の区分の現在の順位（順位はサーバー側で付け、未読み込みは null）
+  // 公開中の供物のすべては読み込まず、各期間の上位の供物だけを読み込む
+  const [standings, setStandings] = useState<Standings | null>(null);
+  const isRankingLoaded = standings !== null;
+  useEffect(() => {
+    let cancelled = false;
+    setStandings(null);
+    Promise.all(
+      RANKING_PERIOD_KEYS.map(async period => {
+        const standing = await getRankingStanding(rankingScope(rankingType, period, departmentScope));
+        return [period, standing ?? EMPTY_STANDING] as const;
+      })
+    ).then(async entries => {
+      const offeringIds = new Set(entries.flatMap(([, standing]) => topRankedIds(standing.current, RANKING_LIMIT)));
+      await Promise.all([...offeringIds].map(offeringId => loadOffering(offeringId)));
+      if (!cancelled) setStandings(Object.fromEntries(entries) as Standings);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [rankingType, departmentScope]);
 
-  // 各ランキングのソート済み供物を計算
+  // 各期間のランキングを写しの順位で組み立てる（点数の内訳は祈念などを反映した供物の現在の値から求める）
   const rankingData = useMemo(() => {
     const now = new Date();
-    
-    // 永久供物：累計祈念数（リセットなし）
-    const eternalOfferings = [...offerings].sort((a, b) => b.likes - a.likes);
-    
-    // 季節供物：四半期で計算（簡易版では3ヶ月前からのデータ）
-    const threeMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 3, now.getDate());
-    const seasonalOfferings = offerings
-      .filter(offering => offering.createdAt >= threeMonthsAgo)
-      .sort((a, b) => b.likes - a.likes);
-    
-    // 月満供物：今月のデータ
-    const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const monthlyOfferings = offerings
-      .filter(offering => offering.createdAt >= thisMonth)
-      .sort((a, b) => b.likes - a.likes);
-    
-    // 七日供物：過去7日間のデータ
-    const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const weeklyOfferings = offerings
-      .filter(offering => offering.createdAt >= weekAgo)
-      .sort((a, b) => b.likes - a.likes);
-
-    return {
-      eternal: eternalOfferings,
-      seasonal: seasonalOfferings,
-      monthly: monthlyOfferings,
-      weekly: weeklyOfferings
-    };
-  }, [offerings]);
+    return Object.fromEntries(
+      RANKING_PERIOD_KEYS.map(period => [
+        period,
+        standings
+          ? rankFromStanding(offerings, standings[period], period, {
+              type: rankingType,
+              now,
+              getViews: offering => offering.views,
+              limit: RANKING_LIMIT
+            })
+          : []
+      ])
+    ) as Record<RankingPeriodKey, IOfferingRankingItem[]>;
+  }, [offerings, standings, rankingType]);
 
   return (
     <div className="space-y-6">
+      {/* ランキング種別・所属の絞り込み */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <Select value={rankingType} onValueChange={(value) => setRankingType(value as RankingType)}>
+          <SelectTrigger className="sm:w-40" aria-label="ランキング種別">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANKING_TYPES.map(type => (
+              <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={department} onValueChange={setDepartment}>
+          <SelectTrigger className="sm:w-40" aria-label="所属">
+            <SelectValue placeholder="全ての所属" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">全ての所属</SelectItem>
+            {DEPARTMENT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {rankingTypeInfo && (
+          <p className="text-xs text-muted-foreground">{rankingTypeInfo.description}</p>
+        )}
+        {!isRankingLoaded && (
+          <span className="flex items-center text-sm text-muted-foreground" aria-live="polite">
+            <Loader2 size={16} className="mr-2 animate-spin" />
+            読み込んでいます…
+          </span>
+        )}
+      </div>
+
       {/* ランキングタブ */}
       <Tabs value={activeRanking} onValueChange={setActiveRanking} className="w-full">
         <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 bg-card/50 backdrop-blur-sm p-1">
@@ -51,7 +121,7 @@ export const RankingTab: React.FC = () => {
             value="eternal" 
             className="text-xs md:text-sm py-2 px-3 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
           >
-            <Infinity size={16} className="mr-1" />
+            <InfinityIcon size={16} className="mr-1" />
             <span className="hidden sm:inline">永久供物</span>
             <span className="sm:hidden">永久</span>
           </TabsTrigger>
@@ -90,22 +160,18 @@ export const RankingTab: React.FC = () => {
             </p>
           </div>
           
-          <div className="space-y-4">
-            {rankingData.eternal.slice(0, 10).map((offering, index) => (
-              <OfferingCard 
-                key={offering.id} 
-                offering={offering} 
-                rank={index + 1}
-                showInteractions={true}
-              />
-            ))}
-            {rankingData.eternal.length === 0 && (
-              <div className="text-center py-12 text-muted-foreground">
-                <div className="text-lg mb-2">まだ供物が捧げられていません</div>
-                <div className="text-sm opacity-75">最初の供物を投稿してみませんか？</div>
-              </div>
-            )}
-          </div>
+          {rankingData.eternal.length > 0 ? (
+            <VirtualizedList
+              items={rankingData.eternal}
+              getKey={item => item.offering.id}
+              renderItem={item => <OfferingCard offering={item.offering} ranking={item} showInteractions={true} />}
+            />
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <div className="text-lg mb-2">まだ供物が捧げられていません</div>
+              <div className="text-sm opacity-75">最初の供物を投稿してみませんか？</div>
+            </div>
+          )}
         </TabsContent>
 
         {/* 季節供物ランキング */}
@@ -117,22 +183,18 @@ export const RankingTab: React.FC = () => {
             </p>
           </div>
           
-          <div className="space-y-4">
-            {rankingData.seasonal.slice(0, 10).map((offering, index) => (
-              <OfferingCard 
-                key={offering.id} 
-                offering={offering} 
-                rank={index + 1}
-                showInteractions={true}
-              />
-            ))}
-            {rankingData.seasonal.length === 0 && (
-              <div className="text-center py-12 text-muted-foreground">
-                <div className="text-lg mb-2">この季節の供物はまだありません</div>
-                <div className="text-sm opacity-75">季節の変化を感じる供物を投稿してみませんか？</div>
-              </div>
-            )}
-          </div>
+          {rankingData.seasonal.length > 0 ? (
+            <VirtualizedList
+              items={rankingData.seasonal}
+              getKey={item => item.offering.id}
+              renderItem={item => <OfferingCard offering={item.offering} ranking={item} showInteractions={true} />}
+            />
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <div className="text-lg mb-2">この季節の供物はまだありません</div>
+              <div className="text-sm opacity-75">季節の変化を感じる供物を投稿してみませんか？</div>
+            </div>
+          )}
         </TabsContent>
 
         {/* 月満供物ランキング */}
@@ -144,22 +206,18 @@ export const RankingTab: React.FC = () => {
             </p>
           </div>
           
-          <div className="space-y-4">
-            {rankingData.monthly.slice(0, 10).map((offering, index) => (
-              <OfferingCard 
-                key={offering.id} 
-                offering={offering} 
-                rank={index + 1}
-                showInteractions={true}
-              />
-            ))}
-            {rankingData.monthly.length === 0 && (
-              <div className="text-center py-12 text-muted-foreground">
-                <div className="text-lg mb-2">今月の供物はまだありません</div>
-                <div className="text-sm opacity-75">新月から満月へ、今月の成果を共有しませんか？</div>
-              </div>
-            )}
-          </div>
+          {rankingData.monthly.length > 0 ? (
+            <VirtualizedList
+              items={rankingData.monthly}
+              getKey={item => item.offering.id}
+              renderItem={item => <OfferingCard offering={item.offering} ranking={item} showInteractions={true} />}
+            />
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <div className="text-lg mb-2">今月の供物はまだありません</div>
+              <div className="text-sm opacity-75">新月から満月へ、今月の成果を共有しませんか？</div>
+            </div>
+          )}
         </TabsContent>
 
         {/* 七日供物ランキング */}
@@ -171,22 +229,18 @@ export const RankingTab: React.FC = () => {
             </p>
           </div>
           
-          <div className="space-y-4">
-            {rankingData.weekly.slice(0, 10).map((offering, index) => (
-              <OfferingCard 
-                key={offering.id} 
-                offering={offering} 
-                rank={index + 1}
-                showInteractions={true}
-              />
-            ))}
-            {rankingData.weekly.length === 0 && (
-              <div className="text-center py-12 text-muted-foreground">
-                <div className="text-lg mb-2">今週の供物はまだありません</div>
-                <div className="text-sm opacity-75">新しい一週間の始まり、今週の成果を記録してみませんか？</div>
-              </div>
-            )}
-          </div>
+          {rankingData.weekly.length > 0 ? (
+            <VirtualizedList
+              items={rankingData.weekly}
+              getKey={item => item.offering.id}
+              renderItem={item => <OfferingCard offering={item.offering} ranking={item} showInteractions={true} />}
+            />
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <div className="text-lg mb-2">今週の供物はまだありません</div>
+              <div className="text-sm opacity-75">新しい一週間の始まり、今週の成果を記録してみませんか？</div>
+            </div>
+          )}
         </TabsContent>
       </Tabs>
     </div>
@@ -6,6 +6,8 @@ import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { DEPARTMENTS, AGE_RANGES, VALIDATION_RULES } from './data/constants';
 import { toast } from 'sonner';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+import { validatePasswordRules } from './passwordRules';
 
 type Department = "" |"wind" | "water" | "earth" | "fire" | "wood" | "valley" | "mountain" | "forest";
 type Age = "" | "teens" | "20s" | "30s" | "40s" | "50s" | "60s";
@@ -19,7 +21,7 @@ interface RegisterFormData {
 }
 
 interface RegisterFormProps {
-  onSubmit: (data: RegisterFormData) => void;
+  onSubmit: (data: RegisterFormData) => Promise<void> | void;
   isSubmitting: boolean;
 }
 
@@ -56,25 +58,7 @@ class FormValidator {
   }
 
   static validatePassword(password: string): string | null {
-    if (!password.trim()) return '結界文を入力してください';
-    if (password.length < VALIDATION_RULES.PASSWORD_MIN_LENGTH) {
-      return `結界文は${VALIDATION_RULES.PASSWORD_MIN_LENGTH}文字以上で設定してください`;
-    }
-    if (password.length > 100) return '結界文は100文字以内で設定してください';
-
-    // パスワード強度チェック
-    const hasUpperCase = /[A-Z]/.test(password);
-    const hasLowerCase = /[a-z]/.test(password);
-    const hasNumbers = /\d/.test(password);
-    const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password);
-
-    const strengthCount = [hasUpperCase, hasLowerCase, hasNumbers, hasSpecialChar].filter(Boolean).length;
-
-    if (strengthCount < 2) {
-      return '結界文は大文字・小文字・数字・記号のうち2種類以上を含んでください';
-    }
-
-    return null;
+    return validatePasswordRules(password);
   }
 
   static validateDepartment(
@@ -197,7 +181,6 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
   });
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [touched, setTouched] = useState<{ [key: string]: boolean }>({});
-  const [passwordStrength, setPasswordStrength] = useState<number>(0);
 
   // リアルタイムフィールド更新とバリデーション
   const updateFormData = (field: keyof RegisterFormData, value: string) => {
@@ -212,34 +195,6 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
         [field]: fieldErrors[field] || ''
       }));
     }
-
-    // パスワード強度計算
-    if (field === 'password') {
-      const strength = calculatePasswordStrength(value);
-      setPasswordStrength(strength);
-    }
-  };
-
-  // パスワード強度計算
-  const calculatePasswordStrength = (password: string): number => {
-    if (!password) return 0;
-
-    let strength = 0;
-    if (password.length >= 8) strength += 25;
-    if (/[A-Z]/.test(password)) strength += 25;
-    if (/[a-z]/.test(password)) strength += 25;
-    if (/[0-9]/.test(password)) strength += 25;
-    if (/[^A-Za-z0-9]/.test(password)) strength += 25;
-
-    return Math.min(strength, 100);
-  };
-
-  // パスワード強度表示
-  const getPasswordStrengthColor = (strength: number): string => {
-    if (strength < 25) return 'bg-destructive';
-    if (strength < 50) return 'bg-amber-500';
-    if (strength < 75) return 'bg-yellow-500';
-    return 'bg-green-500';
   };
 
   // フォーム送信
@@ -275,11 +230,11 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
 
     try {
       await onSubmit(formData);
-      toast.success('魂紋の刻印が完了しました！', {
-        description: '神秘の森へようこそ',
+      toast.success('確認の符を送りました', {
+        description: 'メールに届いた符を入力して刻印を完了してください',
         duration: 5000,
       });
-    } catch (error) {
+    } catch {
       toast.error('刻印に失敗しました', {
         description: 'しばらく時間をおいて再度お試しください'
       });
@@ -297,7 +252,6 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
     });
     setErrors({});
     setTouched({});
-    setPasswordStrength(0);
     toast.info('フォームをリセットしました');
   };
 
@@ -367,26 +321,7 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
         />
 
         {/* パスワード強度表示 */}
-        {formData.password && (
-          <div className="space-y-1">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-muted-foreground">結界文の強度:</span>
-              <span className={`font-medium ${passwordStrength < 50 ? 'text-destructive' :
-                  passwordStrength < 75 ? 'text-amber-600' : 'text-green-600'
-                }`}>
-                {passwordStrength < 25 ? '弱い' :
-                  passwordStrength < 50 ? '普通' :
-                    passwordStrength < 75 ? '強い' : '非常に強い'}
-              </span>
-            </div>
-            <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
-              <div
-                className={`h-full transition-all duration-300 ${getPasswordStrengthColor(passwordStrength)}`}
-                style={{ width: `${passwordStrength}%` }}
-              />
-            </div>
-          </div>
-        )}
+        <PasswordStrengthMeter password={formData.password} />
 
         {errors.password && (
           <div id="password-error">
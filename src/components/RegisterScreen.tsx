@@ -1,7 +1,7 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
-import { useApp } from './AppContext';
+import { useApp } from './useApp';
 import { KumotsudaiLogo } from './KumotsudaiLogo';
 import { TreePine, ArrowLeft, Moon, Sun } from 'lucide-react';
 import { RegisterForm } from './RegisterForm';
@@ -10,11 +10,19 @@ import { RegisterForm } from './RegisterForm';
 export const RegisterScreen: React.FC = () => {
   const { register, setCurrentScreen, theme, toggleTheme } = useApp();
 
-  // 新規登録処理
-  const handleRegister = (formData: any) => {
-    const success = register(formData);
-    if (!success) {
-      // エラーハンドリングは RegisterForm 内で行う
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 新規登録処理（成功時は確認画面へ遷移する）
+  // エラー表示は RegisterForm 内で行う
+  const handleRegister = async (formData: Parameters<typeof register>[0]) => {
+    setIsSubmitting(true);
+    try {
+      const success = await register(formData);
+      if (!success) {
+        throw new Error('刻印に失敗しました');
+      }
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -93,7 +101,7 @@ export const RegisterScreen: React.FC = () => {
         </CardHeader>
 
         <CardContent>
-          <RegisterForm onSubmit={handleRegister} isSubmitting={false} />
+          <RegisterForm onSubmit={handleRegister} isSubmitting={isSubmitting} />
         </CardContent>
       </Card>
 
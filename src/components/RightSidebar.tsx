@@ -1,14 +1,16 @@
 import React, { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { UserAvatarImage } from './UserAvatarImage';
 import { Button } from './ui/button';
-import { useApp } from './AppContext';
-import { TrendingUp, Sparkles, Clock, Users } from 'lucide-react';
+import { useApp } from './useApp';
+import { TrendingUp, Sparkles, Clock, Users, Hash } from 'lucide-react';
+import { normalizeSearchText } from '../services/search';
 
 // 右サイドバーコンポーネント - 神秘的な追加情報
 export const RightSidebar: React.FC = () => {
-  const { offerings, users, setCurrentScreen, setSelectedUserId, getUserById } = useApp();
+  const { offerings, users, setCurrentScreen, setSelectedUserId, getUserById, runTagSearch } = useApp();
 
   // 人気のジャンルを計算
   const popularGenres = useMemo(() => {
@@ -25,6 +27,26 @@ export const RightSidebar: React.FC = () => {
       .map(([genre, count]) => ({ genre, count }));
   }, [offerings]);
 
+  // 直近7日間に奉納された供物で多く使われたタグ（同数の場合は祈念の多い順）
+  // 表記ゆれは同じタグとして数え、最初に現れた表記で表示する
+  const trendingTags = useMemo(() => {
+    const recentDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const tagStats = new Map<string, { tag: string; count: number; likes: number }>();
+
+    offerings.forEach(offering => {
+      if (offering.createdAt < recentDate) return;
+      offering.tags.forEach(tag => {
+        const key = normalizeSearchText(tag);
+        const stats = tagStats.get(key) ?? { tag, count: 0, likes: 0 };
+        tagStats.set(key, { ...stats, count: stats.count + 1, likes: stats.likes + offering.likes });
+      });
+    });
+
+    return Array.from(tagStats.values())
+      .sort((a, b) => b.count - a.count || b.likes - a.likes)
+      .slice(0, 10);
+  }, [offerings]);
+
   // 最近活動的なユーザーを計算
   const activeUsers = useMemo(() => {
     const userActivity: Record<string, number> = {};
@@ -116,6 +138,37 @@ export const RightSidebar: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* 話題のタグ */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center space-x-2 text-primary">
+            <Hash size={20} />
+            <span className="text-lg">話題のタグ</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-2">
+            {trendingTags.map(({ tag, count }) => (
+              <Badge key={tag} variant="outline" className="text-xs p-0">
+                <button
+                  type="button"
+                  className="px-2 py-0.5 hover:text-primary transition-colors"
+                  onClick={() => runTagSearch(tag)}
+                  title={`#${tag} の供物を探す`}
+                >
+                  #{tag} <span className="text-muted-foreground">{count}</span>
+                </button>
+              </Badge>
+            ))}
+          </div>
+          {trendingTags.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              この1週間に使われたタグはまだありません
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* 活発な供奉者たち */}
       <Card>
         <CardHeader className="pb-3">
@@ -137,7 +190,7 @@ export const RightSidebar: React.FC = () => {
                 <div className="flex items-center space-x-3">
                   <div className="relative">
                     <Avatar className="w-8 h-8">
-                      <AvatarImage src={user?.avatar} alt={user?.name} />
+                      <UserAvatarImage avatar={user?.avatar} alt={user?.name} displaySize={32} />
                       <AvatarFallback className="text-xs bg-primary/10">
                         {user?.name.charAt(0)}
                       </AvatarFallback>
@@ -184,7 +237,7 @@ export const RightSidebar: React.FC = () => {
                 <div key={offering.id} className="text-sm">
                   <div className="flex items-center space-x-2 mb-1">
                     <Avatar className="w-5 h-5">
-                      <AvatarImage src={author?.avatar} alt={offering.author} />
+                      <UserAvatarImage avatar={author?.avatar} alt={offering.author} displaySize={20} />
                       <AvatarFallback className="text-xs bg-accent">
                         {offering.author.charAt(0)}
                       </AvatarFallback>
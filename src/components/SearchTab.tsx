@@ -4,24 +4,36 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { useApp, type Offering } from './AppContext';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { useApp } from './useApp';
+import type { SearchFilters } from './AppContext';
 import { OfferingCard } from './OfferingCard';
-import { Search, Filter, X, TrendingUp, Clock, Sparkles, Command } from 'lucide-react';
+import { MoreOfferingsFooter } from './MoreOfferingsFooter';
+import { VirtualizedList } from './VirtualizedList';
+import { OfferingSearchIndex, normalizeSearchText } from '../services/search';
+import { evaluateSearchQuery, matchesSearchFilters, parseSearchQuery } from '../services/searchQuery';
+import { Search, Filter, X, TrendingUp, Clock, Sparkles, Command, Bookmark } from 'lucide-react';
 import { toast } from 'sonner';
 
+// 検索結果の並び順
+type SearchSortKey = 'latest' | 'popular' | 'mostCommented' | 'relevance';
+
 // 高度な検索・フィルター機能を持つ探求の壇
 export const SearchTab: React.FC = () => {
-  const { offerings } = useApp();
+  const { offerings, saveSearch, savedSearchToRun, clearSavedSearchToRun, tagSearchToRun, clearTagSearchToRun, hasMoreOfferings, loadMoreOfferings } = useApp();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedGenre, setSelectedGenre] = useState<string>('all');
-  const [sortBy, setSortBy] = useState<'latest' | 'popular' | 'mostCommented' | 'relevance'>('relevance');
+  const [sortBy, setSortBy] = useState<SearchSortKey>('relevance');
   const [isAdvancedSearchOpen, setIsAdvancedSearchOpen] = useState(false);
   const [authorFilter, setAuthorFilter] = useState('');
-  const [dateFilter, setDateFilter] = useState<'all' | 'today' | 'week' | 'month'>('all');
+  const [dateFilter, setDateFilter] = useState<SearchFilters['date']>('all');
   const [minLikes, setMinLikes] = useState<number>(0);
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
   
   const searchInputRef = useRef<HTMLInputElement>(null);
 
@@ -57,16 +69,29 @@ export const SearchTab: React.FC = () => {
     return Array.from(authors).sort();
   }, [offerings]); */
 
-  // 検索候補の生成
+  // 全文検索の索引（供物が変わったときのみ作り直す）
+  const searchIndex = useMemo(() => new OfferingSearchIndex(offerings), [offerings]);
+
+  // 検索式の解析（構文エラーのある条件を除いて検索する）
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
+  // 検索式に一致した供物（供物ID → 検索結果、条件がない場合は null）
+  const searchHits = useMemo(
+    () => parsedQuery.root ? evaluateSearchQuery(parsedQuery.root, searchIndex, offerings) : null,
+    [parsedQuery, searchIndex, offerings]
+  );
+
+  // 検索候補の生成（ひらがな・カタカナ、全角・半角を区別しない）
   useEffect(() => {
-    if (searchQuery.length > 0) {
+    const normalizedQuery = normalizeSearchText(searchQuery.trim());
+    if (normalizedQuery.length > 0) {
       const titleSuggestions = offerings
-        .filter(o => o.title.toLowerCase().includes(searchQuery.toLowerCase()))
+        .filter(o => normalizeSearchText(o.title).includes(normalizedQuery))
         .map(o => o.title)
         .slice(0, 3);
       
       const genreSuggestions = allGenres
-        .filter(g => g.toLowerCase().includes(searchQuery.toLowerCase()))
+        .filter(g => normalizeSearchText(g).includes(normalizedQuery))
         .slice(0, 2);
 
       setSuggestions([...titleSuggestions, ...genreSuggestions]);
@@ -75,84 +100,20 @@ export const SearchTab: React.FC = () => {
     }
   }, [searchQuery, offerings, allGenres]);
 
-  // 日付フィルターの適用
-  const filterByDate = (offering: Offering) => {
-    if (dateFilter === 'all') return true;
-    
-    const now = new Date();
-    const offeringDate = offering.createdAt;
-    
-    switch (dateFilter) {
-      case 'today':
-        return offeringDate.toDateString() === now.toDateString();
-      case 'week':
-        const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        return offeringDate >= weekAgo;
-      case 'month':
-        const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        return offeringDate >= monthAgo;
-      default:
-        return true;
-    }
-  };
-
-  // 高度な検索アルゴリズム（関連度スコア計算）
-  const calculateRelevanceScore = (offering: Offering, query: string): number => {
-    if (!query) return 0;
-    
-    const lowerQuery = query.toLowerCase();
-    let score = 0;
-    
-    // タイトルマッチ（重要度: 高）
-    if (offering.title.toLowerCase().includes(lowerQuery)) {
-      score += offering.title.toLowerCase().indexOf(lowerQuery) === 0 ? 100 : 50;
-    }
-    
-    // 内容マッチ（重要度: 中）
-    if (offering.content.toLowerCase().includes(lowerQuery)) {
-      score += 30;
-    }
-    
-    // ジャンルマッチ（重要度: 中）
-    if (offering.genres.some(genre => genre.toLowerCase().includes(lowerQuery))) {
-      score += 40;
-    }
-    
-    // 作者マッチ（重要度: 低）
-    if (offering.author.toLowerCase().includes(lowerQuery)) {
-      score += 20;
-    }
-    
-    // 人気度による調整
-    score += Math.min(offering.likes * 2, 20);
-    score += Math.min(offering.comments.length, 10);
-    
-    return score;
-  };
+  // 現在の絞り込み条件
+  const currentFilters: SearchFilters = useMemo(
+    () => ({ genre: selectedGenre, author: authorFilter, date: dateFilter, minLikes }),
+    [selectedGenre, authorFilter, dateFilter, minLikes]
+  );
 
   // フィルタリングとソート
   const filteredAndSortedOfferings = useMemo(() => {
-    let filtered = offerings.filter(offering => {
-      // 基本検索
-      const matchesSearch = !searchQuery || 
-        offering.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        offering.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        offering.genres.some(genre => genre.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        offering.author.toLowerCase().includes(searchQuery.toLowerCase());
-
-      // ジャンルフィルター（'all'の場合は全て通す）
-      const matchesGenre = selectedGenre === 'all' || offering.genres.includes(selectedGenre);
-      
-      // 作者フィルター
-      const matchesAuthor = !authorFilter || offering.author.toLowerCase().includes(authorFilter.toLowerCase());
-      
-      // 日付フィルター
-      const matchesDate = filterByDate(offering);
-      
-      // いいね数フィルター
-      const matchesLikes = offering.likes >= minLikes;
+    const filtered = offerings.filter(offering => {
+      // 基本検索（検索式に一致したもの）
+      const matchesSearch = !searchHits || searchHits.has(offering.id);
 
-      return matchesSearch && matchesGenre && matchesAuthor && matchesDate && matchesLikes;
+      // ジャンル・作者・期間・いいね数フィルター（保存した探求の照合と同じ判定）
+      return matchesSearch && matchesSearchFilters(offering, currentFilters);
     });
 
     // ソート
@@ -167,8 +128,12 @@ export const SearchTab: React.FC = () => {
         filtered.sort((a, b) => b.comments.length - a.comments.length);
         break;
       case 'relevance':
-        if (searchQuery) {
-          filtered.sort((a, b) => calculateRelevanceScore(b, searchQuery) - calculateRelevanceScore(a, searchQuery));
+        if (searchHits) {
+          // 関連度（BM25）の高い順、同点は新しい順
+          filtered.sort((a, b) =>
+            (searchHits.get(b.id)?.score ?? 0) - (searchHits.get(a.id)?.score ?? 0) ||
+            b.createdAt.getTime() - a.createdAt.getTime()
+          );
         } else {
           filtered.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
         }
@@ -176,7 +141,7 @@ export const SearchTab: React.FC = () => {
     }
 
     return filtered;
-  }, [offerings, searchQuery, selectedGenre, sortBy, authorFilter, dateFilter, minLikes]);
+  }, [offerings, searchHits, currentFilters, sortBy]);
 
   // 検索実行時の処理
   const handleSearch = (query?: string) => {
@@ -202,6 +167,60 @@ export const SearchTab: React.FC = () => {
     }
   }, []);
 
+  // サイドバーから実行を求められた保存した探求の適用
+  useEffect(() => {
+    if (!savedSearchToRun) return;
+    const { name, query, filters } = savedSearchToRun;
+    setSearchQuery(query);
+    setSelectedGenre(filters.genre);
+    setAuthorFilter(filters.author);
+    setDateFilter(filters.date);
+    setMinLikes(filters.minLikes);
+    if (filters.author || filters.minLikes > 0) setIsAdvancedSearchOpen(true);
+    clearSavedSearchToRun();
+    toast.info(`探求「${name}」を実行しました`);
+  }, [savedSearchToRun]);
+
+  // 本文・サイドバーのタグから求められた探求の適用（他の絞り込みは解く）
+  useEffect(() => {
+    if (!tagSearchToRun) return;
+    setSearchQuery(`#${tagSearchToRun}`);
+    setSelectedGenre('all');
+    setAuthorFilter('');
+    setDateFilter('all');
+    setMinLikes(0);
+    clearTagSearchToRun();
+    toast.info(`タグ「#${tagSearchToRun}」の供物を探しました`);
+  }, [tagSearchToRun]);
+
+  // 探求の保存ダイアログを開く（名前の初期値は検索式）
+  const openSaveDialog = () => {
+    setSaveName(searchQuery.trim().slice(0, 40));
+    setIsSaveDialogOpen(true);
+  };
+
+  // 検索式と絞り込み条件の保存
+  const handleSaveSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = saveName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    const success = await saveSearch(name, searchQuery.trim(), currentFilters);
+    setIsSaving(false);
+
+    if (success) {
+      setIsSaveDialogOpen(false);
+      toast.success(`探求「${name}」を保存しました`, {
+        description: '一致する供物が奉納されると便りでお知らせします'
+      });
+    } else {
+      toast.error('探求を保存できませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
   // フィルターのクリア
   const clearFilters = () => {
     setSearchQuery('');
@@ -268,7 +287,8 @@ export const SearchTab: React.FC = () => {
                   onBlur={() => setTimeout(() => setIsSearchFocused(false), 200)}
                   className="pl-10 pr-4 py-3 text-base large-clickable"
                   aria-label="供物を検索"
-                  aria-describedby="search-help"
+                  aria-describedby={parsedQuery.errors.length > 0 ? 'search-errors search-help' : 'search-help'}
+                  aria-invalid={parsedQuery.errors.length > 0}
                 />
                 <div className="absolute right-3 top-1/2 transform -translate-y-1/2 flex items-center space-x-1">
                   <Command size={14} className="text-muted-foreground" />
@@ -333,8 +353,25 @@ export const SearchTab: React.FC = () => {
             )}
           </div>
           
-          <div id="search-help" className="text-xs text-muted-foreground mt-2">
-            タイトル、内容、ジャンル、作者から検索できます
+          {/* 検索式の構文エラー（誤りのある条件は除いて検索する） */}
+          {parsedQuery.errors.length > 0 && (
+            <ul id="search-errors" className="mt-2 space-y-1 text-xs text-destructive" role="alert">
+              {parsedQuery.errors.map((error, index) => (
+                <li key={index}>
+                  <code className="rounded-sm bg-destructive/10 px-1">{searchQuery.slice(error.start, error.end)}</code>
+                  <span className="ml-2">{error.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div id="search-help" className="text-xs text-muted-foreground mt-2 space-y-1">
+            <p>
+              タイトル、内容、ジャンル、作者から検索できます。ひらがな・カタカナ、全角・半角は区別せず、空白で区切った語をすべて含む供物を探します
+            </p>
+            <p>
+              検索式の例: <code>著者:禊 ジャンル:技術 #設計 祈念&gt;10 期間:2026-01..2026-03 -除外語 "完全一致"</code>（OR・NOT・括弧も使えます）
+            </p>
           </div>
         </CardContent>
       </Card>
@@ -409,7 +446,7 @@ export const SearchTab: React.FC = () => {
             {/* 並び替え */}
             <div>
               <label className="text-sm font-medium mb-2 block">並び替え</label>
-              <Select value={sortBy} onValueChange={(value: any) => setSortBy(value)}>
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as SearchSortKey)}>
                 <SelectTrigger className="large-clickable">
                   <SelectValue />
                 </SelectTrigger>
@@ -425,7 +462,7 @@ export const SearchTab: React.FC = () => {
             {/* 期間フィルター */}
             <div>
               <label className="text-sm font-medium mb-2 block">期間</label>
-              <Select value={dateFilter} onValueChange={(value: any) => setDateFilter(value)}>
+              <Select value={dateFilter} onValueChange={(value) => setDateFilter(value as SearchFilters['date'])}>
                 <SelectTrigger className="large-clickable">
                   <SelectValue />
                 </SelectTrigger>
@@ -490,12 +527,24 @@ export const SearchTab: React.FC = () => {
               ({filteredAndSortedOfferings.length}件の供物)
             </span>
           </h2>
-          {searchQuery && (
-            <Badge variant="outline" className="flex items-center space-x-1">
-              <Search size={12} />
-              <span>"{searchQuery}"</span>
-            </Badge>
-          )}
+          <div className="flex items-center space-x-2">
+            {searchQuery && (
+              <Badge variant="outline" className="flex items-center space-x-1">
+                <Search size={12} />
+                <span>"{searchQuery}"</span>
+              </Badge>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={openSaveDialog}
+              className="haptic-feedback"
+              aria-label="この探求を保存"
+            >
+              <Bookmark size={14} className="mr-1" />
+              保存
+            </Button>
+          </div>
         </div>
 
         {filteredAndSortedOfferings.length === 0 ? (
@@ -512,15 +561,58 @@ export const SearchTab: React.FC = () => {
             </CardContent>
           </Card>
         ) : (
-          <div className="grid gap-6">
-            {filteredAndSortedOfferings.map((offering, index) => (
-              <div key={offering.id} className="animate-fade-in" style={{ animationDelay: `${index * 50}ms` }}>
-                <OfferingCard offering={offering} />
-              </div>
-            ))}
-          </div>
+          <VirtualizedList
+            items={filteredAndSortedOfferings}
+            getKey={offering => offering.id}
+            gap={24}
+            onEndReached={hasMoreOfferings ? loadMoreOfferings : undefined}
+            renderItem={(offering, index) => {
+              // 語で一致した場合のみ一致箇所を強調する（項目指定のみの一致はそのまま表示）
+              const searchTerms = searchHits?.get(offering.id)?.terms;
+              return (
+                <div className="animate-fade-in" style={{ animationDelay: `${Math.min(index, 10) * 50}ms` }}>
+                  <OfferingCard offering={offering} searchTerms={searchTerms?.length ? searchTerms : undefined} />
+                </div>
+              );
+            }}
+          />
         )}
+        <MoreOfferingsFooter />
       </div>
+
+      {/* 探求の保存ダイアログ */}
+      <Dialog open={isSaveDialogOpen} onOpenChange={(open) => !isSaving && setIsSaveDialogOpen(open)}>
+        <DialogContent>
+          <form onSubmit={handleSaveSearch} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle className="text-primary">探求を保存</DialogTitle>
+              <DialogDescription>
+                検索式と絞り込み条件（ジャンル・作者・期間・最小いいね数）を保存し、サイドバーから再び実行できます。
+                一致する供物が新たに奉納されると便りが届きます。
+              </DialogDescription>
+            </DialogHeader>
+            <div>
+              <label htmlFor="saved-search-name" className="text-sm font-medium mb-2 block">探求の名前</label>
+              <Input
+                id="saved-search-name"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                placeholder="例: 技術の学び"
+                maxLength={40}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveDialogOpen(false)} disabled={isSaving}>
+                取りやめる
+              </Button>
+              <Button type="submit" disabled={isSaving || !saveName.trim()}>
+                {isSaving ? '保存中…' : '保存する'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
\ No newline at end of file
@@ -1,7 +1,9 @@
 import React from 'react';
 import { Button } from './ui/button';
-import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
-import { useApp } from './AppContext';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { UserAvatarImage } from './UserAvatarImage';
+import { Badge } from './ui/badge';
+import { useApp } from './useApp';
 import { KumotsudaiLogo } from './KumotsudaiLogo';
 import { 
 /*   Crown, 
@@ -10,11 +12,15 @@ import {
   Moon, 
   Sun, 
   LogOut, 
+  Bell, 
   User, 
   HelpCircle, 
   MessageSquare, 
-  Users 
+  Users,
+  Bookmark,
+  X
 } from 'lucide-react';
+import { toast } from 'sonner';
 
 // X（Twitter）風の左サイドバーコンポーネント
 export const Sidebar: React.FC = () => {
@@ -23,10 +29,32 @@ export const Sidebar: React.FC = () => {
     theme, 
     toggleTheme, 
     logout, 
-    setCurrentScreen 
+    setCurrentScreen,
+    unreadNotificationCount,
+    savedSearches,
+    runSavedSearch,
+    deleteSavedSearch
   } = useApp();
 
+  // 保存した探求の削除
+  const handleDeleteSavedSearch = async (savedSearchId: string, name: string) => {
+    if (await deleteSavedSearch(savedSearchId)) {
+      toast.success(`探求「${name}」を削除しました`);
+    } else {
+      toast.error('探求を削除できませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
   const menuItems = [
+    {
+      icon: Bell,
+      label: '便り',
+      sublabel: 'お知らせ',
+      action: () => setCurrentScreen('notifications'),
+      badge: unreadNotificationCount,
+    },
     {
       icon: User,
       label: '写し絵',
@@ -72,7 +100,7 @@ export const Sidebar: React.FC = () => {
           <div className="mb-6 p-3 rounded-lg bg-accent/30 border border-border">
             <div className="flex items-center space-x-3">
               <Avatar className="w-10 h-10">
-                <AvatarImage src={currentUser.avatar} alt={currentUser.name} />
+                <UserAvatarImage avatar={currentUser.avatar} alt={currentUser.name} displaySize={40} />
                 <AvatarFallback className="bg-primary text-primary-foreground">
                   {currentUser.name.charAt(0)}
                 </AvatarFallback>
@@ -101,11 +129,50 @@ export const Sidebar: React.FC = () => {
                   <div className="font-medium text-sm">{item.label}</div>
                   <div className="text-xs text-muted-foreground">{item.sublabel}</div>
                 </div>
+                {/* 未読の便りの件数 */}
+                {item.badge ? (
+                  <Badge className="ml-auto" aria-label={`未読 ${item.badge}件`}>
+                    {item.badge > 99 ? '99+' : item.badge}
+                  </Badge>
+                ) : null}
               </Button>
             );
           })}
         </nav>
 
+        {/* 保存した探求（押すと探求の壇で再実行） */}
+        {savedSearches.length > 0 && (
+          <section className="mb-6" aria-label="保存した探求">
+            <h2 className="px-3 mb-2 text-xs font-medium text-muted-foreground">保存した探求</h2>
+            <ul className="space-y-1">
+              {savedSearches.map(savedSearch => (
+                <li key={savedSearch.id} className="group flex items-center">
+                  <Button
+                    variant="ghost"
+                    className="flex-1 min-w-0 justify-start h-auto px-3 py-2 hover:bg-accent/50 transition-colors"
+                    onClick={() => runSavedSearch(savedSearch.id)}
+                    disabled={savedSearch.id.startsWith('pending-')}
+                    title={savedSearch.query || undefined}
+                  >
+                    <Bookmark size={16} className="mr-3 shrink-0" />
+                    <span className="text-sm truncate">{savedSearch.name}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDeleteSavedSearch(savedSearch.id, savedSearch.name)}
+                    disabled={savedSearch.id.startsWith('pending-')}
+                    aria-label={`探求「${savedSearch.name}」を削除`}
+                  >
+                    <X size={14} />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         {/* スペーサー */}
         <div className="flex-1" />
 
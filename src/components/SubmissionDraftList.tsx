@@ -0,0 +1,96 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import type { Offering } from './AppContext';
+import { FileText, Trash2 } from 'lucide-react';
+
+interface SubmissionDraftListProps {
+  /** 下書き一覧（null は読み込み中） */
+  drafts: Offering[] | null;
+  /** 編集中の下書き */
+  activeDraftId: string | null;
+  /** 下書きの再開 */
+  onResume: (draft: Offering) => void;
+  /** 下書きの破棄 */
+  onDiscard: (draft: Offering) => void;
+  /** 操作の無効化（保存・奉納中） */
+  disabled?: boolean;
+}
+
+// 保存日時の表示形式
+const formatSavedAt = (date: Date) =>
+  `${date.toLocaleDateString('ja-JP')} ${date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}`;
+
+// 献納の壇の下書き一覧
+export const SubmissionDraftList: React.FC<SubmissionDraftListProps> = ({
+  drafts,
+  activeDraftId,
+  onResume,
+  onDiscard,
+  disabled = false
+}) => {
+  // 下書きがなければ表示しない
+  if (drafts !== null && drafts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <FileText size={18} />
+          <span>書きかけの供物</span>
+        </CardTitle>
+        <CardDescription>
+          自動で保存された下書きです。再開すると続きから書けます
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {drafts === null ? (
+          <p className="text-sm text-muted-foreground">下書きを読み込んでいます...</p>
+        ) : (
+          drafts.map(draft => {
+            const isActive = draft.id === activeDraftId;
+            return (
+              <div
+                key={draft.id}
+                className={`flex items-center justify-between gap-3 rounded-md border p-3 ${
+                  isActive ? 'border-primary bg-primary/5' : 'border-border'
+                }`}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <p className="truncate text-sm font-medium">
+                      {draft.title.trim() || '（無題の下書き）'}
+                    </p>
+                    {isActive && <Badge variant="secondary" className="text-xs shrink-0">編集中</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatSavedAt(draft.editedAt ?? draft.createdAt)} に保存・{draft.content.length}文字
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  {!isActive && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => onResume(draft)} disabled={disabled}>
+                      再開する
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => onDiscard(draft)}
+                    disabled={disabled}
+                    aria-label={`「${draft.title.trim() || '無題の下書き'}」を破棄する`}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
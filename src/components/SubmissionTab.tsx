@@ -1,80 +1,171 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from './ui/button';
-import { Input } from './ui/input';
-import { Textarea } from './ui/textarea';
-import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { Checkbox } from './ui/checkbox';
-import { useApp } from './AppContext';
-import { Send, Plus, X } from 'lucide-react';
+import { useApp } from './useApp';
+import type { Offering } from './AppContext';
+import { OfferingFormFields } from './OfferingFormFields';
+import {
+  EMPTY_OFFERING_FORM,
+  validateOfferingForm,
+  type OfferingFormErrors,
+  type OfferingFormValue
+} from './offeringForm';
+import { OfferingImageAttachments } from './OfferingImageAttachments';
+import { SubmissionDraftList } from './SubmissionDraftList';
+import { Send, Plus, Save } from 'lucide-react';
 import { toast } from 'sonner';
 
+// 下書きの自動保存間隔（ミリ秒）
+const AUTOSAVE_INTERVAL_MS = 10 * 1000;
+
+// 奉納フォームの入力値（添付画像は奉納時のみ選べる）
+type SubmissionFormValue = OfferingFormValue & { imagePaths: string[] };
+
+// 空の入力値
+const EMPTY_SUBMISSION_FORM: SubmissionFormValue = { ...EMPTY_OFFERING_FORM, imagePaths: [] };
+
+// 何も書かれていないか（空の下書きは保存しない）
+const isBlankForm = (value: SubmissionFormValue) =>
+  !value.title.trim() && !value.content.trim() && value.genres.length === 0 && value.imagePaths.length === 0;
+
 // 献納の壇（投稿タブ）コンポーネント
 export const SubmissionTab: React.FC = () => {
-  const { currentUser, addOffering } = useApp();
+  const { currentUser, addOffering, getDrafts, saveDraft, publishDraft, discardDraft, removeOfferingImages } = useApp();
   
   // フォームの状態管理
-  const [formData, setFormData] = useState({
-    title: '',
-    content: '',
-    genres: [] as string[]
-  });
+  const [formData, setFormData] = useState<SubmissionFormValue>(EMPTY_SUBMISSION_FORM);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [errors, setErrors] = useState<OfferingFormErrors>({});
+
+  // 下書きの状態管理
+  const [drafts, setDrafts] = useState<Offering[] | null>(null);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+
+  // 自動保存・アンマウント時の保存から参照する最新値
+  const formDataRef = useRef(formData);
+  formDataRef.current = formData;
+  const draftIdRef = useRef<string | null>(null);
+  const savedSnapshotRef = useRef(JSON.stringify(EMPTY_SUBMISSION_FORM));
+  const savingRef = useRef<Promise<boolean> | null>(null);
+  // 奉納中は自動保存しない（公開後の供物を下書きとして上書きしないため）
+  const isSubmittingRef = useRef(false);
+
+  // 未保存の変更があるか
+  const hasUnsavedChanges = () => JSON.stringify(formDataRef.current) !== savedSnapshotRef.current;
+
+  // 下書きとして保存（変更がなければ何もしない）
+  // 保存中に呼ばれた場合は、その保存を待ってから改めて判定する
+  const persistDraft = async (): Promise<boolean> => {
+    if (savingRef.current) {
+      await savingRef.current;
+    }
+
+    const value = formDataRef.current;
+    const snapshot = JSON.stringify(value);
+    if (isSubmittingRef.current || snapshot === savedSnapshotRef.current || isBlankForm(value)) return true;
 
-  // 利用可能なジャンル一覧
-  const availableGenres = [
-    '修練', '日々', '証明', '挑戦', '学習', '創作',
-    '発見', '体験', '感謝', '決意', '成長', '智恵',
-    '技術', '芸術', '研究', '実践', '共有', '貢献'
-  ];
+    const saving = (async () => {
+      setSaveState('saving');
+      const saved = await saveDraft(draftIdRef.current, value);
+      if (!saved) {
+        setSaveState('error');
+        return false;
+      }
+
+      draftIdRef.current = saved.id;
+      savedSnapshotRef.current = snapshot;
+      setDraftId(saved.id);
+      setLastSavedAt(saved.editedAt ?? new Date());
+      setSaveState('saved');
+      setDrafts(prev => [saved, ...(prev ?? []).filter(draft => draft.id !== saved.id)]);
+      return true;
+    })();
+
+    savingRef.current = saving;
+    try {
+      return await saving;
+    } finally {
+      savingRef.current = null;
+    }
+  };
+
+  // 編集対象の切り替え（下書き・白紙）
+  const loadForm = (value: SubmissionFormValue, id: string | null, savedAt: Date | null) => {
+    setFormData(value);
+    formDataRef.current = value;
+    draftIdRef.current = id;
+    savedSnapshotRef.current = JSON.stringify(value);
+    setDraftId(id);
+    setLastSavedAt(savedAt);
+    setSaveState(id ? 'saved' : 'idle');
+    setErrors({});
+  };
+
+  // 下書き一覧の読み込み
+  useEffect(() => {
+    let cancelled = false;
+    getDrafts().then(result => {
+      if (cancelled) return;
+      if (result === null) {
+        toast.error('下書きを読み込めませんでした');
+      }
+      setDrafts(result ?? []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser?.id]);
+
+  // 定期的な自動保存と、タブ切替（アンマウント）時の保存
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      persistDraft();
+    }, AUTOSAVE_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(timer);
+      persistDraft();
+    };
+  }, []);
+
+  // 未保存のまま閉じようとした場合の確認
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (isBlankForm(formDataRef.current) || !hasUnsavedChanges()) return;
+      persistDraft();
+      e.preventDefault();
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, []);
 
   // フォーム入力値の更新
-  const updateFormData = (field: string, value: string) => {
+  const updateFormData = <K extends keyof OfferingFormValue>(field: K, value: OfferingFormValue[K]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    if (saveState === 'saved') setSaveState('idle');
     // エラーをクリア
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: '' }));
     }
   };
 
-  // ジャンル選択の切り替え
-  const toggleGenre = (genre: string) => {
-    setFormData(prev => ({
-      ...prev,
-      genres: prev.genres.includes(genre)
-        ? prev.genres.filter(g => g !== genre)
-        : [...prev.genres, genre]
-    }));
+  // 添付画像の更新
+  const updateImagePaths = (imagePaths: string[]) => {
+    setFormData(prev => ({ ...prev, imagePaths }));
+    if (saveState === 'saved') setSaveState('idle');
   };
 
   // バリデーション
   const validateForm = () => {
-    const newErrors: { [key: string]: string } = {};
-
-    if (!formData.title.trim()) {
-      newErrors.title = '題名を入力してください';
-    } else if (formData.title.length > 100) {
-      newErrors.title = '題名は100文字以内で入力してください';
-    }
-
-    if (!formData.content.trim()) {
-      newErrors.content = '供物の内容を入力してください';
-    } else if (formData.content.length < 10) {
-      newErrors.content = '内容は10文字以上で入力してください';
-    } else if (formData.content.length > 2000) {
-      newErrors.content = '内容は2000文字以内で入力してください';
-    }
-
-    if (formData.genres.length === 0) {
-      newErrors.genres = '少なくとも1つのジャンルを選択してください';
-    }
-
+    const newErrors = validateOfferingForm(formData);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  // 供物の投稿処理
+  // 供物の奉納処理（下書きがあれば下書きを公開する）
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -89,46 +180,116 @@ export const SubmissionTab: React.FC = () => {
     }
 
     setIsSubmitting(true);
+    isSubmittingRef.current = true;
 
     try {
-      // 実際のアプリでは、ここでAPIを呼び出してバックエンドに投稿
-      addOffering({
+      // 自動保存の途中であれば、その完了を待ってから奉納する
+      if (savingRef.current) await savingRef.current;
+
+      const offering = {
         title: formData.title.trim(),
         content: formData.content.trim(),
         genres: formData.genres,
-        author: currentUser.name,
-        authorId: currentUser.id
-      });
+        imagePaths: formData.imagePaths,
+        visibility: formData.visibility
+      };
+      const publishedDraftId = draftIdRef.current;
+      const success = publishedDraftId
+        ? await publishDraft(publishedDraftId, offering)
+        : await addOffering({ ...offering, author: currentUser.name, authorId: currentUser.id });
+
+      if (!success) {
+        toast.error('供物の奉納に失敗しました', {
+          description: '再度お試しください'
+        });
+        return;
+      }
 
       // フォームをリセット
-      setFormData({
-        title: '',
-        content: '',
-        genres: []
-      });
+      loadForm(EMPTY_SUBMISSION_FORM, null, null);
+      setDrafts(prev => (prev ?? []).filter(draft => draft.id !== publishedDraftId));
 
       toast.success('供物が祭壇に捧げられました', {
         description: '審神の壇と探求の壇で確認できます'
       });
-    } catch (error) {
+    } catch {
       toast.error('供物の奉納に失敗しました', {
         description: '再度お試しください'
       });
     } finally {
+      isSubmittingRef.current = false;
       setIsSubmitting(false);
     }
   };
 
-  // フォームリセット
-  const resetForm = () => {
-    setFormData({
-      title: '',
-      content: '',
-      genres: []
-    });
-    setErrors({});
+  // 下書きとして今すぐ保存
+  const handleSaveDraft = async () => {
+    if (isBlankForm(formData)) {
+      toast.error('保存する内容がありません');
+      return;
+    }
+    if (await persistDraft()) {
+      toast.success('下書きを保存しました');
+    } else {
+      toast.error('下書きを保存できませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
+  // 下書きの再開（書きかけの内容は先に保存する）
+  const handleResumeDraft = async (draft: Offering) => {
+    if (!(await persistDraft())) {
+      toast.error('書きかけの内容を保存できませんでした', {
+        description: '再度お試しください'
+      });
+      return;
+    }
+    loadForm(
+      { title: draft.title, content: draft.content, genres: draft.genres, imagePaths: draft.imagePaths, visibility: draft.visibility },
+      draft.id,
+      draft.editedAt ?? draft.createdAt
+    );
+  };
+
+  // 下書きの破棄
+  const handleDiscardDraft = async (draft: Offering) => {
+    if (!window.confirm(`「${draft.title.trim() || '無題の下書き'}」を破棄しますか？元に戻せません。`)) return;
+
+    if (savingRef.current) await savingRef.current;
+    if (!(await discardDraft(draft.id))) {
+      toast.error('下書きを破棄できませんでした', {
+        description: '再度お試しください'
+      });
+      return;
+    }
+
+    setDrafts(prev => (prev ?? []).filter(d => d.id !== draft.id));
+    removeOfferingImages(draft.imagePaths);
+    if (draftIdRef.current === draft.id) {
+      loadForm(EMPTY_SUBMISSION_FORM, null, null);
+    }
+    toast.success('下書きを破棄しました');
   };
 
+  // フォームリセット（保存済みの下書きは一覧に残る）
+  const resetForm = async () => {
+    await persistDraft();
+    loadForm(EMPTY_SUBMISSION_FORM, null, null);
+  };
+
+  // 保存状況の表示
+  const saveStatusText = (() => {
+    switch (saveState) {
+      case 'saving': return '下書きを保存中...';
+      case 'error': return '下書きを保存できませんでした';
+      case 'saved': return lastSavedAt
+        ? `${lastSavedAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })} に下書きを保存しました`
+        : '下書きを保存しました';
+      default: return isBlankForm(formData) ? '' : '書きかけの内容は自動で下書きに保存されます';
+    }
+  })();
+
   return (
     <div className="max-w-2xl mx-auto space-y-6">
       {/* ヘッダー */}
@@ -139,6 +300,15 @@ export const SubmissionTab: React.FC = () => {
         </p>
       </div>
 
+      {/* 下書き一覧 */}
+      <SubmissionDraftList
+        drafts={drafts}
+        activeDraftId={draftId}
+        onResume={handleResumeDraft}
+        onDiscard={handleDiscardDraft}
+        disabled={isSubmitting}
+      />
+
       {/* 投稿フォーム */}
       <Card>
         <CardHeader>
@@ -153,117 +323,62 @@ export const SubmissionTab: React.FC = () => {
 
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
-            {/* 題名入力 */}
-            <div className="space-y-2">
-              <Label htmlFor="title" className="text-foreground">
-                題名 <span className="text-destructive">*</span>
-              </Label>
-              <Input
-                id="title"
-                placeholder="供物の題名を入力してください（例：今日の学習成果）"
-                value={formData.title}
-                onChange={(e) => updateFormData('title', e.target.value)}
-                className={`${errors.title ? 'border-destructive' : ''}`}
-                maxLength={100}
-              />
-              {errors.title && (
-                <p className="text-destructive text-sm">{errors.title}</p>
-              )}
-              <p className="text-muted-foreground text-xs">
-                {formData.title.length}/100文字
-              </p>
-            </div>
+            <OfferingFormFields
+              value={formData}
+              errors={errors}
+              onFieldChange={updateFormData}
+              idPrefix="submission"
+            />
 
-            {/* 内容入力 */}
-            <div className="space-y-2">
-              <Label htmlFor="content" className="text-foreground">
-                供物の内容 <span className="text-destructive">*</span>
-              </Label>
-              <Textarea
-                id="content"
-                placeholder="あなたの成果、学び、体験を詳しく記述してください。&#10;&#10;例：&#10;・今日新しく学んだこと&#10;・克服した課題について&#10;・感じた気づきや成長&#10;・他の人に共有したい知恵"
-                value={formData.content}
-                onChange={(e) => updateFormData('content', e.target.value)}
-                className={`min-h-[150px] resize-none ${errors.content ? 'border-destructive' : ''}`}
-                maxLength={2000}
-              />
-              {errors.content && (
-                <p className="text-destructive text-sm">{errors.content}</p>
-              )}
-              <p className="text-muted-foreground text-xs">
-                {formData.content.length}/2000文字
-              </p>
-            </div>
+            {/* 添付画像 */}
+            <OfferingImageAttachments
+              value={formData.imagePaths}
+              onChange={updateImagePaths}
+              disabled={isSubmitting}
+            />
 
-            {/* ジャンル選択 */}
-            <div className="space-y-3">
-              <Label className="text-foreground">
-                ジャンル選択 <span className="text-destructive">*</span>
-              </Label>
-              <p className="text-muted-foreground text-sm">
-                供物の種類を表すジャンルを選択してください（複数選択可）
-              </p>
-              
-              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-                {availableGenres.map(genre => (
-                  <div key={genre} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={genre}
-                      checked={formData.genres.includes(genre)}
-                      onCheckedChange={() => toggleGenre(genre)}
-                    />
-                    <label 
-                      htmlFor={genre} 
-                      className="text-sm cursor-pointer select-none"
-                    >
-                      【{genre}】
-                    </label>
-                  </div>
-                ))}
-              </div>
-              
-              {formData.genres.length > 0 && (
-                <div className="flex flex-wrap gap-1 mt-2">
-                  <span className="text-sm text-muted-foreground">選択中：</span>
-                  {formData.genres.map(genre => (
-                    <Button
-                      key={genre}
-                      variant="secondary"
-                      size="sm"
-                      className="h-6 text-xs px-2"
-                      onClick={() => toggleGenre(genre)}
-                    >
-                      【{genre}】
-                      <X size={12} className="ml-1" />
-                    </Button>
-                  ))}
+            {/* 投稿ボタン */}
+            <div className="space-y-2 pt-4 border-t">
+              <div className="flex items-center justify-between gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={resetForm}
+                  disabled={isSubmitting}
+                >
+                  リセット
+                </Button>
+
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleSaveDraft}
+                    disabled={isSubmitting || saveState === 'saving'}
+                    className="flex items-center space-x-2"
+                  >
+                    <Save size={16} />
+                    <span>下書きに保存</span>
+                  </Button>
+
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="flex items-center space-x-2"
+                  >
+                    <Send size={16} />
+                    <span>{isSubmitting ? '奉納中...' : '供物を捧げる'}</span>
+                  </Button>
                 </div>
-              )}
-              
-              {errors.genres && (
-                <p className="text-destructive text-sm">{errors.genres}</p>
-              )}
-            </div>
+              </div>
 
-            {/* 投稿ボタン */}
-            <div className="flex items-center justify-between pt-4 border-t">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={resetForm}
-                disabled={isSubmitting}
+              {/* 自動保存の状況 */}
+              <p
+                className={`text-xs text-right ${saveState === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}
+                aria-live="polite"
               >
-                リセット
-              </Button>
-              
-              <Button
-                type="submit"
-                disabled={isSubmitting}
-                className="flex items-center space-x-2"
-              >
-                <Send size={16} />
-                <span>{isSubmitting ? '奉納中...' : '供物を捧げる'}</span>
-              </Button>
+                {saveStatusText}
+              </p>
             </div>
           </form>
         </CardContent>
@@ -279,7 +394,9 @@ export const SubmissionTab: React.FC = () => {
           <p>• 個人情報や機密情報は含めないようにしてください</p>
           <p>• 具体的で他の人の学びにもなる内容が好まれます</p>
           <p>• 失敗談も貴重な供物です。恐れずに共有しましょう</p>
-          <p>• 投稿後は編集できませんので、よく確認してから投稿してください</p>
+          <p>• 書きかけの供物は自動で下書きに保存され、奉納するまで祭壇には並びません</p>
+          <p>• 画像はドラッグ＆ドロップや貼り付けで添付できます。撮影日時や位置情報は取り除いて保存されます</p>
+          <p>• 投稿後も題名・内容・ジャンルを改められます。改めた内容は改訂履歴として残ります</p>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { Button } from './ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from './ui/input-otp';
+import { useApp } from './useApp';
+import { ArrowLeft, ShieldCheck } from 'lucide-react';
+
+// 認証コードの桁数
+const CODE_LENGTH = 6;
+
+// 降霊時の二段階認証（TOTP コード入力）フォーム
+export const TotpChallengeForm: React.FC = () => {
+  const { confirmTotpSignIn, cancelTotpChallenge } = useApp();
+
+  // フォームの状態管理
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 認証コードの送信
+  const handleSubmit = async (value: string = code) => {
+    if (value.length !== CODE_LENGTH || isSubmitting) return;
+
+    setError('');
+    setIsSubmitting(true);
+    const result = await confirmTotpSignIn(value);
+    setIsSubmitting(false);
+
+    switch (result) {
+      case 'success':
+        break;
+      case 'codeMismatch':
+        setCode('');
+        setError('認証コードが一致しません。認証アプリに表示されている最新のコードを入力してください。');
+        break;
+      case 'incorrectPassword':
+        // 入力待ちの期限切れ（Cognito では NotAuthorizedException）
+        setError('降霊の有効期限が切れました。最初からやり直してください。');
+        break;
+      default:
+        setError('認証に失敗しました。しばらく時間をおいて再度お試しください。');
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSubmit();
+      }}
+      className="space-y-4"
+    >
+      <div className="flex items-center gap-2 text-primary">
+        <ShieldCheck size={18} />
+        <h2 className="font-medium">二段階認証</h2>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        認証アプリに表示されている{CODE_LENGTH}桁のコードを入力してください
+      </p>
+
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={CODE_LENGTH}
+          pattern={REGEXP_ONLY_DIGITS}
+          value={code}
+          onChange={setCode}
+          onComplete={(value: string) => handleSubmit(value)}
+          disabled={isSubmitting}
+          autoFocus
+          aria-label="認証コード"
+        >
+          <InputOTPGroup>
+            <InputOTPSlot index={0} />
+            <InputOTPSlot index={1} />
+            <InputOTPSlot index={2} />
+          </InputOTPGroup>
+          <InputOTPSeparator />
+          <InputOTPGroup>
+            <InputOTPSlot index={3} />
+            <InputOTPSlot index={4} />
+            <InputOTPSlot index={5} />
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {error && (
+        <div role="alert" className="text-destructive text-center p-2 bg-destructive/10 rounded-md border border-destructive/20">
+          {error}
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isSubmitting || code.length !== CODE_LENGTH}>
+        {isSubmitting ? '確認中...' : '降霊する'}
+      </Button>
+
+      <p className="text-xs text-muted-foreground text-center">
+        認証アプリを使えない場合は、登録時に控えた設定キーを別の端末に登録してください
+      </p>
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="w-full text-muted-foreground hover:text-primary"
+        onClick={cancelTotpChallenge}
+      >
+        <ArrowLeft size={16} className="mr-2" />
+        降霊画面へ戻る
+      </Button>
+    </form>
+  );
+};
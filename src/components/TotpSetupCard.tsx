@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from './ui/input-otp';
+import { useApp } from './useApp';
+import type { ITotpSetup } from '../services/repositories';
+import { ShieldCheck, ShieldOff, Copy } from 'lucide-react';
+
+// 認証コードの桁数
+const CODE_LENGTH = 6;
+
+// 二段階認証（TOTP）の登録カード
+export const TotpSetupCard: React.FC = () => {
+  const { isTotpEnabled, beginTotpSetup, verifyTotpSetup, disableTotp, setCurrentScreen } = useApp();
+
+  // 状態管理
+  const [status, setStatus] = useState<'loading' | 'disabled' | 'enrolling' | 'enabled'>('loading');
+  const [setup, setSetup] = useState<ITotpSetup | null>(null);
+  const [qrCodeUrl, setQrCodeUrl] = useState('');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 現在の設定状況の読み込み
+  useEffect(() => {
+    let cancelled = false;
+    isTotpEnabled().then(enabled => {
+      if (!cancelled) setStatus(enabled ? 'enabled' : 'disabled');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 登録用 URI の QR コード化
+  useEffect(() => {
+    if (!setup) {
+      setQrCodeUrl('');
+      return;
+    }
+
+    let cancelled = false;
+    QRCode.toDataURL(setup.uri, { margin: 1, width: 200 })
+      .then(url => {
+        if (!cancelled) setQrCodeUrl(url);
+      })
+      .catch(qrError => console.error('QRコードの生成失敗:', qrError));
+    return () => {
+      cancelled = true;
+    };
+  }, [setup]);
+
+  // 登録開始
+  const handleBegin = async () => {
+    setIsSubmitting(true);
+    const result = await beginTotpSetup();
+    setIsSubmitting(false);
+
+    if (!result) {
+      toast.error('二段階認証の登録を開始できませんでした', {
+        description: '再度お試しください'
+      });
+      return;
+    }
+
+    setSetup(result);
+    setCode('');
+    setError('');
+    setStatus('enrolling');
+  };
+
+  // 最初のコードの検証
+  const handleVerify = async (value: string = code) => {
+    if (value.length !== CODE_LENGTH || isSubmitting) return;
+
+    setIsSubmitting(true);
+    const result = await verifyTotpSetup(value);
+    setIsSubmitting(false);
+
+    if (result === 'success') {
+      setSetup(null);
+      setStatus('enabled');
+      toast.success('二段階認証を有効にしました', {
+        description: '次回の降霊から認証コードの入力が必要になります'
+      });
+    } else {
+      setCode('');
+      setError(result === 'codeMismatch'
+        ? '認証コードが一致しません。認証アプリに表示されている最新のコードを入力してください。'
+        : '二段階認証を有効にできませんでした。再度お試しください。');
+    }
+  };
+
+  // 無効化
+  const handleDisable = async () => {
+    if (!window.confirm('二段階認証を無効にしますか？降霊時の守りが結界文のみになります。')) return;
+
+    setIsSubmitting(true);
+    const result = await disableTotp();
+    setIsSubmitting(false);
+
+    if (result === 'success') {
+      setStatus('disabled');
+      toast.success('二段階認証を無効にしました');
+    } else {
+      toast.error('二段階認証を無効にできませんでした', {
+        description: '再度お試しください'
+      });
+    }
+  };
+
+  // 共有シークレットのコピー
+  const handleCopySecret = async () => {
+    if (!setup) return;
+    try {
+      await navigator.clipboard.writeText(setup.secret);
+      toast.success('設定キーを写し取りました');
+    } catch {
+      toast.error('写し取りに失敗しました');
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-2 border-border/50">
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          二段階認証
+          {status === 'enabled' && <Badge variant="secondary">有効</Badge>}
+        </CardTitle>
+        <CardDescription>
+          認証アプリ（Google Authenticator など）のコードを降霊時に求め、結界文が漏れても魂紋を守ります
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status === 'loading' && (
+          <p className="text-sm text-muted-foreground">設定状況を確認しています...</p>
+        )}
+
+        {status === 'disabled' && (
+          <Button onClick={handleBegin} disabled={isSubmitting} className="w-full">
+            <ShieldCheck size={16} className="mr-2" />
+            二段階認証を有効にする
+          </Button>
+        )}
+
+        {status === 'enrolling' && setup && (
+          <div className="space-y-4">
+            <ol className="list-decimal list-inside space-y-1 text-sm text-muted-foreground">
+              <li>認証アプリで下の QR コードを読み取ってください</li>
+              <li>アプリに表示された{CODE_LENGTH}桁のコードを入力してください</li>
+            </ol>
+
+            {/* QR コード */}
+            <div className="flex justify-center">
+              {qrCodeUrl ? (
+                <img
+                  src={qrCodeUrl}
+                  alt="二段階認証の登録用 QR コード"
+                  width={200}
+                  height={200}
+                  className="rounded-md border border-border bg-white p-2"
+                />
+              ) : (
+                <div className="w-[200px] h-[200px] rounded-md border border-border bg-muted animate-pulse" />
+              )}
+            </div>
+
+            {/* 手入力用の設定キー */}
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">読み取れない場合は設定キーを手入力してください</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 break-all rounded bg-muted px-2 py-1 text-xs">{setup.secret}</code>
+                <Button type="button" variant="ghost" size="sm" onClick={handleCopySecret} aria-label="設定キーを写し取る">
+                  <Copy size={14} />
+                </Button>
+              </div>
+            </div>
+
+            {/* 最初のコードの検証 */}
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={CODE_LENGTH}
+                pattern={REGEXP_ONLY_DIGITS}
+                value={code}
+                onChange={(value) => {
+                  setCode(value);
+                  if (error) setError('');
+                }}
+                onComplete={(value: string) => handleVerify(value)}
+                disabled={isSubmitting}
+                aria-label="認証コード"
+              >
+                <InputOTPGroup>
+                  <InputOTPSlot index={0} />
+                  <InputOTPSlot index={1} />
+                  <InputOTPSlot index={2} />
+                </InputOTPGroup>
+                <InputOTPSeparator />
+                <InputOTPGroup>
+                  <InputOTPSlot index={3} />
+                  <InputOTPSlot index={4} />
+                  <InputOTPSlot index={5} />
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+
+            {error && (
+              <div role="alert" className="text-destructive text-sm text-center p-2 bg-destructive/10 rounded-md border border-destructive/20">
+                {error}
+              </div>
+            )}
+
+            {/* 復旧に関する案内 */}
+            <div className="rounded-md border border-amber-500/30 bg-amber-500/10 p-3 text-xs text-muted-foreground space-y-1">
+              <p className="font-medium text-foreground">端末を失くしたときのために</p>
+              <p>上の設定キーを紙などに控え、他人の目に触れない場所に保管してください。別の端末の認証アプリに同じキーを登録すれば、コードを再び受け取れます。</p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={() => {
+                  setSetup(null);
+                  setStatus('disabled');
+                }}
+                disabled={isSubmitting}
+              >
+                取りやめる
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                onClick={() => handleVerify()}
+                disabled={isSubmitting || code.length !== CODE_LENGTH}
+              >
+                {isSubmitting ? '確認中...' : '有効にする'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status === 'enabled' && (
+          <div className="space-y-4">
+            <div className="rounded-md border border-border bg-muted/40 p-3 text-xs text-muted-foreground space-y-1">
+              <p className="font-medium text-foreground">認証アプリを使えなくなった場合</p>
+              <p>
+                登録時に控えた設定キーを新しい端末の認証アプリに登録してください。
+                設定キーも失われた場合は
+                <Button
+                  type="button"
+                  variant="link"
+                  className="h-auto p-0 text-xs"
+                  onClick={() => setCurrentScreen('contact')}
+                >
+                  お問い合わせ
+                </Button>
+                から本人確認のうえ解除を依頼してください。
+              </p>
+            </div>
+            <Button variant="outline" onClick={handleDisable} disabled={isSubmitting} className="w-full">
+              <ShieldOff size={16} className="mr-2" />
+              二段階認証を無効にする
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
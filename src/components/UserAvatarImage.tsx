@@ -0,0 +1,28 @@
+import React from 'react';
+import { AvatarImage } from './ui/avatar';
+import { useImageUrls } from './useImageUrls';
+import { AVATAR_SIZES, avatarImagePath, isStoredAvatar, type AvatarSize } from '../services/repositories';
+
+interface UserAvatarImageProps {
+  /** 魂紋の画像を指す値（保存済みの画像、または以前の URL 入力欄の値） */
+  avatar?: string;
+  /** 代替テキスト */
+  alt?: string;
+  /** 表示する一辺（px）。画面の解像度に合う縮小版を選ぶ */
+  displaySize: number;
+}
+
+// 表示する大きさに合う縮小版（高解像度の画面では一回り大きいものを選ぶ）
+const pickAvatarSize = (displaySize: number): AvatarSize => {
+  const required = displaySize * (window.devicePixelRatio || 1);
+  return AVATAR_SIZES.find(size => size >= required) ?? AVATAR_SIZES[AVATAR_SIZES.length - 1];
+};
+
+// 魂紋の画像コンポーネント（Avatar の中で AvatarImage の代わりに用いる。画像がなければ AvatarFallback が表示される）
+export const UserAvatarImage: React.FC<UserAvatarImageProps> = ({ avatar, alt, displaySize }) => {
+  const path = isStoredAvatar(avatar) ? avatarImagePath(avatar, pickAvatarSize(displaySize)) : null;
+  const [url] = useImageUrls(path ? [path] : []);
+
+  const src = path ? url ?? undefined : avatar || undefined;
+  return <AvatarImage src={src} alt={alt} />;
+};
@@ -1,12 +1,22 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { UserAvatarImage } from './UserAvatarImage';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { ArrowLeft, Calendar, MapPin, Award, Heart, MessageCircle, FileText } from 'lucide-react';
-import { useApp } from './AppContext';
+import { ArrowLeft, Calendar, MapPin, Award, Heart, MessageCircle, FileText, Users } from 'lucide-react';
+import { useApp } from './useApp';
+import type { FollowRelations } from './AppContext';
 import { OfferingCard } from './OfferingCard';
+import { MoreOfferingsFooter } from './MoreOfferingsFooter';
+import { VirtualizedList } from './VirtualizedList';
+import { MarkdownContent } from './MarkdownContent';
+import { FollowButton } from './FollowButton';
+import { FollowListDialog } from './FollowListDialog';
+
+// 縁の一覧ダイアログの種類
+type FollowListKind = 'followers' | 'following';
 
 // ユーザープロフィール表示画面コンポーネント
 export const UserProfileScreen: React.FC = () => {
@@ -17,10 +27,39 @@ export const UserProfileScreen: React.FC = () => {
     getOfferingsByUserId, 
     getLikedOfferingsByUserId, 
     getCommentedOfferingsByUserId,
-  /*   currentUser  */
+    loadUserOfferings,
+    hasMoreOfferings,
+    loadMoreOfferings,
+    currentUser,
+    followingIds,
+    followerIds,
+    isFollowing,
+    getFollowRelations
   } = useApp();
   
   const [activeTab, setActiveTab] = useState('offerings');
+  const [relations, setRelations] = useState<FollowRelations | null>(null);
+  const [openFollowList, setOpenFollowList] = useState<FollowListKind | null>(null);
+
+  // 投稿した供物は読み込み済みのページに関わらずすべて読み込む
+  useEffect(() => {
+    if (selectedUserId) loadUserOfferings(selectedUserId);
+  }, [selectedUserId]);
+
+  // 他の魂紋の縁者・結縁先を読み込む（自分の縁は読み込み済み）
+  useEffect(() => {
+    setRelations(null);
+    setOpenFollowList(null);
+    if (!selectedUserId || selectedUserId === currentUser?.id) return;
+
+    let cancelled = false;
+    getFollowRelations(selectedUserId).then(loaded => {
+      if (!cancelled) setRelations(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedUserId, currentUser?.id]);
 
   // 選択されたユーザーの情報を取得
   const user = selectedUserId ? getUserById(selectedUserId) : null;
@@ -44,6 +83,17 @@ export const UserProfileScreen: React.FC = () => {
     );
   }
 
+  // 縁者・結縁先（他の魂紋の縁者には、読み込み後に結んだ・解いた自分の縁を反映する）
+  const isOwnProfile = user.id === currentUser?.id;
+  const userFollowerIds = isOwnProfile
+    ? followerIds
+    : relations && currentUser
+      ? isFollowing(user.id)
+        ? [currentUser.id, ...relations.followerIds.filter(id => id !== currentUser.id)]
+        : relations.followerIds.filter(id => id !== currentUser.id)
+      : null;
+  const userFollowingIds = isOwnProfile ? followingIds : relations?.followingIds ?? null;
+
   // 加入からの日数計算
   const daysSinceJoined = Math.floor((new Date().getTime() - user.joinedAt.getTime()) / (1000 * 60 * 60 * 24));
 
@@ -77,7 +127,7 @@ export const UserProfileScreen: React.FC = () => {
               <div className="flex flex-col md:flex-row items-start md:items-center space-y-6 md:space-y-0 md:space-x-8">
                 {/* アバター */}
                 <Avatar className="w-32 h-32 border-4 border-primary/20">
-                  <AvatarImage src={user.avatar} alt={`${user.name}のアバター`} />
+                  <UserAvatarImage avatar={user.avatar} alt={`${user.name}のアバター`} displaySize={128} />
                   <AvatarFallback className="text-4xl bg-accent text-primary">
                     {user.name.charAt(0)}
                   </AvatarFallback>
@@ -86,7 +136,10 @@ export const UserProfileScreen: React.FC = () => {
                 {/* 基本情報 */}
                 <div className="flex-1 space-y-4">
                   <div>
-                    <h2 className="text-2xl text-primary">{user.name}</h2>
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <h2 className="text-2xl text-primary">{user.name}</h2>
+                      <FollowButton userId={user.id} />
+                    </div>
                     <div className="flex items-center space-x-4 mt-2 text-muted-foreground">
                       <div className="flex items-center space-x-1">
                         <MapPin size={16} />
@@ -97,6 +150,29 @@ export const UserProfileScreen: React.FC = () => {
                         <span>{user.age}</span>
                       </div>
                     </div>
+
+                    {/* 縁者・結縁先 */}
+                    <div className="flex items-center space-x-4 mt-2 text-sm">
+                      <Users size={16} className="text-muted-foreground" />
+                      <button
+                        type="button"
+                        className="hover:underline underline-offset-2 disabled:no-underline"
+                        onClick={() => setOpenFollowList('followers')}
+                        disabled={!userFollowerIds}
+                      >
+                        <span className="text-primary">{userFollowerIds?.length ?? '-'}</span>
+                        <span className="text-muted-foreground ml-1">縁者</span>
+                      </button>
+                      <button
+                        type="button"
+                        className="hover:underline underline-offset-2 disabled:no-underline"
+                        onClick={() => setOpenFollowList('following')}
+                        disabled={!userFollowingIds}
+                      >
+                        <span className="text-primary">{userFollowingIds?.length ?? '-'}</span>
+                        <span className="text-muted-foreground ml-1">結縁先</span>
+                      </button>
+                    </div>
                   </div>
 
                   {/* 統計情報 */}
@@ -182,11 +258,13 @@ export const UserProfileScreen: React.FC = () => {
 
             {/* 投稿した供物 */}
             <TabsContent value="offerings">
-              <div className="space-y-4">
+              <div>
                 {userOfferings.length > 0 ? (
-                  userOfferings.map((offering) => (
-                    <OfferingCard key={offering.id} offering={offering} />
-                  ))
+                  <VirtualizedList
+                    items={userOfferings}
+                    getKey={offering => offering.id}
+                    renderItem={offering => <OfferingCard offering={offering} />}
+                  />
                 ) : (
                   <Card className="shadow-lg border-2 border-border/50">
                     <CardContent className="p-8 text-center">
@@ -202,11 +280,14 @@ export const UserProfileScreen: React.FC = () => {
 
             {/* 祈念した供物 */}
             <TabsContent value="liked">
-              <div className="space-y-4">
+              <div>
                 {likedOfferings.length > 0 ? (
-                  likedOfferings.map((offering) => (
-                    <OfferingCard key={offering.id} offering={offering} />
-                  ))
+                  <VirtualizedList
+                    items={likedOfferings}
+                    getKey={offering => offering.id}
+                    onEndReached={hasMoreOfferings ? loadMoreOfferings : undefined}
+                    renderItem={offering => <OfferingCard offering={offering} />}
+                  />
                 ) : (
                   <Card className="shadow-lg border-2 border-border/50">
                     <CardContent className="p-8 text-center">
@@ -218,44 +299,50 @@ export const UserProfileScreen: React.FC = () => {
                   </Card>
                 )}
               </div>
+              <MoreOfferingsFooter />
             </TabsContent>
 
             {/* 導いた供物 */}
             <TabsContent value="commented">
-              <div className="space-y-4">
+              <div>
                 {commentedOfferings.length > 0 ? (
-                  commentedOfferings.map((offering) => {
-                    // このユーザーのコメントのみ表示
-                    const userComments = offering.comments.filter(comment => comment.authorId === user.id);
-                    return (
-                      <Card key={offering.id} className="shadow-lg border-2 border-border/50">
-                        <CardContent className="p-6">
-                          {/* 供物の基本情報 */}
-                          <div className="border-b border-border pb-4 mb-4">
-                            <h4 className="text-primary">{offering.title}</h4>
-                            <p className="text-sm text-muted-foreground mt-1">
-                              投稿者: {offering.author} • {offering.createdAt.toLocaleDateString('ja-JP')}
-                            </p>
-                          </div>
-                          
-                          {/* ユーザーのコメント */}
-                          <div className="space-y-3">
-                            <h5 className="text-sm text-primary">
-                              {user.name}の導き:
-                            </h5>
-                            {userComments.map((comment) => (
-                              <div key={comment.id} className="bg-accent/20 p-3 rounded-lg">
-                                <p className="text-sm">{comment.content}</p>
-                                <p className="text-xs text-muted-foreground mt-1">
-                                  {comment.createdAt.toLocaleDateString('ja-JP')} {comment.createdAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
-                                </p>
-                              </div>
-                            ))}
-                          </div>
-                        </CardContent>
-                      </Card>
-                    );
-                  })
+                  <VirtualizedList
+                    items={commentedOfferings}
+                    getKey={offering => offering.id}
+                    onEndReached={hasMoreOfferings ? loadMoreOfferings : undefined}
+                    renderItem={offering => {
+                      // このユーザーのコメントのみ表示
+                      const userComments = offering.comments.filter(comment => comment.authorId === user.id);
+                      return (
+                        <Card className="shadow-lg border-2 border-border/50">
+                          <CardContent className="p-6">
+                            {/* 供物の基本情報 */}
+                            <div className="border-b border-border pb-4 mb-4">
+                              <h4 className="text-primary">{offering.title}</h4>
+                              <p className="text-sm text-muted-foreground mt-1">
+                                投稿者: {offering.author} • {offering.createdAt.toLocaleDateString('ja-JP')}
+                              </p>
+                            </div>
+                            
+                            {/* ユーザーのコメント */}
+                            <div className="space-y-3">
+                              <h5 className="text-sm text-primary">
+                                {user.name}の導き:
+                              </h5>
+                              {userComments.map((comment) => (
+                                <div key={comment.id} className="bg-accent/20 p-3 rounded-lg">
+                                  <MarkdownContent source={comment.content} className="text-sm" />
+                                  <p className="text-xs text-muted-foreground mt-1">
+                                    {comment.createdAt.toLocaleDateString('ja-JP')} {comment.createdAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
+                                  </p>
+                                </div>
+                              ))}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      );
+                    }}
+                  />
                 ) : (
                   <Card className="shadow-lg border-2 border-border/50">
                     <CardContent className="p-8 text-center">
@@ -267,6 +354,7 @@ export const UserProfileScreen: React.FC = () => {
                   </Card>
                 )}
               </div>
+              <MoreOfferingsFooter />
             </TabsContent>
           </Tabs>
 
@@ -300,6 +388,13 @@ export const UserProfileScreen: React.FC = () => {
                     {user.offeringCount > 0 ? Math.round(user.totalLikes / user.offeringCount) : 0}
                   </span>
                 </div>
+
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">供物の総閲覧数</span>
+                  <span className="text-primary">
+                    {user.totalViews}
+                  </span>
+                </div>
                 
                 <div className="flex justify-between items-center">
                   <span className="text-muted-foreground">最も活動的なジャンル</span>
@@ -316,6 +411,20 @@ export const UserProfileScreen: React.FC = () => {
           </Card>
         </div>
       </main>
+
+      {/* 縁者・結縁先の一覧 */}
+      <FollowListDialog
+        title={openFollowList === 'following' ? `${user.name}の結縁先` : `${user.name}の縁者`}
+        description={
+          openFollowList === 'following' ? `${user.name}が縁を結んだ魂紋` : `${user.name}と縁を結んだ魂紋`
+        }
+        userIds={(openFollowList === 'following' ? userFollowingIds : userFollowerIds) ?? []}
+        emptyMessage={
+          openFollowList === 'following' ? 'まだ誰とも縁を結んでいません' : 'まだ縁を結んだ魂紋はいません'
+        }
+        isOpen={openFollowList !== null}
+        onClose={() => setOpenFollowList(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
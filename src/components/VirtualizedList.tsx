@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualizedListProps<T> {
+  items: readonly T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** 未計測の項目の高さの見込み（px） */
+  estimatedItemHeight?: number;
+  /** 項目の間隔（px） */
+  gap?: number;
+  /** 画面の上下に余分に描画する範囲（px） */
+  overscan?: number;
+  /** 末尾の項目が描画範囲に入ったとき（続きの読み込み） */
+  onEndReached?: () => void;
+  className?: string;
+}
+
+/** 描画する項目の範囲（end は含まない） */
+interface IVisibleRange {
+  start: number;
+  end: number;
+}
+
+// 画面に見えている項目のみを描画する一覧コンポーネント（ページ全体のスクロールに追従する）
+// 項目の高さは描画後に計測し、見えていない範囲は上下の余白で置き換える
+export function VirtualizedList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedItemHeight = 280,
+  gap = 16,
+  overscan = 800,
+  onEndReached,
+  className
+}: VirtualizedListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // 計測済みの高さ（項目のキー → 間隔を含む高さ）
+  const heightsRef = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [range, setRange] = useState<IVisibleRange>({ start: 0, end: 0 });
+
+  // 各項目の上端の位置（末尾は全体の高さ）
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (const item of items) {
+      const height = heightsRef.current.get(getKey(item)) ?? estimatedItemHeight + gap;
+      result.push(result[result.length - 1] + height);
+    }
+    return result;
+  }, [items, measureVersion, estimatedItemHeight, gap]);
+
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+
+  // スクロール位置から描画する範囲を求める
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const currentOffsets = offsetsRef.current;
+    const count = currentOffsets.length - 1;
+    const top = -container.getBoundingClientRect().top - overscan;
+    const bottom = top + window.innerHeight + overscan * 2;
+
+    let start = 0;
+    while (start < count && currentOffsets[start + 1] <= top) start++;
+    let end = start;
+    while (end < count && currentOffsets[end] < bottom) end++;
+
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [overscan]);
+
+  useLayoutEffect(updateRange, [offsets, updateRange]);
+
+  useEffect(() => {
+    let frame = 0;
+    const schedule = () => {
+      if (!frame) {
+        frame = window.requestAnimationFrame(() => {
+          frame = 0;
+          updateRange();
+        });
+      }
+    };
+
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) window.cancelAnimationFrame(frame);
+    };
+  }, [updateRange]);
+
+  // 描画した項目の高さの計測（内容の変化による高さの変動も追従する）
+  const observerRef = useRef<ResizeObserver | null>(null);
+  if (!observerRef.current && typeof ResizeObserver !== 'undefined') {
+    observerRef.current = new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        // 描画範囲から外れた項目は計測をやめる（外れた時点の高さ 0 を記録しない）
+        if (!element.isConnected) {
+          observerRef.current?.unobserve(element);
+          continue;
+        }
+        const key = element.dataset.virtualKey;
+        const height = element.offsetHeight;
+        if (key !== undefined && heightsRef.current.get(key) !== height) {
+          heightsRef.current.set(key, height);
+          changed = true;
+        }
+      }
+      if (changed) setMeasureVersion(version => version + 1);
+    });
+  }
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measure = useCallback((element: HTMLDivElement | null) => {
+    if (element) observerRef.current?.observe(element);
+  }, []);
+
+  // 末尾が描画範囲に入ったら続きを求める（同じ件数では一度だけ）
+  const endReachedAtRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!onEndReached || items.length === 0 || range.end < items.length) return;
+    if (endReachedAtRef.current === items.length) return;
+    endReachedAtRef.current = items.length;
+    onEndReached();
+  }, [range.end, items.length, onEndReached]);
+
+  const start = Math.min(range.start, items.length);
+  const end = Math.min(Math.max(range.end, start), items.length);
+
+  return (
+    <div ref={containerRef} className={className}>
+      <div style={{ height: offsets[start] }} aria-hidden="true" />
+      {items.slice(start, end).map((item, offset) => {
+        const index = start + offset;
+        const key = getKey(item);
+        return (
+          <div key={key} ref={measure} data-virtual-key={key} style={{ paddingBottom: gap }}>
+            {renderItem(item, index)}
+          </div>
+        );
+      })}
+      <div style={{ height: offsets[items.length] - offsets[end] }} aria-hidden="true" />
+    </div>
+  );
+}
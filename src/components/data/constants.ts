@@ -1,5 +1,8 @@
 // アプリケーション全体で使用される定数
 
+import type { GuidanceType, RankingType } from '../../types/enterprise';
+import type { OfferingVisibility } from '../../types/domain';
+
 // 利用可能なジャンル一覧
 export const AVAILABLE_GENRES = [
   '修練', '日々', '証明', '挑戦', '学習', '創作',
@@ -7,6 +10,32 @@ export const AVAILABLE_GENRES = [
   '技術', '芸術', '研究', '実践', '共有', '貢献'
 ] as const;
 
+// 導きの種類（記す際の選択肢と絞り込みに使用）
+export const GUIDANCE_TYPES: ReadonlyArray<{ value: GuidanceType; description: string }> = [
+  { value: '共感', description: '心を寄せる' },
+  { value: '応援', description: '背中を押す' },
+  { value: '感謝', description: '恩を伝える' },
+  { value: '質問', description: '教えを乞う' },
+  { value: '提案', description: '道を示す' },
+  { value: '学び', description: '得た智恵を記す' }
+];
+
+// ランキング種別（審神の壇の並び順）
+export const RANKING_TYPES: ReadonlyArray<{ value: RankingType; label: string; description: string }> = [
+  { value: 'trending', label: 'トレンド', description: '最近の祈念・導き・閲覧を重く見た点数順' },
+  { value: 'popular', label: '人気', description: '日数で減じない累計の点数順' },
+  { value: 'recent', label: '最新', description: '捧げられた日時の新しい順' },
+  { value: 'prayers', label: '祈念数', description: '祈念の多い順' },
+  { value: 'guidance', label: '導き数', description: '導きの多い順' },
+  { value: 'views', label: '閲覧数', description: '閲覧の多い順' }
+];
+
+// 供物の公開範囲（奉納・改訂の際の選択肢）
+export const OFFERING_VISIBILITIES: ReadonlyArray<{ value: OfferingVisibility; label: string; description: string }> = [
+  { value: 'public', label: '全員', description: '降霊したすべての魂紋に見せる' },
+  { value: 'followers', label: '縁者のみ', description: 'あなたと縁を結んだ魂紋にのみ見せる' }
+];
+
 // 所属選択肢
 export const DEPARTMENTS = [
   { value: '', label: '選択してください' },
@@ -0,0 +1,32 @@
+import type { Comment } from './AppContext';
+
+// 導きのスレッド（起点の導きと、その返信）
+export interface IGuidanceThread {
+  root: Comment;
+  replies: Comment[];
+}
+
+// 導き一覧をスレッドにまとめる
+// 返信への返信は起点の導きへまとめ、返信先が見つからない返信は起点として扱う
+export const buildGuidanceThreads = (comments: Comment[]): IGuidanceThread[] => {
+  const commentById = new Map(comments.map(comment => [comment.id, comment]));
+  const findRoot = (comment: Comment): Comment => {
+    let current = comment;
+    const visited = new Set<string>();
+    while (current.parentId && commentById.has(current.parentId) && !visited.has(current.id)) {
+      visited.add(current.id);
+      current = commentById.get(current.parentId)!;
+    }
+    return current;
+  };
+
+  const threadByRootId = new Map<string, IGuidanceThread>();
+  for (const comment of comments) {
+    const root = findRoot(comment);
+    const thread = threadByRootId.get(root.id) ?? { root, replies: [] };
+    if (root.id !== comment.id) thread.replies.push(comment);
+    threadByRootId.set(root.id, thread);
+  }
+
+  return Array.from(threadByRootId.values());
+};
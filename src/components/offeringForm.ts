@@ -0,0 +1,41 @@
+import { VALIDATION_RULES } from './data/constants';
+import type { OfferingVisibility } from './AppContext';
+
+// 供物フォームの入力値（奉納・改訂で共通）
+export interface OfferingFormValue {
+  title: string;
+  content: string;
+  genres: string[];
+  visibility: OfferingVisibility;
+}
+
+// 項目ごとのエラーメッセージ
+export type OfferingFormErrors = Partial<Record<keyof OfferingFormValue, string>>;
+
+// 空の入力値
+export const EMPTY_OFFERING_FORM: OfferingFormValue = { title: '', content: '', genres: [], visibility: 'public' };
+
+// 入力値の検証（エラーがなければ空オブジェクト）
+export const validateOfferingForm = (value: OfferingFormValue): OfferingFormErrors => {
+  const errors: OfferingFormErrors = {};
+
+  if (!value.title.trim()) {
+    errors.title = '題名を入力してください';
+  } else if (value.title.length > VALIDATION_RULES.TITLE_MAX_LENGTH) {
+    errors.title = `題名は${VALIDATION_RULES.TITLE_MAX_LENGTH}文字以内で入力してください`;
+  }
+
+  if (!value.content.trim()) {
+    errors.content = '供物の内容を入力してください';
+  } else if (value.content.length < VALIDATION_RULES.CONTENT_MIN_LENGTH) {
+    errors.content = `内容は${VALIDATION_RULES.CONTENT_MIN_LENGTH}文字以上で入力してください`;
+  } else if (value.content.length > VALIDATION_RULES.CONTENT_MAX_LENGTH) {
+    errors.content = `内容は${VALIDATION_RULES.CONTENT_MAX_LENGTH}文字以内で入力してください`;
+  }
+
+  if (value.genres.length === 0) {
+    errors.genres = '少なくとも1つのジャンルを選択してください';
+  }
+
+  return errors;
+};
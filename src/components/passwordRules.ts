@@ -0,0 +1,39 @@
+import { VALIDATION_RULES } from './data/constants';
+
+// 結界文（パスワード）の強度計算
+// 長さ・大文字・小文字・数字・記号をそれぞれ25点として100点満点で評価する
+export const calculatePasswordStrength = (password: string): number => {
+  if (!password) return 0;
+
+  let strength = 0;
+  if (password.length >= 8) strength += 25;
+  if (/[A-Z]/.test(password)) strength += 25;
+  if (/[a-z]/.test(password)) strength += 25;
+  if (/[0-9]/.test(password)) strength += 25;
+  if (/[^A-Za-z0-9]/.test(password)) strength += 25;
+
+  return Math.min(strength, 100);
+};
+
+// 結界文の規則チェック（問題なければ null）
+export const validatePasswordRules = (password: string): string | null => {
+  if (!password.trim()) return '結界文を入力してください';
+  if (password.length < VALIDATION_RULES.PASSWORD_MIN_LENGTH) {
+    return `結界文は${VALIDATION_RULES.PASSWORD_MIN_LENGTH}文字以上で設定してください`;
+  }
+  if (password.length > 100) return '結界文は100文字以内で設定してください';
+
+  // パスワード強度チェック
+  const hasUpperCase = /[A-Z]/.test(password);
+  const hasLowerCase = /[a-z]/.test(password);
+  const hasNumbers = /\d/.test(password);
+  const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password);
+
+  const strengthCount = [hasUpperCase, hasLowerCase, hasNumbers, hasSpecialChar].filter(Boolean).length;
+
+  if (strengthCount < 2) {
+    return '結界文は大文字・小文字・数字・記号のうち2種類以上を含んでください';
+  }
+
+  return null;
+};
@@ -64,7 +64,7 @@ export const withDialogAccessibility = <T extends object>(
   defaultTitle: string = "ダイアログ",
   defaultDescription: string = "ダイアログの詳細情報"
 ) => {
-  return React.forwardRef<any, T & DialogAccessibilityProps>((props, ref) => {
+  return React.forwardRef<unknown, T & DialogAccessibilityProps>((props, ref) => {
     const {
       title = defaultTitle,
       description = defaultDescription,
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import type { AppContextType } from './AppContext';
+
+// アプリ全体の状態のコンテキスト（値は AppContext.tsx の AppProvider が与える）
+export const AppContext = createContext<AppContextType | undefined>(undefined);
+
+export const useApp = () => {
+  const context = useContext(AppContext);
+  if (context === undefined) {
+    throw new Error('useApp must be used within an AppProvider');
+  }
+  return context;
+};
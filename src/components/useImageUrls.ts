@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { useApp } from './useApp';
+
+// 添付画像の表示用 URL（取得中は undefined、取得できなければ null）
+export const useImageUrls = (paths: readonly string[]): Array<string | null | undefined> => {
+  const { resolveImageUrl } = useApp();
+  const [urls, setUrls] = useState<Record<string, string | null>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    for (const path of paths) {
+      resolveImageUrl(path).then(url => {
+        if (!cancelled) setUrls(prev => (prev[path] === url ? prev : { ...prev, [path]: url }));
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [paths.join('\n')]);
+
+  return paths.map(path => urls[path]);
+};
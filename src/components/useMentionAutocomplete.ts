@@ -0,0 +1,111 @@
+import React, { useId, useMemo, useRef, useState } from 'react';
+import { useApp } from './useApp';
+import type { User } from './AppContext';
+import { findMentionCandidates, findMentionQuery, toMentionName, type IMentionQuery } from '../services/mentions';
+
+type MentionField = HTMLInputElement | HTMLTextAreaElement;
+
+// 入力欄に渡す属性・イベント
+interface IMentionInputProps {
+  onSelect: (e: React.SyntheticEvent<MentionField>) => void;
+  onKeyDown: (e: React.KeyboardEvent<MentionField>) => void;
+  onBlur: () => void;
+  'aria-autocomplete': 'list';
+  'aria-expanded': boolean;
+  'aria-controls': string;
+  'aria-activedescendant'?: string;
+}
+
+export interface MentionSuggestionsProps {
+  id: string;
+  candidates: readonly User[];
+  activeIndex: number;
+  onPick: (user: User) => void;
+}
+
+// 候補の要素の ID
+export const mentionOptionId = (listId: string, index: number) => `${listId}-option-${index}`;
+
+// 入力欄の @名前 の入力補完（カーソルの直前の @名前 に続く魂紋を候補に出す）
+// 入力欄へは inputProps を、候補の一覧へは suggestionProps を渡す
+export const useMentionAutocomplete = (value: string, onChange: (value: string) => void) => {
+  const { users, currentUser } = useApp();
+  const listId = useId();
+  // Textarea は ref を受け取れないため、最後に操作された入力欄を覚えておく
+  const fieldRef = useRef<MentionField | null>(null);
+  const [query, setQuery] = useState<IMentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // 自分自身は候補に出さない
+  const candidates = useMemo(
+    () => (query ? findMentionCandidates(query.query, users.filter(user => user.id !== currentUser?.id)) : []),
+    [query, users, currentUser?.id]
+  );
+  const isOpen = candidates.length > 0;
+
+  // カーソルの移動・入力のたびに入力中の @名前 を調べ直す（範囲選択中は出さない）
+  const handleSelect = (e: React.SyntheticEvent<MentionField>) => {
+    const field = e.currentTarget;
+    fieldRef.current = field;
+    const caret = field.selectionStart ?? field.value.length;
+    const next = field.selectionStart === field.selectionEnd ? findMentionQuery(field.value, caret) : null;
+    setQuery(prev => (prev?.start === next?.start && prev?.query === next?.query ? prev : next));
+    if (next?.query !== query?.query) setActiveIndex(0);
+  };
+
+  // 候補の魂紋の呼び名に置き換え、続けて書けるよう空白を添えてカーソルを後ろへ移す
+  const pick = (user: User) => {
+    if (!query) return;
+    const inserted = `@${toMentionName(user.name)} `;
+    const end = query.start + 1 + query.query.length;
+    const caret = query.start + inserted.length;
+    onChange(value.slice(0, query.start) + inserted + value.slice(end));
+    setQuery(null);
+
+    const field = fieldRef.current;
+    requestAnimationFrame(() => {
+      field?.focus();
+      field?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<MentionField>) => {
+    if (!isOpen || e.nativeEvent.isComposing) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(index => (index + 1) % candidates.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => (index - 1 + candidates.length) % candidates.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        // 導きの送信・フォーカスの移動より候補の確定を優先する
+        e.preventDefault();
+        pick(candidates[Math.min(activeIndex, candidates.length - 1)]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        e.stopPropagation();
+        setQuery(null);
+        break;
+    }
+  };
+
+  const inputProps: IMentionInputProps = {
+    onSelect: handleSelect,
+    onKeyDown: handleKeyDown,
+    onBlur: () => setQuery(null),
+    'aria-autocomplete': 'list',
+    'aria-expanded': isOpen,
+    'aria-controls': listId,
+    'aria-activedescendant': isOpen ? mentionOptionId(listId, activeIndex) : undefined
+  };
+
+  const suggestionProps: MentionSuggestionsProps = { id: listId, candidates, activeIndex, onPick: pick };
+
+  return { inputProps, suggestionProps };
+};
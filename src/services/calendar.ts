@@ -0,0 +1,35 @@
+/**
+ * 供物台（Kumotsudai）- 日付の区切り
+ *
+ * 日ごとに数える値（閲覧数・順位の写し）で用いる日付キー。
+ * 利用者の感覚に合わせ、端末の時刻で日付を区切る。
+ * 端末から送られた日付キーは、受け付けた側の時刻と照らして妥当なものだけを数える。
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+/** 1日のミリ秒 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 日付キー（YYYY-MM-DD、端末の日付）
+ */
+export function toDayKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 閲覧者の端末の日付として妥当な日付キーか
+ * 端末の日付は信用せず、受け付けた時刻（サーバー側の時刻）の UTC の日付から
+ * 時差の範囲（前後1日）に収まるものだけを認める。
+ * 日付キーは閲覧の記録の主キーに含まれるため、同じ日付キーは魂紋ごとに一度しか数えられない
+ */
+export function isPlausibleDayKey(dayKey: string, receivedAt: Date): boolean {
+  const day = Date.parse(`${dayKey}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dayKey) || Number.isNaN(day)) return false;
+
+  const receivedOn = Date.parse(`${receivedAt.toISOString().slice(0, 10)}T00:00:00Z`);
+  return Math.abs(day - receivedOn) <= DAY_MS;
+}
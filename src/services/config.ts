@@ -37,9 +37,18 @@ export interface IAppConfig {
   /** WebSocketエンドポイント (AWS WebSocket API) */
   readonly wsEndpoint: string;
   
+  /** リアルタイム更新の有効化（wsEndpoint へ接続する） */
+  readonly realtimeEnabled: boolean;
+  
   /** 認証プロバイダー (AWS Cognito) */
   readonly authProvider: string;
   
+  /** データバックエンド（amplify: Amplify Data + Cognito / local: ブラウザ内保存） */
+  readonly dataBackend: 'amplify' | 'local';
+  
+  /** ローカル画像サーバーの URL（dataBackend が local のときに添付画像の保存先とする） */
+  readonly localMediaUrl: string;
+  
   /** CloudFrontディストリビューションID */
   readonly cdnUrl: string;
   
@@ -60,6 +69,19 @@ export interface IAppConfig {
   };
 }
 
+/**
+ * 検証・最適化で書き換えるパフォーマンス監視閾値
+ */
+type MutablePerformanceThresholds = { -readonly [K in keyof IAppConfig['performanceThresholds']]: number };
+
+/**
+ * 標準の型定義に含まれない端末性能の手がかり（対応ブラウザのみ）
+ */
+interface INavigatorHints {
+  readonly deviceMemory?: number;
+  readonly connection?: { readonly effectiveType?: string };
+}
+
 /**
  * 安全な環境変数アクセスヘルパー
  * Figma Make環境など、process が存在しない環境に対応
@@ -81,7 +103,7 @@ class SafeEnvironment {
       // ブラウザ環境での代替実装
       if (typeof window !== 'undefined') {
         // window.env が設定されている場合（一部のビルドツール）
-        const windowEnv = (window as any).env;
+        const windowEnv = (window as Window & { env?: Record<string, string | undefined> }).env;
         if (windowEnv && windowEnv[key]) {
           return windowEnv[key];
         }
@@ -182,6 +204,7 @@ export class AppConfigManager implements IAppConfig {
       console.info('🔧 AppConfigManager: 設定読み込み完了', {
         environment: this.environment,
         apiBaseUrl: this.apiBaseUrl,
+        dataBackend: this.dataBackend,
         performanceThresholds: this.performanceThresholds,
         isFigmaMake: typeof process === 'undefined'
       });
@@ -241,7 +264,10 @@ export class AppConfigManager implements IAppConfig {
       environment,
       apiBaseUrl: SafeEnvironment.getEnv('REACT_APP_API_URL', defaults.apiBaseUrl),
       wsEndpoint: SafeEnvironment.getEnv('REACT_APP_WS_URL', defaults.wsEndpoint),
+      realtimeEnabled: SafeEnvironment.getEnv('REACT_APP_REALTIME_ENABLED', 'false') === 'true',
       authProvider: SafeEnvironment.getEnv('REACT_APP_AUTH_PROVIDER', 'cognito'),
+      dataBackend: SafeEnvironment.getEnv('REACT_APP_DATA_BACKEND', 'amplify') === 'local' ? 'local' : 'amplify',
+      localMediaUrl: SafeEnvironment.getEnv('REACT_APP_LOCAL_MEDIA_URL', 'http://localhost:8788'),
       cdnUrl: SafeEnvironment.getEnv('REACT_APP_CDN_URL', 'https://cdn.kumotsudai.com'),
       logLevel: (SafeEnvironment.getEnv('REACT_APP_LOG_LEVEL', defaults.logLevel) as IAppConfig['logLevel']),
       performanceThresholds: {
@@ -295,7 +321,7 @@ export class AppConfigManager implements IAppConfig {
       });
       
       // 自動修正：警告閾値をエラー閾値の60%に設定（より現実的）
-      (this.config.performanceThresholds as any).warning = Math.floor(error * 0.6);
+      (this.config.performanceThresholds as MutablePerformanceThresholds).warning = Math.floor(error * 0.6);
       console.info('パフォーマンス閾値を自動修正しました', {
         newWarning: this.config.performanceThresholds.warning,
         error
@@ -305,23 +331,23 @@ export class AppConfigManager implements IAppConfig {
     // 閾値の最小値チェック（より現実的）
     if (warning < 50) {
       console.warn('パフォーマンス警告閾値が低すぎます。50msに調整します。');
-      (this.config.performanceThresholds as any).warning = 50;
+      (this.config.performanceThresholds as MutablePerformanceThresholds).warning = 50;
     }
     
     if (error < 100) {
       console.warn('パフォーマンスエラー閾値が低すぎます。100msに調整します。');
-      (this.config.performanceThresholds as any).error = 100;
+      (this.config.performanceThresholds as MutablePerformanceThresholds).error = 100;
     }
     
     // 閾値の最大値チェック（非現実的に高い値を防ぐ）
     if (warning > 2000) {
       console.warn('パフォーマンス警告閾値が高すぎます。2000msに調整します。');
-      (this.config.performanceThresholds as any).warning = 2000;
+      (this.config.performanceThresholds as MutablePerformanceThresholds).warning = 2000;
     }
     
     if (error > 5000) {
       console.warn('パフォーマンスエラー閾値が高すぎます。5000msに調整します。');
-      (this.config.performanceThresholds as any).error = 5000;
+      (this.config.performanceThresholds as MutablePerformanceThresholds).error = 5000;
     }
     
     // セキュリティ設定の検証
@@ -334,7 +360,10 @@ export class AppConfigManager implements IAppConfig {
   public get environment(): IAppConfig['environment'] { return this.config.environment; }
   public get apiBaseUrl(): string { return this.config.apiBaseUrl; }
   public get wsEndpoint(): string { return this.config.wsEndpoint; }
+  public get realtimeEnabled(): boolean { return this.config.realtimeEnabled; }
   public get authProvider(): string { return this.config.authProvider; }
+  public get dataBackend(): IAppConfig['dataBackend'] { return this.config.dataBackend; }
+  public get localMediaUrl(): string { return this.config.localMediaUrl; }
   public get cdnUrl(): string { return this.config.cdnUrl; }
   public get logLevel(): IAppConfig['logLevel'] { return this.config.logLevel; }
   public get performanceThresholds(): IAppConfig['performanceThresholds'] { return this.config.performanceThresholds; }
@@ -394,8 +423,8 @@ export class AppConfigManager implements IAppConfig {
       }
       
       // 設定を更新（readonlyを一時的に無効化）
-      (this.config.performanceThresholds as any).warning = optimizedThresholds.warning;
-      (this.config.performanceThresholds as any).error = optimizedThresholds.error;
+      (this.config.performanceThresholds as MutablePerformanceThresholds).warning = optimizedThresholds.warning;
+      (this.config.performanceThresholds as MutablePerformanceThresholds).error = optimizedThresholds.error;
       
       if (this.environment === 'development') {
         console.info('🚀 パフォーマンス閾値を最適化しました', {
@@ -420,9 +449,9 @@ export class AppConfigManager implements IAppConfig {
       if (typeof navigator === 'undefined') return;
       
       // デバイス性能指標の取得
-      const deviceMemory = (navigator as any).deviceMemory || 4; // GB
+      const deviceMemory = (navigator as Navigator & INavigatorHints).deviceMemory || 4; // GB
       const hardwareConcurrency = navigator.hardwareConcurrency || 4;
-      const connectionType = (navigator as any).connection?.effectiveType || '4g';
+      const connectionType = (navigator as Navigator & INavigatorHints).connection?.effectiveType || '4g';
       
       // 性能スコア計算（0-1の範囲）
       const memoryScore = Math.min(deviceMemory / 8, 1); // 8GB以上で最高スコア
@@ -456,8 +485,8 @@ export class AppConfigManager implements IAppConfig {
       adjustedThresholds.error = Math.max(100, Math.min(6000, adjustedThresholds.error));
       
       // 設定更新
-      (this.config.performanceThresholds as any).warning = adjustedThresholds.warning;
-      (this.config.performanceThresholds as any).error = adjustedThresholds.error;
+      (this.config.performanceThresholds as MutablePerformanceThresholds).warning = adjustedThresholds.warning;
+      (this.config.performanceThresholds as MutablePerformanceThresholds).error = adjustedThresholds.error;
       
       if (this.environment === 'development') {
         console.info('🔧 デバイス性能に基づく閾値調整完了', {
@@ -531,7 +560,7 @@ export class AppConfigManager implements IAppConfig {
    * デバッグ情報取得
    * @returns デバッグ情報
    */
-  public getDebugInfo(): Record<string, any> {
+  public getDebugInfo(): Record<string, unknown> {
     try {
       return {
         environment: this.environment,
@@ -541,9 +570,9 @@ export class AppConfigManager implements IAppConfig {
         location: typeof window !== 'undefined' ? window.location.href : 'unknown',
         performanceThresholds: this.performanceThresholds,
         deviceInfo: typeof navigator !== 'undefined' ? {
-          memory: (navigator as any).deviceMemory || 'unknown',
+          memory: (navigator as Navigator & INavigatorHints).deviceMemory || 'unknown',
           cores: navigator.hardwareConcurrency || 'unknown',
-          network: (navigator as any).connection?.effectiveType || 'unknown'
+          network: (navigator as Navigator & INavigatorHints).connection?.effectiveType || 'unknown'
         } : {},
         timestamp: new Date().toISOString()
       };
@@ -19,9 +19,10 @@
  */
 
 import type { ILogEntry } from '../types/enterprise';
+import type { AppConfigManager as AppConfigManagerClass, IAppConfig } from './config';
 
 // 循環依存を避けるため、設定は遅延インポート
-let AppConfigManager: any = null;
+let AppConfigManager: typeof AppConfigManagerClass | null = null;
 
 /**
  * 統一ログサービスクラス
@@ -35,7 +36,7 @@ export class LoggerService {
   private readonly logBuffer: ILogEntry[] = [];
   
   /** 設定管理 */
-  private config: any = null;
+  private config: IAppConfig | null = null;
   
   /** バッファサイズ制限 */
   private readonly BUFFER_LIMIT = 100;
@@ -69,11 +70,12 @@ export class LoggerService {
           if (!AppConfigManager) {
             import('./config').then(module => {
               AppConfigManager = module.AppConfigManager;
-              this.config = AppConfigManager.getInstance();
+              const config = AppConfigManager.getInstance();
+              this.config = config;
               this.setupPeriodicFlush();
               this.initialized = true;
               
-              if (this.config.environment === 'development') {
+              if (config.environment === 'development') {
                 console.info('🔧 LoggerService: 初期化完了');
               }
             }).catch(error => {
@@ -122,7 +124,7 @@ export class LoggerService {
    * @param message メッセージ
    * @param data 追加データ
    */
-  public debug(message: string, data?: Record<string, any>): void {
+  public debug(message: string, data?: Record<string, unknown>): void {
     this.log('debug', message, data);
   }
   
@@ -131,7 +133,7 @@ export class LoggerService {
    * @param message メッセージ
    * @param data 追加データ
    */
-  public info(message: string, data?: Record<string, any>): void {
+  public info(message: string, data?: Record<string, unknown>): void {
     this.log('info', message, data);
   }
   
@@ -140,7 +142,7 @@ export class LoggerService {
    * @param message メッセージ
    * @param data 追加データ
    */
-  public warn(message: string, data?: Record<string, any>): void {
+  public warn(message: string, data?: Record<string, unknown>): void {
     this.log('warn', message, data);
   }
   
@@ -149,7 +151,7 @@ export class LoggerService {
    * @param message メッセージ
    * @param data 追加データ
    */
-  public error(message: string, data?: Record<string, any>): void {
+  public error(message: string, data?: Record<string, unknown>): void {
     this.log('error', message, data);
   }
   
@@ -159,7 +161,7 @@ export class LoggerService {
    * @param message メッセージ
    * @param data 追加データ
    */
-  private log(level: ILogEntry['level'], message: string, data?: Record<string, any>): void {
+  private log(level: ILogEntry['level'], message: string, data?: Record<string, unknown>): void {
     try {
       // ログレベルフィルタリング
       if (!this.shouldLog(level)) {
@@ -230,7 +232,7 @@ export class LoggerService {
       } else {
         consoleMethod(`${prefix} ${entry.message}`);
       }
-    } catch (error) {
+    } catch {
       // フォールバック: 基本的なconsole.log
       console.log(`[${entry.level.toUpperCase()}] ${entry.message}`, entry.data);
     }
@@ -241,7 +243,7 @@ export class LoggerService {
    * @param level ログレベル
    * @returns コンソールメソッド
    */
-  private getConsoleMethod(level: ILogEntry['level']): (...args: any[]) => void {
+  private getConsoleMethod(level: ILogEntry['level']): (...args: unknown[]) => void {
     switch (level) {
       case 'debug':
         return console.debug?.bind(console) || console.log.bind(console);
@@ -289,7 +291,7 @@ export class LoggerService {
       const timestamp = Date.now();
       const random = Math.random().toString(36).substring(2, 9);
       return `trace-${timestamp}-${random}`;
-    } catch (error) {
+    } catch {
       // フォールバック
       return `trace-${Date.now()}-fallback`;
     }
@@ -304,7 +306,7 @@ export class LoggerService {
     
     try {
       for (const entry of this.logBuffer) {
-        if (stats.hasOwnProperty(entry.level)) {
+        if (Object.prototype.hasOwnProperty.call(stats, entry.level)) {
           stats[entry.level]++;
         }
       }
@@ -319,7 +321,7 @@ export class LoggerService {
    * サービス状態取得
    * @returns サービス状態情報
    */
-  public getServiceStatus(): Record<string, any> {
+  public getServiceStatus(): Record<string, unknown> {
     return {
       initialized: this.initialized,
       hasConfig: !!this.config,
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { extractHashtags, extractMentionNames, isSafeUrl, markdownToPlainText, parseMarkdown } from './markdown';
+
+/** 文字のみの行内の要素 */
+const text = (value: string) => ({ kind: 'text', text: value });
+
+describe('Markdown', () => {
+  it('1つの改行は段落の中の改行とし、空行で段落を分ける', () => {
+    expect(parseMarkdown('一行目\n二行目\n\n次の段落')).toEqual([
+      { kind: 'paragraph', children: [text('一行目'), { kind: 'break' }, text('二行目')] },
+      { kind: 'paragraph', children: [text('次の段落')] },
+    ]);
+  });
+
+  it('見出し・言語名付きのコードブロック・区切り線・引用を解析する', () => {
+    expect(parseMarkdown('## 見出し\n\n```ts\nconst a = 1;\n```\n\n---\n\n> 引用')).toEqual([
+      { kind: 'heading', level: 2, children: [text('見出し')] },
+      { kind: 'codeBlock', language: 'ts', code: 'const a = 1;' },
+      { kind: 'rule' },
+      { kind: 'quote', children: [{ kind: 'paragraph', children: [text('引用')] }] },
+    ]);
+  });
+
+  it('字下げした項目を入れ子のリストとし、番号付きリストは最初の番号を保つ', () => {
+    expect(parseMarkdown('- 一\n  - 入れ子\n- 二\n\n3. 三')).toEqual([
+      {
+        kind: 'list',
+        ordered: false,
+        start: 1,
+        items: [
+          [
+            { kind: 'paragraph', children: [text('一')] },
+            { kind: 'list', ordered: false, start: 1, items: [[{ kind: 'paragraph', children: [text('入れ子')] }]] },
+          ],
+          [{ kind: 'paragraph', children: [text('二')] }],
+        ],
+      },
+      { kind: 'list', ordered: true, start: 3, items: [[{ kind: 'paragraph', children: [text('三')] }]] },
+    ]);
+  });
+
+  it('強調・斜体・取り消し線・インラインコードを解析する', () => {
+    expect(parseMarkdown('**強**と*斜*と~~消~~と`**code**`')).toEqual([
+      {
+        kind: 'paragraph',
+        children: [
+          { kind: 'strong', children: [text('強')] },
+          text('と'),
+          { kind: 'emphasis', children: [text('斜')] },
+          text('と'),
+          { kind: 'strike', children: [text('消')] },
+          text('と'),
+          { kind: 'code', text: '**code**' },
+        ],
+      },
+    ]);
+  });
+
+  it('本文の HTML は要素にせず文字として残す', () => {
+    expect(parseMarkdown('<script>alert(1)</script>')).toEqual([
+      { kind: 'paragraph', children: [text('<script>alert(1)</script>')] },
+    ]);
+  });
+
+  it('リンクは http・https・mailto のみとし、URL の末尾の句読点は含めない', () => {
+    expect(parseMarkdown('[供物台](https://example.com) と https://example.com/a.')).toEqual([
+      {
+        kind: 'paragraph',
+        children: [
+          { kind: 'link', href: 'https://example.com', children: [text('供物台')] },
+          text(' と '),
+          { kind: 'link', href: 'https://example.com/a', children: [text('https://example.com/a')] },
+          text('.'),
+        ],
+      },
+    ]);
+    expect(isSafeUrl('mailto:a@example.com')).toBe(true);
+    expect(isSafeUrl('javascript:alert(1)')).toBe(false);
+    expect(JSON.stringify(parseMarkdown('[悪](javascript:alert(1))'))).not.toContain('"link"');
+  });
+
+  it('@名前 を重複なく出現順に抽出し、メールアドレス・コード中のものは含めない', () => {
+    expect(extractMentionNames('@甲 と @乙、@甲 に a@example.com `@丙`')).toEqual(['甲', '乙']);
+  });
+
+  it('#タグ は全角・半角、大文字・小文字の違いを同じタグとし、C# やコード中のものは含めない', () => {
+    expect(extractHashtags('#React と #react と ＃ｒｅａｃｔ、#設計 C# `#code`')).toEqual(['React', '設計']);
+  });
+
+  it('記法を除いた本文は改行を空白にまとめる', () => {
+    expect(markdownToPlainText('# 題\n\n**強**い [リンク](https://example.com)\n\n- 項目\n- @甲')).toBe('題 強い リンク 項目 @甲');
+  });
+});
@@ -0,0 +1,530 @@
+/**
+ * 供物台（Kumotsudai）- 供物・導きの Markdown
+ *
+ * 供物の内容・導きの本文に書かれた Markdown の一部を構文木に変換する。
+ * 構文木は下記の要素のみからなり、表示側はこれを React の要素として描くため、
+ * 本文に書かれた HTML は要素にならずそのまま文字として表示される。
+ *
+ * 機能:
+ * - 段落（1つの改行はそのまま改行として扱う）・見出し・区切り線
+ * - コードブロック（``` 言語名）・インラインコード
+ * - 箇条書き・番号付きリスト（字下げによる入れ子）・引用
+ * - 強調・斜体・取り消し線・リンク（http・https・mailto のみ）・URL の自動リンク
+ * - @名前（メンション）・#タグ（ハッシュタグ）の抽出（コード中のものは除く）
+ * - 本文からの記法の除去（検索結果の抜粋用）
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+/**
+ * 行内の要素
+ */
+export type MarkdownInline =
+  | { readonly kind: 'text'; readonly text: string }
+  | { readonly kind: 'code'; readonly text: string }
+  | { readonly kind: 'strong' | 'emphasis' | 'strike'; readonly children: readonly MarkdownInline[] }
+  | { readonly kind: 'link'; readonly href: string; readonly children: readonly MarkdownInline[] }
+  | { readonly kind: 'mention'; readonly name: string }
+  | { readonly kind: 'hashtag'; readonly tag: string }
+  | { readonly kind: 'break' };
+
+/**
+ * ブロック要素
+ */
+export type MarkdownBlock =
+  | { readonly kind: 'paragraph'; readonly children: readonly MarkdownInline[] }
+  | { readonly kind: 'heading'; readonly level: number; readonly children: readonly MarkdownInline[] }
+  | { readonly kind: 'codeBlock'; readonly language: string | null; readonly code: string }
+  | { readonly kind: 'quote'; readonly children: readonly MarkdownBlock[] }
+  | { readonly kind: 'list'; readonly ordered: boolean; readonly start: number; readonly items: readonly (readonly MarkdownBlock[])[] }
+  | { readonly kind: 'rule' };
+
+/** 入れ子（引用・リスト・強調）の深さの上限（超えた分は文字として扱う） */
+const MAX_NESTING_DEPTH = 8;
+
+/** リンクに使える URL の形式 */
+const SAFE_URL_PATTERN = /^(?:https?:\/\/|mailto:)/i;
+
+/** 本文中の URL（全角文字の手前まで） */
+const BARE_URL_PATTERN = /https?:\/\/[A-Za-z0-9\-._~:/?#[\]@!$&'()*+,;=%]+/g;
+
+/** URL の末尾に付いても URL に含めない記号 */
+const URL_TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+/**
+ * @名前・#タグ（英数字の直後の @・# はメールアドレス・URL の断片・C# などとして扱わない）
+ * 名前・タグには文字・数字・_・ー・・・- が使える
+ */
+const ENTITY_PATTERN = /(?<![A-Za-z0-9_.+&#/-])([@＠]|[#＃])([\p{L}\p{N}_ー・-]+)/gu;
+
+/** タグの最大文字数（超えた分はタグとして扱わない） */
+const MAX_HASHTAG_LENGTH = 30;
+
+/** \ で打ち消せる記号 */
+const ESCAPABLE = new Set(Array.from('\\`*_{}[]()#+-.!~>|<'));
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+
+/**
+ * Markdown の解析
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'), 0);
+}
+
+/**
+ * 記法を除いた本文（検索結果の抜粋など、文字のみを表示する箇所で用いる）
+ * 改行は空白にまとめる
+ */
+export function markdownToPlainText(source: string): string {
+  const blockText = (block: MarkdownBlock): string => {
+    switch (block.kind) {
+      case 'paragraph':
+      case 'heading':
+        return inlineText(block.children);
+      case 'codeBlock':
+        return block.code;
+      case 'quote':
+        return block.children.map(blockText).join(' ');
+      case 'list':
+        return block.items.map(item => item.map(blockText).join(' ')).join(' ');
+      case 'rule':
+        return '';
+    }
+  };
+  const inlineText = (nodes: readonly MarkdownInline[]): string =>
+    nodes.map(node => {
+      switch (node.kind) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'break':
+          return ' ';
+        case 'mention':
+          return `@${node.name}`;
+        case 'hashtag':
+          return `#${node.tag}`;
+        default:
+          return inlineText(node.children);
+      }
+    }).join('');
+
+  return parseMarkdown(source).map(blockText).filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 本文の #タグ（出現順。大文字・小文字、全角・半角の違いは同じタグとする）
+ */
+export function extractHashtags(source: string): string[] {
+  const tags = new Map<string, string>();
+  for (const node of collectInlines(parseMarkdown(source))) {
+    if (node.kind !== 'hashtag') continue;
+    const key = node.tag.normalize('NFKC').toLowerCase();
+    if (!tags.has(key)) tags.set(key, node.tag.normalize('NFKC'));
+  }
+  return Array.from(tags.values());
+}
+
+/**
+ * 本文の @名前（出現順、重複を除く）
+ */
+export function extractMentionNames(source: string): string[] {
+  const names = collectInlines(parseMarkdown(source)).flatMap(node => node.kind === 'mention' ? [node.name] : []);
+  return Array.from(new Set(names));
+}
+
+/**
+ * 構文木の行内の要素すべて（リンク・強調の中も含む）
+ */
+function collectInlines(blocks: readonly MarkdownBlock[]): MarkdownInline[] {
+  const inlines: MarkdownInline[] = [];
+  const visitInline = (node: MarkdownInline) => {
+    inlines.push(node);
+    if ('children' in node) node.children.forEach(visitInline);
+  };
+  const visitBlock = (block: MarkdownBlock) => {
+    switch (block.kind) {
+      case 'paragraph':
+      case 'heading':
+        block.children.forEach(visitInline);
+        break;
+      case 'quote':
+        block.children.forEach(visitBlock);
+        break;
+      case 'list':
+        block.items.forEach(item => item.forEach(visitBlock));
+        break;
+    }
+  };
+  blocks.forEach(visitBlock);
+  return inlines;
+}
+
+/**
+ * リンクに使える URL か（javascript: などは文字として表示する）
+ */
+export function isSafeUrl(href: string): boolean {
+  return SAFE_URL_PATTERN.test(href) && !/[\s<>"]/.test(href);
+}
+
+/**
+ * ブロック要素を始める行か（段落・リスト項目の終わりの判定に用いる）
+ */
+function startsBlock(line: string): boolean {
+  return FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) || LIST_ITEM_PATTERN.test(line);
+}
+
+/**
+ * ブロック要素の解析
+ */
+function parseBlocks(lines: readonly string[], depth: number): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // コードブロック（閉じ忘れは末尾までをコードとする）
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}\\s*$`);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i])) code.push(lines[i++]);
+      i++;
+      blocks.push({ kind: 'codeBlock', language: fence[2] ? fence[2].toLowerCase() : null, code: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '', depth) });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ kind: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (depth < MAX_NESTING_DEPTH && QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoted.push(lines[i++].replace(QUOTE_PATTERN, ''));
+      }
+      blocks.push({ kind: 'quote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (depth < MAX_NESTING_DEPTH && item) {
+      const parsed = parseList(lines, i, depth);
+      blocks.push(parsed.block);
+      i = parsed.next;
+      continue;
+    }
+
+    // 段落（空行またはブロック要素の始まりまで）
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ kind: 'paragraph', children: parseInline(paragraph.join('\n'), depth) });
+  }
+
+  return blocks;
+}
+
+/**
+ * リストの解析
+ * 項目の記号より深く字下げした行（空行を挟んでもよい）を項目の続き・入れ子として扱う
+ * @param start リストの最初の項目の行
+ * @returns リストと、リストの次の行
+ */
+function parseList(lines: readonly string[], start: number, depth: number): { block: MarkdownBlock; next: number } {
+  const first = LIST_ITEM_PATTERN.exec(lines[start])!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = LIST_ITEM_PATTERN.exec(line);
+    // 前の項目の本文の位置まで字下げした項目は入れ子とする
+    const isSibling = items.length === 0 || (item !== null && item[1].length < contentIndent);
+    if (item && isSibling && /\d/.test(item[2]) === ordered && item[2].slice(-1) === delimiter) {
+      items.push([item[3] ?? '']);
+      contentIndent = item[1].length + item[2].length + 1;
+      i++;
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    if (line.trim() && indent >= 2) {
+      items[items.length - 1].push(line.slice(Math.min(indent, contentIndent)));
+      i++;
+      continue;
+    }
+
+    // 空行は、続く行が項目の続きか同じリストの項目である場合のみリストに含める
+    if (!line.trim()) {
+      let next = i;
+      while (next < lines.length && !lines[next].trim()) next++;
+      const following = lines[next] ?? '';
+      const followingItem = LIST_ITEM_PATTERN.exec(following);
+      const continues = following.length - following.trimStart().length >= 2 ||
+        (followingItem !== null && /\d/.test(followingItem[2]) === ordered && followingItem[2].slice(-1) === delimiter);
+      if (next < lines.length && continues) {
+        items[items.length - 1].push('');
+        i++;
+        continue;
+      }
+    }
+    break;
+  }
+
+  return {
+    block: {
+      kind: 'list',
+      ordered,
+      start: ordered ? Number.parseInt(first[2], 10) : 1,
+      items: items.map(itemLines => parseBlocks(itemLines, depth + 1))
+    },
+    next: i
+  };
+}
+
+/**
+ * 行内の要素の解析
+ */
+function parseInline(text: string, depth: number): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) nodes.push(...linkify(buffer));
+    buffer = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.has(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ kind: 'break' });
+      i++;
+      continue;
+    }
+
+    // インラインコード（同じ数の ` で閉じる）
+    if (char === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const close = findCodeClose(text, i + run.length, run.length);
+      if (close < 0) {
+        buffer += run;
+        i += run.length;
+        continue;
+      }
+      let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) code = code.slice(1, -1);
+      flush();
+      nodes.push({ kind: 'code', text: code });
+      i = close + run.length;
+      continue;
+    }
+
+    if (char === '[' && depth < MAX_NESTING_DEPTH) {
+      const link = readLink(text, i);
+      if (link) {
+        flush();
+        nodes.push({ kind: 'link', href: link.href, children: withoutLinks(parseInline(link.label, depth + 1)) });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i.exec(text.slice(i));
+      if (autolink && isSafeUrl(autolink[1])) {
+        flush();
+        nodes.push({ kind: 'link', href: autolink[1], children: [{ kind: 'text', text: autolink[1].replace(/^mailto:/i, '') }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_' || char === '~') && depth < MAX_NESTING_DEPTH) {
+      const emphasis = readEmphasis(text, i);
+      if (emphasis) {
+        flush();
+        nodes.push({ kind: emphasis.kind, children: parseInline(emphasis.content, depth + 1) });
+        i = emphasis.end;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * インラインコードの閉じの位置（見つからなければ -1）
+ */
+function findCodeClose(text: string, from: number, length: number): number {
+  let i = from;
+  while (i < text.length) {
+    const run = /^`+/.exec(text.slice(i));
+    if (!run) {
+      i++;
+      continue;
+    }
+    if (run[0].length === length) return i;
+    i += run[0].length;
+  }
+  return -1;
+}
+
+/**
+ * リンク [表示](URL "題") の読み取り（URL が安全でなければ null）
+ */
+function readLink(text: string, start: number): { label: string; href: string; end: number } | null {
+  let depth = 0;
+  let i = start;
+  for (; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      break;
+    }
+  }
+  if (i >= text.length || text[i + 1] !== '(') return null;
+
+  const destination = /^\(\s*<?([^\s<>()]+(?:\([^\s<>()]*\)[^\s<>()]*)*)>?(?:\s+"[^"]*")?\s*\)/.exec(text.slice(i + 1));
+  if (!destination || !isSafeUrl(destination[1])) return null;
+
+  return { label: text.slice(start + 1, i), href: destination[1], end: i + 1 + destination[0].length };
+}
+
+/**
+ * 強調・斜体・取り消し線の読み取り
+ * _ による強調は単語の途中（snake_case など）では扱わない
+ */
+function readEmphasis(text: string, start: number): { kind: 'strong' | 'emphasis' | 'strike'; content: string; end: number } | null {
+  const char = text[start];
+  const double = text[start + 1] === char;
+  if (char === '~' && !double) return null;
+
+  const delimiter = double ? char + char : char;
+  const kind = char === '~' ? 'strike' : double ? 'strong' : 'emphasis';
+  const contentStart = start + delimiter.length;
+
+  if (!text[contentStart] || /\s/.test(text[contentStart])) return null;
+  if (char === '_' && /[A-Za-z0-9]/.test(text[start - 1] ?? '')) return null;
+
+  for (let i = contentStart + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const close = findCodeClose(text, i + run.length, run.length);
+      if (close >= 0) i = close + run.length - 1;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i) || /\s/.test(text[i - 1])) continue;
+
+    // 単独の * は ** の一部を閉じとして扱わない
+    if (!double && (text[i + 1] === char || text[i - 1] === char)) {
+      i++;
+      continue;
+    }
+    const after = text[i + delimiter.length];
+    if (char === '_' && after !== undefined && /[A-Za-z0-9]/.test(after)) continue;
+
+    return { kind, content: text.slice(contentStart, i), end: i + delimiter.length };
+  }
+  return null;
+}
+
+/**
+ * リンクの中のリンク・@名前・#タグを文字に戻す
+ */
+function withoutLinks(nodes: MarkdownInline[]): MarkdownInline[] {
+  return nodes.flatMap((node): MarkdownInline[] => {
+    if (node.kind === 'link') return withoutLinks([...node.children]);
+    if (node.kind === 'mention') return [{ kind: 'text', text: `@${node.name}` }];
+    if (node.kind === 'hashtag') return [{ kind: 'text', text: `#${node.tag}` }];
+    if (node.kind === 'strong' || node.kind === 'emphasis' || node.kind === 'strike') {
+      return [{ kind: node.kind, children: withoutLinks([...node.children]) }];
+    }
+    return [node];
+  });
+}
+
+/**
+ * 文字列中の URL を自動リンクに、@名前・#タグをそれぞれの要素にする
+ */
+function linkify(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(BARE_URL_PATTERN)) {
+    const url = match[0].replace(URL_TRAILING_PUNCTUATION, '');
+    if (!url || !isSafeUrl(url)) continue;
+    if (match.index > last) nodes.push(...splitEntities(text.slice(last, match.index)));
+    nodes.push({ kind: 'link', href: url, children: [{ kind: 'text', text: url }] });
+    last = match.index + url.length;
+  }
+  if (last < text.length) nodes.push(...splitEntities(text.slice(last)));
+
+  return nodes;
+}
+
+/**
+ * 文字列中の @名前・#タグの切り出し
+ * 数字のみ（#1 など）や長すぎるタグは文字のままとする
+ */
+function splitEntities(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(ENTITY_PATTERN)) {
+    const [whole, marker, value] = match;
+    const isMention = marker === '@' || marker === '＠';
+    if (!isMention && (/^\d+$/.test(value) || value.length > MAX_HASHTAG_LENGTH)) continue;
+    if (match.index > last) nodes.push({ kind: 'text', text: text.slice(last, match.index) });
+    nodes.push(isMention ? { kind: 'mention', name: value } : { kind: 'hashtag', tag: value });
+    last = match.index + whole.length;
+  }
+  if (last < text.length) nodes.push({ kind: 'text', text: text.slice(last) });
+
+  return nodes;
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatBytes, IMAGE_ATTACHMENT_RULES, loadImage, prepareAvatar, prepareImage, validateImageFile } from './media';
+import { AVATAR_SIZES } from './repositories';
+
+/** 描画の呼び出しを記録するキャンバスの代役 */
+interface IFakeCanvas {
+  width: number;
+  height: number;
+  readonly fills: number[][];
+  readonly draws: unknown[][];
+  readonly getContext: () => unknown;
+  readonly toBlob: (callback: (blob: Blob | null) => void, contentType: string) => void;
+}
+
+/** 書き出した画像の大きさ（バイト） */
+let exportedBytes = 1;
+
+/** 作られたキャンバス */
+let canvases: IFakeCanvas[] = [];
+
+/** キャンバスの代役の作成 */
+const createCanvas = (): IFakeCanvas => {
+  const canvas: IFakeCanvas = {
+    width: 0,
+    height: 0,
+    fills: [],
+    draws: [],
+    getContext: () => ({
+      fillStyle: '',
+      imageSmoothingQuality: 'low',
+      fillRect: (...args: number[]) => canvas.fills.push(args),
+      drawImage: (...args: unknown[]) => canvas.draws.push(args),
+    }),
+    toBlob: (callback, contentType) => callback(new Blob([new Uint8Array(exportedBytes)], { type: contentType })),
+  };
+  canvases.push(canvas);
+  return canvas;
+};
+
+/** 読み込んだ画像の代役 */
+const bitmap = (width: number, height: number) => ({ width, height, close: vi.fn() });
+
+/** 選択されたファイル */
+const file = (type: string, size = 1024): File => ({ name: 'offering.img', type, size }) as File;
+
+describe('画像の下ごしらえ', () => {
+  beforeEach(() => {
+    exportedBytes = 1;
+    canvases = [];
+    vi.stubGlobal('document', { createElement: createCanvas });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('添付できない形式と大きすぎる元画像を理由付きで断る', () => {
+    expect(validateImageFile(file('image/webp'))).toBeNull();
+    expect(validateImageFile(file('image/svg+xml'))).toBe('「offering.img」は添付できない形式です（JPEG・PNG・WebP・GIF のみ）');
+    expect(validateImageFile(file('image/png', IMAGE_ATTACHMENT_RULES.MAX_SOURCE_BYTES + 1))).toBe(
+      '「offering.img」は大きすぎます（10MBまで）'
+    );
+    expect(formatBytes(1.25 * 1024 * 1024)).toBe('1.3MB');
+  });
+
+  it('長辺を上限まで縮小し、透過できない形式は白地の JPEG で書き出す', async () => {
+    const source = bitmap(3200, 1000);
+    vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue(source));
+
+    const prepared = await prepareImage(file('image/jpeg'));
+    expect(prepared).toMatchObject({ contentType: 'image/jpeg', extension: 'jpg' });
+    expect(prepared.data.type).toBe('image/jpeg');
+    expect(canvases[0]).toMatchObject({ width: 1600, height: 500, fills: [[0, 0, 1600, 500]] });
+    expect(canvases[0].draws).toEqual([[source, 0, 0, 1600, 500]]);
+    expect(createImageBitmap).toHaveBeenCalledWith(expect.anything(), { imageOrientation: 'from-image' });
+    expect(source.close).toHaveBeenCalled();
+  });
+
+  it('透過できる形式は縮小せずに PNG で書き出し、縮小後も大きすぎる画像は断る', async () => {
+    const source = bitmap(400, 300);
+    vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue(source));
+
+    expect(await prepareImage(file('image/gif'))).toMatchObject({ contentType: 'image/png', extension: 'png' });
+    expect(canvases[0]).toMatchObject({ width: 400, height: 300, fills: [] });
+
+    exportedBytes = IMAGE_ATTACHMENT_RULES.MAX_UPLOAD_BYTES + 1;
+    await expect(prepareImage(file('image/png'))).rejects.toThrow('「offering.img」は縮小後も2MBを超えます');
+    expect(source.close).toHaveBeenCalledTimes(2);
+  });
+
+  it('画像として読み込めないファイルはファイル名を示して断る', async () => {
+    vi.stubGlobal('createImageBitmap', vi.fn().mockRejectedValue(new Error('decode failed')));
+    await expect(loadImage(file('image/png'))).rejects.toThrow('「offering.img」を画像として読み込めませんでした');
+  });
+
+  it('魂紋の画像は切り抜いた正方形から大きさごとの JPEG を作る', async () => {
+    const source = bitmap(800, 600) as unknown as ImageBitmap;
+
+    const prepared = await prepareAvatar(source, { x: 100, y: 50, size: 500 });
+    expect(Object.keys(prepared).map(Number)).toEqual([...AVATAR_SIZES]);
+    for (const [index, size] of AVATAR_SIZES.entries()) {
+      expect(prepared[size]).toMatchObject({ contentType: 'image/jpeg', extension: 'jpg' });
+      expect(canvases[index]).toMatchObject({ width: size, height: size, fills: [[0, 0, size, size]] });
+      expect(canvases[index].draws).toEqual([[source, 100, 50, 500, 500, 0, 0, size, size]]);
+    }
+  });
+});
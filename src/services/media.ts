@@ -0,0 +1,156 @@
+/**
+ * 供物台（Kumotsudai）- 画像の下ごしらえ
+ *
+ * 供物に添付する画像・魂紋の画像（アイコン）を端末で検証・縮小し、保存用の画像データにする。
+ * キャンバスに描き直して書き出すため、撮影日時・位置情報などの EXIF は保存されない。
+ *
+ * 機能:
+ * - 画像の種類・大きさ・枚数の制限と検証
+ * - 向き（EXIF Orientation）を反映したうえでの長辺の縮小
+ * - 魂紋の画像の正方形の切り抜きと大きさごとの縮小版の生成
+ * - 再エンコードによるメタデータの除去
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import { AVATAR_SIZES, type NewAvatarUpload, type NewImageUpload } from './repositories';
+
+/** 添付画像の制限 */
+export const IMAGE_ATTACHMENT_RULES = {
+  /** 1つの供物に添付できる枚数 */
+  MAX_COUNT: 4,
+  /** 選択できる元画像の大きさ（バイト） */
+  MAX_SOURCE_BYTES: 10 * 1024 * 1024,
+  /** 縮小後の画像の大きさ（バイト） */
+  MAX_UPLOAD_BYTES: 2 * 1024 * 1024,
+  /** 縮小後の長辺（px） */
+  MAX_DIMENSION: 1600,
+  /** JPEG の画質 */
+  JPEG_QUALITY: 0.85,
+  /** 添付できる画像の種類 */
+  ACCEPTED_TYPES: ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+} as const;
+
+/** 透過を保つため PNG で書き出す元画像の種類（それ以外は JPEG で書き出す） */
+const TRANSPARENT_TYPES: ReadonlySet<string> = new Set(['image/png', 'image/gif']);
+
+/**
+ * 魂紋の画像の切り抜き範囲（元画像の px）
+ */
+export interface IAvatarCrop {
+  /** 左端 */
+  x: number;
+  /** 上端 */
+  y: number;
+  /** 一辺 */
+  size: number;
+}
+
+/**
+ * 添付できる画像か
+ * @returns エラーメッセージ（添付できる場合は null）
+ */
+export function validateImageFile(file: File): string | null {
+  if (!(IMAGE_ATTACHMENT_RULES.ACCEPTED_TYPES as readonly string[]).includes(file.type)) {
+    return `「${file.name}」は添付できない形式です（JPEG・PNG・WebP・GIF のみ）`;
+  }
+  if (file.size > IMAGE_ATTACHMENT_RULES.MAX_SOURCE_BYTES) {
+    return `「${file.name}」は大きすぎます（${formatBytes(IMAGE_ATTACHMENT_RULES.MAX_SOURCE_BYTES)}まで）`;
+  }
+  return null;
+}
+
+/**
+ * バイト数の表示（MB 単位）
+ */
+export function formatBytes(bytes: number): string {
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`;
+}
+
+/**
+ * 画像の下ごしらえ（縮小・メタデータの除去）
+ * GIF は最初のコマのみの静止画になる
+ * @throws 画像として読み込めない場合、縮小後も大きすぎる場合
+ */
+export async function prepareImage(file: File): Promise<NewImageUpload> {
+  const bitmap = await loadImage(file);
+  try {
+    const scale = Math.min(1, IMAGE_ATTACHMENT_RULES.MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('画像を縮小できませんでした');
+
+    const isTransparent = TRANSPARENT_TYPES.has(file.type);
+    if (!isTransparent) {
+      // JPEG は透過できないため、透過部分を白で塗る
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const contentType = isTransparent ? 'image/png' : 'image/jpeg';
+    const data = await toBlob(canvas, contentType);
+    if (data.size > IMAGE_ATTACHMENT_RULES.MAX_UPLOAD_BYTES) {
+      throw new Error(`「${file.name}」は縮小後も${formatBytes(IMAGE_ATTACHMENT_RULES.MAX_UPLOAD_BYTES)}を超えます`);
+    }
+
+    return { data, contentType, extension: isTransparent ? 'png' : 'jpg' };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * 画像の読み込み（向きを反映する。描き直した画像には Orientation を残さないため）
+ * 使い終えたら close() で解放すること
+ * @throws 画像として読み込めない場合
+ */
+export async function loadImage(file: File): Promise<ImageBitmap> {
+  return createImageBitmap(file, { imageOrientation: 'from-image' }).catch(() => {
+    throw new Error(`「${file.name}」を画像として読み込めませんでした`);
+  });
+}
+
+/**
+ * 魂紋の画像の下ごしらえ（正方形の切り抜き・大きさごとの縮小版の生成）
+ * 縮小版はすべて JPEG で書き出す（透過部分は白で塗る）
+ * @param source loadImage で読み込んだ画像
+ * @throws 縮小版を書き出せない場合
+ */
+export async function prepareAvatar(source: ImageBitmap, crop: IAvatarCrop): Promise<NewAvatarUpload> {
+  const entries = await Promise.all(AVATAR_SIZES.map(async (size) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('画像を縮小できませんでした');
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, size, size);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(source, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size);
+
+    const image: NewImageUpload = { data: await toBlob(canvas, 'image/jpeg'), contentType: 'image/jpeg', extension: 'jpg' };
+    return [size, image] as const;
+  }));
+
+  return Object.fromEntries(entries) as NewAvatarUpload;
+}
+
+/**
+ * キャンバスの書き出し
+ * @throws 書き出せない場合
+ */
+async function toBlob(canvas: HTMLCanvasElement, contentType: string): Promise<Blob> {
+  const data = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, contentType, IMAGE_ATTACHMENT_RULES.JPEG_QUALITY)
+  );
+  if (!data) throw new Error('画像を縮小できませんでした');
+  return data;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractOfferingTags,
+  findMentionCandidates,
+  findMentionedUsers,
+  findMentionQuery,
+  findUserByMention,
+  MAX_OFFERING_TAGS,
+  toMentionName,
+} from './mentions';
+import { user } from './testFixtures';
+
+const USERS = [user('a', '山田 太郎'), user('b', 'Ｍｉｓｏｇｉ'), user('c', '太郎丸'), user('d', '!!!')];
+
+describe('メンション', () => {
+  it('呼び名は空白や記号を除き、全角英数字を半角にする', () => {
+    expect(toMentionName('山田 太郎')).toBe('山田太郎');
+    expect(toMentionName('Ｍｉｓｏｇｉ')).toBe('Misogi');
+  });
+
+  it('本文で呼ばれた魂紋を大文字・小文字、全角・半角の違いを問わず特定する', () => {
+    expect(findMentionedUsers('@山田太郎 と @misogi へ', USERS).map((found) => found.id)).toEqual(['a', 'b']);
+    expect(findMentionedUsers('`@山田太郎` のみ', USERS)).toEqual([]);
+    expect(findUserByMention('MISOGI', USERS)?.id).toBe('b');
+    expect(findUserByMention('未登録', USERS)).toBeUndefined();
+  });
+
+  it('カーソルの直前で入力中の @名前 を検出し、メールアドレスは入力中としない', () => {
+    expect(findMentionQuery('こんにちは @山田', 9)).toEqual({ start: 6, query: '山田' });
+    expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+    expect(findMentionQuery('a@example', 9)).toBeNull();
+    expect(findMentionQuery('@山田 さん', 6)).toBeNull();
+  });
+
+  it('候補は呼び名の前方一致を先に、部分一致を後に並べ、件数を絞る', () => {
+    expect(findMentionCandidates('太郎', USERS).map((found) => found.id)).toEqual(['c', 'a']);
+    expect(findMentionCandidates('', USERS, 2).map((found) => found.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('タグ', () => {
+  it('題名・本文の #タグ を出現順に重複なく上限まで抽出する', () => {
+    expect(extractOfferingTags({ title: '#設計 の記録', content: '#学習 と #設計' })).toEqual(['設計', '学習']);
+
+    const content = Array.from({ length: MAX_OFFERING_TAGS + 2 }, (_, index) => `#tag${index}`).join(' ');
+    expect(extractOfferingTags({ title: '', content })).toHaveLength(MAX_OFFERING_TAGS);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * 供物台（Kumotsudai）- メンション・ハッシュタグ
+ *
+ * 本文の @名前 を魂紋に、#タグ を供物のタグに結び付ける。
+ * 魂紋の名前には空白などメンションに使えない文字も含まれるため、
+ * 使えない文字を除いた「呼び名」で照合する。
+ *
+ * 機能:
+ * - 魂紋の名前からメンションの呼び名への変換
+ * - 本文で呼ばれた魂紋の特定
+ * - 入力中の @名前 の検出と候補の絞り込み（入力補完用）
+ * - 供物の題名・本文からのタグの抽出
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { Offering, User } from '../types/domain';
+import { extractHashtags, extractMentionNames } from './markdown';
+
+/** 供物1件あたりのタグの上限 */
+export const MAX_OFFERING_TAGS = 10;
+
+/** 入力補完の候補の既定の件数 */
+const DEFAULT_CANDIDATE_LIMIT = 6;
+
+/** メンションの呼び名に使えない文字 */
+const NON_MENTION_CHARS = /[^\p{L}\p{N}_ー・-]/gu;
+
+/** カーソルの直前まで入力中の @名前（@ の直前は行頭・空白・記号のみ） */
+const ACTIVE_MENTION_PATTERN = /(?:^|[^A-Za-z0-9_.+&#/-])[@＠]([\p{L}\p{N}_ー・-]*)$/u;
+
+/**
+ * 入力中の @名前
+ */
+export interface IMentionQuery {
+  /** @ の位置 */
+  readonly start: number;
+  /** @ に続けて入力された文字 */
+  readonly query: string;
+}
+
+/**
+ * 照合用の表記（全角・半角、大文字・小文字の違いをなくす）
+ */
+const toMentionKey = (name: string): string => name.normalize('NFKC').toLowerCase();
+
+/**
+ * 魂紋の名前からメンションの呼び名への変換（空白などを除く）
+ */
+export function toMentionName(name: string): string {
+  return name.normalize('NFKC').replace(NON_MENTION_CHARS, '');
+}
+
+/**
+ * 本文で @名前 を呼ばれた魂紋（同じ呼び名の魂紋はすべて含める）
+ */
+export function findMentionedUsers<T extends Pick<User, 'name'>>(source: string, users: readonly T[]): T[] {
+  const names = new Set(extractMentionNames(source).map(toMentionKey));
+  if (names.size === 0) return [];
+  return users.filter(user => names.has(toMentionKey(toMentionName(user.name))));
+}
+
+/**
+ * 呼び名が一致する魂紋（本文中の @名前 の表示用）
+ */
+export function findUserByMention(name: string, users: readonly User[]): User | undefined {
+  const key = toMentionKey(name);
+  return users.find(user => toMentionKey(toMentionName(user.name)) === key);
+}
+
+/**
+ * カーソルの直前で入力中の @名前（入力中でなければ null）
+ */
+export function findMentionQuery(value: string, caret: number): IMentionQuery | null {
+  const match = ACTIVE_MENTION_PATTERN.exec(value.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, query: match[1] };
+}
+
+/**
+ * 入力中の @名前 に続く魂紋の候補（呼び名の前方一致を先に、部分一致を後に並べる）
+ */
+export function findMentionCandidates(query: string, users: readonly User[], limit: number = DEFAULT_CANDIDATE_LIMIT): User[] {
+  const key = toMentionKey(query);
+  const prefixed: User[] = [];
+  const contained: User[] = [];
+
+  for (const user of users) {
+    const name = toMentionKey(toMentionName(user.name));
+    if (!name) continue;
+    if (name.startsWith(key)) {
+      prefixed.push(user);
+    } else if (name.includes(key)) {
+      contained.push(user);
+    }
+  }
+
+  return [...prefixed, ...contained].slice(0, limit);
+}
+
+/**
+ * 供物の題名・本文の #タグ（出現順、上限まで）
+ */
+export function extractOfferingTags(offering: Pick<Offering, 'title' | 'content'>): string[] {
+  return extractHashtags(`${offering.title}\n\n${offering.content}`).slice(0, MAX_OFFERING_TAGS);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { SavedSearch } from '../types/domain';
+import {
+  buildFollowNotification,
+  buildGuidanceNotifications,
+  buildMentionNotifications,
+  buildPrayerNotification,
+  buildSavedSearchNotifications,
+} from './notifications';
+import { offering } from './testFixtures';
+
+/** 魂紋 A の供物 */
+const OFFERING = offering('o1', { title: '初穂', content: '@乙 と @丙 へ' });
+
+const A = { id: 'user-a', name: '甲' };
+const B = { id: 'user-b', name: '乙' };
+const C = { id: 'user-c', name: '丙' };
+
+/** 保存した探求 */
+const savedSearch = (id: string, userId: string): SavedSearch => ({
+  id,
+  userId,
+  name: id,
+  query: '',
+  filters: { genre: 'all', author: '', date: 'all', minLikes: 0 },
+  createdAt: new Date('2025-01-01T00:00:00.000Z'),
+});
+
+describe('便りの生成', () => {
+  it('祈念・縁の便りは受け手へ届け、自分への操作では作らない', () => {
+    expect(buildPrayerNotification(OFFERING, B)).toEqual({
+      userId: 'user-a',
+      type: 'prayer_received',
+      title: '祈念が届きました',
+      content: '乙 さんが「初穂」に祈念を捧げました',
+      relatedData: { offeringId: 'o1', userId: 'user-b' },
+    });
+    expect(buildPrayerNotification(OFFERING, A)).toBeNull();
+    expect(buildFollowNotification('user-a', B)).toMatchObject({ userId: 'user-a', type: 'follower_new' });
+    expect(buildFollowNotification('user-a', A)).toBeNull();
+  });
+
+  it('導きは作者へ、返信は返信先の主へ届け、両者が同じなら返信の便りのみとする', () => {
+    const comment = { id: 'c1', content: `**${'長'.repeat(70)}**` };
+
+    const [reply, guidance] = buildGuidanceNotifications(OFFERING, comment, C, { authorId: 'user-b' });
+    expect(reply).toMatchObject({ userId: 'user-b', type: 'guidance_reply' });
+    expect(guidance).toMatchObject({
+      userId: 'user-a',
+      type: 'guidance_received',
+      content: `丙 さんが「初穂」に導きを記しました：${'長'.repeat(60)}…`,
+    });
+    expect(buildGuidanceNotifications(OFFERING, comment, B, { authorId: 'user-a' }).map((n) => n.type)).toEqual(['guidance_reply']);
+    expect(buildGuidanceNotifications(OFFERING, comment, A)).toEqual([]);
+  });
+
+  it('呼ばれた魂紋のうち、供物を見られない・別の便りを受け取る・自分自身を除いて届ける', () => {
+    const users = [A, B, C];
+
+    expect(buildMentionNotifications(OFFERING, users, A, { viewerIds: null }).map((n) => n.userId)).toEqual(['user-b', 'user-c']);
+    expect(buildMentionNotifications(OFFERING, users, A, { viewerIds: new Set(['user-a', 'user-c']) }).map((n) => n.userId)).toEqual([
+      'user-c',
+    ]);
+    expect(
+      buildMentionNotifications(OFFERING, users, B, { viewerIds: null, notifiedIds: new Set(['user-c']) }, { id: 'c1', content: '@乙 @丙' })
+    ).toEqual([]);
+  });
+
+  it('一致した探求は魂紋ごとに1通にまとめ、作者本人の探求には届けない', () => {
+    const notifications = buildSavedSearchNotifications(OFFERING, [
+      savedSearch('探求1', 'user-b'),
+      savedSearch('探求2', 'user-b'),
+      savedSearch('自分', 'user-a'),
+    ]);
+
+    expect(notifications).toEqual([
+      {
+        userId: 'user-b',
+        type: 'saved_search_match',
+        title: '保存した探求に一致する供物が奉納されました',
+        content: '甲 さんの「初穂」が探求「探求1」「探求2」に一致しました',
+        relatedData: { offeringId: 'o1', userId: 'user-a' },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * 供物台（Kumotsudai）- 便りの生成
+ *
+ * 祈念・導き・返信の記録に応じて、受け取る魂紋へ届ける便り（アプリ内通知）を組み立てる。
+ * 自分の供物・導きへの操作では便りを作らない。
+ * 画面に依存しないため、サーバー側の関数（amplify/functions/data-events）とローカル実装で共有する。
+ *
+ * 機能:
+ * - 供物への祈念の便り
+ * - 供物への導きの便り
+ * - 導きへの返信の便り
+ * - 保存した探求に一致する供物の奉納の便り
+ * - 供物・導きで @名前 を呼ばれた魂紋への便り
+ * - 縁を結ばれた魂紋への便り
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { Comment, Offering, SavedSearch, User } from '../types/domain';
+import type { NewNotification } from './repositories/types';
+import { markdownToPlainText } from './markdown';
+import { findMentionedUsers } from './mentions';
+
+/** 便りの本文に引用する導きの最大文字数 */
+const EXCERPT_LENGTH = 60;
+
+/**
+ * 本文の引用（Markdown の記法を除き、長い場合は末尾を省略）
+ */
+function excerpt(text: string): string {
+  const singleLine = markdownToPlainText(text);
+  return singleLine.length > EXCERPT_LENGTH ? `${singleLine.slice(0, EXCERPT_LENGTH)}…` : singleLine;
+}
+
+/**
+ * 供物への祈念の便り
+ * @param offering 祈念を受けた供物
+ * @param actor 祈念を捧げた魂紋
+ * @returns 便り（自分の供物への祈念の場合は null）
+ */
+export function buildPrayerNotification(
+  offering: Pick<Offering, 'id' | 'authorId' | 'title'>,
+  actor: Pick<User, 'id' | 'name'>
+): NewNotification | null {
+  if (offering.authorId === actor.id) return null;
+
+  return {
+    userId: offering.authorId,
+    type: 'prayer_received',
+    title: '祈念が届きました',
+    content: `${actor.name} さんが「${offering.title}」に祈念を捧げました`,
+    relatedData: { offeringId: offering.id, userId: actor.id },
+  };
+}
+
+/**
+ * 導きの便り
+ * 返信の場合は返信先の導きの主へ返信の便りを、供物の作者へ導きの便りを届ける。
+ * 両者が同じ魂紋の場合は返信の便りのみとする。
+ * @param offering 導きが記された供物
+ * @param comment 記録済みの導き
+ * @param actor 導きを記した魂紋
+ * @param parent 返信先の導き（供物への直接の導きでは省略）
+ * @returns 便りの一覧
+ */
+export function buildGuidanceNotifications(
+  offering: Pick<Offering, 'id' | 'authorId' | 'title'>,
+  comment: Pick<Comment, 'id' | 'content'>,
+  actor: Pick<User, 'id' | 'name'>,
+  parent?: Pick<Comment, 'authorId'>
+): NewNotification[] {
+  const notifications: NewNotification[] = [];
+  const relatedData = { offeringId: offering.id, guidanceId: comment.id, userId: actor.id };
+
+  if (parent && parent.authorId !== actor.id) {
+    notifications.push({
+      userId: parent.authorId,
+      type: 'guidance_reply',
+      title: '導きに返信がありました',
+      content: `${actor.name} さんが「${offering.title}」のあなたの導きに返信しました：${excerpt(comment.content)}`,
+      relatedData,
+    });
+  }
+
+  if (offering.authorId !== actor.id && offering.authorId !== parent?.authorId) {
+    notifications.push({
+      userId: offering.authorId,
+      type: 'guidance_received',
+      title: '導きが届きました',
+      content: `${actor.name} さんが「${offering.title}」に導きを記しました：${excerpt(comment.content)}`,
+      relatedData,
+    });
+  }
+
+  return notifications;
+}
+
+/**
+ * @名前 で呼ばれた魂紋の絞り込み条件
+ */
+export interface IMentionAudience {
+  /** 供物を見られる魂紋（縁者のみの供物では作者本人と縁者。全員に公開の供物は null） */
+  readonly viewerIds: ReadonlySet<string> | null;
+
+  /** 別の便りを受け取る魂紋（呼ばれた便りを重ねて届けない） */
+  readonly notifiedIds?: ReadonlySet<string>;
+}
+
+/**
+ * @名前 で呼ばれた魂紋への便り
+ * 本文（導きで呼ばれた場合は導きの本文）の @名前 に一致する魂紋へ届ける
+ * @param offering 呼ばれた供物（導きで呼ばれた場合は導きが記された供物）
+ * @param users 呼び名を照合する魂紋
+ * @param actor 供物・導きを記した魂紋
+ * @param audience 供物を見られる魂紋・別の便りを受け取る魂紋
+ * @param comment 導きで呼ばれた場合の記録済みの導き
+ * @returns 便りの一覧（自分自身・供物を見られない魂紋・別の便りを受け取る魂紋を除く）
+ */
+export function buildMentionNotifications(
+  offering: Pick<Offering, 'id' | 'title' | 'content'>,
+  users: readonly Pick<User, 'id' | 'name'>[],
+  actor: Pick<User, 'id' | 'name'>,
+  audience: IMentionAudience,
+  comment?: Pick<Comment, 'id' | 'content'>
+): NewNotification[] {
+  const recipients = new Set(
+    findMentionedUsers(comment?.content ?? offering.content, users)
+      .map(user => user.id)
+      .filter(userId => (!audience.viewerIds || audience.viewerIds.has(userId)) && !audience.notifiedIds?.has(userId))
+  );
+  recipients.delete(actor.id);
+
+  return Array.from(recipients, userId => ({
+    userId,
+    type: 'mention_received' as const,
+    title: 'あなたの名が呼ばれました',
+    content: comment
+      ? `${actor.name} さんが「${offering.title}」の導きであなたを呼びました：${excerpt(comment.content)}`
+      : `${actor.name} さんが供物「${offering.title}」であなたを呼びました`,
+    relatedData: comment
+      ? { offeringId: offering.id, guidanceId: comment.id, userId: actor.id }
+      : { offeringId: offering.id, userId: actor.id },
+  }));
+}
+
+/**
+ * 保存した探求に一致する供物の便り
+ * 同じ魂紋の複数の探求が一致した場合は1通にまとめる
+ * @param offering 奉納された供物
+ * @param savedSearches 供物に一致した探求（作者本人の探求を除く）
+ * @returns 便りの一覧
+ */
+export function buildSavedSearchNotifications(offering: Offering, savedSearches: SavedSearch[]): NewNotification[] {
+  const namesByUser = new Map<string, string[]>();
+  for (const savedSearch of savedSearches) {
+    if (savedSearch.userId === offering.authorId) continue;
+    namesByUser.set(savedSearch.userId, [...(namesByUser.get(savedSearch.userId) ?? []), savedSearch.name]);
+  }
+
+  return Array.from(namesByUser, ([userId, names]) => ({
+    userId,
+    type: 'saved_search_match' as const,
+    title: '保存した探求に一致する供物が奉納されました',
+    content: `${offering.author} さんの「${offering.title}」が探求「${names.join('」「')}」に一致しました`,
+    relatedData: { offeringId: offering.id, userId: offering.authorId },
+  }));
+}
+
+/**
+ * 縁を結ばれた魂紋への便り
+ * @param followeeId 縁を結ばれた魂紋
+ * @param actor 縁を結んだ魂紋
+ * @returns 便り（自分自身との縁の場合は null）
+ */
+export function buildFollowNotification(followeeId: string, actor: Pick<User, 'id' | 'name'>): NewNotification | null {
+  if (followeeId === actor.id) return null;
+
+  return {
+    userId: followeeId,
+    type: 'follower_new',
+    title: '新たな縁が結ばれました',
+    content: `${actor.name} さんがあなたと縁を結びました`,
+    relatedData: { userId: actor.id },
+  };
+}
@@ -125,7 +125,7 @@ export class PerformanceMonitoringService {
    * @param label 測定ラベル
    * @param metadata メタデータ
    */
-  public startMeasurement(label: string, metadata?: Record<string, any>): void {
+  public startMeasurement(label: string, metadata?: Record<string, unknown>): void {
     try {
       const startTime = this.now();
       
@@ -377,7 +377,7 @@ export class PerformanceMonitoringService {
    * サービス状態取得
    * @returns サービス状態情報
    */
-  public getServiceStatus(): Record<string, any> {
+  public getServiceStatus(): Record<string, unknown> {
     return {
       initialized: this.initialized,
       hasConfig: !!this.config,
@@ -394,9 +394,9 @@ export class PerformanceMonitoringService {
    * ブラウザパフォーマンス情報取得
    * @returns ブラウザパフォーマンス情報
    */
-  public getBrowserPerformanceInfo(): Record<string, any> {
+  public getBrowserPerformanceInfo(): Record<string, unknown> {
     try {
-      const info: Record<string, any> = {
+      const info: Record<string, unknown> = {
         hasPerformanceAPI: this.hasPerformanceAPI,
         timestamp: new Date().toISOString()
       };
@@ -424,8 +424,10 @@ export class PerformanceMonitoringService {
         }
         
         // Memory info (Chrome)
-        if ((performance as any).memory) {
-          const memory = (performance as any).memory;
+        const { memory } = performance as Performance & {
+          memory?: { usedJSHeapSize: number; totalJSHeapSize: number; jsHeapSizeLimit: number };
+        };
+        if (memory) {
           info.memory = {
             usedJSHeapSize: memory.usedJSHeapSize,
             totalJSHeapSize: memory.totalJSHeapSize,
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  matchesDepartment,
+  rankFromStanding,
+  rankingScope,
+  rankOfferings,
+  scoreOffering,
+  takeRankingSnapshots,
+  topRankedIds,
+} from './ranking';
+import { comment, FIXTURE_DATE, offering } from './testFixtures';
+
+/** 基準日時 */
+const NOW = FIXTURE_DATE;
+
+/** 基準日時の days 日前 */
+const daysAgo = (days: number): Date => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('ランキング', () => {
+  it('点数は祈念・導き・閲覧・交流した魂紋（作者本人を除く）の重みの合計とする', () => {
+    const scored = offering('o1', {
+      likedBy: ['user-b', 'user-c'],
+      comments: [comment('user-b'), comment('user-a')],
+      views: 10,
+    });
+
+    expect(scoreOffering(scored, 'eternal', { now: NOW, getViews: (o) => o.views })).toEqual({
+      score: 10,
+      scoreBreakdown: { prayers: 2, guidance: 4, views: 1, recency: 0, engagement: 3 },
+      decay: 1,
+      halfLifeDays: null,
+    });
+  });
+
+  it('半減期ごとに点数を半分に減じ、人気は期間に関わらず減じない', () => {
+    const scored = offering('o1', { likedBy: ['user-b', 'user-c'], createdAt: daysAgo(2) });
+
+    expect(scoreOffering(scored, 'weekly', { now: NOW })).toMatchObject({
+      score: 5,
+      scoreBreakdown: { prayers: 1, recency: 2.5, engagement: 1.5 },
+      decay: 0.5,
+      halfLifeDays: 2,
+    });
+    expect(scoreOffering(scored, 'weekly', { now: NOW, type: 'popular' })).toMatchObject({
+      scoreBreakdown: { prayers: 2, recency: 0, engagement: 3 },
+      decay: 1,
+      halfLifeDays: null,
+    });
+  });
+
+  it('期間外の供物を除き、基準値の高い順（同値は新しい順）に並べる', () => {
+    const offerings = [
+      offering('old', { likedBy: ['user-b', 'user-c', 'user-d'], createdAt: daysAgo(30) }),
+      offering('older-tie', { likedBy: ['user-b'], createdAt: daysAgo(3) }),
+      offering('newer-tie', { likedBy: ['user-c'], createdAt: daysAgo(1) }),
+      offering('none', { createdAt: daysAgo(2) }),
+    ];
+
+    const weekly = rankOfferings(offerings, 'weekly', { type: 'prayers', now: NOW });
+    expect(weekly.map((item) => [item.offering.id, item.rank, item.value])).toEqual([
+      ['newer-tie', 1, 1],
+      ['older-tie', 2, 1],
+      ['none', 3, 0],
+    ]);
+
+    const eternal = rankOfferings(offerings, 'eternal', { type: 'recent', now: NOW, limit: 2 });
+    expect(eternal.map((item) => item.offering.id)).toEqual(['newer-tie', 'none']);
+  });
+
+  it('前回の順位と比べた変動を示し、前回にない供物は変動なしとする', () => {
+    const offerings = [
+      offering('rising', { likedBy: ['user-b', 'user-c'] }),
+      offering('falling', { likedBy: ['user-b'] }),
+      offering('new', { createdAt: daysAgo(1) }),
+    ];
+
+    const ranked = rankOfferings(offerings, 'eternal', {
+      type: 'prayers',
+      now: NOW,
+      previousRanks: { rising: 3, falling: 1 },
+    });
+    expect(ranked.map((item) => [item.offering.id, item.previousRank, item.rankChange])).toEqual([
+      ['rising', 3, 2],
+      ['falling', 1, -1],
+      ['new', null, 0],
+    ]);
+  });
+
+  it('所属は保存した値・表示名のどちらでも一致する', () => {
+    const wind = { value: 'wind', label: '風の部署' };
+    expect(matchesDepartment('wind', wind)).toBe(true);
+    expect(matchesDepartment('風の部署', wind)).toBe(true);
+    expect(matchesDepartment('water', wind)).toBe(false);
+    expect(matchesDepartment(undefined, wind)).toBe(false);
+  });
+
+  it('順位の写しは種別・期間・所属（全所属を含む）の区分ごとに取る', () => {
+    const offerings = [
+      offering('wind-1', { likedBy: ['user-c'] }),
+      offering('water-1', { authorId: 'user-b', likedBy: ['user-a', 'user-c'] }),
+    ];
+    const departments = new Map([['user-a', '風の部署'], ['user-b', 'water']]);
+
+    const snapshots = takeRankingSnapshots(offerings, {
+      types: ['prayers', 'recent'],
+      departments: [{ value: 'wind', label: '風の部署' }, { value: 'water', label: '水の工房' }],
+      departmentOf: (authorId) => departments.get(authorId),
+      now: NOW,
+    });
+
+    expect(snapshots).toHaveLength(2 * 3 * 4);
+    const ranksOf = (scope: string) => snapshots.find((snapshot) => snapshot.scope === scope)?.ranks;
+    expect(ranksOf(rankingScope('prayers', 'eternal'))).toEqual({ 'water-1': 1, 'wind-1': 2 });
+    expect(ranksOf(rankingScope('prayers', 'weekly', 'wind'))).toEqual({ 'wind-1': 1 });
+    expect(ranksOf(rankingScope('prayers', 'monthly', 'water'))).toEqual({ 'water-1': 1 });
+    expect(snapshots.every((snapshot) => snapshot.takenOn === '2025-06-15')).toBe(true);
+  });
+
+  it('写しの順位で上位を並べ、前の日の写しとの変動と現在の値による点数を付ける', () => {
+    const standing = {
+      current: { scope: 'prayers:eternal:all', takenOn: '2025-06-15', ranks: { o1: 2, o2: 1, removed: 3 } },
+      previous: { scope: 'prayers:eternal:all', takenOn: '2025-06-14', ranks: { o1: 1 } },
+    };
+    const offerings = [offering('o1', { likedBy: ['user-b', 'user-c'] }), offering('o2', { likedBy: ['user-b'] })];
+
+    expect(topRankedIds(standing.current, 2)).toEqual(['o2', 'o1']);
+    const ranked = rankFromStanding(offerings, standing, 'eternal', { type: 'prayers', now: NOW });
+    expect(ranked.map((item) => [item.offering.id, item.rank, item.previousRank, item.rankChange])).toEqual([
+      ['o2', 1, null, 0],
+      ['o1', 2, 1, -1],
+    ]);
+    expect(ranked[1]).toMatchObject({ value: 2, scoreBreakdown: { prayers: 2 } });
+    expect(rankFromStanding(offerings, { current: null, previous: null }, 'eternal')).toEqual([]);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * 供物台（Kumotsudai）- 審神の壇のランキング
+ *
+ * 祈念・導き・閲覧・交流・新しさを重み付けして供物の点数を求め、期間ごとに順位を付ける。
+ * 期間ごとの半減期に応じて古い供物の点数を減衰させ、前の日の順位の写しと比べて順位の変動を示す。
+ * 順位はサーバー側の ranking-snapshots 関数が定期的に付け直し、その日の写しとして RankingSnapshot モデルに保存する。
+ * 画面は写しの上位の供物だけを読み込み、公開中の供物のすべては読み込まない。
+ *
+ * 機能:
+ * - 重みの設定できる点数計算（内訳付き）
+ * - 期間（永久・季節・月満・七日）ごとの対象期間と時間減衰
+ * - ランキング種別（トレンド・人気・最新・祈念数・導き数・閲覧数）ごとの並び順
+ * - 種別・期間・所属の区分ごとの順位の写し（スナップショット）の作成
+ * - 写しの上位の供物からのランキングの組み立て
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { Offering } from '../types/domain';
+import type { IRankingItem, RankingType } from '../types/enterprise';
+import { toDayKey } from './calendar';
+
+/**
+ * 点数の重み
+ */
+export interface IRankingWeights {
+  /** 祈念1件あたり */
+  readonly prayers: number;
+
+  /** 導き1件あたり */
+  readonly guidance: number;
+
+  /** 閲覧1件あたり */
+  readonly views: number;
+
+  /** 捧げられた直後の新しさの加点（半減期ごとに半分になる） */
+  readonly recency: number;
+
+  /** 祈念・導きを寄せた魂紋1人あたり（作者本人を除く） */
+  readonly engagement: number;
+}
+
+/** 既定の重み（導きは祈念より手間がかかるため重くする） */
+export const DEFAULT_RANKING_WEIGHTS: IRankingWeights = {
+  prayers: 1,
+  guidance: 2,
+  views: 0.1,
+  recency: 5,
+  engagement: 1.5
+};
+
+/** 1日のミリ秒 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** ランキングの期間 */
+export type RankingPeriodKey = 'eternal' | 'seasonal' | 'monthly' | 'weekly';
+
+/** 表示・写しを取る期間 */
+export const RANKING_PERIOD_KEYS: readonly RankingPeriodKey[] = ['eternal', 'seasonal', 'monthly', 'weekly'];
+
+/**
+ * 期間の定義
+ */
+export interface IRankingPeriodDefinition {
+  /** 対象となる供物の捧げられた日時の下限（null は全期間） */
+  readonly since: (now: Date) => Date | null;
+
+  /** 点数の半減期（日）。null は減衰させない */
+  readonly halfLifeDays: number | null;
+}
+
+/** 期間ごとの対象期間と半減期 */
+export const RANKING_PERIODS: Readonly<Record<RankingPeriodKey, IRankingPeriodDefinition>> = {
+  // 永久供物：累計（減衰なし）
+  eternal: { since: () => null, halfLifeDays: null },
+  // 季節供物：3ヶ月前から
+  seasonal: { since: (now) => new Date(now.getFullYear(), now.getMonth() - 3, now.getDate()), halfLifeDays: 30 },
+  // 月満供物：今月
+  monthly: { since: (now) => new Date(now.getFullYear(), now.getMonth(), 1), halfLifeDays: 10 },
+  // 七日供物：過去7日間
+  weekly: { since: (now) => new Date(now.getTime() - 7 * DAY_MS), halfLifeDays: 2 }
+};
+
+/**
+ * ランキングの1件
+ */
+export interface IOfferingRankingItem extends Omit<IRankingItem, 'offering'> {
+  readonly offering: Offering;
+
+  /** 前回の順位（前回の写しに含まれない場合は null） */
+  readonly previousRank: number | null;
+
+  /** 時間減衰の係数（0〜1、減衰なしは 1） */
+  readonly decay: number;
+
+  /** 点数の半減期（日）。null は減衰させない期間 */
+  readonly halfLifeDays: number | null;
+
+  /** ランキング種別 */
+  readonly type: RankingType;
+
+  /** 並び順の基準値（種別に応じた点数・件数・日時） */
+  readonly value: number;
+}
+
+/**
+ * 順位付けの設定
+ */
+export interface IRankOptions {
+  /** ランキング種別（省略時はトレンド） */
+  readonly type?: RankingType;
+
+  /** 基準日時 */
+  readonly now?: Date;
+
+  /** 点数の重み（省略時は既定値） */
+  readonly weights?: Partial<IRankingWeights>;
+
+  /** 前回の順位（供物ID → 順位） */
+  readonly previousRanks?: Readonly<Record<string, number>>;
+
+  /** 閲覧数の取得（省略時は 0） */
+  readonly getViews?: (offering: Offering) => number;
+
+  /** 上位何件まで返すか */
+  readonly limit?: number;
+}
+
+/**
+ * 点数の小数第1位への丸め
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * 時間減衰の係数（半減期ごとに半分）
+ */
+export function decayFactor(createdAt: Date, now: Date, halfLifeDays: number | null): number {
+  if (halfLifeDays === null) return 1;
+  const ageDays = Math.max(0, now.getTime() - createdAt.getTime()) / DAY_MS;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * 供物の点数と内訳
+ * 内訳の合計が点数となるよう、各要素に時間減衰を掛けたうえで加算する
+ * 人気（popular）は期間に関わらず減衰させない
+ */
+export function scoreOffering(
+  offering: Offering,
+  period: RankingPeriodKey,
+  options: Pick<IRankOptions, 'type' | 'now' | 'weights' | 'getViews'> = {}
+): Pick<IOfferingRankingItem, 'score' | 'scoreBreakdown' | 'decay' | 'halfLifeDays'> {
+  const weights = { ...DEFAULT_RANKING_WEIGHTS, ...options.weights };
+  const halfLifeDays = options.type === 'popular' ? null : RANKING_PERIODS[period].halfLifeDays;
+  const decay = decayFactor(offering.createdAt, options.now ?? new Date(), halfLifeDays);
+
+  const participants = new Set([...offering.likedBy, ...offering.comments.map(c => c.authorId)]);
+  participants.delete(offering.authorId);
+
+  const scoreBreakdown: IRankingItem['scoreBreakdown'] = {
+    prayers: round(offering.likes * weights.prayers * decay),
+    guidance: round(offering.comments.length * weights.guidance * decay),
+    views: round((options.getViews?.(offering) ?? 0) * weights.views * decay),
+    // 減衰しない期間では新しさを加点しない
+    recency: halfLifeDays === null ? 0 : round(weights.recency * decay),
+    engagement: round(participants.size * weights.engagement * decay)
+  };
+  const score = round(Object.values(scoreBreakdown).reduce((sum, value) => sum + value, 0));
+
+  return { score, scoreBreakdown, decay, halfLifeDays };
+}
+
+/**
+ * 種別ごとの並び順の基準値
+ */
+function rankingValue(type: RankingType, offering: Offering, score: number, views: number): number {
+  switch (type) {
+    case 'trending':
+    case 'popular': return score;
+    case 'recent': return offering.createdAt.getTime();
+    case 'prayers': return offering.likes;
+    case 'guidance': return offering.comments.length;
+    case 'views': return views;
+  }
+}
+
+/**
+ * 期間のランキング
+ * 種別に応じた基準値の高い順（同値は新しい順）に並べ、前回の順位との変動を付ける
+ */
+export function rankOfferings(offerings: Offering[], period: RankingPeriodKey, options: IRankOptions = {}): IOfferingRankingItem[] {
+  const type = options.type ?? 'trending';
+  const now = options.now ?? new Date();
+  const since = RANKING_PERIODS[period].since(now);
+
+  const ranked = offerings
+    .filter(offering => !since || offering.createdAt >= since)
+    .map(offering => {
+      const scored = scoreOffering(offering, period, { ...options, type, now });
+      const value = rankingValue(type, offering, scored.score, options.getViews?.(offering) ?? 0);
+      return { offering, ...scored, type, value };
+    })
+    .sort((a, b) => b.value - a.value || b.offering.createdAt.getTime() - a.offering.createdAt.getTime())
+    .slice(0, options.limit);
+
+  return ranked.map((item, index) => {
+    const rank = index + 1;
+    const previousRank = options.previousRanks?.[item.offering.id] ?? null;
+    return {
+      ...item,
+      rank,
+      previousRank,
+      // 正の値は順位が上がったことを示す
+      rankChange: previousRank === null ? 0 : previousRank - rank
+    };
+  });
+}
+
+/**
+ * 写しの区分（種別・期間・所属ごとに順位を比べる）
+ * @param department 所属（null は全所属）
+ */
+export function rankingScope(type: RankingType, period: RankingPeriodKey, department: string | null = null): string {
+  return `${type}:${period}:${department ?? 'all'}`;
+}
+
+/**
+ * 所属の選択肢
+ */
+export interface IRankingDepartment {
+  /** 魂紋に保存する値 */
+  readonly value: string;
+
+  /** 表示名 */
+  readonly label: string;
+}
+
+/**
+ * 魂紋の所属が選択中の所属か（写し絵の編集で表示名が記された所属も含める）
+ */
+export function matchesDepartment(userDepartment: string | null | undefined, department: IRankingDepartment): boolean {
+  return !!userDepartment && (userDepartment === department.value || userDepartment === department.label);
+}
+
+/** 写しに記録する順位の件数（表示する上位の外から上がった供物にも変動を示すため、表示件数より多く取る） */
+export const RANKING_SNAPSHOT_LIMIT = 100;
+
+/**
+ * 順位の写し
+ */
+export interface IRankingSnapshot {
+  /** 写しの区分（rankingScope） */
+  readonly scope: string;
+
+  /** 写しを取った日（YYYY-MM-DD、写しを取った処理の時刻の日付。その日のうちは取り直した写しで上書きする） */
+  readonly takenOn: string;
+
+  /** 供物ID → 順位 */
+  readonly ranks: Readonly<Record<string, number>>;
+}
+
+/**
+ * 区分の現在の順位
+ */
+export interface IRankingStanding {
+  /** 最新の写し（現在の順位。写しがなければ null） */
+  readonly current: IRankingSnapshot | null;
+
+  /** 最新の写しより前の日の写し（順位の変動の比較に使用。写しがなければ null） */
+  readonly previous: IRankingSnapshot | null;
+}
+
+/**
+ * 写しを取る区分
+ */
+export interface IRankingSnapshotOptions {
+  /** ランキング種別 */
+  readonly types: readonly RankingType[];
+
+  /** 所属の選択肢（全所属の区分は常に含める） */
+  readonly departments: readonly IRankingDepartment[];
+
+  /** 作者の所属の取得 */
+  readonly departmentOf: (authorId: string) => string | null | undefined;
+
+  /** 基準日時 */
+  readonly now?: Date;
+}
+
+/**
+ * 日ごとの順位の写し
+ * 種別・期間・所属の区分ごとに、渡された供物の上位の順位を記録する
+ * サーバー側では ranking-snapshots 関数が全員に公開中の供物から定期的に取り直し、画面は最新の写しを現在の順位として示す
+ */
+export function takeRankingSnapshots(offerings: Offering[], options: IRankingSnapshotOptions): IRankingSnapshot[] {
+  const now = options.now ?? new Date();
+  const takenOn = toDayKey(now);
+  const departments = [null, ...options.departments];
+
+  return options.types.flatMap(type =>
+    departments.flatMap(department => {
+      const scoped = department
+        ? offerings.filter(offering => matchesDepartment(options.departmentOf(offering.authorId), department))
+        : offerings;
+      return RANKING_PERIOD_KEYS.map(period => ({
+        scope: rankingScope(type, period, department?.value ?? null),
+        takenOn,
+        ranks: Object.fromEntries(
+          rankOfferings(scoped, period, { type, now, getViews: offering => offering.views, limit: RANKING_SNAPSHOT_LIMIT })
+            .map(item => [item.offering.id, item.rank])
+        )
+      }));
+    })
+  );
+}
+
+/**
+ * 写しの上位の供物ID（順位の高い順）
+ */
+export function topRankedIds(snapshot: IRankingSnapshot | null, limit: number): string[] {
+  return Object.entries(snapshot?.ranks ?? {})
+    .sort(([, a], [, b]) => a - b)
+    .slice(0, limit)
+    .map(([offeringId]) => offeringId);
+}
+
+/**
+ * 写しの順位によるランキング
+ * 順位は写しに従い、点数の内訳・基準値は読み込んだ供物の現在の値から求める
+ * 写しにあって渡されなかった供物（取り下げ済みなど）は除く
+ */
+export function rankFromStanding(
+  offerings: Offering[],
+  standing: IRankingStanding,
+  period: RankingPeriodKey,
+  options: Pick<IRankOptions, 'type' | 'now' | 'weights' | 'getViews' | 'limit'> = {}
+): IOfferingRankingItem[] {
+  const type = options.type ?? 'trending';
+  const now = options.now ?? new Date();
+  const offeringById = new Map(offerings.map(offering => [offering.id, offering]));
+
+  return topRankedIds(standing.current, options.limit ?? RANKING_SNAPSHOT_LIMIT).flatMap(offeringId => {
+    const offering = offeringById.get(offeringId);
+    if (!offering) return [];
+    const scored = scoreOffering(offering, period, { ...options, type, now });
+    const rank = standing.current?.ranks[offeringId] ?? 0;
+    const previousRank = standing.previous?.ranks[offeringId] ?? null;
+    return [{
+      offering,
+      ...scored,
+      type,
+      value: rankingValue(type, offering, scored.score, options.getViews?.(offering) ?? 0),
+      rank,
+      previousRank,
+      // 正の値は順位が上がったことを示す
+      rankChange: previousRank === null ? 0 : previousRank - rank
+    }];
+  });
+}
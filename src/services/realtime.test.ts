@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IWebSocketMessage } from '../types/enterprise';
+import { RealtimeClient, type RealtimeMessage } from './realtime';
+
+/** 送受信を記録する WebSocket の代役（接続・受信・切断はテストから起こす） */
+class FakeSocket {
+  static readonly OPEN = 1;
+
+  /** 作られた接続（古い順） */
+  static instances: FakeSocket[] = [];
+
+  readonly url: string;
+  readyState = 0;
+  closedWith: number | null = null;
+  readonly sent: IWebSocketMessage[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code = 1000): void {
+    this.closedWith = code;
+    this.readyState = 3;
+  }
+
+  /** サーバーが接続を受け入れる */
+  accept(): void {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  /** サーバーからの受信 */
+  receive(data: unknown): void {
+    this.onmessage?.({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+  }
+
+  /** サーバー側からの切断 */
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+/** 最後に作られた接続 */
+const latestSocket = (): FakeSocket => FakeSocket.instances[FakeSocket.instances.length - 1];
+
+/** 祈念のメッセージ */
+const prayer = (messageId: string): IWebSocketMessage => ({
+  type: 'prayer',
+  payload: { offeringId: 'o1', userId: 'user-b', liked: true },
+  messageId,
+  timestamp: '2025-01-10T12:00:00.000Z',
+  senderId: 'user-b',
+});
+
+describe('リアルタイム通信', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('間隔ごとにハートビートを送り、間隔の2倍の間受信がなければ切り離して再接続する', () => {
+    const client = new RealtimeClient({ url: 'ws://localhost', senderId: 'user-a', heartbeatIntervalMs: 1000 });
+    client.connect();
+    const socket = latestSocket();
+    socket.accept();
+    expect(client.getStatus()).toBe('open');
+
+    vi.advanceTimersByTime(1000);
+    expect(socket.sent.map((message) => [message.type, message.senderId])).toEqual([['heartbeat', 'user-a']]);
+
+    // 受信があれば応答待ちの起点を更新する
+    vi.advanceTimersByTime(500);
+    socket.receive(prayer('m1'));
+    vi.advanceTimersByTime(2000);
+    expect(socket.closedWith).toBeNull();
+    expect(socket.sent).toHaveLength(3);
+
+    vi.advanceTimersByTime(1000);
+    expect(socket.closedWith).toBe(4000);
+    expect(client.getStatus()).toBe('reconnecting');
+
+    // 切り離した接続にはハートビートを送らない
+    vi.advanceTimersByTime(1000);
+    expect(socket.sent).toHaveLength(3);
+    client.disconnect();
+  });
+
+  it('再接続の待機時間は試行ごとに倍にして上限で止め、接続できたら初回の待機時間に戻す', () => {
+    // ゆらぎを最小（待機時間の半分）に固定する
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const client = new RealtimeClient({ url: 'ws://localhost', reconnectBaseDelayMs: 1000, reconnectMaxDelayMs: 4000 });
+    client.connect();
+
+    /** 切断から次の接続までの待機時間 */
+    const reconnectDelay = (): number => {
+      const count = FakeSocket.instances.length;
+      latestSocket().drop();
+      let elapsed = 0;
+      while (FakeSocket.instances.length === count) {
+        vi.advanceTimersByTime(100);
+        elapsed += 100;
+      }
+      return elapsed;
+    };
+
+    expect([reconnectDelay(), reconnectDelay(), reconnectDelay(), reconnectDelay()]).toEqual([500, 1000, 2000, 2000]);
+    expect(client.getStatus()).toBe('reconnecting');
+
+    latestSocket().accept();
+    expect(reconnectDelay()).toBe(500);
+
+    client.disconnect();
+    vi.advanceTimersByTime(10_000);
+    expect(client.getStatus()).toBe('closed');
+    expect(latestSocket().closedWith).toBe(1000);
+  });
+
+  it('同じ messageId のメッセージと自分が送ったメッセージの反響は購読者へ渡さない', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const client = new RealtimeClient({ url: 'ws://localhost', senderId: 'user-a' });
+    const received: RealtimeMessage[] = [];
+    client.subscribe((message) => received.push(message));
+    client.connect();
+    const socket = latestSocket();
+
+    expect(client.publish('notification', { userId: 'user-b' })).toBe(false);
+    socket.accept();
+    expect(client.publish('notification', { userId: 'user-b' })).toBe(true);
+    const [published] = socket.sent;
+
+    socket.receive(prayer('m1'));
+    socket.receive(prayer('m1'));
+    socket.receive(published);
+    socket.receive({ ...prayer('m2'), type: 'heartbeat' });
+    socket.receive('not json');
+
+    expect(received.map((message) => message.messageId)).toEqual(['m1']);
+    expect(warn).toHaveBeenCalledTimes(1);
+    client.disconnect();
+  });
+});
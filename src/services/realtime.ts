@@ -0,0 +1,337 @@
+/**
+ * 供物台（Kumotsudai）- リアルタイム通信
+ *
+ * `IWebSocketMessage` 形式のメッセージで、他の参拝者の祈念・導き・便りを
+ * 開いている全てのセッションへ即時に伝える WebSocket クライアント。
+ * 接続先は `AppConfigManager.wsEndpoint`（開発時は scripts/realtime-server.ts）。
+ *
+ * 機能:
+ * - ハートビートによる接続監視（応答のない接続は切断して再接続）
+ * - 指数バックオフ（ゆらぎ付き）による再接続
+ * - messageId による重複メッセージの破棄（自分が送ったメッセージの反響を含む）
+ * - 種類ごとに型付けされたメッセージの購読
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { Comment } from '../types/domain';
+import type { IWebSocketMessage } from '../types/enterprise';
+
+/**
+ * 供物への祈念（liked が false の場合は取り消し）
+ */
+export interface IPrayerPayload {
+  readonly offeringId: string;
+  readonly userId: string;
+  readonly liked: boolean;
+}
+
+/**
+ * 供物への導き（日時は ISO 8601 文字列で送る）
+ */
+export interface IGuidancePayload {
+  readonly offeringId: string;
+  readonly comment: Omit<Comment, 'createdAt'> & { readonly createdAt: string };
+}
+
+/**
+ * 便りの到着（受信者に便りの再読み込みを促す）
+ */
+export interface INotificationPayload {
+  readonly userId: string;
+}
+
+/** メッセージの種類とペイロードの対応 */
+interface IRealtimePayloads {
+  prayer: IPrayerPayload;
+  guidance: IGuidancePayload;
+  notification: INotificationPayload;
+}
+
+/** 購読できるメッセージの種類 */
+export type RealtimeEventType = keyof IRealtimePayloads;
+
+/** 購読者へ渡すメッセージ（種類ごとにペイロードを型付け） */
+export type RealtimeMessage = {
+  [K in RealtimeEventType]: Omit<IWebSocketMessage, 'type' | 'payload'> & {
+    readonly type: K;
+    readonly payload: IRealtimePayloads[K];
+  };
+}[RealtimeEventType];
+
+/** 接続状態 */
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * クライアント設定
+ */
+export interface IRealtimeClientOptions {
+  /** 接続先（ws:// または wss://） */
+  readonly url: string;
+
+  /** 送信者ID（降霊中の魂紋） */
+  readonly senderId?: string;
+
+  /** ハートビートの送信間隔（この2倍の間受信がなければ再接続） */
+  readonly heartbeatIntervalMs?: number;
+
+  /** 再接続の初回待機時間 */
+  readonly reconnectBaseDelayMs?: number;
+
+  /** 再接続の最大待機時間 */
+  readonly reconnectMaxDelayMs?: number;
+}
+
+/** 重複判定のために覚えておく messageId の件数 */
+const SEEN_MESSAGE_LIMIT = 500;
+
+/** ハートビート応答待ちの切断コード（アプリ定義の範囲） */
+const HEARTBEAT_TIMEOUT_CODE = 4000;
+
+/**
+ * 受信データの検証
+ */
+function parseMessage(data: unknown): IWebSocketMessage | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data) as Partial<IWebSocketMessage> | null;
+    if (!message || typeof message.type !== 'string' || typeof message.messageId !== 'string') return null;
+    return message as IWebSocketMessage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * リアルタイム通信クライアント
+ */
+export class RealtimeClient {
+  /** 接続先 */
+  private readonly url: string;
+
+  /** 送信者ID */
+  private readonly senderId?: string;
+
+  /** ハートビートの送信間隔 */
+  private readonly heartbeatIntervalMs: number;
+
+  /** 再接続の初回待機時間 */
+  private readonly reconnectBaseDelayMs: number;
+
+  /** 再接続の最大待機時間 */
+  private readonly reconnectMaxDelayMs: number;
+
+  private socket: WebSocket | null = null;
+  private status: RealtimeStatus = 'idle';
+  private stopped = true;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastReceivedAt = 0;
+
+  /** 受信・送信済みの messageId（挿入順に古いものから破棄） */
+  private readonly seenMessageIds = new Set<string>();
+
+  private readonly listeners = new Set<(message: RealtimeMessage) => void>();
+  private readonly statusListeners = new Set<(status: RealtimeStatus) => void>();
+
+  constructor(options: IRealtimeClientOptions) {
+    this.url = options.url;
+    this.senderId = options.senderId;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 25_000;
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? 1_000;
+    this.reconnectMaxDelayMs = options.reconnectMaxDelayMs ?? 30_000;
+  }
+
+  /**
+   * 接続の開始（切断されても disconnect まで再接続を続ける）
+   */
+  public connect(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.reconnectAttempts = 0;
+    this.open();
+  }
+
+  /**
+   * 接続の終了
+   */
+  public disconnect(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopHeartbeat();
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(1000);
+    this.setStatus('closed');
+  }
+
+  /**
+   * メッセージの送信
+   * @returns 送信できたか（未接続の場合は送らずに破棄する）
+   */
+  public publish<K extends RealtimeEventType>(type: K, payload: IRealtimePayloads[K]): boolean {
+    const messageId = crypto.randomUUID();
+    // サーバーから戻ってきた自分のメッセージは二重に適用しない
+    this.remember(messageId);
+    return this.send({ type, payload, messageId, timestamp: new Date().toISOString(), senderId: this.senderId });
+  }
+
+  /**
+   * メッセージの購読
+   * @returns 購読の解除
+   */
+  public subscribe(listener: (message: RealtimeMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 接続状態の購読
+   * @returns 購読の解除
+   */
+  public onStatusChange(listener: (status: RealtimeStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 現在の接続状態
+   */
+  public getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  private open(): void {
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('リアルタイム接続失敗:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.lastReceivedAt = Date.now();
+      this.startHeartbeat();
+      this.setStatus('open');
+    };
+    socket.onmessage = (event) => this.handleMessage(event.data);
+    socket.onclose = () => this.handleClose(socket);
+  }
+
+  // 切断時の処理（置き換え済みの接続からの通知は無視する）
+  private handleClose(socket: WebSocket): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+    this.stopHeartbeat();
+    if (!this.stopped) this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    // 待機時間は試行ごとに倍（上限あり）とし、同時に再接続が集中しないよう半分までゆらがせる
+    const delay = Math.min(this.reconnectMaxDelayMs, this.reconnectBaseDelayMs * 2 ** this.reconnectAttempts);
+    const jittered = delay / 2 + Math.random() * (delay / 2);
+    this.reconnectAttempts += 1;
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.open();
+    }, jittered);
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      const socket = this.socket;
+      if (!socket) return;
+
+      // 応答のない接続は閉じるのを待たずに切り離して再接続する
+      if (Date.now() - this.lastReceivedAt > this.heartbeatIntervalMs * 2) {
+        socket.close(HEARTBEAT_TIMEOUT_CODE, 'heartbeat timeout');
+        this.handleClose(socket);
+        return;
+      }
+
+      this.send({
+        type: 'heartbeat',
+        payload: null,
+        messageId: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        senderId: this.senderId
+      });
+    }, this.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private send(message: IWebSocketMessage): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  private handleMessage(data: unknown): void {
+    // ハートビートの応答に限らず、受信があれば接続は生きている
+    this.lastReceivedAt = Date.now();
+
+    const message = parseMessage(data);
+    if (!message) {
+      console.warn('リアルタイムメッセージの形式が不正です:', data);
+      return;
+    }
+    if (this.seenMessageIds.has(message.messageId)) return;
+    this.remember(message.messageId);
+
+    switch (message.type) {
+      case 'heartbeat':
+        return;
+      case 'error':
+        console.warn('リアルタイムサーバーのエラー:', message.payload);
+        return;
+      case 'prayer':
+      case 'guidance':
+      case 'notification':
+        for (const listener of this.listeners) {
+          listener(message as RealtimeMessage);
+        }
+        return;
+    }
+  }
+
+  private remember(messageId: string): void {
+    this.seenMessageIds.add(messageId);
+    if (this.seenMessageIds.size > SEEN_MESSAGE_LIMIT) {
+      const oldest = this.seenMessageIds.values().next().value;
+      if (oldest !== undefined) this.seenMessageIds.delete(oldest);
+    }
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    for (const listener of this.statusListeners) {
+      listener(status);
+    }
+  }
+}
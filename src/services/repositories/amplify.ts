@@ -0,0 +1,1235 @@
+/**
+ * 供物台（Kumotsudai）- Amplify リポジトリ実装
+ *
+ * Amplify Data（AppSync + DynamoDB）と Cognito を用いたリポジトリ実装。
+ * 本番・ステージング環境および Amplify サンドボックスで使用する。
+ *
+ * 機能:
+ * - 供物・導き・祈念・魂紋の一覧取得（ページング全件取得）
+ * - 魂紋の統計値の取得（data-events 関数が書き込んだ値を offering-reader の問い合わせから読む）
+ * - 他の魂紋の供物の取得（閲覧可否を確かめる offering-reader の問い合わせ）
+ * - 供物・導き・魂紋の作成
+ * - 供物の改訂（改訂履歴の保存）・秘蔵・取り下げ
+ * - 下書きの保存・奉納
+ * - 供物の題名・本文からのタグの抽出
+ * - 供物の公開範囲（全員・縁者のみ）の保存
+ * - 祈念の付与・取り消し（供物・導き）
+ * - 供物の閲覧の記録（魂紋・供物・日ごとに1件）
+ * - 導きの種類・返信（スレッド）
+ * - 便り（アプリ内通知）の取得・既読化
+ * - 順位の写し（ranking-snapshots 関数が定期的に書き直す）の取得
+ * - 縁（フォロー）の結びと解き、縁者・結縁先の取得
+ * - Cognito による降霊・刻印（メール確認）・セッション復元・ユーザー属性の取得（Amplify v6 モジュラー API）
+ * - 結界文の変更・再設定
+ * - 二段階認証（TOTP）の登録・降霊時の検証
+ * - 供物の添付画像・魂紋の画像の保存（Amplify Storage）
+ *
+ * @version 1.2.0
+ * @author 供物台開発チーム
+ */
+
+import {
+  autoSignIn,
+  confirmResetPassword,
+  confirmSignIn,
+  confirmSignUp,
+  fetchAuthSession,
+  fetchMFAPreference,
+  fetchUserAttributes,
+  getCurrentUser,
+  resendSignUpCode,
+  resetPassword,
+  setUpTOTP,
+  signIn,
+  signOut,
+  signUp,
+  updateMFAPreference,
+  updatePassword,
+  verifyTOTPSetup,
+} from 'aws-amplify/auth';
+import { generateClient } from 'aws-amplify/data';
+import { getUrl, remove, uploadData } from 'aws-amplify/storage';
+import type { Schema } from '../../../amplify/data/resource';
+import type { AppNotification, Comment, Follow, Offering, OfferingRevision, SavedSearch, User } from '../../types/domain';
+import type { GuidanceType, IApiResponse, ICursorPage, OfferingStatus } from '../../types/enterprise';
+import { LoggerService } from '../logger';
+import { extractOfferingTags } from '../mentions';
+import type { IRankingSnapshot, IRankingStanding } from '../ranking';
+import {
+  AVATAR_SIZES,
+  avatarImagePath,
+  buildCursorPage,
+  decodePageCursor,
+  newAvatarKey,
+  toApiResponse,
+  type IAuthRepository,
+  type IAuthSession,
+  type IAuthUserAttributes,
+  type ICommentRepository,
+  type IFollowRepository,
+  type IMediaRepository,
+  type INotificationRepository,
+  type IOfferingPageRequest,
+  type IOfferingRepository,
+  type IRankingSnapshotRepository,
+  type IRepositories,
+  type ISavedSearchRepository,
+  type ITotpSetup,
+  type IUserRepository,
+  type NewAvatarUpload,
+  type NewComment,
+  type NewImageUpload,
+  type NewOffering,
+  type NewSavedSearch,
+  type NewUserProfile,
+  type OfferingDraftUpdate,
+  type OfferingUpdate,
+  type SignInResult,
+  type UserProfileUpdate,
+} from './types';
+
+/** 認証アプリに表示する発行者名 */
+const TOTP_ISSUER = '供物台';
+
+/** 画像の表示用 URL の有効期間（秒） */
+const MEDIA_URL_EXPIRES_IN_SECONDS = 60 * 60;
+
+type DataClient = ReturnType<typeof generateClient<Schema>>;
+type OfferingRecord = Pick<
+  Schema['Offering']['type'],
+  'id' | 'title' | 'content' | 'author' | 'authorId' | 'genres' | 'imagePaths' | 'tags' | 'visibility' | 'status' | 'createdAt' | 'editedAt'
+>;
+type VisibleOfferingRecord = Schema['VisibleOffering']['type'];
+type OfferingRevisionRecord = Schema['VisibleRevision']['type'];
+type UserStatsRecord = Schema['UserStats']['type'];
+type CommentRecord = Pick<
+  Schema['Comment']['type'],
+  'id' | 'authorId' | 'author' | 'content' | 'guidanceType' | 'parentId' | 'createdAt'
+>;
+type GuidanceTypeKey = NonNullable<Schema['Comment']['type']['guidanceType']>;
+type NotificationRecord = Pick<
+  Schema['Notification']['type'],
+  'id' | 'userId' | 'type' | 'title' | 'content' | 'offeringId' | 'guidanceId' | 'actorId' | 'isRead' | 'createdAt' | 'readAt'
+>;
+type SavedSearchRecord = Pick<
+  Schema['SavedSearch']['type'],
+  'id' | 'userId' | 'name' | 'query' | 'genre' | 'author' | 'dateRange' | 'minLikes' | 'createdAt'
+>;
+type FollowRecord = Pick<Schema['Follow']['type'], 'followerId' | 'followeeId' | 'createdAt'>;
+type RankingSnapshotRecord = Pick<Schema['RankingSnapshot']['type'], 'scope' | 'takenOn' | 'ranks'>;
+type UserProfileRecord = Pick<
+  Schema['UserProfile']['type'],
+  | 'userId'
+  | 'name'
+  | 'email'
+  | 'department'
+  | 'age'
+  | 'avatar'
+  | 'joinedAt'
+>;
+
+/** 導きの種類とスキーマ上の列挙値の対応 */
+const GUIDANCE_TYPE_KEYS: Record<GuidanceType, GuidanceTypeKey> = {
+  共感: 'empathy',
+  応援: 'support',
+  感謝: 'gratitude',
+  質問: 'question',
+  提案: 'suggestion',
+  学び: 'learning',
+};
+
+/** ページング付き一覧取得の1ページ分 */
+interface IListPage<T> {
+  data: T[];
+  nextToken?: string | null;
+  errors?: ReadonlyArray<{ message: string }>;
+}
+
+/** 単一レコード操作の結果 */
+interface IMutationResult<T> {
+  data: T | null;
+  errors?: ReadonlyArray<{ message: string; errorType?: string }>;
+}
+
+// ============================================================================
+// 共通ヘルパー
+// ============================================================================
+
+/** Amplify Data クライアント（Amplify.configure 後に遅延生成） */
+let sharedClient: DataClient | null = null;
+
+/**
+ * Amplify Data クライアント取得
+ */
+function getClient(): DataClient {
+  if (!sharedClient) {
+    sharedClient = generateClient<Schema>();
+  }
+
+  return sharedClient;
+}
+
+/**
+ * nextToken を辿って全ページを取得
+ * @param fetchPage 1ページ分の取得関数
+ * @returns 全レコード
+ */
+async function listAll<T>(
+  fetchPage: (nextToken: string | null | undefined) => Promise<IListPage<T>>
+): Promise<T[]> {
+  const items: T[] = [];
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const page: IListPage<T> = await fetchPage(nextToken);
+    if (page.errors && page.errors.length > 0) {
+      throw new Error(page.errors.map((error) => error.message).join(', '));
+    }
+    items.push(...page.data);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return items;
+}
+
+/**
+ * 操作結果からレコードを取り出す
+ * エラーまたは空の結果は例外として扱う
+ * @param result 操作結果
+ * @param operation 操作名（ログ用）
+ * @returns レコード
+ */
+function unwrap<T>(result: IMutationResult<T>, operation: string): T {
+  const logger = LoggerService.getInstance();
+
+  if (result.errors && result.errors.length > 0) {
+    const message = result.errors.map((error) => error.message).join(', ');
+    logger.error(`${operation}に失敗しました`, { errors: result.errors });
+    throw new Error(message);
+  }
+
+  if (!result.data) {
+    logger.error(`${operation}の結果が空です`);
+    throw new Error(`${operation}の結果が空です`);
+  }
+
+  return result.data;
+}
+
+/**
+ * 供物レコードをフロントエンド型に変換
+ */
+function toOffering(record: OfferingRecord, comments: Comment[], likedBy: string[], views: number = 0): Offering {
+  return {
+    id: record.id,
+    title: record.title,
+    content: record.content,
+    author: record.author,
+    authorId: record.authorId,
+    genres: toGenres(record.genres),
+    imagePaths: toImagePaths(record.imagePaths),
+    tags: toTags(record),
+    visibility: record.visibility ?? 'public',
+    status: record.status ?? 'published',
+    createdAt: new Date(record.createdAt),
+    editedAt: record.editedAt ? new Date(record.editedAt) : undefined,
+    likes: likedBy.length,
+    comments,
+    likedBy,
+    views,
+  };
+}
+
+/**
+ * offering-reader が返す供物をフロントエンド型に変換
+ * 列挙値は文字列で返るため、Offering・Comment のレコード型に読み替える
+ */
+function fromVisibleOffering(record: VisibleOfferingRecord): Offering {
+  const comments = record.comments.map((comment) =>
+    toComment({ ...comment, guidanceType: comment.guidanceType as GuidanceTypeKey | null }, [...comment.likedBy])
+  );
+
+  return toOffering(
+    {
+      ...record,
+      visibility: record.visibility as OfferingRecord['visibility'],
+      status: record.status as OfferingRecord['status'],
+    },
+    comments,
+    [...record.likedBy],
+    record.views
+  );
+}
+
+/**
+ * ジャンル配列の正規化（null 要素を除く）
+ */
+function toGenres(genres: ReadonlyArray<string | null> | null | undefined): string[] {
+  return (genres ?? []).filter((genre): genre is string => !!genre);
+}
+
+/**
+ * 添付画像のパス配列の正規化（null 要素を除く）
+ */
+function toImagePaths(paths: ReadonlyArray<string | null> | null | undefined): string[] {
+  return (paths ?? []).filter((path): path is string => !!path);
+}
+
+/**
+ * タグ配列の正規化（タグの導入前のレコードは題名・本文から抽出する）
+ */
+function toTags(record: OfferingRecord): string[] {
+  if (!record.tags) return extractOfferingTags(record);
+  return record.tags.filter((tag): tag is string => !!tag);
+}
+
+/**
+ * 改訂履歴レコードをフロントエンド型に変換
+ */
+function toRevision(record: OfferingRevisionRecord): OfferingRevision {
+  return {
+    id: record.id,
+    offeringId: record.offeringId,
+    editorId: record.editorId,
+    title: record.title,
+    content: record.content,
+    genres: toGenres(record.genres),
+    revisedAt: new Date(record.revisedAt),
+  };
+}
+
+/**
+ * 導きレコードをフロントエンド型に変換
+ */
+function toComment(record: CommentRecord, likedBy: string[] = []): Comment {
+  const type = (Object.keys(GUIDANCE_TYPE_KEYS) as GuidanceType[])
+    .find((key) => GUIDANCE_TYPE_KEYS[key] === record.guidanceType);
+
+  return {
+    id: record.id,
+    authorId: record.authorId,
+    author: record.author,
+    content: record.content,
+    type,
+    parentId: record.parentId ?? undefined,
+    createdAt: new Date(record.createdAt),
+    likes: likedBy.length,
+    likedBy,
+  };
+}
+
+/**
+ * 便りレコードをフロントエンド型に変換
+ * 種類が未設定のレコードはお知らせとして扱う
+ */
+function toNotification(record: NotificationRecord): AppNotification {
+  return {
+    id: record.id,
+    userId: record.userId,
+    type: record.type ?? 'system_announcement',
+    title: record.title,
+    content: record.content,
+    relatedData: {
+      offeringId: record.offeringId ?? undefined,
+      guidanceId: record.guidanceId ?? undefined,
+      userId: record.actorId ?? undefined,
+    },
+    isRead: record.isRead,
+    createdAt: new Date(record.createdAt),
+    readAt: record.readAt ? new Date(record.readAt) : undefined,
+  };
+}
+
+/**
+ * 魂紋レコードと統計値をフロントエンド型に変換
+ * 統計値は data-events 関数が公開中の供物のすべてから集計して書き込んだ値（未集計は 0）
+ */
+function toUser(record: UserProfileRecord, stats: UserStatsRecord | null | undefined): User {
+  return {
+    id: record.userId,
+    name: record.name,
+    email: record.email,
+    department: record.department ?? '',
+    age: record.age ?? '',
+    avatar: record.avatar ?? undefined,
+    joinedAt: new Date(record.joinedAt),
+    offeringCount: stats?.offeringCount ?? 0,
+    totalLikes: stats?.totalLikes ?? 0,
+    totalComments: stats?.totalComments ?? 0,
+    totalViews: stats?.totalViews ?? 0,
+  };
+}
+
+// ============================================================================
+// リポジトリ実装
+// ============================================================================
+
+/**
+ * Amplify 供物リポジトリ
+ */
+export class AmplifyOfferingRepository implements IOfferingRepository {
+  /**
+   * 公開中の供物の1ページの取得（新しい順）
+   * カーソルには listPublishedOfferings の nextToken を持たせる
+   */
+  public async listPage(request: IOfferingPageRequest): Promise<IApiResponse<ICursorPage<Offering>>> {
+    return toApiResponse('OFFERING_PAGE_FETCH_FAILED', async () => {
+      const cursor = decodePageCursor(request.cursor);
+      const result = await getClient().queries.listPublishedOfferings({
+        limit: request.limit,
+        nextToken: cursor?.position,
+      });
+      const page = unwrap(result, '公開中の供物の取得');
+
+      return buildCursorPage(page.items.map(fromVisibleOffering), request.limit, cursor, page.nextToken ?? null);
+    });
+  }
+
+  /**
+   * 作者の供物一覧の取得（新しい順、秘蔵中を含む）
+   * 見せてよい供物の判定は listVisibleOfferingsByAuthor（offering-reader）が行う
+   */
+  public async listByAuthor(authorId: string): Promise<Offering[]> {
+    const result = await getClient().queries.listVisibleOfferingsByAuthor({ authorId });
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(result.errors.map((error) => error.message).join(', '));
+    }
+
+    return (result.data ?? [])
+      .filter((record): record is VisibleOfferingRecord => !!record)
+      .map(fromVisibleOffering);
+  }
+
+  /**
+   * 供物の取得
+   * 存在しない・見せてよくない供物は getVisibleOffering（offering-reader）が null を返す
+   */
+  public async get(offeringId: string): Promise<Offering | null> {
+    const result = await getClient().queries.getVisibleOffering({ offeringId });
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(result.errors.map((error) => error.message).join(', '));
+    }
+
+    return result.data ? fromVisibleOffering(result.data) : null;
+  }
+
+  /**
+   * 供物の作成
+   */
+  public async create(offering: NewOffering): Promise<Offering> {
+    const result = await getClient().models.Offering.create({
+      title: offering.title,
+      content: offering.content,
+      author: offering.author,
+      authorId: offering.authorId,
+      genres: offering.genres,
+      imagePaths: offering.imagePaths,
+      tags: extractOfferingTags(offering),
+      visibility: offering.visibility,
+      status: 'published',
+      createdAt: new Date().toISOString(),
+    });
+
+    return toOffering(unwrap(result, '供物の作成'), [], []);
+  }
+
+  /**
+   * 作者の下書き一覧の取得（最後に保存した順）
+   */
+  public async listDrafts(authorId: string): Promise<Offering[]> {
+    const client = getClient();
+    const records = await listAll((nextToken) =>
+      client.models.Offering.listOfferingsByAuthor({ authorId }, { nextToken })
+    );
+
+    return records
+      .filter((record) => record.status === 'draft')
+      .map((record) => toOffering(record, [], []))
+      .sort((a, b) => (b.editedAt ?? b.createdAt).getTime() - (a.editedAt ?? a.createdAt).getTime());
+  }
+
+  /**
+   * 下書きの作成
+   */
+  public async createDraft(offering: NewOffering): Promise<Offering> {
+    const now = new Date().toISOString();
+    const result = await getClient().models.Offering.create({
+      title: offering.title,
+      content: offering.content,
+      author: offering.author,
+      authorId: offering.authorId,
+      genres: offering.genres,
+      imagePaths: offering.imagePaths,
+      tags: extractOfferingTags(offering),
+      visibility: offering.visibility,
+      status: 'draft',
+      createdAt: now,
+      editedAt: now,
+    });
+
+    return toOffering(unwrap(result, '下書きの作成'), [], []);
+  }
+
+  /**
+   * 下書きの保存
+   * editedAt を最後に保存した日時として使う
+   */
+  public async saveDraft(offeringId: string, changes: OfferingDraftUpdate): Promise<Offering> {
+    const result = await getClient().models.Offering.update({
+      id: offeringId,
+      title: changes.title,
+      content: changes.content,
+      genres: changes.genres,
+      imagePaths: changes.imagePaths,
+      tags: extractOfferingTags(changes),
+      visibility: changes.visibility,
+      editedAt: new Date().toISOString(),
+    });
+
+    return toOffering(unwrap(result, '下書きの保存'), [], []);
+  }
+
+  /**
+   * 下書きの奉納
+   * 一覧で新着として扱うため奉納日時を現在に改め、保存日時は消す
+   */
+  public async publishDraft(offeringId: string, changes: OfferingDraftUpdate): Promise<Offering> {
+    const result = await getClient().models.Offering.update({
+      id: offeringId,
+      title: changes.title,
+      content: changes.content,
+      genres: changes.genres,
+      imagePaths: changes.imagePaths,
+      tags: extractOfferingTags(changes),
+      visibility: changes.visibility,
+      status: 'published',
+      createdAt: new Date().toISOString(),
+      editedAt: null,
+    });
+
+    return toOffering(unwrap(result, '下書きの奉納'), [], []);
+  }
+
+  /**
+   * 供物の改訂
+   * 改める前の版を改訂履歴に保存してから本体を更新する
+   * 本体の更新に失敗した場合は、改めていない版の履歴が残らないよう保存した改訂履歴を削除する
+   */
+  public async update(offering: Offering, changes: OfferingUpdate): Promise<Offering> {
+    const client = getClient();
+    const revisedAt = new Date().toISOString();
+
+    const revision = unwrap(
+      await client.models.OfferingRevision.create({
+        offeringId: offering.id,
+        editorId: offering.authorId,
+        title: offering.title,
+        content: offering.content,
+        genres: offering.genres,
+        revisedAt,
+      }),
+      '改訂履歴の保存'
+    );
+
+    try {
+      const result = await client.models.Offering.update({
+        id: offering.id,
+        title: changes.title,
+        content: changes.content,
+        genres: changes.genres,
+        tags: extractOfferingTags(changes),
+        visibility: changes.visibility,
+        editedAt: revisedAt,
+      });
+
+      return toOffering(unwrap(result, '供物の改訂'), offering.comments, offering.likedBy, offering.views);
+    } catch (error) {
+      const rollback = await client.models.OfferingRevision.delete({ id: revision.id }).catch((rollbackError: unknown) => ({
+        errors: [{ message: String(rollbackError) }],
+      }));
+      if (rollback.errors && rollback.errors.length > 0) {
+        LoggerService.getInstance().error('改訂履歴の取り消しに失敗しました', { revisionId: revision.id, errors: rollback.errors });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 供物の状態変更
+   */
+  public async setStatus(offeringId: string, status: OfferingStatus): Promise<void> {
+    const result = await getClient().models.Offering.update({ id: offeringId, status });
+    unwrap(result, '供物の状態変更');
+  }
+
+  /**
+   * 改訂履歴の取得（古い順）
+   * 見せてよくない供物の履歴は listVisibleRevisions（offering-reader）が空で返す
+   */
+  public async listRevisions(offeringId: string): Promise<OfferingRevision[]> {
+    const result = await getClient().queries.listVisibleRevisions({ offeringId });
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(result.errors.map((error) => error.message).join(', '));
+    }
+
+    return (result.data ?? [])
+      .filter((record): record is OfferingRevisionRecord => !!record)
+      .map(toRevision);
+  }
+
+  /**
+   * 祈念の付与
+   * 主キーが重複する（祈念済みの）場合は作成が条件付き書き込みで弾かれるため、祈念済みとして扱う
+   */
+  public async addLike(offeringId: string, userId: string): Promise<void> {
+    const result = await getClient().models.Like.create({
+      offeringId,
+      userId,
+      createdAt: new Date().toISOString(),
+    });
+    if (result.errors?.some((error) => error.errorType?.includes('ConditionalCheckFailed'))) {
+      return;
+    }
+    unwrap(result, '祈念の付与');
+  }
+
+  /**
+   * 祈念の取り消し
+   * 祈念していない（削除対象がない）場合は何もしない
+   */
+  public async removeLike(offeringId: string, userId: string): Promise<void> {
+    const result = await getClient().models.Like.delete({ offeringId, userId });
+    if (result.errors?.some((error) => error.errorType?.includes('ConditionalCheckFailed'))) {
+      return;
+    }
+    unwrap(result, '祈念の取り消し');
+  }
+
+  /**
+   * 閲覧の記録
+   * 主キーが重複する（同じ日に記録済みの）場合は作成が条件付き書き込みで弾かれる
+   */
+  public async addView(offeringId: string, viewerId: string, viewedOn: string): Promise<boolean> {
+    const result = await getClient().models.OfferingView.create({
+      offeringId,
+      viewerId,
+      viewedOn,
+      createdAt: new Date().toISOString(),
+    });
+    if (result.errors?.some((error) => error.errorType?.includes('ConditionalCheckFailed'))) {
+      return false;
+    }
+    unwrap(result, '閲覧の記録');
+    return true;
+  }
+}
+
+/**
+ * Amplify 導きリポジトリ
+ */
+export class AmplifyCommentRepository implements ICommentRepository {
+  /**
+   * 供物に寄せられた導き一覧の取得（古い順、導きへの祈念を含む）
+   * 導きは供物と同じ閲覧可否に従うため、getVisibleOffering（offering-reader）から取り出す
+   */
+  public async listByOffering(offeringId: string): Promise<Comment[]> {
+    const result = await getClient().queries.getVisibleOffering({ offeringId });
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(result.errors.map((error) => error.message).join(', '));
+    }
+
+    return result.data ? fromVisibleOffering(result.data).comments : [];
+  }
+
+  /**
+   * 導きの作成
+   */
+  public async create(offeringId: string, comment: NewComment): Promise<Comment> {
+    const result = await getClient().models.Comment.create({
+      offeringId,
+      authorId: comment.authorId,
+      author: comment.author,
+      content: comment.content,
+      guidanceType: comment.type ? GUIDANCE_TYPE_KEYS[comment.type] : undefined,
+      parentId: comment.parentId,
+      createdAt: new Date().toISOString(),
+    });
+
+    return toComment(unwrap(result, '導きの作成'));
+  }
+
+  /**
+   * 導きへの祈念の付与
+   * 主キーが重複する（祈念済みの）場合は作成が条件付き書き込みで弾かれるため、何もしない
+   */
+  public async addLike(offeringId: string, commentId: string, userId: string): Promise<void> {
+    const result = await getClient().models.CommentPrayer.create({
+      commentId,
+      offeringId,
+      userId,
+      createdAt: new Date().toISOString(),
+    });
+    if (result.errors?.some((error) => error.errorType?.includes('ConditionalCheckFailed'))) {
+      return;
+    }
+    unwrap(result, '導きへの祈念の付与');
+  }
+
+  /**
+   * 導きへの祈念の取り消し
+   * 祈念していない（削除対象がない）場合は何もしない
+   */
+  public async removeLike(commentId: string, userId: string): Promise<void> {
+    const result = await getClient().models.CommentPrayer.delete({ commentId, userId });
+    if (result.errors?.some((error) => error.errorType?.includes('ConditionalCheckFailed'))) {
+      return;
+    }
+    unwrap(result, '導きへの祈念の取り消し');
+  }
+}
+
+/**
+ * Amplify 便りリポジトリ
+ */
+export class AmplifyNotificationRepository implements INotificationRepository {
+  /**
+   * 受信者宛ての便り一覧の取得（新しい順）
+   */
+  public async list(userId: string): Promise<AppNotification[]> {
+    const client = getClient();
+    const records = await listAll((nextToken) =>
+      client.models.Notification.listNotificationsByUser({ userId }, { sortDirection: 'DESC', nextToken })
+    );
+
+    return records.map(toNotification);
+  }
+
+  /**
+   * 便りの既読化
+   */
+  public async markRead(notificationIds: string[]): Promise<void> {
+    const client = getClient();
+    const readAt = new Date().toISOString();
+
+    await Promise.all(
+      notificationIds.map(async (id) => {
+        const result = await client.models.Notification.update({ id, isRead: true, readAt });
+        unwrap(result, '便りの既読化');
+      })
+    );
+  }
+}
+
+/**
+ * 保存した探求レコードをフロントエンド型に変換
+ * 未設定の絞り込み条件は絞り込まないものとして扱う
+ */
+function toSavedSearch(record: SavedSearchRecord): SavedSearch {
+  return {
+    id: record.id,
+    userId: record.userId,
+    name: record.name,
+    query: record.query,
+    filters: {
+      genre: record.genre ?? 'all',
+      author: record.author ?? '',
+      date: record.dateRange ?? 'all',
+      minLikes: record.minLikes ?? 0,
+    },
+    createdAt: new Date(record.createdAt),
+  };
+}
+
+/**
+ * Amplify 保存した探求リポジトリ
+ */
+export class AmplifySavedSearchRepository implements ISavedSearchRepository {
+  /**
+   * 魂紋の保存した探求の取得（新しい順）
+   */
+  public async listByUser(userId: string): Promise<SavedSearch[]> {
+    const client = getClient();
+    const records = await listAll((nextToken) =>
+      client.models.SavedSearch.listSavedSearchesByUser({ userId }, { sortDirection: 'DESC', nextToken })
+    );
+
+    return records.map(toSavedSearch);
+  }
+
+  /**
+   * 探求の保存
+   */
+  public async create(savedSearch: NewSavedSearch): Promise<SavedSearch> {
+    const result = await getClient().models.SavedSearch.create({
+      userId: savedSearch.userId,
+      name: savedSearch.name,
+      query: savedSearch.query,
+      genre: savedSearch.filters.genre,
+      author: savedSearch.filters.author,
+      dateRange: savedSearch.filters.date,
+      minLikes: savedSearch.filters.minLikes,
+      createdAt: new Date().toISOString(),
+    });
+
+    return toSavedSearch(unwrap(result, '探求の保存'));
+  }
+
+  /**
+   * 保存した探求の削除
+   */
+  public async delete(savedSearchId: string): Promise<void> {
+    const result = await getClient().models.SavedSearch.delete({ id: savedSearchId });
+    unwrap(result, '保存した探求の削除');
+  }
+}
+
+/**
+ * 順位の写しレコードをフロントエンド型に変換
+ * ranks は AWSJSON のため、文字列で返された場合は解析する
+ */
+function toRankingSnapshot(record: RankingSnapshotRecord): IRankingSnapshot {
+  return {
+    scope: record.scope,
+    takenOn: record.takenOn,
+    ranks: typeof record.ranks === 'string' ? JSON.parse(record.ranks) : record.ranks,
+  };
+}
+
+/**
+ * Amplify 順位の写しリポジトリ
+ */
+export class AmplifyRankingSnapshotRepository implements IRankingSnapshotRepository {
+  /**
+   * 区分の現在の順位の取得（新しい日から2件の写し）
+   */
+  public async getStanding(scope: string): Promise<IRankingStanding> {
+    const result = await getClient().models.RankingSnapshot.list({ scope, sortDirection: 'DESC', limit: 2 });
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(result.errors.map((error) => error.message).join(', '));
+    }
+
+    const [current, previous] = result.data.map(toRankingSnapshot);
+    return { current: current ?? null, previous: previous ?? null };
+  }
+}
+
+/**
+ * 縁レコードをフロントエンド型に変換
+ */
+function toFollow(record: FollowRecord): Follow {
+  return {
+    followerId: record.followerId,
+    followeeId: record.followeeId,
+    createdAt: new Date(record.createdAt),
+  };
+}
+
+/**
+ * 縁の新しい順への並べ替え
+ */
+function sortFollows(follows: Follow[]): Follow[] {
+  return follows.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Amplify 縁リポジトリ
+ */
+export class AmplifyFollowRepository implements IFollowRepository {
+  /**
+   * 縁者（フォロワー）の取得（新しい順）
+   */
+  public async listFollowers(userId: string): Promise<Follow[]> {
+    const client = getClient();
+    const records = await listAll((nextToken) =>
+      client.models.Follow.listFollowsByFollowee({ followeeId: userId }, { sortDirection: 'DESC', nextToken })
+    );
+
+    return records.map(toFollow);
+  }
+
+  /**
+   * 結縁先（フォロー中）の取得（新しい順）
+   * 主キーの並びは相手の ID 順のため、取得後に並べ替える
+   */
+  public async listFollowing(userId: string): Promise<Follow[]> {
+    const client = getClient();
+    const records = await listAll((nextToken) => client.models.Follow.list({ followerId: userId, nextToken }));
+
+    return sortFollows(records.map(toFollow));
+  }
+
+  /**
+   * 縁を結ぶ
+   * 結び済みの場合は条件付き書き込みが失敗するため、既存の縁を返す
+   */
+  public async follow(followerId: string, followeeId: string): Promise<Follow> {
+    const client = getClient();
+    const result = await client.models.Follow.create({
+      followerId,
+      followeeId,
+      createdAt: new Date().toISOString(),
+    });
+    if (result.errors?.some((error) => error.errorType?.includes('ConditionalCheckFailed'))) {
+      const existing = await client.models.Follow.get({ followerId, followeeId });
+      return toFollow(unwrap(existing, '縁の取得'));
+    }
+
+    return toFollow(unwrap(result, '縁の作成'));
+  }
+
+  /**
+   * 縁を解く
+   */
+  public async unfollow(followerId: string, followeeId: string): Promise<void> {
+    const result = await getClient().models.Follow.delete({ followerId, followeeId });
+    unwrap(result, '縁の削除');
+  }
+}
+
+/**
+ * Amplify 魂紋リポジトリ
+ */
+export class AmplifyUserRepository implements IUserRepository {
+  /**
+   * 魂紋一覧の取得
+   * 統計値はスキーマに持たせていないため、offering-reader の listUserStats から付ける
+   */
+  public async list(): Promise<User[]> {
+    const client = getClient();
+    const [records, statsResult] = await Promise.all([
+      listAll((nextToken) => client.models.UserProfile.list({ nextToken })),
+      client.queries.listUserStats(),
+    ]);
+    const statsByUserId = new Map(unwrap(statsResult, '魂紋の統計値の取得').map((stats) => [stats.userId, stats]));
+
+    return records.map((record) => toUser(record, statsByUserId.get(record.userId)));
+  }
+
+  /**
+   * 魂紋の取得
+   */
+  public async get(userId: string): Promise<User | null> {
+    const client = getClient();
+    const [result, statsResult] = await Promise.all([
+      client.models.UserProfile.get({ userId }),
+      client.queries.getUserStats({ userId }),
+    ]);
+    const errors = [...(result.errors ?? []), ...(statsResult.errors ?? [])];
+    if (errors.length > 0) {
+      throw new Error(errors.map((error) => error.message).join(', '));
+    }
+
+    return result.data ? toUser(result.data, statsResult.data) : null;
+  }
+
+  /**
+   * 魂紋の作成
+   */
+  public async create(profile: NewUserProfile): Promise<User> {
+    const result = await getClient().models.UserProfile.create({
+      userId: profile.id,
+      name: profile.name,
+      email: profile.email,
+      department: profile.department,
+      age: profile.age,
+      avatar: profile.avatar,
+      joinedAt: new Date().toISOString(),
+    });
+
+    return toUser(unwrap(result, '魂紋の作成'), null);
+  }
+
+  /**
+   * 魂紋の更新
+   */
+  public async update(userId: string, updates: UserProfileUpdate): Promise<void> {
+    const result = await getClient().models.UserProfile.update({ userId, ...updates });
+    unwrap(result, '魂紋の更新');
+  }
+}
+
+/**
+ * Amplify（Cognito）認証リポジトリ
+ */
+export class AmplifyAuthRepository implements IAuthRepository {
+  /**
+   * 降霊（サインイン）
+   * TOTP 以外の追加の認証ステップが必要な場合は、その種別を name に持つ例外を投げる
+   */
+  public async signIn(email: string, password: string): Promise<SignInResult> {
+    try {
+      const { isSignedIn, nextStep } = await signIn({ username: email, password });
+
+      if (!isSignedIn) {
+        if (nextStep.signInStep === 'CONFIRM_SIGN_IN_WITH_TOTP_CODE') {
+          return { type: 'totpRequired' };
+        }
+
+        const error = new Error(`追加の認証ステップが必要です: ${nextStep.signInStep}`);
+        error.name = nextStep.signInStep === 'CONFIRM_SIGN_UP' ? 'UserNotConfirmedException' : nextStep.signInStep;
+        throw error;
+      }
+    } catch (error) {
+      // 別アカウントのセッションが残っている場合は破棄してやり直す
+      if (error instanceof Error && error.name === 'UserAlreadyAuthenticatedException') {
+        await signOut();
+        return this.signIn(email, password);
+      }
+      throw error;
+    }
+
+    return { type: 'signedIn', session: await this.requireSession() };
+  }
+
+  /**
+   * TOTP コードによる降霊の完了
+   */
+  public async confirmSignInWithTotp(code: string): Promise<IAuthSession> {
+    const { isSignedIn, nextStep } = await confirmSignIn({ challengeResponse: code });
+
+    if (!isSignedIn) {
+      const error = new Error(`追加の認証ステップが必要です: ${nextStep.signInStep}`);
+      error.name = nextStep.signInStep;
+      throw error;
+    }
+
+    return this.requireSession();
+  }
+
+  /**
+   * 魂紋の刻印（サインアップ）
+   */
+  public async signUp(email: string, password: string, name?: string): Promise<{ userId: string }> {
+    const { userId } = await signUp({
+      username: email,
+      password,
+      options: {
+        userAttributes: name ? { email, name } : { email },
+        // 確認コードの検証後にそのまま降霊させる
+        autoSignIn: true,
+      },
+    });
+
+    if (!userId) {
+      throw new Error('刻印されたユーザーIDを取得できませんでした');
+    }
+
+    return { userId };
+  }
+
+  /**
+   * 刻印の確認
+   * 確認コードの不一致・期限切れは Cognito の例外（CodeMismatchException /
+   * ExpiredCodeException）をそのまま投げる
+   */
+  public async confirmSignUp(email: string, code: string): Promise<IAuthSession | null> {
+    const { nextStep } = await confirmSignUp({ username: email, confirmationCode: code });
+
+    if (nextStep.signUpStep !== 'COMPLETE_AUTO_SIGN_IN') {
+      return null;
+    }
+
+    // 再読み込み等で刻印時の状態が失われている場合、自動降霊は失敗する
+    try {
+      const { isSignedIn } = await autoSignIn();
+      return isSignedIn ? this.getCurrentSession() : null;
+    } catch (error) {
+      LoggerService.getInstance().warn('自動降霊に失敗しました', { error });
+      return null;
+    }
+  }
+
+  /**
+   * 確認コードの再送信
+   */
+  public async resendSignUpCode(email: string): Promise<void> {
+    await resendSignUpCode({ username: email });
+  }
+
+  /**
+   * 結界文の変更
+   */
+  public async changePassword(oldPassword: string, newPassword: string): Promise<void> {
+    await updatePassword({ oldPassword, newPassword });
+  }
+
+  /**
+   * 結界文の再設定コードの送信
+   */
+  public async requestPasswordReset(email: string): Promise<void> {
+    const { nextStep } = await resetPassword({ username: email });
+
+    if (nextStep.resetPasswordStep !== 'CONFIRM_RESET_PASSWORD_WITH_CODE') {
+      throw new Error(`想定外の再設定ステップです: ${nextStep.resetPasswordStep}`);
+    }
+  }
+
+  /**
+   * 再設定コードを用いた結界文の再設定
+   */
+  public async confirmPasswordReset(email: string, code: string, newPassword: string): Promise<void> {
+    await confirmResetPassword({ username: email, confirmationCode: code, newPassword });
+  }
+
+  /**
+   * 二段階認証（TOTP）が有効か
+   */
+  public async isTotpEnabled(): Promise<boolean> {
+    const { enabled } = await fetchMFAPreference();
+    return enabled?.includes('TOTP') ?? false;
+  }
+
+  /**
+   * 二段階認証の登録開始
+   */
+  public async beginTotpSetup(): Promise<ITotpSetup> {
+    const session = await this.requireSession();
+    const details = await setUpTOTP();
+
+    return {
+      secret: details.sharedSecret,
+      uri: details.getSetupUri(TOTP_ISSUER, session.email).toString(),
+    };
+  }
+
+  /**
+   * 最初のコードを検証して二段階認証を有効にする
+   */
+  public async verifyTotpSetup(code: string): Promise<void> {
+    await verifyTOTPSetup({ code });
+    await updateMFAPreference({ totp: 'PREFERRED' });
+  }
+
+  /**
+   * 二段階認証の無効化
+   */
+  public async disableTotp(): Promise<void> {
+    await updateMFAPreference({ totp: 'DISABLED' });
+  }
+
+  /**
+   * 離脱（サインアウト）
+   */
+  public async signOut(): Promise<void> {
+    await signOut();
+  }
+
+  /**
+   * 降霊済みのセッション取得（取得できない場合は例外）
+   */
+  private async requireSession(): Promise<IAuthSession> {
+    const session = await this.getCurrentSession();
+    if (!session) {
+      throw new Error('降霊後のセッションを取得できませんでした');
+    }
+
+    return session;
+  }
+
+  /**
+   * 保存されているセッションの取得
+   * トークンが無効（期限切れで更新不可）な場合は null を返す
+   */
+  public async getCurrentSession(): Promise<IAuthSession | null> {
+    try {
+      const { tokens } = await fetchAuthSession();
+      if (!tokens) return null;
+
+      const { userId, username, signInDetails } = await getCurrentUser();
+      return { userId, email: signInDetails?.loginId ?? username };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'UserUnAuthenticatedException') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 降霊中のユーザーの属性の取得（Cognito のユーザー属性）
+   */
+  public async getUserAttributes(): Promise<IAuthUserAttributes> {
+    const [{ userId }, attributes] = await Promise.all([getCurrentUser(), fetchUserAttributes()]);
+    if (!attributes.email) {
+      throw new Error('ユーザーのメールアドレスを取得できませんでした');
+    }
+
+    return { userId, email: attributes.email, name: attributes.name ?? null };
+  }
+}
+
+/**
+ * Amplify Storage による画像リポジトリ
+ * 画像は投稿者の Identity ID ごとの領域（offering-images/{identityId}/・avatars/{identityId}/）に保存する
+ */
+export class AmplifyMediaRepository implements IMediaRepository {
+  /**
+   * 供物の添付画像の保存
+   */
+  public async uploadOfferingImage(image: NewImageUpload): Promise<string> {
+    const fileName = `${crypto.randomUUID()}.${image.extension}`;
+    const { path } = await uploadData({
+      path: ({ identityId }) => `offering-images/${identityId}/${fileName}`,
+      data: image.data,
+      options: { contentType: image.contentType },
+    }).result;
+
+    return path;
+  }
+
+  /**
+   * 魂紋の画像の保存（一部の縮小版の保存に失敗した場合は保存済みの分を削除する）
+   */
+  public async uploadAvatar(images: NewAvatarUpload): Promise<string> {
+    const { identityId } = await fetchAuthSession();
+    if (!identityId) throw new Error('画像の保存先を特定できませんでした');
+
+    const avatar = newAvatarKey(identityId);
+    const paths = AVATAR_SIZES.map((size) => avatarImagePath(avatar, size));
+    const results = await Promise.allSettled(AVATAR_SIZES.map((size, index) =>
+      uploadData({
+        path: paths[index],
+        data: images[size].data,
+        options: { contentType: images[size].contentType },
+      }).result
+    ));
+    const failure = results.find((result) => result.status === 'rejected');
+    if (failure) {
+      await Promise.allSettled(paths.map((path) => remove({ path })));
+      throw failure.reason;
+    }
+    return avatar;
+  }
+
+  /**
+   * 表示用 URL の取得（期限付きの署名付き URL）
+   */
+  public async getUrl(path: string): Promise<string> {
+    const { url } = await getUrl({ path, options: { expiresIn: MEDIA_URL_EXPIRES_IN_SECONDS } });
+    return url.toString();
+  }
+
+  /**
+   * 画像の削除
+   */
+  public async remove(path: string): Promise<void> {
+    await remove({ path });
+  }
+}
+
+/**
+ * Amplify リポジトリ一式の生成
+ */
+export function createAmplifyRepositories(): IRepositories {
+  return {
+    auth: new AmplifyAuthRepository(),
+    users: new AmplifyUserRepository(),
+    offerings: new AmplifyOfferingRepository(),
+    comments: new AmplifyCommentRepository(),
+    notifications: new AmplifyNotificationRepository(),
+    savedSearches: new AmplifySavedSearchRepository(),
+    rankingSnapshots: new AmplifyRankingSnapshotRepository(),
+    follows: new AmplifyFollowRepository(),
+    media: new AmplifyMediaRepository(),
+  };
+}
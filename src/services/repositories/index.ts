@@ -0,0 +1,32 @@
+/**
+ * 供物台（Kumotsudai）- リポジトリ層エントリーポイント
+ *
+ * 設定に応じて Amplify 実装またはローカル実装を生成する。
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { IAppConfig } from '../config';
+import { createAmplifyRepositories } from './amplify';
+import { createLocalRepositories, LocalStore } from './local';
+import type { IRepositories } from './types';
+
+export * from './types';
+export { createAmplifyRepositories } from './amplify';
+export { createLocalRepositories, LocalStore } from './local';
+
+/**
+ * データバックエンドに応じたリポジトリ一式の生成
+ * @param config データバックエンド種別とローカル画像サーバーの URL
+ * @returns リポジトリ一式
+ */
+export function createRepositories(config: Pick<IAppConfig, 'dataBackend' | 'localMediaUrl'>): IRepositories {
+  switch (config.dataBackend) {
+    case 'local':
+      return createLocalRepositories(new LocalStore(), config.localMediaUrl);
+    case 'amplify':
+    default:
+      return createAmplifyRepositories();
+  }
+}
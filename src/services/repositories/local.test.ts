@@ -0,0 +1,394 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalRepositories, LocalStore } from './local';
+import type { IRepositories, NewOffering } from './types';
+
+/** 作者 A の新規供物 */
+const newOffering = (overrides: Partial<NewOffering> = {}): NewOffering => ({
+  title: '初穂',
+  content: '今年の #収穫 を捧げます',
+  author: '甲',
+  authorId: 'user-a',
+  genres: ['日常'],
+  imagePaths: [],
+  visibility: 'public',
+  ...overrides,
+});
+
+describe('ローカルリポジトリ', () => {
+  let store: LocalStore;
+  let repositories: IRepositories;
+
+  beforeEach(() => {
+    store = new LocalStore({ persistent: false });
+    repositories = createLocalRepositories(store);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('LocalStore', () => {
+    it('メモリ上に保存した値を読み書き・削除できる', () => {
+      expect(store.read('key', 'fallback')).toBe('fallback');
+      store.write('key', { value: 1 });
+      expect(store.read('key', null)).toEqual({ value: 1 });
+      store.remove('key');
+      expect(store.read('key', null)).toBeNull();
+    });
+
+    it('保存ごとに別の領域を持つ', () => {
+      store.saveCollection('follows', [{ followerId: 'a', followeeId: 'b', createdAt: '2025-01-01T00:00:00.000Z' }]);
+      expect(new LocalStore({ persistent: false }).collection('follows')).toEqual([]);
+    });
+  });
+
+  describe('供物', () => {
+    it('作成した供物は題名・本文のタグを持ち、公開中として取得できる', async () => {
+      const created = await repositories.offerings.create(newOffering());
+
+      expect(created.status).toBe('published');
+      expect(created.tags).toEqual(['収穫']);
+      expect(await repositories.offerings.get(created.id)).toMatchObject({ id: created.id, likes: 0, comments: [] });
+    });
+
+    it('ページ取得は新しい順にカーソルで続きを返し、下書き・秘蔵・取り下げを含めない', async () => {
+      vi.useFakeTimers();
+      try {
+        const ids: string[] = [];
+        for (let day = 1; day <= 3; day++) {
+          vi.setSystemTime(new Date(`2025-01-0${day}T00:00:00.000Z`));
+          ids.push((await repositories.offerings.create(newOffering({ title: `供物${day}` }))).id);
+        }
+        await repositories.offerings.createDraft(newOffering({ title: '下書き' }));
+        const archived = await repositories.offerings.create(newOffering({ title: '秘蔵' }));
+        await repositories.offerings.setStatus(archived.id, 'archived');
+
+        const first = await repositories.offerings.listPage({ limit: 2 });
+        expect(first.success).toBe(true);
+        expect(first.data?.items.map((offering) => offering.id)).toEqual([ids[2], ids[1]]);
+        expect(first.data?.pagination).toMatchObject({ hasNext: true, totalItems: 3, isTotalExact: true });
+
+        const second = await repositories.offerings.listPage({ limit: 2, cursor: first.data?.pagination.nextCursor });
+        expect(second.data?.items.map((offering) => offering.id)).toEqual([ids[0]]);
+        expect(second.data?.pagination).toMatchObject({ currentPage: 2, hasNext: false, nextCursor: null });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('不正なカーソルは失敗の応答として返す', async () => {
+      const response = await repositories.offerings.listPage({ limit: 10, cursor: 'not-a-cursor' });
+      expect(response).toMatchObject({ success: false, error: { code: 'OFFERING_PAGE_FETCH_FAILED' } });
+    });
+
+    it('作者の一覧は秘蔵中を含み、下書き・取り下げ済みを含めない', async () => {
+      store.write('session', { userId: 'user-a', email: 'a@example.com' });
+      const kept = await repositories.offerings.create(newOffering());
+      const archived = await repositories.offerings.create(newOffering());
+      const deleted = await repositories.offerings.create(newOffering());
+      await repositories.offerings.createDraft(newOffering());
+      await repositories.offerings.create(newOffering({ authorId: 'user-b' }));
+      await repositories.offerings.setStatus(archived.id, 'archived');
+      await repositories.offerings.setStatus(deleted.id, 'deleted');
+
+      const ids = (await repositories.offerings.listByAuthor('user-a')).map((offering) => offering.id);
+      expect(ids.sort()).toEqual([kept.id, archived.id].sort());
+      expect(await repositories.offerings.get(deleted.id)).toBeNull();
+    });
+
+    it('秘蔵中の供物と改訂履歴は作者本人にのみ見せる', async () => {
+      const archived = await repositories.offerings.create(newOffering());
+      await repositories.offerings.update(archived, { ...newOffering(), title: '初穂（改）' });
+      await repositories.offerings.setStatus(archived.id, 'archived');
+
+      store.write('session', { userId: 'user-b', email: 'b@example.com' });
+      expect(await repositories.offerings.listByAuthor('user-a')).toEqual([]);
+      expect(await repositories.offerings.get(archived.id)).toBeNull();
+      expect(await repositories.offerings.listRevisions(archived.id)).toEqual([]);
+
+      store.write('session', { userId: 'user-a', email: 'a@example.com' });
+      expect(await repositories.offerings.get(archived.id)).toMatchObject({ status: 'archived' });
+      expect(await repositories.offerings.listRevisions(archived.id)).toHaveLength(1);
+    });
+
+    it('縁者のみの供物は作者本人と作者の縁者にのみ見せる', async () => {
+      const limited = await repositories.offerings.create(newOffering({ visibility: 'followers' }));
+      const open = await repositories.offerings.create(newOffering());
+
+      store.write('session', { userId: 'user-b', email: 'b@example.com' });
+      const page = await repositories.offerings.listPage({ limit: 10 });
+      expect(page.data?.items.map((offering) => offering.id)).toEqual([open.id]);
+      expect(await repositories.offerings.get(limited.id)).toBeNull();
+
+      await repositories.follows.follow('user-b', 'user-a');
+      expect(await repositories.offerings.get(limited.id)).toMatchObject({ visibility: 'followers' });
+      expect((await repositories.offerings.listByAuthor('user-a')).map((offering) => offering.id).sort()).toEqual(
+        [limited.id, open.id].sort()
+      );
+    });
+
+    it('改訂すると改める前の版を改訂履歴に残す', async () => {
+      const created = await repositories.offerings.create(newOffering());
+      const updated = await repositories.offerings.update(created, {
+        title: '初穂（改）',
+        content: '#新米 を捧げます',
+        genres: ['感謝'],
+        visibility: 'public',
+      });
+
+      expect(updated).toMatchObject({ title: '初穂（改）', tags: ['新米'] });
+      expect(updated.editedAt).toBeInstanceOf(Date);
+      const revisions = await repositories.offerings.listRevisions(created.id);
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0]).toMatchObject({ offeringId: created.id, title: '初穂', genres: ['日常'] });
+    });
+
+    it('下書きは作者の下書き一覧にのみ現れ、奉納で公開中になる', async () => {
+      const draft = await repositories.offerings.createDraft(newOffering());
+      expect(await repositories.offerings.get(draft.id)).toBeNull();
+      expect((await repositories.offerings.listDrafts('user-a')).map((offering) => offering.id)).toEqual([draft.id]);
+
+      const published = await repositories.offerings.publishDraft(draft.id, { ...newOffering(), title: '奉納' });
+      expect(published).toMatchObject({ status: 'published', title: '奉納', editedAt: undefined });
+      expect(await repositories.offerings.listDrafts('user-a')).toEqual([]);
+    });
+
+    it('祈念は魂紋ごとに1件と数え、取り消せる', async () => {
+      const created = await repositories.offerings.create(newOffering());
+      await repositories.offerings.addLike(created.id, 'user-b');
+      await repositories.offerings.addLike(created.id, 'user-b');
+      expect(await repositories.offerings.get(created.id)).toMatchObject({ likes: 1, likedBy: ['user-b'] });
+
+      await repositories.offerings.removeLike(created.id, 'user-b');
+      expect(await repositories.offerings.get(created.id)).toMatchObject({ likes: 0, likedBy: [] });
+    });
+
+    it('閲覧は魂紋・日ごとに1回と数える', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(new Date('2025-01-01T12:00:00.000Z'));
+        const created = await repositories.offerings.create(newOffering());
+
+        expect(await repositories.offerings.addView(created.id, 'user-b', '2025-01-01')).toBe(true);
+        expect(await repositories.offerings.addView(created.id, 'user-b', '2025-01-01')).toBe(false);
+        vi.setSystemTime(new Date('2025-01-02T12:00:00.000Z'));
+        expect(await repositories.offerings.addView(created.id, 'user-b', '2025-01-02')).toBe(true);
+        expect((await repositories.offerings.get(created.id))?.views).toBe(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('作者本人の閲覧と、受け付けた日付から外れた閲覧日は数えない', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(new Date('2025-01-10T12:00:00.000Z'));
+        const created = await repositories.offerings.create(newOffering());
+
+        expect(await repositories.offerings.addView(created.id, 'user-a', '2025-01-10')).toBe(false);
+        expect(await repositories.offerings.addView(created.id, 'user-b', '2025-01-01')).toBe(false);
+        expect(await repositories.offerings.addView(created.id, 'user-b', '2025-01-12')).toBe(false);
+        // 時差の範囲（前後1日）の閲覧日は端末の日付として認める
+        expect(await repositories.offerings.addView(created.id, 'user-b', '2025-01-11')).toBe(true);
+        expect((await repositories.offerings.get(created.id))?.views).toBe(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('導き', () => {
+    it('導きは古い順に取得でき、導きへの祈念を含む', async () => {
+      const offering = await repositories.offerings.create(newOffering());
+      const first = await repositories.comments.create(offering.id, { authorId: 'user-b', author: '乙', content: '尊い', type: '共感' });
+      const reply = await repositories.comments.create(offering.id, {
+        authorId: 'user-a',
+        author: '甲',
+        content: 'ありがとう',
+        parentId: first.id,
+      });
+      await repositories.comments.addLike(offering.id, first.id, 'user-a');
+      await repositories.comments.addLike(offering.id, first.id, 'user-a');
+
+      const comments = await repositories.comments.listByOffering(offering.id);
+      expect(comments.map((comment) => comment.id)).toEqual([first.id, reply.id]);
+      expect(comments[0]).toMatchObject({ type: '共感', likes: 1, likedBy: ['user-a'] });
+      expect(comments[1].parentId).toBe(first.id);
+
+      await repositories.comments.removeLike(first.id, 'user-a');
+      expect((await repositories.comments.listByOffering(offering.id))[0].likes).toBe(0);
+    });
+  });
+
+  describe('便り', () => {
+    it('祈念・導き・返信・縁の便りを受け手に届け、既読にできる', async () => {
+      await repositories.users.create({ id: 'user-a', name: '甲', email: 'a@example.com', department: '', age: '' });
+      await repositories.users.create({ id: 'user-b', name: '乙', email: 'b@example.com', department: '', age: '' });
+      const offering = await repositories.offerings.create(newOffering());
+      await repositories.offerings.addLike(offering.id, 'user-a');
+      await repositories.offerings.addLike(offering.id, 'user-b');
+      const first = await repositories.comments.create(offering.id, { authorId: 'user-b', author: '乙', content: '尊い' });
+      await repositories.comments.create(offering.id, { authorId: 'user-a', author: '甲', content: '感謝', parentId: first.id });
+      await repositories.follows.follow('user-b', 'user-a');
+
+      expect((await repositories.notifications.list('user-a')).map((notification) => notification.type).sort()).toEqual([
+        'follower_new',
+        'guidance_received',
+        'prayer_received',
+      ]);
+      const [notification] = await repositories.notifications.list('user-b');
+      expect(notification).toMatchObject({ userId: 'user-b', type: 'guidance_reply', isRead: false });
+
+      await repositories.notifications.markRead([notification.id]);
+      const [read] = await repositories.notifications.list('user-b');
+      expect(read.isRead).toBe(true);
+      expect(read.readAt).toBeInstanceOf(Date);
+    });
+
+    it('本文で呼ばれた魂紋に便りが届き、縁者のみの供物を見られない魂紋には届かない', async () => {
+      await repositories.users.create({ id: 'user-a', name: '甲', email: 'a@example.com', department: '', age: '' });
+      await repositories.users.create({ id: 'user-b', name: '乙', email: 'b@example.com', department: '', age: '' });
+      await repositories.users.create({ id: 'user-c', name: '丙', email: 'c@example.com', department: '', age: '' });
+      await repositories.follows.follow('user-b', 'user-a');
+
+      const offering = await repositories.offerings.create(newOffering({ content: '@乙 @丙 へ' }));
+      await repositories.offerings.create(newOffering({ content: '@乙 @丙 だけに', visibility: 'followers' }));
+      expect(await repositories.notifications.list('user-b')).toHaveLength(2);
+      expect(await repositories.notifications.list('user-c')).toHaveLength(1);
+
+      await repositories.comments.create(offering.id, { authorId: 'user-b', author: '乙', content: '@甲 @丙 どうぞ' });
+      expect(await repositories.notifications.list('user-c')).toHaveLength(2);
+      const received = (await repositories.notifications.list('user-a')).map((notification) => notification.type);
+      expect(received).toContain('guidance_received');
+      expect(received).not.toContain('mention_received');
+    });
+
+    it('奉納された供物に一致する探求の持ち主に便りが届く', async () => {
+      const filters = { genre: 'all', author: '', date: 'all' as const, minLikes: 0 };
+      await repositories.savedSearches.create({ userId: 'user-b', name: '収穫', query: '#収穫', filters });
+      await repositories.savedSearches.create({ userId: 'user-c', name: '祭', query: '祭', filters });
+
+      await repositories.offerings.create(newOffering());
+      const [notification] = await repositories.notifications.list('user-b');
+      expect(notification).toMatchObject({ type: 'saved_search_match', relatedData: { userId: 'user-a' } });
+      expect(await repositories.notifications.list('user-c')).toEqual([]);
+    });
+  });
+
+  describe('順位の写し', () => {
+    it('全員に公開中の供物の順位をその日の写しとして取り直し、前の日の写しと並べて返す', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(new Date('2025-01-10T12:00:00'));
+        await repositories.users.create({ id: 'user-a', name: '甲', email: 'a@example.com', department: 'wind', age: '' });
+        const first = await repositories.offerings.create(newOffering({ title: '一' }));
+        await repositories.offerings.create(newOffering({ title: '縁者', visibility: 'followers' }));
+        await repositories.offerings.addLike(first.id, 'user-b');
+
+        expect(await repositories.rankingSnapshots.getStanding('prayers:eternal:all')).toEqual({
+          current: { scope: 'prayers:eternal:all', takenOn: '2025-01-10', ranks: { [first.id]: 1 } },
+          previous: null,
+        });
+        expect((await repositories.rankingSnapshots.getStanding('prayers:eternal:wind')).current?.ranks).toEqual({ [first.id]: 1 });
+        expect((await repositories.rankingSnapshots.getStanding('prayers:eternal:fire')).current?.ranks).toEqual({});
+
+        const second = await repositories.offerings.create(newOffering({ title: '二' }));
+        await repositories.offerings.addLike(second.id, 'user-b');
+        await repositories.offerings.addLike(second.id, 'user-c');
+        expect((await repositories.rankingSnapshots.getStanding('prayers:eternal:all')).current?.ranks).toEqual({
+          [second.id]: 1,
+          [first.id]: 2,
+        });
+
+        vi.setSystemTime(new Date('2025-01-11T12:00:00'));
+        await repositories.offerings.addLike(first.id, 'user-c');
+        await repositories.offerings.addLike(first.id, 'user-d');
+        expect(await repositories.rankingSnapshots.getStanding('prayers:eternal:all')).toEqual({
+          current: { scope: 'prayers:eternal:all', takenOn: '2025-01-11', ranks: { [first.id]: 1, [second.id]: 2 } },
+          previous: { scope: 'prayers:eternal:all', takenOn: '2025-01-10', ranks: { [second.id]: 1, [first.id]: 2 } },
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('縁', () => {
+    it('同じ相手との縁は1件だけ結ばれ、解くと一覧から消える', async () => {
+      const first = await repositories.follows.follow('user-a', 'user-b');
+      const again = await repositories.follows.follow('user-a', 'user-b');
+      expect(again.createdAt).toEqual(first.createdAt);
+
+      expect((await repositories.follows.listFollowers('user-b')).map((follow) => follow.followerId)).toEqual(['user-a']);
+      expect((await repositories.follows.listFollowing('user-a')).map((follow) => follow.followeeId)).toEqual(['user-b']);
+
+      await repositories.follows.unfollow('user-a', 'user-b');
+      expect(await repositories.follows.listFollowers('user-b')).toEqual([]);
+    });
+  });
+
+  describe('魂紋', () => {
+    it('統計値は閲覧者の公開範囲に関わらず公開中の供物のすべてから集計する', async () => {
+      await repositories.users.create({ id: 'user-a', name: '甲', email: 'a@example.com', department: '', age: '' });
+      const offering = await repositories.offerings.create(newOffering());
+      await repositories.offerings.create(newOffering({ visibility: 'followers' }));
+      const archived = await repositories.offerings.create(newOffering());
+      await repositories.offerings.setStatus(archived.id, 'archived');
+      await repositories.offerings.addLike(offering.id, 'user-b');
+      await repositories.comments.create(offering.id, { authorId: 'user-a', author: '甲', content: '自注' });
+
+      store.write('session', { userId: 'user-b', email: 'b@example.com' });
+      const [user] = await repositories.users.list();
+      expect(user).toMatchObject({ id: 'user-a', offeringCount: 2, totalLikes: 1, totalComments: 1, totalViews: 0 });
+      expect(await repositories.users.get('user-a')).toMatchObject({ offeringCount: 2 });
+    });
+
+    it('存在しない魂紋の更新は失敗する', async () => {
+      await expect(repositories.users.update('missing', { name: '丙' })).rejects.toThrow('魂紋が見つかりません');
+    });
+  });
+
+  describe('認証', () => {
+    /** 発行された確認コード（メールの代わりに保存先から読む） */
+    const issuedConfirmationCode = (email: string): string =>
+      store.collection('accounts').find((account) => account.email === email)?.confirmationCode?.code ?? '';
+
+    it('刻印の確認を終えるまで降霊できず、確認後はセッションが保持される', async () => {
+      vi.spyOn(console, 'info').mockImplementation(() => undefined);
+      const { userId } = await repositories.auth.signUp('a@example.com', 'Passw0rd!');
+
+      await expect(repositories.auth.signIn('a@example.com', 'Passw0rd!')).rejects.toMatchObject({
+        name: 'UserNotConfirmedException',
+      });
+      await expect(repositories.auth.confirmSignUp('a@example.com', 'wrong')).rejects.toMatchObject({
+        name: 'CodeMismatchException',
+      });
+
+      const session = await repositories.auth.confirmSignUp('a@example.com', issuedConfirmationCode('a@example.com'));
+      expect(session).toEqual({ userId, email: 'a@example.com' });
+      expect(await repositories.auth.getCurrentSession()).toEqual(session);
+
+      await repositories.auth.signOut();
+      expect(await repositories.auth.getCurrentSession()).toBeNull();
+      await expect(repositories.auth.signIn('A@example.com', 'wrong')).rejects.toMatchObject({ name: 'NotAuthorizedException' });
+      expect(await repositories.auth.signIn('A@example.com', 'Passw0rd!')).toMatchObject({ type: 'signedIn' });
+    });
+
+    it('降霊中のユーザーの属性として、刻印時の名前を返す', async () => {
+      vi.spyOn(console, 'info').mockImplementation(() => undefined);
+      await expect(repositories.auth.getUserAttributes()).rejects.toMatchObject({ name: 'NotAuthorizedException' });
+
+      const { userId } = await repositories.auth.signUp('a@example.com', 'Passw0rd!', '甲');
+      await repositories.auth.confirmSignUp('a@example.com', issuedConfirmationCode('a@example.com'));
+      expect(await repositories.auth.getUserAttributes()).toEqual({ userId, email: 'a@example.com', name: '甲' });
+    });
+
+    it('同じ符丁では刻印できない', async () => {
+      vi.spyOn(console, 'info').mockImplementation(() => undefined);
+      await repositories.auth.signUp('a@example.com', 'Passw0rd!');
+      await expect(repositories.auth.signUp('a@example.com', 'Passw0rd!')).rejects.toMatchObject({
+        name: 'UsernameExistsException',
+      });
+    });
+  });
+});
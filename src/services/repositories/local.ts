@@ -0,0 +1,1690 @@
+/**
+ * 供物台（Kumotsudai）- ローカルリポジトリ実装
+ *
+ * AWS アカウントなしで全画面を動かすためのリポジトリ実装。
+ * データは localStorage に保存し、利用できない環境（プライベートモード、
+ * テストランナー等）ではメモリ上に保持する。
+ *
+ * 機能:
+ * - 供物・導き・祈念・魂紋の保存と取得
+ * - 供物の閲覧（魂紋・供物・日ごとに1件）
+ * - 導きの種類・返信（スレッド）・導きへの祈念
+ * - 便り（アプリ内通知）の取得・既読化
+ * - 祈念・導き・返信・呼びかけ・一致する探求・縁の便り（サーバー側の data-events 関数に相当する変更の後処理）
+ * - 探求（検索式と絞り込み条件）の保存・削除
+ * - 日ごとの順位の写し（サーバー側の ranking-snapshots 関数に相当する処理を、写しを読むたびに行い、前の日の写しを比較用に残す）
+ * - 縁（フォロー）の結びと解き、縁者・結縁先の取得
+ * - 供物の改訂（改訂履歴の保存）・秘蔵・取り下げ
+ * - 下書きの保存・奉納
+ * - 供物の題名・本文からのタグの抽出
+ * - 供物の公開範囲（全員・縁者のみ）の保存
+ * - 供物の添付画像・魂紋の画像の保存（ローカル画像サーバー scripts/media-server.ts を介してファイルに保存）
+ * - パスワードハッシュによる簡易認証とセッション保持
+ * - 刻印確認・結界文再設定コードの発行（メール送信の代わりにコンソールへ出力）
+ * - 二段階認証（TOTP）の登録と降霊時の検証
+ *
+ * 注意: 認証は開発・自動テスト用の簡易実装であり、本番では使用しないこと。
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type {
+  AppNotification,
+  Comment,
+  Follow,
+  Offering,
+  OfferingRevision,
+  OfferingVisibility,
+  SavedSearch,
+  SearchFilters,
+  User,
+} from '../../types/domain';
+import type { GuidanceType, IApiResponse, ICursorPage, NotificationType, OfferingStatus } from '../../types/enterprise';
+import {
+  AVATAR_SIZES,
+  avatarImagePath,
+  buildCursorPage,
+  decodePageCursor,
+  newAvatarKey,
+  toApiResponse,
+  type IAuthRepository,
+  type IAuthSession,
+  type IAuthUserAttributes,
+  type ICommentRepository,
+  type IFollowRepository,
+  type IMediaRepository,
+  type INotificationRepository,
+  type IOfferingPageRequest,
+  type ISavedSearchRepository,
+  type IOfferingRepository,
+  type IRankingSnapshotRepository,
+  type IRepositories,
+  type ITotpSetup,
+  type IUserRepository,
+  type NewAvatarUpload,
+  type NewComment,
+  type NewImageUpload,
+  type NewNotification,
+  type NewSavedSearch,
+  type NewOffering,
+  type NewUserProfile,
+  type OfferingDraftUpdate,
+  type OfferingUpdate,
+  type SignInResult,
+  type UserProfileUpdate,
+} from './types';
+import { buildTotpUri, generateTotpSecret, verifyTotpCode } from './totp';
+import { DEPARTMENTS, RANKING_TYPES } from '../../components/data/constants';
+import { isPlausibleDayKey, toDayKey } from '../calendar';
+import { extractOfferingTags } from '../mentions';
+import {
+  buildFollowNotification,
+  buildGuidanceNotifications,
+  buildMentionNotifications,
+  buildPrayerNotification,
+  buildSavedSearchNotifications,
+} from '../notifications';
+import { takeRankingSnapshots, type IRankingSnapshot, type IRankingStanding } from '../ranking';
+import { findMatchingSavedSearches } from '../searchQuery';
+import { isViewableOffering } from '../visibility';
+
+/** セッションの保存キー */
+const SESSION_KEY = 'session';
+
+/** ローカル画像サーバー（scripts/media-server.ts）の既定の URL */
+export const DEFAULT_LOCAL_MEDIA_URL = 'http://localhost:8788';
+
+// ============================================================================
+// 保存レコード型
+// ============================================================================
+
+interface ILocalUserRecord {
+  id: string;
+  name: string;
+  email: string;
+  department: string;
+  age: string;
+  avatar?: string;
+  joinedAt: string;
+}
+
+interface ILocalOfferingRecord {
+  id: string;
+  title: string;
+  content: string;
+  author: string;
+  authorId: string;
+  genres: string[];
+  /** 添付画像の保存先のパス（添付画像の導入前のレコードは未設定） */
+  imagePaths?: string[];
+  /** 題名・本文の #タグ（タグの導入前のレコードは未設定） */
+  tags?: string[];
+  /** 公開範囲（未設定の既存レコードは public として扱う） */
+  visibility?: OfferingVisibility;
+  /** 状態（未設定の既存レコードは published として扱う） */
+  status?: OfferingStatus;
+  createdAt: string;
+  editedAt?: string;
+}
+
+interface ILocalRevisionRecord {
+  id: string;
+  offeringId: string;
+  editorId: string;
+  title: string;
+  content: string;
+  genres: string[];
+  revisedAt: string;
+}
+
+interface ILocalCommentRecord {
+  id: string;
+  offeringId: string;
+  authorId: string;
+  author: string;
+  content: string;
+  type?: GuidanceType;
+  parentId?: string;
+  createdAt: string;
+}
+
+interface ILocalLikeRecord {
+  id: string;
+  offeringId: string;
+  userId: string;
+  createdAt: string;
+}
+
+interface ILocalViewRecord {
+  offeringId: string;
+  viewerId: string;
+  viewedOn: string;
+  createdAt: string;
+}
+
+interface ILocalCommentPrayerRecord {
+  id: string;
+  commentId: string;
+  offeringId: string;
+  userId: string;
+  createdAt: string;
+}
+
+interface ILocalNotificationRecord {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  content: string;
+  relatedData?: AppNotification['relatedData'];
+  isRead: boolean;
+  createdAt: string;
+  readAt?: string;
+}
+
+interface ILocalSavedSearchRecord {
+  id: string;
+  userId: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  createdAt: string;
+}
+
+interface ILocalFollowRecord {
+  followerId: string;
+  followeeId: string;
+  createdAt: string;
+}
+
+interface ILocalAccountRecord {
+  userId: string;
+  email: string;
+  passwordHash: string;
+  /** 刻印確認済みか（未設定の既存アカウントは確認済みとして扱う） */
+  confirmed?: boolean;
+  /** 未確認時の確認コード */
+  confirmationCode?: ILocalIssuedCode;
+  /** 結界文の再設定コード */
+  passwordResetCode?: ILocalIssuedCode;
+  /** 刻印時に登録した名前 */
+  name?: string;
+  /** 二段階認証の共有シークレット（設定時のみ有効） */
+  totpSecret?: string;
+  /** 登録途中（最初のコード未検証）の共有シークレット */
+  pendingTotpSecret?: string;
+}
+
+interface ILocalIssuedCode {
+  code: string;
+  expiresAt: string;
+}
+
+/**
+ * コレクション名と保存レコード型の対応
+ */
+interface ILocalCollections {
+  users: ILocalUserRecord[];
+  offerings: ILocalOfferingRecord[];
+  revisions: ILocalRevisionRecord[];
+  comments: ILocalCommentRecord[];
+  likes: ILocalLikeRecord[];
+  views: ILocalViewRecord[];
+  commentPrayers: ILocalCommentPrayerRecord[];
+  notifications: ILocalNotificationRecord[];
+  savedSearches: ILocalSavedSearchRecord[];
+  follows: ILocalFollowRecord[];
+  rankingSnapshots: IRankingSnapshot[];
+  accounts: ILocalAccountRecord[];
+}
+
+// ============================================================================
+// ローカルストア
+// ============================================================================
+
+/**
+ * localStorage / メモリ上のキー・バリューストア
+ */
+export class LocalStore {
+  /** localStorage キーの接頭辞 */
+  private static readonly KEY_PREFIX = 'kumotsudai:local:';
+
+  /** メモリ上の保存領域（localStorage が使えない場合） */
+  private readonly memory: Map<string, string> = new Map();
+
+  /** localStorage を使用するか */
+  private readonly persistent: boolean;
+
+  /**
+   * @param options.persistent false の場合は常にメモリ上に保持する
+   */
+  constructor(options: { persistent?: boolean } = {}) {
+    this.persistent = (options.persistent ?? true) && LocalStore.isStorageAvailable();
+  }
+
+  /**
+   * localStorage の利用可否を判定
+   */
+  private static isStorageAvailable(): boolean {
+    try {
+      if (typeof localStorage === 'undefined') return false;
+      const probe = `${LocalStore.KEY_PREFIX}probe`;
+      localStorage.setItem(probe, probe);
+      localStorage.removeItem(probe);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 値の読み込み
+   * @param key キー
+   * @param fallback 未保存時の値
+   */
+  public read<T>(key: string, fallback: T): T {
+    try {
+      const raw = this.persistent
+        ? localStorage.getItem(LocalStore.KEY_PREFIX + key)
+        : this.memory.get(key) ?? null;
+      return raw === null ? fallback : (JSON.parse(raw) as T);
+    } catch (error) {
+      console.warn(`LocalStore: ${key} の読み込みに失敗しました`, error);
+      return fallback;
+    }
+  }
+
+  /**
+   * 値の書き込み
+   * @param key キー
+   * @param value 値（JSON シリアライズ可能なもの）
+   */
+  public write<T>(key: string, value: T): void {
+    const raw = JSON.stringify(value);
+    if (this.persistent) {
+      localStorage.setItem(LocalStore.KEY_PREFIX + key, raw);
+    } else {
+      this.memory.set(key, raw);
+    }
+  }
+
+  /**
+   * 値の削除
+   * @param key キー
+   */
+  public remove(key: string): void {
+    if (this.persistent) {
+      localStorage.removeItem(LocalStore.KEY_PREFIX + key);
+    } else {
+      this.memory.delete(key);
+    }
+  }
+
+  /**
+   * コレクションの読み込み
+   */
+  public collection<K extends keyof ILocalCollections>(name: K): ILocalCollections[K] {
+    return this.read(name, [] as unknown as ILocalCollections[K]);
+  }
+
+  /**
+   * コレクションの書き込み
+   */
+  public saveCollection<K extends keyof ILocalCollections>(name: K, records: ILocalCollections[K]): void {
+    this.write(name, records);
+  }
+}
+
+// ============================================================================
+// 共通ヘルパー
+// ============================================================================
+
+/**
+ * 供物レコードをフロントエンド型に変換
+ */
+function toOffering(record: ILocalOfferingRecord, comments: Comment[], likedBy: string[], views: number = 0): Offering {
+  return {
+    id: record.id,
+    title: record.title,
+    content: record.content,
+    author: record.author,
+    authorId: record.authorId,
+    genres: [...record.genres],
+    imagePaths: [...(record.imagePaths ?? [])],
+    tags: record.tags ? [...record.tags] : extractOfferingTags(record),
+    visibility: record.visibility ?? 'public',
+    status: record.status ?? 'published',
+    createdAt: new Date(record.createdAt),
+    editedAt: record.editedAt ? new Date(record.editedAt) : undefined,
+    likes: likedBy.length,
+    comments,
+    likedBy,
+    views,
+  };
+}
+
+/**
+ * 改訂履歴レコードをフロントエンド型に変換
+ */
+function toRevision(record: ILocalRevisionRecord): OfferingRevision {
+  return {
+    ...record,
+    genres: [...record.genres],
+    revisedAt: new Date(record.revisedAt),
+  };
+}
+
+/**
+ * 導きレコードをフロントエンド型に変換
+ * @param prayers 導きへの祈念レコード（対象の導き以外を含んでもよい）
+ */
+function toComment(record: ILocalCommentRecord, prayers: ILocalCommentPrayerRecord[]): Comment {
+  const likedBy = prayers.filter((prayer) => prayer.commentId === record.id).map((prayer) => prayer.userId);
+  return {
+    id: record.id,
+    authorId: record.authorId,
+    author: record.author,
+    content: record.content,
+    type: record.type,
+    parentId: record.parentId,
+    createdAt: new Date(record.createdAt),
+    likes: likedBy.length,
+    likedBy,
+  };
+}
+
+/**
+ * 保存した探求レコードをフロントエンド型に変換
+ */
+function toSavedSearch(record: ILocalSavedSearchRecord): SavedSearch {
+  return {
+    ...record,
+    filters: { ...record.filters },
+    createdAt: new Date(record.createdAt),
+  };
+}
+
+/**
+ * 縁レコードをフロントエンド型に変換
+ */
+function toFollow(record: ILocalFollowRecord): Follow {
+  return {
+    followerId: record.followerId,
+    followeeId: record.followeeId,
+    createdAt: new Date(record.createdAt),
+  };
+}
+
+/**
+ * 供物レコードへの導き・祈念・閲覧の付与
+ */
+function withRelations(store: LocalStore, records: ILocalOfferingRecord[]): Offering[] {
+  const comments = store.collection('comments');
+  const likes = store.collection('likes');
+  const prayers = store.collection('commentPrayers');
+  const views = store.collection('views');
+
+  return records.map((record) => {
+    const likedBy = likes.filter((like) => like.offeringId === record.id).map((like) => like.userId);
+    const offeringComments = comments
+      .filter((comment) => comment.offeringId === record.id)
+      .map((comment) => toComment(comment, prayers))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const viewCount = views.filter((view) => view.offeringId === record.id).length;
+    return toOffering(record, offeringComments, likedBy, viewCount);
+  });
+}
+
+/**
+ * 魂紋の統計値を公開中の供物のすべてから集計
+ * サーバー側では data-events 関数が魂紋に書き込む集計値に相当する
+ * @returns 供物数・総祈念数・総導き数・総閲覧数
+ */
+function aggregateUserStats(
+  userId: string,
+  published: Offering[]
+): Pick<User, 'offeringCount' | 'totalLikes' | 'totalComments' | 'totalViews'> {
+  const ownOfferings = published.filter((offering) => offering.authorId === userId);
+
+  return {
+    offeringCount: ownOfferings.length,
+    totalLikes: ownOfferings.reduce((sum, offering) => sum + offering.likes, 0),
+    totalComments: published.reduce(
+      (sum, offering) => sum + offering.comments.filter((comment) => comment.authorId === userId).length,
+      0
+    ),
+    totalViews: ownOfferings.reduce((sum, offering) => sum + offering.views, 0),
+  };
+}
+
+/**
+ * 公開中の供物のすべて（統計値の集計用。閲覧者の公開範囲に関わらず含める）
+ */
+function listPublishedOfferings(store: LocalStore): Offering[] {
+  return withRelations(
+    store,
+    store.collection('offerings').filter((record) => (record.status ?? 'published') === 'published')
+  );
+}
+
+/**
+ * 魂紋レコードをフロントエンド型に変換
+ */
+function toUser(record: ILocalUserRecord, published: Offering[]): User {
+  return {
+    id: record.id,
+    name: record.name,
+    email: record.email,
+    department: record.department,
+    age: record.age,
+    avatar: record.avatar,
+    joinedAt: new Date(record.joinedAt),
+    ...aggregateUserStats(record.id, published),
+  };
+}
+
+/**
+ * 降霊中の魂紋 ID（未降霊は null）
+ * サーバー側で Cognito の sub を閲覧者とするのに倣い、供物の閲覧可否の判定に用いる
+ */
+function viewerIdOf(store: LocalStore): string | null {
+  return store.read<IAuthSession | null>(SESSION_KEY, null)?.userId ?? null;
+}
+
+/**
+ * パスワードのハッシュ化（SHA-256）
+ * @param email メールアドレス（ソルト代わり）
+ * @param password パスワード
+ */
+async function hashPassword(email: string, password: string): Promise<string> {
+  const data = new TextEncoder().encode(`${email.toLowerCase()}:${password}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Cognito と同じ name を持つ認証エラーを生成
+ * 画面側のエラー判定を実装間で共通化するため
+ */
+function authError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * 便りの保存（未読として追加する）
+ */
+function appendNotifications(store: LocalStore, notifications: NewNotification[]): void {
+  if (notifications.length === 0) return;
+
+  const createdAt = new Date().toISOString();
+  store.saveCollection('notifications', [
+    ...store.collection('notifications'),
+    ...notifications.map((notification) => ({
+      id: crypto.randomUUID(),
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      content: notification.content,
+      relatedData: notification.relatedData,
+      isRead: false,
+      createdAt,
+    })),
+  ]);
+}
+
+// ============================================================================
+// 変更の後処理
+// ============================================================================
+
+/**
+ * ローカルの変更の後処理
+ * サーバー側ではテーブルの変更を受けて data-events 関数が行う処理を、リポジトリの操作の直後に行う
+ */
+class LocalDataEvents {
+  /** 保存先 */
+  private readonly store: LocalStore;
+
+  constructor(store: LocalStore) {
+    this.store = store;
+  }
+
+  /**
+   * 供物の奉納（公開）の後処理
+   * 本文で呼ばれた魂紋と、一致する探求を保存した魂紋へ便りを届ける（供物を見られない魂紋を除く）
+   */
+  public offeringPublished(offering: ILocalOfferingRecord): void {
+    const actor = { id: offering.authorId, name: offering.author };
+    const viewerIds = this.audienceOf(offering);
+    const published = toOffering(offering, [], []);
+    const matched = findMatchingSavedSearches(published, this.store.collection('savedSearches').map(toSavedSearch)).filter(
+      (savedSearch) => !viewerIds || viewerIds.has(savedSearch.userId)
+    );
+
+    appendNotifications(this.store, [
+      ...buildMentionNotifications(offering, this.store.collection('users'), actor, { viewerIds }),
+      ...buildSavedSearchNotifications(published, matched),
+    ]);
+  }
+
+  /**
+   * 導きの記録の後処理
+   * 供物の作者・返信先の導きの主へ導き・返信の便りを、導きの本文で呼ばれた魂紋へ便りを届ける
+   * （呼ばれた便りは、導き・返信の便りを受け取る魂紋を除く）
+   */
+  public commentCreated(comment: ILocalCommentRecord): void {
+    const offering = this.store.collection('offerings').find((record) => record.id === comment.offeringId);
+    if (!offering) return;
+
+    const actor = { id: comment.authorId, name: comment.author };
+    const parent = comment.parentId
+      ? this.store.collection('comments').find((record) => record.id === comment.parentId)
+      : undefined;
+    const guidance = buildGuidanceNotifications(offering, comment, actor, parent);
+    const notifiedIds = new Set(guidance.map((notification) => notification.userId));
+    appendNotifications(this.store, [
+      ...guidance,
+      ...buildMentionNotifications(
+        offering,
+        this.store.collection('users'),
+        actor,
+        { viewerIds: this.audienceOf(offering), notifiedIds },
+        comment
+      ),
+    ]);
+  }
+
+  /**
+   * 祈念の記録の後処理
+   * 供物の作者へ祈念の便りを届ける
+   */
+  public offeringLiked(offeringId: string, userId: string): void {
+    const offering = this.store.collection('offerings').find((record) => record.id === offeringId);
+    const actor = this.store.collection('users').find((record) => record.id === userId);
+    if (!offering || !actor) return;
+
+    const notification = buildPrayerNotification(offering, actor);
+    if (notification) appendNotifications(this.store, [notification]);
+  }
+
+  /**
+   * 縁の結びの後処理
+   * 縁を結ばれた魂紋へ便りを届ける
+   */
+  public followed(follow: ILocalFollowRecord): void {
+    const actor = this.store.collection('users').find((record) => record.id === follow.followerId);
+    if (!actor) return;
+
+    const notification = buildFollowNotification(follow.followeeId, actor);
+    if (notification) appendNotifications(this.store, [notification]);
+  }
+
+  /**
+   * 供物を見られる魂紋（縁者のみの供物では作者本人と縁者。全員に公開の供物は null）
+   */
+  private audienceOf(offering: ILocalOfferingRecord): Set<string> | null {
+    if (offering.visibility !== 'followers') return null;
+
+    const followerIds = this.store
+      .collection('follows')
+      .filter((follow) => follow.followeeId === offering.authorId)
+      .map((follow) => follow.followerId);
+    return new Set([offering.authorId, ...followerIds]);
+  }
+}
+
+// ============================================================================
+// リポジトリ実装
+// ============================================================================
+
+/**
+ * ローカル供物リポジトリ
+ */
+export class LocalOfferingRepository implements IOfferingRepository {
+  /** 保存先 */
+  private readonly store: LocalStore;
+
+  /** 変更の後処理 */
+  private readonly events: LocalDataEvents;
+
+  constructor(store: LocalStore) {
+    this.store = store;
+    this.events = new LocalDataEvents(store);
+  }
+
+  /**
+   * 公開中の供物の1ページの取得（新しい順）
+   * カーソルには読み飛ばす件数を持たせる
+   */
+  public async listPage(request: IOfferingPageRequest): Promise<IApiResponse<ICursorPage<Offering>>> {
+    return toApiResponse('OFFERING_PAGE_FETCH_FAILED', async () => {
+      const cursor = decodePageCursor(request.cursor);
+      const offset = cursor ? Number(cursor.position) : 0;
+      const isViewable = this.viewableFilter();
+      const published = this.store
+        .collection('offerings')
+        .filter((record) => (record.status ?? 'published') === 'published' && isViewable(record))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+      const records = published.slice(offset, offset + request.limit);
+      const nextOffset = offset + records.length;
+      return buildCursorPage(
+        withRelations(this.store, records),
+        request.limit,
+        cursor,
+        nextOffset < published.length ? String(nextOffset) : null,
+        published.length
+      );
+    });
+  }
+
+  /**
+   * 作者の供物一覧の取得（新しい順、秘蔵中を含む）
+   */
+  public async listByAuthor(authorId: string): Promise<Offering[]> {
+    const isViewable = this.viewableFilter();
+    const records = this.store
+      .collection('offerings')
+      .filter((record) => record.authorId === authorId && isViewable(record));
+
+    return withRelations(this.store, records).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * 供物の取得
+   */
+  public async get(offeringId: string): Promise<Offering | null> {
+    const record = this.store.collection('offerings').find((offering) => offering.id === offeringId);
+    if (!record || !this.viewableFilter()(record)) return null;
+
+    return withRelations(this.store, [record])[0];
+  }
+
+  /**
+   * 降霊中の魂紋に見せてよい供物の判定
+   * サーバー側の読み取り（offering-reader）と同じく、状態と閲覧者の縁で判定する
+   */
+  private viewableFilter(): (record: ILocalOfferingRecord) => boolean {
+    const viewerId = viewerIdOf(this.store);
+    const followingIds = this.store
+      .collection('follows')
+      .filter((follow) => follow.followerId === viewerId)
+      .map((follow) => follow.followeeId);
+
+    return (record) => isViewableOffering(record, viewerId, followingIds);
+  }
+
+
+  /**
+   * 供物の作成
+   */
+  public async create(offering: NewOffering): Promise<Offering> {
+    const record: ILocalOfferingRecord = {
+      id: crypto.randomUUID(),
+      title: offering.title,
+      content: offering.content,
+      author: offering.author,
+      authorId: offering.authorId,
+      genres: [...offering.genres],
+      imagePaths: [...offering.imagePaths],
+      tags: extractOfferingTags(offering),
+      visibility: offering.visibility,
+      status: 'published',
+      createdAt: new Date().toISOString(),
+    };
+    this.store.saveCollection('offerings', [...this.store.collection('offerings'), record]);
+    this.events.offeringPublished(record);
+
+    return toOffering(record, [], []);
+  }
+
+  /**
+   * 作者の下書き一覧の取得（最後に保存した順）
+   */
+  public async listDrafts(authorId: string): Promise<Offering[]> {
+    return this.store
+      .collection('offerings')
+      .filter((record) => record.authorId === authorId && record.status === 'draft')
+      .map((record) => toOffering(record, [], []))
+      .sort((a, b) => (b.editedAt ?? b.createdAt).getTime() - (a.editedAt ?? a.createdAt).getTime());
+  }
+
+  /**
+   * 下書きの作成
+   */
+  public async createDraft(offering: NewOffering): Promise<Offering> {
+    const now = new Date().toISOString();
+    const record: ILocalOfferingRecord = {
+      id: crypto.randomUUID(),
+      title: offering.title,
+      content: offering.content,
+      author: offering.author,
+      authorId: offering.authorId,
+      genres: [...offering.genres],
+      imagePaths: [...offering.imagePaths],
+      tags: extractOfferingTags(offering),
+      visibility: offering.visibility,
+      status: 'draft',
+      createdAt: now,
+      editedAt: now,
+    };
+    this.store.saveCollection('offerings', [...this.store.collection('offerings'), record]);
+
+    return toOffering(record, [], []);
+  }
+
+  /**
+   * 下書きの保存
+   * editedAt を最後に保存した日時として使う
+   */
+  public async saveDraft(offeringId: string, changes: OfferingDraftUpdate): Promise<Offering> {
+    const updated: ILocalOfferingRecord = {
+      ...this.requireOffering(offeringId),
+      title: changes.title,
+      content: changes.content,
+      genres: [...changes.genres],
+      imagePaths: [...changes.imagePaths],
+      tags: extractOfferingTags(changes),
+      visibility: changes.visibility,
+      editedAt: new Date().toISOString(),
+    };
+    this.saveOffering(updated);
+
+    return toOffering(updated, [], []);
+  }
+
+  /**
+   * 下書きの奉納
+   * 一覧で新着として扱うため奉納日時を現在に改め、保存日時は消す
+   */
+  public async publishDraft(offeringId: string, changes: OfferingDraftUpdate): Promise<Offering> {
+    const updated: ILocalOfferingRecord = {
+      ...this.requireOffering(offeringId),
+      title: changes.title,
+      content: changes.content,
+      genres: [...changes.genres],
+      imagePaths: [...changes.imagePaths],
+      tags: extractOfferingTags(changes),
+      visibility: changes.visibility,
+      status: 'published',
+      createdAt: new Date().toISOString(),
+      editedAt: undefined,
+    };
+    this.saveOffering(updated);
+    this.events.offeringPublished(updated);
+
+    return toOffering(updated, [], []);
+  }
+
+  /**
+   * 供物の改訂
+   * 改める前の版を改訂履歴に保存してから本体を更新する
+   */
+  public async update(offering: Offering, changes: OfferingUpdate): Promise<Offering> {
+    const record = this.requireOffering(offering.id);
+    const revisedAt = new Date().toISOString();
+
+    this.store.saveCollection('revisions', [
+      ...this.store.collection('revisions'),
+      {
+        id: crypto.randomUUID(),
+        offeringId: record.id,
+        editorId: record.authorId,
+        title: record.title,
+        content: record.content,
+        genres: [...record.genres],
+        revisedAt,
+      },
+    ]);
+
+    const updated: ILocalOfferingRecord = {
+      ...record,
+      title: changes.title,
+      content: changes.content,
+      genres: [...changes.genres],
+      tags: extractOfferingTags(changes),
+      visibility: changes.visibility,
+      editedAt: revisedAt,
+    };
+    this.saveOffering(updated);
+
+    return toOffering(updated, offering.comments, offering.likedBy, offering.views);
+  }
+
+  /**
+   * 供物の状態変更
+   */
+  public async setStatus(offeringId: string, status: OfferingStatus): Promise<void> {
+    this.saveOffering({ ...this.requireOffering(offeringId), status });
+  }
+
+  /**
+   * 改訂履歴の取得（古い順）
+   * 見せてよくない供物の履歴は空とする
+   */
+  public async listRevisions(offeringId: string): Promise<OfferingRevision[]> {
+    if (!(await this.get(offeringId))) return [];
+
+    return this.store
+      .collection('revisions')
+      .filter((revision) => revision.offeringId === offeringId)
+      .map(toRevision)
+      .sort((a, b) => a.revisedAt.getTime() - b.revisedAt.getTime());
+  }
+
+  /**
+   * 祈念の付与
+   */
+  public async addLike(offeringId: string, userId: string): Promise<void> {
+    const likes = this.store.collection('likes');
+    if (likes.some((like) => like.offeringId === offeringId && like.userId === userId)) return;
+
+    this.store.saveCollection('likes', [
+      ...likes,
+      { id: crypto.randomUUID(), offeringId, userId, createdAt: new Date().toISOString() },
+    ]);
+    this.events.offeringLiked(offeringId, userId);
+  }
+
+  /**
+   * 閲覧の記録
+   * data-events 関数と同じく、作者本人の閲覧と、受け付けた日付から外れた閲覧日の記録は数えない
+   */
+  public async addView(offeringId: string, viewerId: string, viewedOn: string): Promise<boolean> {
+    const offering = this.store.collection('offerings').find((record) => record.id === offeringId);
+    if (!offering || offering.authorId === viewerId || !isPlausibleDayKey(viewedOn, new Date())) return false;
+
+    const views = this.store.collection('views');
+    if (views.some((view) => view.offeringId === offeringId && view.viewerId === viewerId && view.viewedOn === viewedOn)) {
+      return false;
+    }
+
+    this.store.saveCollection('views', [
+      ...views,
+      { offeringId, viewerId, viewedOn, createdAt: new Date().toISOString() },
+    ]);
+    return true;
+  }
+
+  /**
+   * 祈念の取り消し
+   */
+  public async removeLike(offeringId: string, userId: string): Promise<void> {
+    this.store.saveCollection(
+      'likes',
+      this.store.collection('likes').filter((like) => !(like.offeringId === offeringId && like.userId === userId))
+    );
+  }
+
+  /**
+   * 供物レコードの取得（存在しない場合はエラー）
+   */
+  private requireOffering(offeringId: string): ILocalOfferingRecord {
+    const record = this.store.collection('offerings').find((offering) => offering.id === offeringId);
+    if (!record) {
+      throw new Error(`供物が見つかりません: ${offeringId}`);
+    }
+    return record;
+  }
+
+  /**
+   * 供物レコードの保存（同じ ID のレコードを置き換える）
+   */
+  private saveOffering(record: ILocalOfferingRecord): void {
+    this.store.saveCollection(
+      'offerings',
+      this.store.collection('offerings').map((offering) => (offering.id === record.id ? record : offering))
+    );
+  }
+}
+
+/**
+ * ローカル導きリポジトリ
+ */
+export class LocalCommentRepository implements ICommentRepository {
+  /** 保存先 */
+  private readonly store: LocalStore;
+
+  /** 変更の後処理 */
+  private readonly events: LocalDataEvents;
+
+  constructor(store: LocalStore) {
+    this.store = store;
+    this.events = new LocalDataEvents(store);
+  }
+
+  /**
+   * 供物に寄せられた導き一覧の取得
+   * 見せてよくない供物の導きは空とする
+   */
+  public async listByOffering(offeringId: string): Promise<Comment[]> {
+    const offering = await new LocalOfferingRepository(this.store).get(offeringId);
+    return offering?.comments ?? [];
+  }
+
+  /**
+   * 導きの作成
+   */
+  public async create(offeringId: string, comment: NewComment): Promise<Comment> {
+    const record: ILocalCommentRecord = {
+      id: crypto.randomUUID(),
+      offeringId,
+      authorId: comment.authorId,
+      author: comment.author,
+      content: comment.content,
+      type: comment.type,
+      parentId: comment.parentId,
+      createdAt: new Date().toISOString(),
+    };
+    this.store.saveCollection('comments', [...this.store.collection('comments'), record]);
+    this.events.commentCreated(record);
+
+    return toComment(record, []);
+  }
+
+  /**
+   * 導きへの祈念の付与
+   */
+  public async addLike(offeringId: string, commentId: string, userId: string): Promise<void> {
+    const prayers = this.store.collection('commentPrayers');
+    if (prayers.some((prayer) => prayer.commentId === commentId && prayer.userId === userId)) return;
+
+    this.store.saveCollection('commentPrayers', [
+      ...prayers,
+      { id: crypto.randomUUID(), commentId, offeringId, userId, createdAt: new Date().toISOString() },
+    ]);
+  }
+
+  /**
+   * 導きへの祈念の取り消し
+   */
+  public async removeLike(commentId: string, userId: string): Promise<void> {
+    this.store.saveCollection(
+      'commentPrayers',
+      this.store
+        .collection('commentPrayers')
+        .filter((prayer) => !(prayer.commentId === commentId && prayer.userId === userId))
+    );
+  }
+}
+
+/**
+ * ローカル便りリポジトリ
+ */
+export class LocalNotificationRepository implements INotificationRepository {
+  /** 保存先 */
+  private readonly store: LocalStore;
+
+  constructor(store: LocalStore) {
+    this.store = store;
+  }
+
+  /**
+   * 受信者宛ての便り一覧の取得（新しい順）
+   */
+  public async list(userId: string): Promise<AppNotification[]> {
+    return this.store
+      .collection('notifications')
+      .filter((notification) => notification.userId === userId)
+      .map((record) => ({
+        ...record,
+        createdAt: new Date(record.createdAt),
+        readAt: record.readAt ? new Date(record.readAt) : undefined,
+      }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * 便りの既読化
+   */
+  public async markRead(notificationIds: string[]): Promise<void> {
+    const readAt = new Date().toISOString();
+    this.store.saveCollection(
+      'notifications',
+      this.store
+        .collection('notifications')
+        .map((notification) =>
+          notificationIds.includes(notification.id) ? { ...notification, isRead: true, readAt } : notification
+        )
+    );
+  }
+}
+
+/**
+ * ローカル保存した探求リポジトリ
+ */
+export class LocalSavedSearchRepository implements ISavedSearchRepository {
+  /** 保存先 */
+  private readonly store: LocalStore;
+
+  constructor(store: LocalStore) {
+    this.store = store;
+  }
+
+  /**
+   * 魂紋の保存した探求の取得（新しい順）
+   */
+  public async listByUser(userId: string): Promise<SavedSearch[]> {
+    return this.store
+      .collection('savedSearches')
+      .filter((savedSearch) => savedSearch.userId === userId)
+      .map(toSavedSearch)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * 探求の保存
+   */
+  public async create(savedSearch: NewSavedSearch): Promise<SavedSearch> {
+    const record: ILocalSavedSearchRecord = {
+      id: crypto.randomUUID(),
+      userId: savedSearch.userId,
+      name: savedSearch.name,
+      query: savedSearch.query,
+      filters: { ...savedSearch.filters },
+      createdAt: new Date().toISOString(),
+    };
+    this.store.saveCollection('savedSearches', [...this.store.collection('savedSearches'), record]);
+
+    return toSavedSearch(record);
+  }
+
+  /**
+   * 保存した探求の削除
+   */
+  public async delete(savedSearchId: string): Promise<void> {
+    this.store.saveCollection(
+      'savedSearches',
+      this.store.collection('savedSearches').filter((savedSearch) => savedSearch.id !== savedSearchId)
+    );
+  }
+}
+
+/**
+ * ローカル順位の写しリポジトリ
+ */
+export class LocalRankingSnapshotRepository implements IRankingSnapshotRepository {
+  /** 保存先 */
+  private readonly store: LocalStore;
+
+  constructor(store: LocalStore) {
+    this.store = store;
+  }
+
+  /**
+   * 区分の現在の順位の取得（当日の写しを取り直してから読む）
+   */
+  public async getStanding(scope: string): Promise<IRankingStanding> {
+    this.takeSnapshots(new Date());
+    const [current, previous] = this.store
+      .collection('rankingSnapshots')
+      .filter((snapshot) => snapshot.scope === scope)
+      .sort((a, b) => b.takenOn.localeCompare(a.takenOn));
+    return { current: current ?? null, previous: previous ?? null };
+  }
+
+  /**
+   * 全員に公開中の供物の順位を当日の写しとして取り直す（当日の写しと、比較に使う前の日の写しだけを残す）
+   */
+  private takeSnapshots(now: Date): void {
+    const today = toDayKey(now);
+    const earlier = this.store.collection('rankingSnapshots').filter((snapshot) => snapshot.takenOn < today);
+    const previousDay = earlier.reduce((latest, snapshot) => (snapshot.takenOn > latest ? snapshot.takenOn : latest), '');
+
+    const departmentByUserId = new Map(this.store.collection('users').map((user) => [user.id, user.department]));
+    const offerings = listPublishedOfferings(this.store).filter((offering) => offering.visibility === 'public');
+    this.store.saveCollection('rankingSnapshots', [
+      ...earlier.filter((snapshot) => snapshot.takenOn === previousDay),
+      ...takeRankingSnapshots(offerings, {
+        types: RANKING_TYPES.map((type) => type.value),
+        departments: DEPARTMENTS.filter((department) => department.value),
+        departmentOf: (authorId) => departmentByUserId.get(authorId),
+        now,
+      }),
+    ]);
+  }
+}
+
+/**
+ * ローカル縁リポジトリ
+ */
+export class LocalFollowRepository implements IFollowRepository {
+  /** 保存先 */
+  private readonly store: LocalStore;
+
+  /** 変更の後処理 */
+  private readonly events: LocalDataEvents;
+
+  constructor(store: LocalStore) {
+    this.store = store;
+    this.events = new LocalDataEvents(store);
+  }
+
+  /**
+   * 縁者（フォロワー）の取得（新しい順）
+   */
+  public async listFollowers(userId: string): Promise<Follow[]> {
+    return this.listWhere((record) => record.followeeId === userId);
+  }
+
+  /**
+   * 結縁先（フォロー中）の取得（新しい順）
+   */
+  public async listFollowing(userId: string): Promise<Follow[]> {
+    return this.listWhere((record) => record.followerId === userId);
+  }
+
+  /**
+   * 縁を結ぶ
+   */
+  public async follow(followerId: string, followeeId: string): Promise<Follow> {
+    const follows = this.store.collection('follows');
+    const existing = follows.find((record) => record.followerId === followerId && record.followeeId === followeeId);
+    if (existing) return toFollow(existing);
+
+    const record: ILocalFollowRecord = { followerId, followeeId, createdAt: new Date().toISOString() };
+    this.store.saveCollection('follows', [...follows, record]);
+    this.events.followed(record);
+
+    return toFollow(record);
+  }
+
+  /**
+   * 縁を解く
+   */
+  public async unfollow(followerId: string, followeeId: string): Promise<void> {
+    this.store.saveCollection(
+      'follows',
+      this.store
+        .collection('follows')
+        .filter((record) => !(record.followerId === followerId && record.followeeId === followeeId))
+    );
+  }
+
+  /**
+   * 条件に合う縁の取得（新しい順）
+   */
+  private listWhere(predicate: (record: ILocalFollowRecord) => boolean): Follow[] {
+    return this.store
+      .collection('follows')
+      .filter(predicate)
+      .map(toFollow)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
+
+/**
+ * ローカル魂紋リポジトリ
+ */
+export class LocalUserRepository implements IUserRepository {
+  /** 保存先 */
+  private readonly store: LocalStore;
+
+  constructor(store: LocalStore) {
+    this.store = store;
+  }
+
+  /**
+   * 魂紋一覧の取得
+   */
+  public async list(): Promise<User[]> {
+    const published = listPublishedOfferings(this.store);
+    return this.store.collection('users').map((record) => toUser(record, published));
+  }
+
+  /**
+   * 魂紋の取得
+   */
+  public async get(userId: string): Promise<User | null> {
+    const record = this.store.collection('users').find((user) => user.id === userId);
+    return record ? toUser(record, listPublishedOfferings(this.store)) : null;
+  }
+
+  /**
+   * 魂紋の作成
+   */
+  public async create(profile: NewUserProfile): Promise<User> {
+    const record: ILocalUserRecord = {
+      id: profile.id,
+      name: profile.name,
+      email: profile.email,
+      department: profile.department,
+      age: profile.age,
+      avatar: profile.avatar,
+      joinedAt: new Date().toISOString(),
+    };
+    this.store.saveCollection('users', [
+      ...this.store.collection('users').filter((user) => user.id !== profile.id),
+      record,
+    ]);
+
+    return toUser(record, []);
+  }
+
+  /**
+   * 魂紋の更新
+   */
+  public async update(userId: string, updates: UserProfileUpdate): Promise<void> {
+    const users = this.store.collection('users');
+    if (!users.some((user) => user.id === userId)) {
+      throw new Error('魂紋が見つかりません');
+    }
+
+    this.store.saveCollection(
+      'users',
+      users.map((user) => (user.id === userId ? { ...user, ...updates } : user))
+    );
+  }
+}
+
+/**
+ * ローカル認証リポジトリ
+ */
+export class LocalAuthRepository implements IAuthRepository {
+  /** 確認コードの有効期間（Cognito と同じ24時間） */
+  private static readonly CONFIRMATION_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+
+  /** 再設定コードの有効期間（Cognito と同じ1時間） */
+  private static readonly PASSWORD_RESET_CODE_TTL_MS = 60 * 60 * 1000;
+
+  /** 二段階認証の入力待ち時間（Cognito と同じ3分） */
+  private static readonly MFA_CHALLENGE_TTL_MS = 3 * 60 * 1000;
+
+  /** 二段階認証の入力待ち（結界文の検証済み） */
+  private mfaChallenge: { email: string; expiresAt: number } | null = null;
+
+  /** 保存先 */
+  private readonly store: LocalStore;
+
+  constructor(store: LocalStore) {
+    this.store = store;
+  }
+
+  /**
+   * 降霊（サインイン）
+   */
+  public async signIn(email: string, password: string): Promise<SignInResult> {
+    const account = this.findAccount(email);
+    const passwordHash = await hashPassword(email, password);
+
+    if (!account || account.passwordHash !== passwordHash) {
+      throw authError('NotAuthorizedException', '呼び名または結界文が正しくありません');
+    }
+
+    if (account.confirmed === false) {
+      throw authError('UserNotConfirmedException', '刻印の確認が済んでいません');
+    }
+
+    if (account.totpSecret) {
+      this.mfaChallenge = { email: account.email, expiresAt: Date.now() + LocalAuthRepository.MFA_CHALLENGE_TTL_MS };
+      return { type: 'totpRequired' };
+    }
+
+    return { type: 'signedIn', session: this.startSession(account) };
+  }
+
+  /**
+   * TOTP コードによる降霊の完了
+   */
+  public async confirmSignInWithTotp(code: string): Promise<IAuthSession> {
+    const challenge = this.mfaChallenge;
+    const account = challenge ? this.findAccount(challenge.email) : undefined;
+
+    if (!challenge || !account?.totpSecret || challenge.expiresAt < Date.now()) {
+      this.mfaChallenge = null;
+      throw authError('NotAuthorizedException', '降霊の有効期限が切れました。最初からやり直してください');
+    }
+
+    if (!(await verifyTotpCode(account.totpSecret, code))) {
+      throw authError('CodeMismatchException', '認証コードが一致しません');
+    }
+
+    this.mfaChallenge = null;
+    return this.startSession(account);
+  }
+
+  /**
+   * 魂紋の刻印（サインアップ）
+   */
+  public async signUp(email: string, password: string, name?: string): Promise<{ userId: string }> {
+    if (this.findAccount(email)) {
+      throw authError('UsernameExistsException', 'この符丁は既に刻印されています');
+    }
+
+    const account: ILocalAccountRecord = {
+      userId: crypto.randomUUID(),
+      email,
+      passwordHash: await hashPassword(email, password),
+      name,
+      confirmed: false,
+      confirmationCode: this.issueCode(email, '確認コード', LocalAuthRepository.CONFIRMATION_CODE_TTL_MS),
+    };
+    this.store.saveCollection('accounts', [...this.store.collection('accounts'), account]);
+
+    return { userId: account.userId };
+  }
+
+  /**
+   * 刻印の確認
+   * Cognito の自動降霊に合わせ、確認後はそのままセッションを開始する
+   */
+  public async confirmSignUp(email: string, code: string): Promise<IAuthSession | null> {
+    const account = this.findAccount(email);
+    if (!account) {
+      throw authError('UserNotFoundException', 'この符丁は刻印されていません');
+    }
+
+    if (account.confirmed !== false) {
+      throw authError('NotAuthorizedException', 'この魂紋は既に確認済みです');
+    }
+
+    this.verifyCode(account.confirmationCode, code);
+
+    const confirmed = { ...account, confirmed: true, confirmationCode: undefined };
+    this.saveAccount(confirmed);
+
+    return this.startSession(confirmed);
+  }
+
+  /**
+   * 確認コードの再送信
+   */
+  public async resendSignUpCode(email: string): Promise<void> {
+    const account = this.findAccount(email);
+    if (!account) {
+      throw authError('UserNotFoundException', 'この符丁は刻印されていません');
+    }
+
+    if (account.confirmed !== false) {
+      throw authError('InvalidParameterException', 'この魂紋は既に確認済みです');
+    }
+
+    this.saveAccount({
+      ...account,
+      confirmationCode: this.issueCode(email, '確認コード', LocalAuthRepository.CONFIRMATION_CODE_TTL_MS),
+    });
+  }
+
+  /**
+   * 結界文の変更
+   */
+  public async changePassword(oldPassword: string, newPassword: string): Promise<void> {
+    const account = await this.requireAccount();
+
+    if (account.passwordHash !== (await hashPassword(account.email, oldPassword))) {
+      throw authError('NotAuthorizedException', '現在の結界文が正しくありません');
+    }
+
+    this.saveAccount({ ...account, passwordHash: await hashPassword(account.email, newPassword) });
+  }
+
+  /**
+   * 結界文の再設定コードの送信
+   */
+  public async requestPasswordReset(email: string): Promise<void> {
+    const account = this.findAccount(email);
+    if (!account) {
+      throw authError('UserNotFoundException', 'この符丁は刻印されていません');
+    }
+
+    this.saveAccount({
+      ...account,
+      passwordResetCode: this.issueCode(email, '再設定コード', LocalAuthRepository.PASSWORD_RESET_CODE_TTL_MS),
+    });
+  }
+
+  /**
+   * 再設定コードを用いた結界文の再設定
+   */
+  public async confirmPasswordReset(email: string, code: string, newPassword: string): Promise<void> {
+    const account = this.findAccount(email);
+    if (!account) {
+      throw authError('UserNotFoundException', 'この符丁は刻印されていません');
+    }
+
+    this.verifyCode(account.passwordResetCode, code);
+
+    this.saveAccount({
+      ...account,
+      passwordHash: await hashPassword(account.email, newPassword),
+      passwordResetCode: undefined,
+    });
+  }
+
+  /**
+   * 二段階認証（TOTP）が有効か
+   */
+  public async isTotpEnabled(): Promise<boolean> {
+    return !!(await this.requireAccount()).totpSecret;
+  }
+
+  /**
+   * 二段階認証の登録開始
+   */
+  public async beginTotpSetup(): Promise<ITotpSetup> {
+    const account = await this.requireAccount();
+    const secret = generateTotpSecret();
+    this.saveAccount({ ...account, pendingTotpSecret: secret });
+
+    return { secret, uri: buildTotpUri('供物台', account.email, secret) };
+  }
+
+  /**
+   * 最初のコードを検証して二段階認証を有効にする
+   */
+  public async verifyTotpSetup(code: string): Promise<void> {
+    const account = await this.requireAccount();
+    if (!account.pendingTotpSecret) {
+      throw authError('InvalidParameterException', '二段階認証の登録が開始されていません');
+    }
+
+    if (!(await verifyTotpCode(account.pendingTotpSecret, code))) {
+      throw authError('EnableSoftwareTokenMFAException', '認証コードが一致しません');
+    }
+
+    this.saveAccount({ ...account, totpSecret: account.pendingTotpSecret, pendingTotpSecret: undefined });
+  }
+
+  /**
+   * 二段階認証の無効化
+   */
+  public async disableTotp(): Promise<void> {
+    const account = await this.requireAccount();
+    this.saveAccount({ ...account, totpSecret: undefined, pendingTotpSecret: undefined });
+  }
+
+  /**
+   * 離脱（サインアウト）
+   */
+  public async signOut(): Promise<void> {
+    this.store.remove(SESSION_KEY);
+  }
+
+  /**
+   * 保存されているセッションの取得
+   */
+  public async getCurrentSession(): Promise<IAuthSession | null> {
+    const session = this.store.read<IAuthSession | null>(SESSION_KEY, null);
+    if (!session) return null;
+
+    // アカウントが削除されている場合はセッションを破棄する
+    if (!this.findAccount(session.email)) {
+      this.store.remove(SESSION_KEY);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * 降霊中のユーザーの属性の取得
+   */
+  public async getUserAttributes(): Promise<IAuthUserAttributes> {
+    const account = await this.requireAccount();
+    return { userId: account.userId, email: account.email, name: account.name ?? null };
+  }
+
+  /**
+   * 6桁コードの発行
+   * メール送信の代わりにコンソールへ出力する
+   * @param email 送信先
+   * @param label ログ出力用のコード種別
+   * @param ttlMs 有効期間（ミリ秒）
+   */
+  private issueCode(email: string, label: string, ttlMs: number): ILocalIssuedCode {
+    const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, '0');
+    const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+
+    console.info(`LocalAuthRepository: ${email} の${label}: ${code}`);
+    return { code, expiresAt };
+  }
+
+  /**
+   * 発行済みコードの照合
+   * 不一致・期限切れは Cognito と同名の例外を投げる
+   */
+  private verifyCode(issued: ILocalIssuedCode | undefined, code: string): void {
+    if (!issued || issued.code !== code) {
+      throw authError('CodeMismatchException', '符が一致しません');
+    }
+
+    if (new Date(issued.expiresAt).getTime() < Date.now()) {
+      throw authError('ExpiredCodeException', '符の期限が切れています');
+    }
+  }
+
+  /**
+   * セッションの開始
+   */
+  private startSession(account: ILocalAccountRecord): IAuthSession {
+    const session: IAuthSession = { userId: account.userId, email: account.email };
+    this.store.write(SESSION_KEY, session);
+    return session;
+  }
+
+  /**
+   * 降霊中のアカウント取得（未降霊の場合は例外）
+   */
+  private async requireAccount(): Promise<ILocalAccountRecord> {
+    const session = await this.getCurrentSession();
+    const account = session ? this.findAccount(session.email) : undefined;
+    if (!account) {
+      throw authError('NotAuthorizedException', '降霊していません');
+    }
+
+    return account;
+  }
+
+  /**
+   * アカウントの上書き保存
+   */
+  private saveAccount(account: ILocalAccountRecord): void {
+    this.store.saveCollection(
+      'accounts',
+      this.store.collection('accounts').map((record) => (record.userId === account.userId ? account : record))
+    );
+  }
+
+  /**
+   * メールアドレスからアカウントを検索（大文字小文字を区別しない）
+   */
+  private findAccount(email: string): ILocalAccountRecord | undefined {
+    const normalized = email.toLowerCase();
+    return this.store.collection('accounts').find((account) => account.email.toLowerCase() === normalized);
+  }
+}
+
+/**
+ * ローカル画像サーバーによる画像リポジトリ
+ * 画像はブラウザ内ではなく、開発機で動かす scripts/media-server.ts がファイルとして保存する
+ */
+export class LocalMediaRepository implements IMediaRepository {
+  /** ローカル画像サーバーの URL */
+  private readonly endpoint: string;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint.replace(/\/+$/, '');
+  }
+
+  /**
+   * 供物の添付画像の保存
+   */
+  public async uploadOfferingImage(image: NewImageUpload): Promise<string> {
+    const path = `offering-images/${crypto.randomUUID()}.${image.extension}`;
+    await this.put(path, image);
+    return path;
+  }
+
+  /**
+   * 魂紋の画像の保存（一部の縮小版の保存に失敗した場合は保存済みの分を削除する）
+   */
+  public async uploadAvatar(images: NewAvatarUpload): Promise<string> {
+    const avatar = newAvatarKey();
+    const paths = AVATAR_SIZES.map((size) => avatarImagePath(avatar, size));
+    const results = await Promise.allSettled(AVATAR_SIZES.map((size, index) => this.put(paths[index], images[size])));
+    const failure = results.find((result) => result.status === 'rejected');
+    if (failure) {
+      await Promise.allSettled(paths.map((path) => this.remove(path)));
+      throw failure.reason;
+    }
+    return avatar;
+  }
+
+  /**
+   * 表示用 URL の取得
+   */
+  public async getUrl(path: string): Promise<string> {
+    return this.toUrl(path);
+  }
+
+  /**
+   * 画像の削除（既に存在しない場合も成功とする）
+   */
+  public async remove(path: string): Promise<void> {
+    const response = await fetch(this.toUrl(path), { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`画像の削除に失敗しました（${response.status}）`);
+    }
+  }
+
+  private async put(path: string, image: NewImageUpload): Promise<void> {
+    const response = await fetch(this.toUrl(path), {
+      method: 'PUT',
+      headers: { 'Content-Type': image.contentType },
+      body: image.data,
+    });
+    if (!response.ok) {
+      throw new Error(`画像の保存に失敗しました（${response.status}）`);
+    }
+  }
+
+  private toUrl(path: string): string {
+    return `${this.endpoint}/media/${path}`;
+  }
+}
+
+/**
+ * ローカルリポジトリ一式の生成
+ * @param store 保存先（省略時は localStorage）
+ * @param mediaEndpoint ローカル画像サーバーの URL
+ */
+export function createLocalRepositories(
+  store: LocalStore = new LocalStore(),
+  mediaEndpoint: string = DEFAULT_LOCAL_MEDIA_URL
+): IRepositories {
+  return {
+    auth: new LocalAuthRepository(store),
+    users: new LocalUserRepository(store),
+    offerings: new LocalOfferingRepository(store),
+    comments: new LocalCommentRepository(store),
+    notifications: new LocalNotificationRepository(store),
+    savedSearches: new LocalSavedSearchRepository(store),
+    rankingSnapshots: new LocalRankingSnapshotRepository(store),
+    follows: new LocalFollowRepository(store),
+    media: new LocalMediaRepository(mediaEndpoint),
+  };
+}
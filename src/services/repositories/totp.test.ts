@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { buildTotpUri, generateTotpSecret, verifyTotpCode } from './totp';
+
+/** RFC 6238 付録 B の SHA-1 の共有シークレット（"12345678901234567890" の Base32） */
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  it('RFC 6238 の試験値（下6桁）を検証できる', async () => {
+    expect(await verifyTotpCode(RFC_SECRET, '287082', 59 * 1000)).toBe(true);
+    expect(await verifyTotpCode(RFC_SECRET, '081804', 1111111109 * 1000)).toBe(true);
+    expect(await verifyTotpCode(RFC_SECRET, '005924', 1234567890 * 1000)).toBe(true);
+    expect(await verifyTotpCode(RFC_SECRET, '287083', 59 * 1000)).toBe(false);
+  });
+
+  it('前後1周期の時刻ずれは許し、2周期以上のずれは拒む', async () => {
+    expect(await verifyTotpCode(RFC_SECRET, '287082', (59 + 30) * 1000)).toBe(true);
+    expect(await verifyTotpCode(RFC_SECRET, '287082', (59 - 30) * 1000)).toBe(true);
+    expect(await verifyTotpCode(RFC_SECRET, '287082', (59 + 60) * 1000)).toBe(false);
+  });
+
+  it('6桁の数字でないコードは照合せずに拒む', async () => {
+    expect(await verifyTotpCode(RFC_SECRET, '28708', 59 * 1000)).toBe(false);
+    expect(await verifyTotpCode(RFC_SECRET, '2870821', 59 * 1000)).toBe(false);
+    expect(await verifyTotpCode(RFC_SECRET, '28708a', 59 * 1000)).toBe(false);
+  });
+
+  it('共有シークレットは 160bit の Base32 で、生成ごとに異なる', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it('認証アプリ登録用 URI は発行者とアカウント名をラベルに符号化する', () => {
+    expect(buildTotpUri('供物台', 'a+b@example.com', RFC_SECRET)).toBe(
+      `otpauth://totp/${encodeURIComponent('供物台:a+b@example.com')}?secret=${RFC_SECRET}&issuer=${encodeURIComponent('供物台')}`
+    );
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * 供物台（Kumotsudai）- TOTP（RFC 6238）ユーティリティ
+ *
+ * ローカルリポジトリで二段階認証を再現するための最小実装。
+ * Cognito と同じく HMAC-SHA1・30秒周期・6桁のコードを扱う。
+ *
+ * 機能:
+ * - 共有シークレット（Base32）の生成
+ * - 認証アプリ登録用 otpauth URI の生成
+ * - 前後1周期の時刻ずれを許容したコード検証
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+/** Base32 アルファベット（RFC 4648） */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** コードの更新周期（秒） */
+const PERIOD_SECONDS = 30;
+
+/** コードの桁数 */
+const DIGITS = 6;
+
+/** 許容する時刻ずれ（周期数） */
+const ALLOWED_DRIFT = 1;
+
+/**
+ * バイト列を Base32 文字列に変換（パディングなし）
+ */
+function encodeBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Base32 文字列をバイト列に変換
+ */
+function decodeBase32(secret: string): Uint8Array<ArrayBuffer> {
+  const normalized = secret.replace(/=+$/, '').replace(/\s+/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Base32 として不正な文字です: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * 指定カウンタの HOTP コードを計算（RFC 4226）
+ */
+async function computeHotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    decodeBase32(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/**
+ * 共有シークレットの生成（160bit）
+ */
+export function generateTotpSecret(): string {
+  return encodeBase32(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * 認証アプリ登録用 URI の生成
+ * @param issuer 発行者名（認証アプリに表示される）
+ * @param accountName アカウント名（通常はメールアドレス）
+ * @param secret 共有シークレット
+ */
+export function buildTotpUri(issuer: string, accountName: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * TOTP コードの検証
+ * @param secret 共有シークレット
+ * @param code 入力されたコード
+ * @param now 検証時刻（省略時は現在時刻）
+ */
+export async function verifyTotpCode(secret: string, code: string, now: number = Date.now()): Promise<boolean> {
+  if (!/^\d{6}$/.test(code)) return false;
+
+  const counter = Math.floor(now / 1000 / PERIOD_SECONDS);
+  for (let drift = -ALLOWED_DRIFT; drift <= ALLOWED_DRIFT; drift++) {
+    if ((await computeHotp(secret, counter + drift)) === code) {
+      return true;
+    }
+  }
+
+  return false;
+}
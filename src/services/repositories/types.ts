@@ -0,0 +1,489 @@
+/**
+ * 供物台（Kumotsudai）- リポジトリインターフェース定義
+ *
+ * 永続化層の抽象。`AppContext` はこのインターフェースのみに依存し、
+ * 実装（Amplify / ローカル）は `AppConfigManager.dataBackend` で切り替える。
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { AppNotification, Comment, Follow, Offering, OfferingRevision, SavedSearch, User } from '../../types/domain';
+import type { IApiResponse, ICursorPage, OfferingStatus } from '../../types/enterprise';
+import type { IRankingStanding } from '../ranking';
+
+/** ページ取得の応答に付けるリポジトリ層の版 */
+const REPOSITORY_API_VERSION = '1.0.0';
+
+/**
+ * 新規供物の入力
+ */
+export type NewOffering = Pick<Offering, 'title' | 'content' | 'author' | 'authorId' | 'genres' | 'imagePaths' | 'visibility'>;
+
+/**
+ * 供物の改訂可能項目
+ */
+export type OfferingUpdate = Pick<Offering, 'title' | 'content' | 'genres' | 'visibility'>;
+
+/**
+ * 下書きの保存・奉納の入力（添付画像は奉納までに限り差し替えられる）
+ */
+export type OfferingDraftUpdate = OfferingUpdate & Pick<Offering, 'imagePaths'>;
+
+/**
+ * 保存する画像（端末で縮小・メタデータ除去済み）
+ */
+export interface NewImageUpload {
+  /** 画像データ */
+  readonly data: Blob;
+
+  /** MIME タイプ */
+  readonly contentType: string;
+
+  /** 拡張子（保存先のパスに用いる） */
+  readonly extension: string;
+}
+
+/** 魂紋の画像（アイコン）の縮小版の一辺（px） */
+export const AVATAR_SIZES = [64, 128, 256] as const;
+
+/** 魂紋の画像の縮小版の大きさ */
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
+
+/**
+ * 保存する魂紋の画像（正方形に切り抜いた大きさごとの縮小版）
+ */
+export type NewAvatarUpload = Readonly<Record<AvatarSize, NewImageUpload>>;
+
+/**
+ * 供物一覧のページ取得の条件
+ */
+export interface IOfferingPageRequest {
+  /** 前のページの nextCursor（最初のページは省略） */
+  readonly cursor?: string | null;
+
+  /** 1ページあたりの件数 */
+  readonly limit: number;
+}
+
+/**
+ * 新規導きの入力
+ */
+export type NewComment = Pick<Comment, 'authorId' | 'author' | 'content' | 'type' | 'parentId'>;
+
+/**
+ * 新規便りの入力（便りの作成はサーバー側の data-events 関数とローカル実装の変更の後処理が行う）
+ */
+export type NewNotification = Pick<AppNotification, 'userId' | 'type' | 'title' | 'content' | 'relatedData'>;
+
+/**
+ * 新規の保存した探求の入力
+ */
+export type NewSavedSearch = Pick<SavedSearch, 'userId' | 'name' | 'query' | 'filters'>;
+
+/**
+ * 新規魂紋の入力
+ * id には認証基盤が払い出したユーザーIDを用いる
+ */
+export type NewUserProfile = Pick<User, 'id' | 'name' | 'email' | 'department' | 'age' | 'avatar'>;
+
+/**
+ * 魂紋の更新可能項目
+ */
+export type UserProfileUpdate = Partial<Pick<User, 'name' | 'department' | 'age' | 'avatar'>>;
+
+/**
+ * 認証結果
+ */
+export interface IAuthSession {
+  /** 認証基盤上のユーザーID */
+  readonly userId: string;
+
+  /** サインインに用いたメールアドレス */
+  readonly email: string;
+}
+
+/**
+ * 認証基盤に登録されたユーザーの属性
+ * 魂紋が見つからない場合は、この属性から魂紋を作成する
+ */
+export interface IAuthUserAttributes {
+  /** 認証基盤上のユーザーID */
+  readonly userId: string;
+
+  /** メールアドレス */
+  readonly email: string;
+
+  /** 刻印時に登録した名前（登録されていない場合は null） */
+  readonly name: string | null;
+}
+
+/**
+ * 降霊の結果
+ * 二段階認証が有効なアカウントでは TOTP コードの入力が求められる
+ */
+export type SignInResult =
+  | { readonly type: 'signedIn'; readonly session: IAuthSession }
+  | { readonly type: 'totpRequired' };
+
+/**
+ * 認証アプリ登録情報
+ */
+export interface ITotpSetup {
+  /** 共有シークレット（Base32、手入力・控え用） */
+  readonly secret: string;
+
+  /** 認証アプリ登録用 otpauth URI（QR コード化して表示する） */
+  readonly uri: string;
+}
+
+/**
+ * 供物リポジトリ
+ *
+ * @interface IOfferingRepository
+ */
+export interface IOfferingRepository {
+  /** 導き・祈念を含む公開中の供物の1ページ（新しい順） */
+  listPage(request: IOfferingPageRequest): Promise<IApiResponse<ICursorPage<Offering>>>;
+
+  /** 作者の供物一覧（新しい順、秘蔵中を含み、取り下げ済み・下書きを除く） */
+  listByAuthor(authorId: string): Promise<Offering[]>;
+
+  /** 供物の取得（取り下げ済み・下書き・存在しない場合は null） */
+  get(offeringId: string): Promise<Offering | null>;
+
+  /** 供物の作成 */
+  create(offering: NewOffering): Promise<Offering>;
+
+  /** 作者の下書き一覧（最後に保存した順） */
+  listDrafts(authorId: string): Promise<Offering[]>;
+
+  /** 下書きの作成 */
+  createDraft(offering: NewOffering): Promise<Offering>;
+
+  /** 下書きの保存（改訂履歴は残さない） */
+  saveDraft(offeringId: string, changes: OfferingDraftUpdate): Promise<Offering>;
+
+  /** 下書きの奉納（奉納日時を現在に改める） */
+  publishDraft(offeringId: string, changes: OfferingDraftUpdate): Promise<Offering>;
+
+  /** 供物の改訂（改める前の版を改訂履歴に保存する） */
+  update(offering: Offering, changes: OfferingUpdate): Promise<Offering>;
+
+  /** 供物の状態変更（秘蔵・取り下げ等） */
+  setStatus(offeringId: string, status: OfferingStatus): Promise<void>;
+
+  /** 改訂履歴（古い順） */
+  listRevisions(offeringId: string): Promise<OfferingRevision[]>;
+
+  /** 祈念の付与 */
+  addLike(offeringId: string, userId: string): Promise<void>;
+
+  /** 祈念の取り消し */
+  removeLike(offeringId: string, userId: string): Promise<void>;
+
+  /**
+   * 閲覧の記録（魂紋・供物・日ごとに1件）
+   * @param viewedOn 閲覧日（YYYY-MM-DD、閲覧者の端末の日付。受け付けた日付から外れたものは数えない）
+   * @returns 新たに数えたか（同じ日に記録済みの場合・作者本人の閲覧の場合は false）
+   */
+  addView(offeringId: string, viewerId: string, viewedOn: string): Promise<boolean>;
+}
+
+/**
+ * 導きリポジトリ
+ *
+ * @interface ICommentRepository
+ */
+export interface ICommentRepository {
+  /** 供物に寄せられた導き一覧（古い順） */
+  listByOffering(offeringId: string): Promise<Comment[]>;
+
+  /** 導きの作成 */
+  create(offeringId: string, comment: NewComment): Promise<Comment>;
+
+  /** 導きへの祈念の付与 */
+  addLike(offeringId: string, commentId: string, userId: string): Promise<void>;
+
+  /** 導きへの祈念の取り消し */
+  removeLike(commentId: string, userId: string): Promise<void>;
+}
+
+/**
+ * 便りリポジトリ
+ *
+ * @interface INotificationRepository
+ */
+export interface INotificationRepository {
+  /** 受信者宛ての便り一覧（新しい順） */
+  list(userId: string): Promise<AppNotification[]>;
+
+  /** 便りの既読化 */
+  markRead(notificationIds: string[]): Promise<void>;
+}
+
+/**
+ * 保存した探求リポジトリ
+ *
+ * @interface ISavedSearchRepository
+ */
+export interface ISavedSearchRepository {
+  /** 魂紋の保存した探求（新しい順） */
+  listByUser(userId: string): Promise<SavedSearch[]>;
+
+  /** 探求の保存 */
+  create(savedSearch: NewSavedSearch): Promise<SavedSearch>;
+
+  /** 保存した探求の削除 */
+  delete(savedSearchId: string): Promise<void>;
+}
+
+/**
+ * 順位の写しリポジトリ
+ * 写しはサーバー側の ranking-snapshots 関数が定期的に取るため、画面からは読み取りのみ行う
+ *
+ * @interface IRankingSnapshotRepository
+ */
+export interface IRankingSnapshotRepository {
+  /** 区分の現在の順位（最新の写しと、比較に使う前の日の写し） */
+  getStanding(scope: string): Promise<IRankingStanding>;
+}
+
+/**
+ * 縁（フォロー）リポジトリ
+ *
+ * @interface IFollowRepository
+ */
+export interface IFollowRepository {
+  /** 魂紋と縁を結んだ縁者（フォロワー）の一覧（新しい順） */
+  listFollowers(userId: string): Promise<Follow[]>;
+
+  /** 魂紋が縁を結んだ結縁先（フォロー中）の一覧（新しい順） */
+  listFollowing(userId: string): Promise<Follow[]>;
+
+  /** 縁を結ぶ（結び済みならその縁を返す） */
+  follow(followerId: string, followeeId: string): Promise<Follow>;
+
+  /** 縁を解く（結んでいなければ何もしない） */
+  unfollow(followerId: string, followeeId: string): Promise<void>;
+}
+
+/**
+ * 魂紋リポジトリ
+ *
+ * @interface IUserRepository
+ */
+export interface IUserRepository {
+  /** 魂紋一覧（統計値は公開中の供物のすべてから集計した値） */
+  list(): Promise<User[]>;
+
+  /** 魂紋の取得 */
+  get(userId: string): Promise<User | null>;
+
+  /** 魂紋の作成 */
+  create(profile: NewUserProfile): Promise<User>;
+
+  /** 魂紋の更新 */
+  update(userId: string, updates: UserProfileUpdate): Promise<void>;
+}
+
+/**
+ * 認証リポジトリ
+ *
+ * @interface IAuthRepository
+ */
+export interface IAuthRepository {
+  /** 降霊（サインイン） */
+  signIn(email: string, password: string): Promise<SignInResult>;
+
+  /** 二段階認証の TOTP コードによる降霊の完了 */
+  confirmSignInWithTotp(code: string): Promise<IAuthSession>;
+
+  /**
+   * 魂紋の刻印（サインアップ）。確認コードがメールで送信される
+   * 名前は認証基盤にも登録し、魂紋を作成できないまま降霊した場合に用いる
+   */
+  signUp(email: string, password: string, name?: string): Promise<{ userId: string }>;
+
+  /**
+   * 刻印の確認（メールの確認コード）
+   * 自動降霊に成功した場合はそのセッションを、それ以外は null を返す
+   */
+  confirmSignUp(email: string, code: string): Promise<IAuthSession | null>;
+
+  /** 確認コードの再送信 */
+  resendSignUpCode(email: string): Promise<void>;
+
+  /** 結界文の変更（降霊中のユーザー） */
+  changePassword(oldPassword: string, newPassword: string): Promise<void>;
+
+  /** 結界文の再設定コードの送信 */
+  requestPasswordReset(email: string): Promise<void>;
+
+  /** 再設定コードを用いた結界文の再設定 */
+  confirmPasswordReset(email: string, code: string, newPassword: string): Promise<void>;
+
+  /** 二段階認証（TOTP）が有効か */
+  isTotpEnabled(): Promise<boolean>;
+
+  /** 二段階認証の登録開始（共有シークレットの発行） */
+  beginTotpSetup(): Promise<ITotpSetup>;
+
+  /** 認証アプリの最初のコードを検証し、二段階認証を有効にする */
+  verifyTotpSetup(code: string): Promise<void>;
+
+  /** 二段階認証の無効化 */
+  disableTotp(): Promise<void>;
+
+  /** 離脱（サインアウト） */
+  signOut(): Promise<void>;
+
+  /** 保存されているセッションの取得（未降霊・期限切れの場合は null） */
+  getCurrentSession(): Promise<IAuthSession | null>;
+
+  /** 降霊中のユーザーの属性の取得 */
+  getUserAttributes(): Promise<IAuthUserAttributes>;
+}
+
+/**
+ * 画像リポジトリ
+ *
+ * @interface IMediaRepository
+ */
+export interface IMediaRepository {
+  /** 供物の添付画像の保存（保存先のパスを返す） */
+  uploadOfferingImage(image: NewImageUpload): Promise<string>;
+
+  /**
+   * 魂紋の画像の保存（画像を指す値を返す）
+   * 差し替えのたびに新しい値とし、古い画像の URL から新しい画像が見えないようにする
+   */
+  uploadAvatar(images: NewAvatarUpload): Promise<string>;
+
+  /** 表示用の URL（期限付きの場合がある） */
+  getUrl(path: string): Promise<string>;
+
+  /** 画像の削除 */
+  remove(path: string): Promise<void>;
+}
+
+/**
+ * リポジトリ一式
+ *
+ * @interface IRepositories
+ */
+export interface IRepositories {
+  readonly auth: IAuthRepository;
+  readonly users: IUserRepository;
+  readonly offerings: IOfferingRepository;
+  readonly comments: ICommentRepository;
+  readonly notifications: INotificationRepository;
+  readonly savedSearches: ISavedSearchRepository;
+  readonly rankingSnapshots: IRankingSnapshotRepository;
+  readonly follows: IFollowRepository;
+  readonly media: IMediaRepository;
+}
+
+/**
+ * ページの位置（カーソルの中身）
+ * 各実装で共通して用いる
+ */
+export interface IPageCursor {
+  /** 次に取得するページの番号（1始まり） */
+  readonly page: number;
+
+  /** 実装ごとの続きの位置（Amplify の nextToken、ローカルの読み飛ばす件数） */
+  readonly position: string;
+
+  /** これまでに取得した件数 */
+  readonly loaded: number;
+}
+
+/**
+ * カーソルの復元
+ * @returns ページの位置（最初のページは null）
+ */
+export function decodePageCursor(cursor: string | null | undefined): IPageCursor | null {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(atob(cursor)) as Partial<IPageCursor>;
+    if (typeof parsed.page === 'number' && typeof parsed.position === 'string' && typeof parsed.loaded === 'number') {
+      return { page: parsed.page, position: parsed.position, loaded: parsed.loaded };
+    }
+  } catch {
+    // 下で不正なカーソルとして扱う
+  }
+  throw new Error('ページのカーソルが不正です');
+}
+
+/**
+ * 1ページ分の組み立て
+ * @param cursor 取得したページの位置（最初のページは null）
+ * @param nextPosition 続きの位置（最後のページは null）
+ * @param totalItems 総件数（数えられない場合は省略）
+ */
+export function buildCursorPage<T>(
+  items: T[],
+  limit: number,
+  cursor: IPageCursor | null,
+  nextPosition: string | null,
+  totalItems?: number
+): ICursorPage<T> {
+  const page = cursor?.page ?? 1;
+  const loaded = (cursor?.loaded ?? 0) + items.length;
+  const nextCursor = nextPosition === null ? null : btoa(JSON.stringify({ page: page + 1, position: nextPosition, loaded }));
+  const isTotalExact = totalItems !== undefined;
+
+  return {
+    items,
+    pagination: {
+      currentPage: page,
+      itemsPerPage: limit,
+      totalItems: totalItems ?? loaded,
+      totalPages: isTotalExact ? Math.max(1, Math.ceil(totalItems / limit)) : page,
+      hasNext: nextCursor !== null,
+      hasPrevious: page > 1,
+      nextCursor,
+      isTotalExact,
+    },
+  };
+}
+
+/**
+ * 取得処理の結果を API 応答の形にまとめる（失敗は例外ではなく error として返す）
+ * @param code 失敗時のエラーコード
+ */
+export async function toApiResponse<T>(code: string, operation: () => Promise<T>): Promise<IApiResponse<T>> {
+  const meta = { requestId: crypto.randomUUID(), timestamp: new Date().toISOString(), version: REPOSITORY_API_VERSION };
+  try {
+    return { ...meta, success: true, data: await operation() };
+  } catch (error) {
+    return { ...meta, success: false, error: { code, message: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+/** 保存済みの魂紋の画像を指す値の接頭辞（それ以外の値は以前の URL 入力欄の値） */
+const AVATAR_PATH_PREFIX = 'avatars/';
+
+/**
+ * 保存済みの魂紋の画像を指す値か
+ */
+export function isStoredAvatar(avatar: string | undefined): avatar is string {
+  return !!avatar && avatar.startsWith(AVATAR_PATH_PREFIX);
+}
+
+/**
+ * 魂紋の画像の縮小版の保存先のパス
+ * @param avatar 保存済みの魂紋の画像を指す値
+ */
+export function avatarImagePath(avatar: string, size: AvatarSize): string {
+  return `${avatar}-${size}.jpg`;
+}
+
+/**
+ * 魂紋の画像を指す値の生成（縮小版のパスはこの値に大きさを付けたもの）
+ * @param owner 保存先の領域（Amplify では Cognito Identity ID）
+ */
+export function newAvatarKey(owner?: string): string {
+  return owner ? `${AVATAR_PATH_PREFIX}${owner}/${crypto.randomUUID()}` : `${AVATAR_PATH_PREFIX}${crypto.randomUUID()}`;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { buildRoutePath, createRoute, isGuestOnlyScreen, isProtectedScreen, parseRoute } from './router';
+
+describe('URL ルーティング', () => {
+  it('固定パス・供物・魂紋のパスを画面状態に復元し、未知のパスは null とする', () => {
+    expect(parseRoute('/')).toEqual(createRoute('main'));
+    expect(parseRoute('/notifications/')).toEqual(createRoute('notifications'));
+    expect(parseRoute('/offerings/o%201')).toEqual(createRoute('main', { offeringId: 'o 1' }));
+    expect(parseRoute('/users/user-a')).toEqual(createRoute('userProfile', { userId: 'user-a' }));
+    expect(parseRoute('/offerings/o1/edit')).toBeNull();
+    expect(parseRoute('/unknown')).toBeNull();
+  });
+
+  it('降霊後の戻り先はアプリ内の絶対パスのみ受け付ける', () => {
+    expect(parseRoute('/login', '?redirect=%2Fusers%2Fuser-a')?.redirect).toBe('/users/user-a');
+    expect(parseRoute('/login', '?redirect=%2F%2Fevil.example.com')?.redirect).toBeNull();
+    expect(parseRoute('/login', '?redirect=https%3A%2F%2Fevil.example.com')?.redirect).toBeNull();
+    expect(parseRoute('/login')?.redirect).toBeNull();
+  });
+
+  it('画面状態からパスを作り、復元すると元の画面状態に戻る', () => {
+    const routes = [
+      createRoute('main'),
+      createRoute('main', { offeringId: 'o 1' }),
+      createRoute('userProfile', { userId: 'user-a' }),
+      createRoute('profile'),
+      createRoute('help'),
+      createRoute('login', { redirect: '/offerings/o1?tab=guidance' }),
+    ];
+    for (const route of routes) {
+      expect(parseRoute(...splitPath(buildRoutePath(route)))).toEqual(route);
+    }
+  });
+
+  it('供物の詳細は降霊が必要な画面の上でのみ供物のパスとし、魂紋のない魂紋画面はメインとする', () => {
+    expect(buildRoutePath(createRoute('userProfile', { userId: 'user-a', offeringId: 'o1' }))).toBe('/offerings/o1');
+    expect(buildRoutePath(createRoute('help', { offeringId: 'o1' }))).toBe('/help');
+    expect(buildRoutePath(createRoute('userProfile'))).toBe('/');
+  });
+
+  it('降霊前のみの画面と、降霊の有無に関わらず表示できる画面は保護しない', () => {
+    expect(isGuestOnlyScreen('register')).toBe(true);
+    expect(isProtectedScreen('register')).toBe(false);
+    expect(isProtectedScreen('contact')).toBe(false);
+    expect(isGuestOnlyScreen('contact')).toBe(false);
+    expect(isProtectedScreen('notifications')).toBe(true);
+  });
+});
+
+/** パスを pathname と search に分ける */
+function splitPath(path: string): [string, string] {
+  const index = path.indexOf('?');
+  return index < 0 ? [path, ''] : [path.slice(0, index), path.slice(index)];
+}
@@ -0,0 +1,149 @@
+/**
+ * 供物台（Kumotsudai）- URL ルーティング
+ *
+ * `AppContext` の画面状態（currentScreen / selectedUserId / selectedOfferingId）と
+ * ブラウザの URL（History API）を相互に変換する。
+ *
+ * ルート一覧:
+ * - /                 : メイン（供物一覧）
+ * - /offerings/:id    : 供物の詳細（メイン画面上にモーダル表示）
+ * - /users/:id        : 魂紋（ユーザープロフィール）
+ * - /profile          : 写し絵（プロフィール）編集
+ * - /notifications    : 便り（通知一覧）
+ * - /help /contact /creators : 案内画面（降霊前でも閲覧可）
+ * - /login?redirect=… : 降霊（降霊後に redirect へ戻る）
+ * - /register /confirm : 魂紋の刻印・刻印の確認
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { AppScreen } from '../components/AppContext';
+
+/**
+ * URL から復元される画面状態
+ */
+export interface IRouteState {
+  /** 表示画面 */
+  readonly screen: AppScreen;
+
+  /** 表示中の魂紋（screen が userProfile の場合） */
+  readonly userId: string | null;
+
+  /** 詳細表示中の供物 */
+  readonly offeringId: string | null;
+
+  /** 降霊後に戻る先のパス（screen が login の場合） */
+  readonly redirect: string | null;
+}
+
+/** 固定パスと画面の対応 */
+const STATIC_ROUTES: ReadonlyArray<readonly [string, AppScreen]> = [
+  ['/', 'main'],
+  ['/login', 'login'],
+  ['/register', 'register'],
+  ['/confirm', 'confirmSignUp'],
+  ['/profile', 'profile'],
+  ['/notifications', 'notifications'],
+  ['/help', 'help'],
+  ['/contact', 'contact'],
+  ['/creators', 'creators'],
+];
+
+/** 降霊前のみ表示する画面（降霊後はメインへ移す） */
+const GUEST_ONLY_SCREENS: ReadonlySet<AppScreen> = new Set<AppScreen>(['login', 'register', 'confirmSignUp']);
+
+/** 降霊の有無に関わらず表示できる画面 */
+const PUBLIC_SCREENS: ReadonlySet<AppScreen> = new Set<AppScreen>(['help', 'contact', 'creators']);
+
+/**
+ * 画面状態の生成（省略項目は null）
+ */
+export function createRoute(screen: AppScreen, options: Partial<Omit<IRouteState, 'screen'>> = {}): IRouteState {
+  return {
+    screen,
+    userId: options.userId ?? null,
+    offeringId: options.offeringId ?? null,
+    redirect: options.redirect ?? null,
+  };
+}
+
+/**
+ * 降霊が必要な画面か
+ */
+export function isProtectedScreen(screen: AppScreen): boolean {
+  return !GUEST_ONLY_SCREENS.has(screen) && !PUBLIC_SCREENS.has(screen);
+}
+
+/**
+ * 降霊前のみ表示する画面か
+ */
+export function isGuestOnlyScreen(screen: AppScreen): boolean {
+  return GUEST_ONLY_SCREENS.has(screen);
+}
+
+/**
+ * パスから画面状態を復元
+ * @param pathname location.pathname
+ * @param search location.search
+ * @returns 画面状態（未知のパスの場合は null）
+ */
+export function parseRoute(pathname: string, search: string = ''): IRouteState | null {
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+
+  const dynamic = path.match(/^\/(offerings|users)\/([^/]+)$/);
+  if (dynamic) {
+    const id = decodeURIComponent(dynamic[2]);
+    return dynamic[1] === 'offerings'
+      ? createRoute('main', { offeringId: id })
+      : createRoute('userProfile', { userId: id });
+  }
+
+  const matched = STATIC_ROUTES.find(([routePath]) => routePath === path);
+  if (!matched) return null;
+
+  const screen = matched[1];
+  if (screen === 'login') {
+    const redirect = new URLSearchParams(search).get('redirect');
+    // 外部サイトへの転送を防ぐため、アプリ内の絶対パスのみ受け付ける
+    return createRoute('login', { redirect: redirect && /^\/(?!\/)/.test(redirect) ? redirect : null });
+  }
+
+  return createRoute(screen);
+}
+
+/**
+ * 画面状態からパスを生成
+ * 供物の詳細表示中は背後の画面に関わらず供物のパスとする
+ */
+export function buildRoutePath(route: IRouteState): string {
+  if (route.offeringId && isProtectedScreen(route.screen)) {
+    return `/offerings/${encodeURIComponent(route.offeringId)}`;
+  }
+
+  if (route.screen === 'userProfile') {
+    return route.userId ? `/users/${encodeURIComponent(route.userId)}` : '/';
+  }
+
+  if (route.screen === 'login' && route.redirect) {
+    return `/login?${new URLSearchParams({ redirect: route.redirect }).toString()}`;
+  }
+
+  const matched = STATIC_ROUTES.find(([, screen]) => screen === route.screen);
+  return matched ? matched[0] : '/';
+}
+
+/**
+ * 現在の URL から画面状態を復元（未知のパスはメイン）
+ */
+export function readCurrentRoute(): IRouteState {
+  if (typeof window === 'undefined') return createRoute('login');
+  return parseRoute(window.location.pathname, window.location.search) ?? createRoute('main');
+}
+
+/**
+ * 供物の共有用 URL
+ */
+export function buildOfferingUrl(offeringId: string): string {
+  return `${window.location.origin}${buildRoutePath(createRoute('main', { offeringId }))}`;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { buildSnippet, highlightText, normalizeSearchText, normalizeWithOffsets, OfferingSearchIndex, tokenize } from './search';
+import { offering } from './testFixtures';
+
+/** 検索結果の供物 ID */
+const idsOf = (index: OfferingSearchIndex, query: string): string[] => index.search(query).map((hit) => hit.offering.id);
+
+describe('全文検索', () => {
+  it('全角英数字・大文字・カタカナ・半角カナの表記ゆれを畳み込む', () => {
+    expect(normalizeSearchText('Ｒｅａｃｔ')).toBe('react');
+    expect(normalizeSearchText('カタカナ')).toBe('かたかな');
+    expect(normalizeSearchText('ｶﾞｲﾄﾞ')).toBe('がいど');
+  });
+
+  it('正規化した文字から元の文字列での位置を辿れる（半角の濁点は直前の文字とまとめる）', () => {
+    expect(normalizeWithOffsets('aｶﾞ')).toEqual({ text: 'aが', starts: [0, 1], ends: [1, 3] });
+  });
+
+  it('漢字・かなは2文字ずつ、英数字は語ごとに分かち書きする', () => {
+    expect(tokenize('供物台とreact 1')).toEqual([
+      { term: '供物', start: 0, end: 2 },
+      { term: '物台', start: 1, end: 3 },
+      { term: '台と', start: 2, end: 4 },
+      { term: 'react', start: 4, end: 9 },
+      { term: '1', start: 10, end: 11 },
+    ]);
+    expect(tokenize('祈')).toEqual([{ term: '祈', start: 0, end: 1 }]);
+  });
+
+  it('表記ゆれ・英数字の前方一致・漢字1文字の部分一致で探せる', () => {
+    const index = new OfferingSearchIndex([
+      offering('kana', { title: 'カタカナの学習' }),
+      offering('react', { title: 'React入門' }),
+    ]);
+
+    expect(idsOf(index, 'かたかな')).toEqual(['kana']);
+    expect(idsOf(index, 'ＲＥＡＣ')).toEqual(['react']);
+    expect(idsOf(index, '学')).toEqual(['kana']);
+    expect(idsOf(index, '   ')).toEqual([]);
+  });
+
+  it('空白で区切った語をすべて含む供物に絞る', () => {
+    const index = new OfferingSearchIndex([
+      offering('both', { title: 'React入門', content: '学習の記録' }),
+      offering('one', { title: 'React入門' }),
+    ]);
+
+    expect(idsOf(index, 'react 学習')).toEqual(['both']);
+    expect(idsOf(index, 'react 書道')).toEqual([]);
+  });
+
+  it('題名での一致を本文での一致より重く見る', () => {
+    const index = new OfferingSearchIndex([
+      offering('content', { title: '日々', content: '祈念の記録' }),
+      offering('title', { title: '祈念の記録', content: '日々' }),
+    ]);
+
+    expect(idsOf(index, '祈念')).toEqual(['title', 'content']);
+  });
+
+  it('一致箇所を元の表記のまま強調する', () => {
+    expect(highlightText('ＲｅａｃｔとReact', ['react'])).toEqual([
+      { text: 'Ｒｅａｃｔ', matched: true },
+      { text: 'と', matched: false },
+      { text: 'React', matched: true },
+    ]);
+    expect(highlightText('一致なし', ['react'])).toEqual([{ text: '一致なし', matched: false }]);
+  });
+
+  it('抜粋は最初の一致箇所の前後を切り出し、切った側に省略記号を付ける', () => {
+    const source = `${'あ'.repeat(100)}供物${'い'.repeat(100)}`;
+
+    expect(buildSnippet(source, ['供物'], 20)).toEqual([
+      { text: '…', matched: false },
+      { text: 'あ'.repeat(5), matched: false },
+      { text: '供物', matched: true },
+      { text: 'い'.repeat(13), matched: false },
+      { text: '…', matched: false },
+    ]);
+    expect(buildSnippet('短い本文', ['供物'])).toEqual([{ text: '短い本文', matched: false }]);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * 供物台（Kumotsudai）- 探求の壇の全文検索
+ *
+ * 供物の題名・内容・ジャンル・作者から索引を作り、日本語の表記ゆれを吸収して検索する。
+ *
+ * 機能:
+ * - NFKC 正規化・小文字化・カタカナのひらがなへの畳み込み（元の文字位置との対応付き）
+ * - 漢字・かなは2文字ずつ（bigram）、英数字は語ごとの分かち書き
+ * - 項目ごとの重みを付けた BM25 による関連度
+ * - 一致した箇所の強調表示と抜粋
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { Offering } from '../types/domain';
+
+/** 検索対象の項目 */
+export type SearchField = 'title' | 'genres' | 'author' | 'content';
+
+/** 項目ごとの重み（題名での一致を最も重く見る） */
+export const SEARCH_FIELD_WEIGHTS: Readonly<Record<SearchField, number>> = {
+  title: 3,
+  genres: 2,
+  author: 1.5,
+  content: 1
+};
+
+/** BM25 の語の出現回数に対する飽和の強さ */
+const BM25_K1 = 1.2;
+
+/** BM25 の文書の長さによる補正の強さ */
+const BM25_B = 0.75;
+
+/** 漢字・かな（bigram で分かち書きする文字） */
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々〆ヶ]/u;
+
+/** 英数字（語として分かち書きする文字） */
+const WORD_PATTERN = /[\p{L}\p{N}]/u;
+
+/** 直前の文字と合わせて正規化する結合文字（半角の濁点・半濁点を含む） */
+const COMBINING_PATTERN = /[\p{M}ﾞﾟ]/u;
+
+/**
+ * 正規化した文字列と、元の文字列での位置の対応
+ */
+export interface INormalizedText {
+  /** 正規化した文字列 */
+  readonly text: string;
+
+  /** 正規化後の各文字に対応する元の文字列での開始位置 */
+  readonly starts: readonly number[];
+
+  /** 正規化後の各文字に対応する元の文字列での終了位置 */
+  readonly ends: readonly number[];
+}
+
+/**
+ * 語と、正規化した文字列での位置
+ */
+export interface ISearchToken {
+  readonly term: string;
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * 検索結果の1件
+ */
+export interface ISearchHit {
+  readonly offering: Offering;
+
+  /** 関連度（BM25） */
+  readonly score: number;
+
+  /** 一致した索引の語（強調表示に使う） */
+  readonly terms: readonly string[];
+}
+
+/**
+ * 強調表示の区切り
+ */
+export interface IHighlightSegment {
+  readonly text: string;
+  readonly matched: boolean;
+}
+
+/**
+ * カタカナのひらがなへの畳み込み（長音符はそのまま残す）
+ */
+function foldKana(text: string): string {
+  return text.replace(/[ァ-ヶヽヾ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+/**
+ * 元の文字位置を保ったままの正規化
+ * 結合文字は直前の文字とまとめて NFKC にかける（ｶﾞ → が）
+ */
+export function normalizeWithOffsets(source: string): INormalizedText {
+  let text = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  const chars = Array.from(source);
+  let position = 0;
+  for (let i = 0; i < chars.length;) {
+    const start = position;
+    let cluster = chars[i++];
+    while (i < chars.length && COMBINING_PATTERN.test(chars[i])) {
+      cluster += chars[i++];
+    }
+    position += cluster.length;
+
+    const normalized = foldKana(cluster.normalize('NFKC').toLowerCase());
+    for (let j = 0; j < normalized.length; j++) {
+      starts.push(start);
+      ends.push(position);
+    }
+    text += normalized;
+  }
+
+  return { text, starts, ends };
+}
+
+/**
+ * 検索用の正規化（NFKC・小文字化・カタカナのひらがなへの畳み込み）
+ */
+export function normalizeSearchText(source: string): string {
+  return normalizeWithOffsets(source).text;
+}
+
+/**
+ * 正規化した文字列の分かち書き
+ * 漢字・かなの連なりは2文字ずつ（1文字だけの場合はそのまま）、英数字の連なりは1語とする
+ */
+export function tokenize(normalized: string): ISearchToken[] {
+  // 文字の種類ごとの連なりに分ける
+  const runs: Array<{ kind: 'cjk' | 'word'; chars: string[]; positions: number[]; end: number }> = [];
+  let position = 0;
+  for (const char of normalized) {
+    const kind = CJK_PATTERN.test(char) ? 'cjk' : WORD_PATTERN.test(char) ? 'word' : null;
+    const last = runs[runs.length - 1];
+    if (kind && last?.kind === kind && last.end === position) {
+      last.chars.push(char);
+      last.positions.push(position);
+    } else if (kind) {
+      runs.push({ kind, chars: [char], positions: [position], end: position });
+    }
+    position += char.length;
+    if (kind) runs[runs.length - 1].end = position;
+  }
+
+  const tokens: ISearchToken[] = [];
+  for (const { kind, chars, positions, end } of runs) {
+    if (kind === 'word' || chars.length === 1) {
+      tokens.push({ term: chars.join(''), start: positions[0], end });
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push({
+        term: chars[i] + chars[i + 1],
+        start: positions[i],
+        end: i + 2 < chars.length ? positions[i + 2] : end
+      });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 項目の検索対象の文字列
+ */
+function fieldText(offering: Offering, field: SearchField): string {
+  switch (field) {
+    case 'title': return offering.title;
+    case 'genres': return offering.genres.join(' ');
+    case 'author': return offering.author;
+    case 'content': return offering.content;
+  }
+}
+
+/**
+ * 索引に登録した供物
+ */
+interface IIndexedDocument {
+  readonly offering: Offering;
+
+  /** 重み付きの文書の長さ */
+  readonly length: number;
+}
+
+/**
+ * 供物の全文検索の索引
+ * 検索語は空白で区切った語をすべて含む供物に絞り、項目の重みを掛けた BM25 で並べる
+ */
+export class OfferingSearchIndex {
+  private readonly documents: IIndexedDocument[] = [];
+
+  /** 語 → 文書の番号 → 重み付きの出現回数 */
+  private readonly postings = new Map<string, Map<number, number>>();
+
+  /** 索引の語の一覧（前方一致・部分一致の展開に使う） */
+  private readonly vocabulary: string[];
+
+  private readonly averageLength: number;
+
+  constructor(offerings: readonly Offering[]) {
+    offerings.forEach((offering, index) => {
+      let length = 0;
+      for (const field of Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]) {
+        const weight = SEARCH_FIELD_WEIGHTS[field];
+        for (const { term } of tokenize(normalizeSearchText(fieldText(offering, field)))) {
+          let posting = this.postings.get(term);
+          if (!posting) {
+            posting = new Map();
+            this.postings.set(term, posting);
+          }
+          posting.set(index, (posting.get(index) ?? 0) + weight);
+          length += weight;
+        }
+      }
+      this.documents.push({ offering, length });
+    });
+
+    this.vocabulary = Array.from(this.postings.keys());
+    const totalLength = this.documents.reduce((sum, document) => sum + document.length, 0);
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0;
+  }
+
+  /**
+   * 検索語の語を索引の語へ展開する
+   * 英数字は前方一致（「reac」で「react」）、漢字・かな1文字はその文字を含む語に広げる
+   */
+  private expand(term: string): string[] {
+    if (CJK_PATTERN.test(term)) {
+      if (Array.from(term).length > 1) return this.postings.has(term) ? [term] : [];
+      return this.vocabulary.filter(candidate => candidate.includes(term));
+    }
+    return this.vocabulary.filter(candidate => candidate.startsWith(term));
+  }
+
+  private idf(term: string): number {
+    const documentFrequency = this.postings.get(term)?.size ?? 0;
+    const total = this.documents.length;
+    return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  /**
+   * 検索
+   * @returns 関連度の高い順の検索結果（検索語が空の場合は空配列）
+   */
+  public search(query: string): ISearchHit[] {
+    const words = normalizeSearchText(query)
+      .split(/\s+/)
+      .map(word => Array.from(new Set(tokenize(word).map(token => token.term))))
+      .filter(terms => terms.length > 0);
+    if (words.length === 0) return [];
+
+    // 語ごとに、いずれかの展開先を含む文書を求め、全ての語を含む文書に絞る
+    let candidates: Set<number> | null = null;
+    const expansions = new Map<string, string[]>();
+    for (const terms of words) {
+      for (const term of terms) {
+        const expanded = expansions.get(term) ?? this.expand(term);
+        expansions.set(term, expanded);
+
+        const matched = new Set<number>();
+        for (const candidate of expanded) {
+          for (const index of this.postings.get(candidate)?.keys() ?? []) {
+            if (!candidates || candidates.has(index)) matched.add(index);
+          }
+        }
+        candidates = matched;
+        if (candidates.size === 0) return [];
+      }
+    }
+
+    const hits: ISearchHit[] = [];
+    for (const index of candidates ?? []) {
+      const document = this.documents[index];
+      const normalizer = BM25_K1 * (1 - BM25_B + BM25_B * (document.length / (this.averageLength || 1)));
+      let score = 0;
+      const matchedTerms = new Set<string>();
+
+      for (const expanded of expansions.values()) {
+        for (const term of expanded) {
+          const frequency = this.postings.get(term)?.get(index);
+          if (!frequency) continue;
+          score += this.idf(term) * (frequency * (BM25_K1 + 1)) / (frequency + normalizer);
+          matchedTerms.add(term);
+        }
+      }
+      hits.push({ offering: document.offering, score, terms: Array.from(matchedTerms) });
+    }
+
+    return hits.sort((a, b) => b.score - a.score || b.offering.createdAt.getTime() - a.offering.createdAt.getTime());
+  }
+}
+
+/**
+ * 一致箇所の元の文字列での範囲（重なりは結合する）
+ */
+function matchedRanges(source: string, terms: readonly string[]): Array<[number, number]> {
+  const { text, starts, ends } = normalizeWithOffsets(source);
+  const ranges: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    if (!term) continue;
+    for (let found = text.indexOf(term); found !== -1; found = text.indexOf(term, found + 1)) {
+      ranges.push([starts[found], ends[found + term.length - 1]]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 範囲の区切りへの変換
+ */
+function toSegments(source: string, ranges: Array<[number, number]>, from: number, to: number): IHighlightSegment[] {
+  const segments: IHighlightSegment[] = [];
+  let cursor = from;
+  for (const [start, end] of ranges) {
+    if (end <= from || start >= to) continue;
+    const clippedStart = Math.max(start, from);
+    const clippedEnd = Math.min(end, to);
+    if (clippedStart > cursor) segments.push({ text: source.slice(cursor, clippedStart), matched: false });
+    segments.push({ text: source.slice(clippedStart, clippedEnd), matched: true });
+    cursor = clippedEnd;
+  }
+  if (cursor < to) segments.push({ text: source.slice(cursor, to), matched: false });
+  return segments;
+}
+
+/**
+ * 一致箇所を強調した区切り
+ * @param terms 検索結果の一致した語（正規化済み）
+ */
+export function highlightText(source: string, terms: readonly string[]): IHighlightSegment[] {
+  return toSegments(source, matchedRanges(source, terms), 0, source.length);
+}
+
+/**
+ * 最初の一致箇所の前後を切り出した抜粋（一致がない場合は先頭から）
+ * @param maxLength 抜粋の最大文字数（省略記号を除く）
+ */
+export function buildSnippet(source: string, terms: readonly string[], maxLength: number = 120): IHighlightSegment[] {
+  const ranges = matchedRanges(source, terms);
+  // 一致箇所の前に少し文脈を残す
+  const from = ranges.length > 0 ? Math.max(0, ranges[0][0] - Math.floor(maxLength / 4)) : 0;
+  const to = Math.min(source.length, from + maxLength);
+
+  const segments = toSegments(source, ranges, from, to);
+  if (from > 0) segments.unshift({ text: '…', matched: false });
+  if (to < source.length) segments.push({ text: '…', matched: false });
+  return segments;
+}
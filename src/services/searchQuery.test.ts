@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { SavedSearch, SearchFilters } from '../types/domain';
+import { OfferingSearchIndex } from './search';
+import { evaluateSearchQuery, findMatchingSavedSearches, matchesSearchFilters, parseSearchQuery } from './searchQuery';
+import { offering } from './testFixtures';
+
+/** 基準日時 */
+const NOW = new Date(2026, 2, 15, 12);
+
+/** 絞り込みなしの条件 */
+const NO_FILTERS: SearchFilters = { genre: 'all', author: '', date: 'all', minLikes: 0 };
+
+/** 魂紋 B の保存した探求 */
+const savedSearch = (id: string, query: string, filters: Partial<SearchFilters> = {}, userId = 'user-b'): SavedSearch => ({
+  id,
+  userId,
+  name: id,
+  query,
+  filters: { ...NO_FILTERS, ...filters },
+  createdAt: NOW,
+});
+
+describe('検索式', () => {
+  it('項目指定・#タグ・件数・除外語・完全一致を空白区切りの AND として解析する', () => {
+    expect(parseSearchQuery('著者:禊 ジャンル:【技術】 #設計 祈念>10 -除外 "完全 一致"', NOW)).toEqual({
+      root: {
+        kind: 'and',
+        operands: [
+          { kind: 'author', value: '禊' },
+          { kind: 'genre', value: '技術' },
+          { kind: 'tag', value: '設計' },
+          { kind: 'count', field: 'prayers', comparison: '>', value: 10 },
+          { kind: 'not', operand: { kind: 'text', text: '除外' } },
+          { kind: 'phrase', text: '完全 一致' },
+        ],
+      },
+      errors: [],
+    });
+  });
+
+  it('OR は AND より弱く結び付け、括弧でまとめられる', () => {
+    expect(parseSearchQuery('(react OR vue) 入門', NOW).root).toEqual({
+      kind: 'and',
+      operands: [
+        { kind: 'or', operands: [{ kind: 'text', text: 'react' }, { kind: 'text', text: 'vue' }] },
+        { kind: 'text', text: '入門' },
+      ],
+    });
+    expect(parseSearchQuery('react 入門 OR vue', NOW).root).toEqual({
+      kind: 'or',
+      operands: [
+        { kind: 'and', operands: [{ kind: 'text', text: 'react' }, { kind: 'text', text: '入門' }] },
+        { kind: 'text', text: 'vue' },
+      ],
+    });
+  });
+
+  it('全角の記号を半角として読み、期間は月の範囲・相対の日数で指定できる', () => {
+    expect(parseSearchQuery('導き＞＝５', NOW).root).toEqual({ kind: 'count', field: 'guidance', comparison: '>=', value: 5 });
+    expect(parseSearchQuery('期間:2026-01..2026-03', NOW).root).toEqual({
+      kind: 'period',
+      from: new Date(2026, 0, 1),
+      to: new Date(2026, 3, 1),
+    });
+    expect(parseSearchQuery('期間:1週間', NOW).root).toEqual({
+      kind: 'period',
+      from: new Date(NOW.getTime() - 7 * 24 * 60 * 60 * 1000),
+      to: null,
+    });
+  });
+
+  it('誤りのある条件は入力位置付きのエラーとし、残りの条件で検索する', () => {
+    expect(parseSearchQuery('著者: 未知:値 "閉じ忘れ', NOW)).toEqual({
+      root: { kind: 'phrase', text: '閉じ忘れ' },
+      errors: [
+        { message: '著者 の値がありません', start: 0, end: 3 },
+        { message: '不明な項目です: 未知（著者・ジャンル・タグ・期間・祈念・導きが使えます）', start: 4, end: 8 },
+        { message: '引用符が閉じていません', start: 9, end: 14 },
+      ],
+    });
+    expect(parseSearchQuery('(react', NOW).errors).toEqual([{ message: '括弧が閉じていません', start: 0, end: 1 }]);
+    expect(parseSearchQuery('react)', NOW)).toEqual({
+      root: { kind: 'text', text: 'react' },
+      errors: [{ message: '対応する ( がありません', start: 5, end: 6 }],
+    });
+    expect(parseSearchQuery('期間:2026-03..2026-01', NOW).errors[0].message).toBe('期間の開始が終了より後になっています');
+  });
+
+  it('一致した供物の関連度と強調する語を返し、除外した語は強調しない', () => {
+    const offerings = [
+      offering('react', { title: 'React入門', tags: ['設計'], likes: 3 }),
+      offering('vue', { title: 'Vue入門', likes: 5 }),
+      offering('both', { title: 'React と Vue の入門', likes: 1 }),
+    ];
+    const index = new OfferingSearchIndex(offerings);
+    const evaluate = (query: string) => evaluateSearchQuery(parseSearchQuery(query, NOW).root!, index, offerings);
+
+    const results = evaluate('入門 -vue');
+    expect(Array.from(results.keys())).toEqual(['react']);
+    expect(results.get('react')?.terms).toEqual(['入門']);
+    expect(Array.from(evaluate('(react OR vue) 祈念>=3').keys())).toEqual(['react', 'vue']);
+    expect(Array.from(evaluate('#設計').keys())).toEqual(['react']);
+    expect(Array.from(evaluate('"react と"').keys())).toEqual(['both']);
+  });
+});
+
+describe('探求の絞り込み条件', () => {
+  it('ジャンル・作者・最小祈念数・期間で絞り込む', () => {
+    const target = offering('o1', { genres: ['技術'], author: 'ミソギ', likes: 2, createdAt: new Date(NOW.getTime() - 3 * 24 * 60 * 60 * 1000) });
+
+    expect(matchesSearchFilters(target, NO_FILTERS, NOW)).toBe(true);
+    expect(matchesSearchFilters(target, { ...NO_FILTERS, genre: '技術', author: 'みそぎ' }, NOW)).toBe(true);
+    expect(matchesSearchFilters(target, { ...NO_FILTERS, genre: '学習' }, NOW)).toBe(false);
+    expect(matchesSearchFilters(target, { ...NO_FILTERS, minLikes: 3 }, NOW)).toBe(false);
+    expect(matchesSearchFilters(target, { ...NO_FILTERS, date: 'week' }, NOW)).toBe(true);
+    expect(matchesSearchFilters(target, { ...NO_FILTERS, date: 'today' }, NOW)).toBe(false);
+  });
+
+  it('新たな供物に一致する他の魂紋の探求を返し、誤りのある条件は除いて照合する', () => {
+    const target = offering('o1', { title: 'React入門', genres: ['技術'] });
+
+    const matched = findMatchingSavedSearches(target, [
+      savedSearch('react', 'react'),
+      savedSearch('vue', 'vue'),
+      savedSearch('genre', 'react', { genre: '学習' }),
+      savedSearch('broken', 'react 未知:値'),
+      savedSearch('own', 'react', {}, 'user-a'),
+    ]);
+    expect(matched.map((search) => search.id)).toEqual(['react', 'broken']);
+  });
+});
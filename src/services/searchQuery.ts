@@ -0,0 +1,491 @@
+/**
+ * 供物台（Kumotsudai）- 探求の壇の検索式
+ *
+ * 検索欄に入力した検索式を構文木に変換し、供物の絞り込みに使う。
+ * 例: 著者:禊 ジャンル:技術 ジャンル:学習 #設計 祈念>10 期間:2026-01..2026-03 -除外語 "完全一致"
+ *
+ * 機能:
+ * - 項目指定（著者・ジャンル・タグ・期間・祈念数・導き数）、#タグ
+ * - 完全一致（"…"）と全文検索（索引による語の検索）
+ * - AND（空白区切りでも可）・OR・NOT（- 前置でも可）と括弧
+ * - 入力位置付きの構文エラー（誤りのある条件を除いて残りで検索する）
+ * - 探求の壇の絞り込み条件（ジャンル・作者・期間・最小祈念数）の判定
+ * - 保存した探求と新たな供物との照合
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { Offering, SavedSearch, SearchFilters } from '../types/domain';
+import { normalizeSearchText, OfferingSearchIndex, type ISearchHit } from './search';
+
+/** 件数で比べる項目（祈念数・導き数） */
+export type SearchCountField = 'prayers' | 'guidance';
+
+/** 件数の比較演算子 */
+export type SearchComparison = '=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * 検索式の構文木
+ */
+export type SearchQueryNode =
+  | { readonly kind: 'text'; readonly text: string }
+  | { readonly kind: 'phrase'; readonly text: string }
+  | { readonly kind: 'author'; readonly value: string }
+  | { readonly kind: 'genre'; readonly value: string }
+  | { readonly kind: 'tag'; readonly value: string }
+  | { readonly kind: 'count'; readonly field: SearchCountField; readonly comparison: SearchComparison; readonly value: number }
+  | { readonly kind: 'period'; readonly from: Date | null; readonly to: Date | null }
+  | { readonly kind: 'not'; readonly operand: SearchQueryNode }
+  | { readonly kind: 'and'; readonly operands: readonly SearchQueryNode[] }
+  | { readonly kind: 'or'; readonly operands: readonly SearchQueryNode[] };
+
+/**
+ * 構文エラー（位置は入力文字列での範囲）
+ */
+export interface ISearchQueryError {
+  readonly message: string;
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * 検索式の解析結果
+ */
+export interface IParsedSearchQuery {
+  /** 構文木（条件がない場合は null） */
+  readonly root: SearchQueryNode | null;
+
+  readonly errors: readonly ISearchQueryError[];
+}
+
+/** 項目名（入力の表記）と項目の対応 */
+const FIELD_ALIASES: ReadonlyMap<string, 'author' | 'genre' | 'tag' | 'period' | SearchCountField> = new Map([
+  ['著者', 'author'],
+  ['作者', 'author'],
+  ['author', 'author'],
+  ['ジャンル', 'genre'],
+  ['genre', 'genre'],
+  ['タグ', 'tag'],
+  ['tag', 'tag'],
+  ['期間', 'period'],
+  ['date', 'period'],
+  ['祈念', 'prayers'],
+  ['いいね', 'prayers'],
+  ['likes', 'prayers'],
+  ['導き', 'guidance'],
+  ['コメント', 'guidance'],
+  ['comments', 'guidance']
+]);
+
+/** 相対的な期間の指定（探求の壇の期間の選択肢と同じ範囲） */
+const RELATIVE_PERIOD_DAYS: ReadonlyMap<string, number> = new Map([
+  ['1週間', 7],
+  ['1週間以内', 7],
+  ['1ヶ月', 30],
+  ['1ヶ月以内', 30]
+]);
+
+/** 1日のミリ秒 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 字句
+ */
+type QueryToken =
+  | { readonly type: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; readonly start: number; readonly end: number }
+  | { readonly type: 'term'; readonly text: string; readonly quoted: boolean; readonly start: number; readonly end: number };
+
+/**
+ * 全角の記号を半角として読む（文字数は変えない）
+ */
+function toAsciiSymbol(char: string): string {
+  const normalized = char.normalize('NFKC');
+  return normalized.length === 1 && normalized.charCodeAt(0) < 0x80 ? normalized : char;
+}
+
+const isQuote = (char: string) => char === '"' || char === '“' || char === '”';
+
+/**
+ * 字句への分割
+ * 引用符の閉じ忘れはエラーとし、行末までを引用された文字列として扱う
+ */
+function lex(input: string, errors: ISearchQueryError[]): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  const chars = Array.from(input, toAsciiSymbol).join('');
+  let i = 0;
+
+  // 引用された文字列（開始位置は引用符）
+  const readQuoted = (): string => {
+    const open = i++;
+    let close = i;
+    while (close < chars.length && !isQuote(chars[close])) close++;
+    if (close === chars.length) {
+      errors.push({ message: '引用符が閉じていません', start: open, end: chars.length });
+    }
+    const text = input.slice(i, close);
+    i = Math.min(close + 1, chars.length);
+    return text;
+  };
+
+  while (i < chars.length) {
+    const char = chars[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+    } else if (isQuote(char)) {
+      const start = i;
+      const text = readQuoted();
+      tokens.push({ type: 'term', text, quoted: true, start, end: i });
+    } else if (char === '-' && i + 1 < chars.length && !/[\s)]/.test(chars[i + 1])) {
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i++;
+    } else {
+      const start = i;
+      while (i < chars.length && !/[\s()]/.test(chars[i]) && !isQuote(chars[i])) i++;
+      const word = chars.slice(start, i);
+
+      if (word === 'OR' || word === 'AND' || word === 'NOT') {
+        tokens.push({ type: word === 'OR' ? 'or' : word === 'AND' ? 'and' : 'not', start, end: i });
+      } else if (/[:=<>]$/.test(word) && i < chars.length && isQuote(chars[i])) {
+        // 著者:"山田 太郎" のように値だけを引用した項目指定
+        const value = readQuoted();
+        tokens.push({ type: 'term', text: `${input.slice(start, start + word.length)}${value}`, quoted: false, start, end: i });
+      } else {
+        tokens.push({ type: 'term', text: input.slice(start, i), quoted: false, start, end: i });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 日付の指定（YYYY・YYYY-MM・YYYY-MM-DD、区切りは - または /）の範囲
+ * @returns 範囲の開始と、翌日・翌月・翌年の開始（不正な場合は null）
+ */
+function parseDateRange(value: string): { from: Date; to: Date } | null {
+  const match = /^(\d{4})(?:[-/](\d{1,2})(?:[-/](\d{1,2}))?)?$/.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] === undefined ? null : Number(match[2]) - 1;
+  const day = match[3] === undefined ? null : Number(match[3]);
+  if (month !== null && (month < 0 || month > 11)) return null;
+
+  if (month === null) return { from: new Date(year, 0, 1), to: new Date(year + 1, 0, 1) };
+  if (day === null) return { from: new Date(year, month, 1), to: new Date(year, month + 1, 1) };
+
+  const from = new Date(year, month, day);
+  if (from.getMonth() !== month || from.getDate() !== day) return null;
+  return { from, to: new Date(year, month, day + 1) };
+}
+
+/**
+ * 期間の指定（今日・1週間・1ヶ月・日付・日付..日付）
+ */
+function parsePeriod(value: string, now: Date): { from: Date | null; to: Date | null } | string {
+  if (value === '今日') {
+    return { from: new Date(now.getFullYear(), now.getMonth(), now.getDate()), to: null };
+  }
+  const relativeDays = RELATIVE_PERIOD_DAYS.get(value);
+  if (relativeDays !== undefined) {
+    return { from: new Date(now.getTime() - relativeDays * DAY_MS), to: null };
+  }
+
+  const [fromText, toText, ...rest] = value.split('..');
+  if (rest.length > 0) return '期間の指定が不正です';
+  if (toText === undefined) {
+    const range = parseDateRange(fromText);
+    return range ?? `日付として解釈できません: ${fromText}`;
+  }
+  if (!fromText && !toText) return '期間の開始か終了を指定してください';
+
+  const from = fromText ? parseDateRange(fromText) : null;
+  if (fromText && !from) return `日付として解釈できません: ${fromText}`;
+  const to = toText ? parseDateRange(toText) : null;
+  if (toText && !to) return `日付として解釈できません: ${toText}`;
+  if (from && to && from.from >= to.to) return '期間の開始が終了より後になっています';
+
+  return { from: from?.from ?? null, to: to?.to ?? null };
+}
+
+/**
+ * 語1つ分の条件への変換
+ * @returns 条件、またはエラーの内容（無視してよい語は null）
+ */
+function parseTerm(token: Extract<QueryToken, { type: 'term' }>, now: Date): SearchQueryNode | string | null {
+  if (token.quoted) {
+    return normalizeSearchText(token.text).trim() ? { kind: 'phrase', text: token.text } : null;
+  }
+
+  const symbols = Array.from(token.text, toAsciiSymbol).join('');
+  // #タグ は タグ:タグ と同じ
+  if (symbols.startsWith('#')) {
+    const tag = token.text.slice(1);
+    return tag ? { kind: 'tag', value: tag } : 'タグの名前がありません';
+  }
+
+  const match = /^([^:=<>]+)(:|>=|<=|>|<|=)(.*)$/.exec(symbols);
+  if (!match) {
+    return normalizeSearchText(token.text).trim() ? { kind: 'text', text: token.text } : null;
+  }
+
+  const [, name, operator, rawValue] = match;
+  const field = FIELD_ALIASES.get(name.toLowerCase());
+  if (!field) return `不明な項目です: ${name}（著者・ジャンル・タグ・期間・祈念・導きが使えます）`;
+  // 値は入力のまま使う（符号や区切りの判定のみ半角に揃えたものを使う）
+  const value = token.text.slice(name.length + operator.length).trim();
+  if (!value) return `${name} の値がありません`;
+
+  switch (field) {
+    case 'author':
+    case 'genre':
+      if (operator !== ':' && operator !== '=') return `${name} には : を使ってください`;
+      return { kind: field, value: field === 'genre' ? value.replace(/^【(.*)】$/, '$1') : value };
+    case 'tag':
+      if (operator !== ':' && operator !== '=') return `${name} には : を使ってください`;
+      return { kind: 'tag', value: value.replace(/^[#＃]/, '') };
+    case 'period': {
+      if (operator !== ':' && operator !== '=') return `${name} には : を使ってください`;
+      const period = parsePeriod(rawValue.trim(), now);
+      return typeof period === 'string' ? period : { kind: 'period', ...period };
+    }
+    case 'prayers':
+    case 'guidance': {
+      const count = rawValue.trim();
+      if (!/^\d+$/.test(count)) return `${name} の値は0以上の整数で指定してください`;
+      return { kind: 'count', field, comparison: operator === ':' ? '=' : operator as SearchComparison, value: Number(count) };
+    }
+  }
+}
+
+/**
+ * 検索式の解析
+ * 文法: 式 = AND式 (OR AND式)* / AND式 = 否定 ([AND] 否定)* / 否定 = (NOT | -) 否定 | ( 式 ) | 語
+ */
+export function parseSearchQuery(input: string, now: Date = new Date()): IParsedSearchQuery {
+  const errors: ISearchQueryError[] = [];
+  const tokens = lex(input, errors);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const error = (message: string, start: number, end: number) => errors.push({ message, start, end });
+
+  // 条件が複数あればまとめる（1つならそのまま）
+  const combine = (kind: 'and' | 'or', operands: SearchQueryNode[]): SearchQueryNode | null => {
+    if (operands.length === 0) return null;
+    return operands.length === 1 ? operands[0] : { kind, operands };
+  };
+
+  // 否定・括弧・語
+  const parseUnary = (): SearchQueryNode | null => {
+    const token = tokens[position++];
+    switch (token.type) {
+      case 'not': {
+        if (!peek() || peek().type === 'rparen' || peek().type === 'or') {
+          error('除外する条件がありません', token.start, token.end);
+          return null;
+        }
+        const operand = parseUnary();
+        return operand && { kind: 'not', operand };
+      }
+      case 'lparen': {
+        const inner = parseOr();
+        if (peek()?.type === 'rparen') {
+          position++;
+        } else {
+          error('括弧が閉じていません', token.start, token.end);
+        }
+        if (!inner) error('括弧の中に条件がありません', token.start, tokens[position - 1]?.end ?? token.end);
+        return inner;
+      }
+      case 'term': {
+        const node = parseTerm(token, now);
+        if (typeof node === 'string') {
+          error(node, token.start, token.end);
+          return null;
+        }
+        return node;
+      }
+      default:
+        // AND・OR・閉じ括弧は呼び出し元で処理するため、ここには来ない
+        return null;
+    }
+  };
+
+  // 空白・AND で並べた条件
+  const parseAnd = (): SearchQueryNode | null => {
+    const operands: SearchQueryNode[] = [];
+    for (let token = peek(); token && token.type !== 'or' && token.type !== 'rparen'; token = peek()) {
+      if (token.type === 'and') {
+        position++;
+        const next = peek();
+        if (operands.length === 0 || !next || next.type === 'or' || next.type === 'rparen' || next.type === 'and') {
+          error('AND の前後に条件が必要です', token.start, token.end);
+        }
+        continue;
+      }
+      const node = parseUnary();
+      if (node) operands.push(node);
+    }
+    return combine('and', operands);
+  };
+
+  // OR で並べた条件
+  const parseOr = (): SearchQueryNode | null => {
+    const operands: SearchQueryNode[] = [];
+    const first = parseAnd();
+    if (first) operands.push(first);
+
+    for (let token = peek(); token?.type === 'or'; token = peek()) {
+      position++;
+      const next = parseAnd();
+      if (!next || operands.length === 0) error('OR の前後に条件が必要です', token.start, token.end);
+      if (next) operands.push(next);
+    }
+    return combine('or', operands);
+  };
+
+  const operands: SearchQueryNode[] = [];
+  while (position < tokens.length) {
+    const node = parseOr();
+    if (node) operands.push(node);
+    // 対応する開き括弧のない閉じ括弧は読み飛ばして続ける
+    const token = peek();
+    if (token?.type === 'rparen') {
+      error('対応する ( がありません', token.start, token.end);
+      position++;
+    }
+  }
+
+  return { root: combine('and', operands), errors: errors.sort((a, b) => a.start - b.start) };
+}
+
+/**
+ * 件数の比較
+ */
+function compare(actual: number, comparison: SearchComparison, expected: number): boolean {
+  switch (comparison) {
+    case '=': return actual === expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+}
+
+/**
+ * 検索式に一致する供物
+ * 語・完全一致は索引で検索し、否定されていない一致の関連度を合計する
+ * @returns 供物ID → 検索結果（関連度と強調表示する語）
+ */
+export function evaluateSearchQuery(
+  root: SearchQueryNode,
+  index: OfferingSearchIndex,
+  offerings: readonly Offering[]
+): Map<string, ISearchHit> {
+  // 語ごとの索引の検索結果（同じ語は1度だけ検索する）
+  const textHits = new Map<string, Map<string, ISearchHit>>();
+  const searchText = (text: string) => {
+    let hits = textHits.get(text);
+    if (!hits) {
+      hits = new Map(index.search(text).map(hit => [hit.offering.id, hit]));
+      textHits.set(text, hits);
+    }
+    return hits;
+  };
+
+  const results = new Map<string, ISearchHit>();
+  for (const offering of offerings) {
+    let score = 0;
+    const terms = new Set<string>();
+    let searchable: string | null = null;
+
+    // collect が false の間（否定の中）は関連度・強調表示に数えない
+    const visit = (node: SearchQueryNode, collect: boolean): boolean => {
+      switch (node.kind) {
+        case 'text':
+        case 'phrase': {
+          const hit = searchText(node.text).get(offering.id);
+          if (!hit) return false;
+          if (node.kind === 'phrase') {
+            searchable ??= normalizeSearchText([offering.title, offering.genres.join(' '), offering.author, offering.content].join('\n'));
+            const phrase = normalizeSearchText(node.text).trim();
+            if (!searchable.includes(phrase)) return false;
+            if (collect) terms.add(phrase);
+          }
+          if (collect) {
+            score += hit.score;
+            hit.terms.forEach(term => terms.add(term));
+          }
+          return true;
+        }
+        case 'author':
+          return normalizeSearchText(offering.author).includes(normalizeSearchText(node.value));
+        case 'genre': {
+          const genre = normalizeSearchText(node.value);
+          return offering.genres.some(candidate => normalizeSearchText(candidate) === genre);
+        }
+        case 'tag': {
+          const tag = normalizeSearchText(node.value);
+          return offering.tags.some(candidate => normalizeSearchText(candidate) === tag);
+        }
+        case 'count':
+          return compare(node.field === 'prayers' ? offering.likes : offering.comments.length, node.comparison, node.value);
+        case 'period':
+          return (!node.from || offering.createdAt >= node.from) && (!node.to || offering.createdAt < node.to);
+        case 'not':
+          return !visit(node.operand, false);
+        case 'and':
+          return node.operands.every(operand => visit(operand, collect));
+        case 'or':
+          // 一致した全ての条件の関連度を数えるため、途中で打ち切らない
+          return node.operands.map(operand => visit(operand, collect)).some(Boolean);
+      }
+    };
+
+    if (visit(root, true)) {
+      results.set(offering.id, { offering, score, terms: Array.from(terms) });
+    }
+  }
+  return results;
+}
+
+/**
+ * 探求の壇の絞り込み条件の判定
+ */
+export function matchesSearchFilters(offering: Offering, filters: SearchFilters, now: Date = new Date()): boolean {
+  if (filters.genre !== 'all' && !offering.genres.includes(filters.genre)) return false;
+  if (filters.author && !normalizeSearchText(offering.author).includes(normalizeSearchText(filters.author))) return false;
+  if (offering.likes < filters.minLikes) return false;
+
+  switch (filters.date) {
+    case 'today':
+      return offering.createdAt.toDateString() === now.toDateString();
+    case 'week':
+      return offering.createdAt.getTime() >= now.getTime() - 7 * DAY_MS;
+    case 'month':
+      return offering.createdAt.getTime() >= now.getTime() - 30 * DAY_MS;
+    case 'all':
+      return true;
+  }
+}
+
+/**
+ * 新たな供物に一致する保存した探求
+ * 構文エラーのある条件は探求の壇と同じく除いて照合し、作者本人の探求は含めない
+ */
+export function findMatchingSavedSearches(offering: Offering, savedSearches: readonly SavedSearch[]): SavedSearch[] {
+  const index = new OfferingSearchIndex([offering]);
+  const now = new Date();
+
+  return savedSearches.filter(savedSearch => {
+    if (savedSearch.userId === offering.authorId) return false;
+    if (!matchesSearchFilters(offering, savedSearch.filters, now)) return false;
+    const { root } = parseSearchQuery(savedSearch.query, now);
+    return !root || evaluateSearchQuery(root, index, [offering]).has(offering.id);
+  });
+}
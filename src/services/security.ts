@@ -26,8 +26,8 @@ export class SecurityMonitoringService {
   /** シングルトンインスタンス */
   private static instance: SecurityMonitoringService | null = null;
   
-  /** キャッシュ */
-  private readonly securityCache: Map<string, any> = new Map();
+  /** キャッシュ（検査結果、またはレート制限の時間窓内のリクエスト時刻） */
+  private readonly securityCache: Map<string, { value: boolean; timestamp: number } | number[]> = new Map();
   
   /** 設定管理 */
   private config: AppConfigManager | null = null;
@@ -39,7 +39,7 @@ export class SecurityMonitoringService {
   private readonly securityEvents: Array<{
     type: string;
     timestamp: Date;
-    details: Record<string, any>;
+    details: Record<string, unknown>;
   }> = [];
   
   /** キャッシュTTL (ミリ秒) */
@@ -319,7 +319,8 @@ export class SecurityMonitoringService {
       const now = Date.now();
       const key = `rate_limit_${identifier}`;
       
-      let requests = this.securityCache.get(key) || [];
+      const cached = this.securityCache.get(key);
+      let requests = Array.isArray(cached) ? cached : [];
       
       // 時間窓外のリクエストを削除
       requests = requests.filter((timestamp: number) => now - timestamp < windowMs);
@@ -362,7 +363,7 @@ export class SecurityMonitoringService {
    * @param type イベントタイプ
    * @param details イベント詳細
    */
-  private recordSecurityEvent(type: string, details: Record<string, any>): void {
+  private recordSecurityEvent(type: string, details: Record<string, unknown>): void {
     try {
       const event = {
         type,
@@ -392,11 +393,11 @@ export class SecurityMonitoringService {
    * @param key キー
    * @returns キャッシュされた値
    */
-  private getCachedResult(key: string): any | null {
+  private getCachedResult(key: string): boolean | null {
     try {
       const cached = this.securityCache.get(key);
       
-      if (cached && cached.timestamp && Date.now() - cached.timestamp < this.CACHE_TTL) {
+      if (cached && !Array.isArray(cached) && Date.now() - cached.timestamp < this.CACHE_TTL) {
         return cached.value;
       }
       
@@ -412,7 +413,7 @@ export class SecurityMonitoringService {
    * @param key キー
    * @param value 値
    */
-  private setCachedResult(key: string, value: any): void {
+  private setCachedResult(key: string, value: boolean): void {
     try {
       this.securityCache.set(key, {
         value,
@@ -481,7 +482,7 @@ export class SecurityMonitoringService {
    * サービス状態取得
    * @returns サービス状態情報
    */
-  public getServiceStatus(): Record<string, any> {
+  public getServiceStatus(): Record<string, unknown> {
     return {
       initialized: this.initialized,
       hasConfig: !!this.config,
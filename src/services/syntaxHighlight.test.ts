@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getLanguageLabel, highlightCode } from './syntaxHighlight';
+
+describe('コードブロックの色分け', () => {
+  it('予約語・文字列・コメントを字句に分け、同じ種類の続く字句はまとめる', () => {
+    expect(highlightCode('const a = "x"; // 注記', 'ts')).toEqual([
+      { type: 'keyword', text: 'const' },
+      { type: 'plain', text: ' a = ' },
+      { type: 'string', text: '"x"' },
+      { type: 'plain', text: '; ' },
+      { type: 'comment', text: '// 注記' },
+    ]);
+  });
+
+  it('言語名の別名を解決し、言語ごとの真偽値・null を区別する', () => {
+    expect(highlightCode('return None  # 注記', 'py')).toEqual([
+      { type: 'keyword', text: 'return' },
+      { type: 'plain', text: ' ' },
+      { type: 'literal', text: 'None' },
+      { type: 'plain', text: '  ' },
+      { type: 'comment', text: '# 注記' },
+    ]);
+    expect(getLanguageLabel('py')).toBe('Python');
+    expect(getLanguageLabel('brainfuck')).toBe('brainfuck');
+    expect(getLanguageLabel(null)).toBeNull();
+  });
+
+  it('SQL の予約語は大文字・小文字を区別せず、数値を字句として分ける', () => {
+    expect(highlightCode('SELECT 1', 'sql')).toEqual([
+      { type: 'keyword', text: 'SELECT' },
+      { type: 'plain', text: ' ' },
+      { type: 'number', text: '1' },
+    ]);
+  });
+
+  it('シェルの # は語の途中ではコメントとしない', () => {
+    expect(highlightCode('echo a#b # 注記', 'sh')).toEqual([
+      { type: 'plain', text: 'echo a#b ' },
+      { type: 'comment', text: '# 注記' },
+    ]);
+  });
+
+  it('閉じていない文字列は行をまたがず、対応していない言語は色分けしない', () => {
+    expect(highlightCode('a = "x\nb', 'js')).toEqual([
+      { type: 'plain', text: 'a = ' },
+      { type: 'string', text: '"x' },
+      { type: 'plain', text: '\nb' },
+    ]);
+    expect(highlightCode('+[-->]', 'brainfuck')).toEqual([{ type: 'plain', text: '+[-->]' }]);
+    expect(highlightCode('const', null)).toEqual([{ type: 'plain', text: 'const' }]);
+  });
+});
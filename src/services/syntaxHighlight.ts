@@ -0,0 +1,230 @@
+/**
+ * 供物台（Kumotsudai）- コードブロックの色分け
+ *
+ * Markdown のコードブロックを、言語ごとの規則で予約語・文字列・コメントなどの字句に分ける。
+ * 色分けは読みやすさのための目安であり、各言語の文法を完全には解釈しない。
+ *
+ * 機能:
+ * - TypeScript / JavaScript・Python・JSON・シェル・SQL・CSS・YAML の字句の分類
+ * - 言語名の別名（ts・js・py・sh など）の解決
+ * - 対応していない言語は色分けせずに返す
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+/** 字句の種類 */
+export type CodeTokenType = 'plain' | 'keyword' | 'literal' | 'string' | 'number' | 'comment';
+
+/**
+ * 字句
+ */
+export interface ICodeToken {
+  readonly type: CodeTokenType;
+  readonly text: string;
+}
+
+/**
+ * 言語ごとの字句の規則
+ */
+interface ILanguageRules {
+  /** 言語の表示名 */
+  readonly label: string;
+  readonly keywords: ReadonlySet<string>;
+  /** 真偽値・null など */
+  readonly literals: ReadonlySet<string>;
+  /** 行末までのコメントの開始記号 */
+  readonly lineComments: readonly string[];
+  /** 範囲のコメントの開始・終了記号 */
+  readonly blockComment?: readonly [string, string];
+  /** 文字列を囲む記号 */
+  readonly quotes: readonly string[];
+  /** 予約語の大文字・小文字を区別しない（SQL） */
+  readonly caseInsensitive?: boolean;
+}
+
+const words = (list: string): ReadonlySet<string> => new Set(list.split(' '));
+
+const SCRIPT_RULES: ILanguageRules = {
+  label: 'TypeScript',
+  keywords: words(
+    'abstract as async await break case catch class const continue debugger declare default delete do else enum export ' +
+    'extends finally for from function get if implements import in instanceof interface keyof let new of private protected ' +
+    'public readonly return satisfies set static super switch this throw try type typeof var void while with yield'
+  ),
+  literals: words('true false null undefined NaN Infinity'),
+  lineComments: ['//'],
+  blockComment: ['/*', '*/'],
+  quotes: ['"', "'", '`']
+};
+
+/** 言語名（小文字）と規則の対応 */
+const LANGUAGES: ReadonlyMap<string, ILanguageRules> = new Map<string, ILanguageRules>([
+  ['typescript', SCRIPT_RULES],
+  ['ts', SCRIPT_RULES],
+  ['tsx', SCRIPT_RULES],
+  ['javascript', { ...SCRIPT_RULES, label: 'JavaScript' }],
+  ['js', { ...SCRIPT_RULES, label: 'JavaScript' }],
+  ['jsx', { ...SCRIPT_RULES, label: 'JavaScript' }],
+  ['python', {
+    label: 'Python',
+    keywords: words(
+      'and as assert async await break class continue def del elif else except finally for from global if import in is ' +
+      'lambda nonlocal not or pass raise return try while with yield match case'
+    ),
+    literals: words('True False None'),
+    lineComments: ['#'],
+    quotes: ['"""', "'''", '"', "'"]
+  }],
+  ['json', {
+    label: 'JSON',
+    keywords: words(''),
+    literals: words('true false null'),
+    lineComments: [],
+    quotes: ['"']
+  }],
+  ['bash', {
+    label: 'Shell',
+    keywords: words('if then else elif fi for while until do done case esac in function return export local readonly unset'),
+    literals: words('true false'),
+    lineComments: ['#'],
+    quotes: ['"', "'"]
+  }],
+  ['sql', {
+    label: 'SQL',
+    keywords: words(
+      'select from where and or not in is like between join inner left right outer full on as group by order having limit ' +
+      'offset insert into values update set delete create table alter drop index primary key foreign references distinct ' +
+      'union all case when then else end with asc desc count sum avg min max'
+    ),
+    literals: words('null true false'),
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    caseInsensitive: true
+  }],
+  ['css', {
+    label: 'CSS',
+    keywords: words('important media supports keyframes import font-face root hover focus active before after'),
+    literals: words('inherit initial unset none auto'),
+    lineComments: [],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"]
+  }],
+  ['yaml', {
+    label: 'YAML',
+    keywords: words(''),
+    literals: words('true false null yes no on off'),
+    lineComments: ['#'],
+    quotes: ['"', "'"]
+  }]
+]);
+
+/** 言語名の別名 */
+const LANGUAGE_ALIASES: ReadonlyMap<string, string> = new Map([
+  ['py', 'python'],
+  ['sh', 'bash'],
+  ['shell', 'bash'],
+  ['zsh', 'bash'],
+  ['console', 'bash'],
+  ['yml', 'yaml'],
+  ['scss', 'css']
+]);
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$-]*/;
+const NUMBER_PATTERN = /^(?:0x[\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)/;
+
+/**
+ * 言語の規則の取得（対応していなければ null）
+ */
+function findLanguage(language: string | null): ILanguageRules | null {
+  if (!language) return null;
+  const name = language.toLowerCase();
+  return LANGUAGES.get(LANGUAGE_ALIASES.get(name) ?? name) ?? null;
+}
+
+/**
+ * 言語の表示名（対応していない言語は書かれたまま）
+ */
+export function getLanguageLabel(language: string | null): string | null {
+  return findLanguage(language)?.label ?? language;
+}
+
+/**
+ * コードの字句への分割
+ * @param language コードブロックに書かれた言語名（対応していなければ全体を plain とする）
+ */
+export function highlightCode(code: string, language: string | null): ICodeToken[] {
+  const rules = findLanguage(language);
+  if (!rules) return [{ type: 'plain', text: code }];
+
+  const tokens: ICodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      tokens[tokens.length - 1] = { type, text: last.text + text };
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+
+    const lineComment = rules.lineComments.find(marker => rest.startsWith(marker));
+    // シェル・YAML の # は語の途中（URL の断片など）ではコメントとしない
+    if (lineComment && (lineComment !== '#' || i === 0 || /\s/.test(code[i - 1]))) {
+      const end = code.indexOf('\n', i);
+      const stop = end < 0 ? code.length : end;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (rules.blockComment && rest.startsWith(rules.blockComment[0])) {
+      const end = code.indexOf(rules.blockComment[1], i + rules.blockComment[0].length);
+      const stop = end < 0 ? code.length : end + rules.blockComment[1].length;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const quote = rules.quotes.find(marker => rest.startsWith(marker));
+    if (quote) {
+      let j = i + quote.length;
+      while (j < code.length && !code.startsWith(quote, j)) {
+        // 1文字の引用符の文字列は行をまたがない（テンプレート文字列を除く）
+        if (code[j] === '\n' && quote.length === 1 && quote !== '`') break;
+        j += code[j] === '\\' ? 2 : 1;
+      }
+      const stop = Math.min(code.length, code.startsWith(quote, j) ? j + quote.length : j);
+      push('string', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const isWordStart = i === 0 || !/[\w$]/.test(code[i - 1]);
+    const number = isWordStart ? NUMBER_PATTERN.exec(rest) : null;
+    if (number) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = isWordStart ? IDENTIFIER_PATTERN.exec(rest) : null;
+    if (identifier) {
+      // CSS 以外ではハイフンを語に含めない
+      const word = rules.label === 'CSS' ? identifier[0] : identifier[0].replace(/-.*$/, '');
+      const key = rules.caseInsensitive ? word.toLowerCase() : word;
+      push(rules.literals.has(key) ? 'literal' : rules.keywords.has(key) ? 'keyword' : 'plain', word);
+      i += word.length;
+      continue;
+    }
+
+    push('plain', code[i]);
+    i++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,74 @@
+/**
+ * 供物台（Kumotsudai）- テストの雛形
+ *
+ * 各テストで使う供物・導き・魂紋の雛形。テストごとに確かめる項目だけを上書きして使う。
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { Comment, Offering, User } from '../types/domain';
+
+/** 雛形の日時（日付の境目から離した正午） */
+export const FIXTURE_DATE = new Date('2025-06-15T12:00:00.000Z');
+
+/**
+ * 作者 A（甲）の全員に公開中の供物
+ * 祈念数を指定しなければ、祈念者（likedBy）の人数とする
+ */
+export function offering(id: string, overrides: Partial<Offering> = {}): Offering {
+  const likedBy = overrides.likedBy ?? [];
+  return {
+    id,
+    title: '',
+    content: '',
+    author: '甲',
+    authorId: 'user-a',
+    genres: [],
+    imagePaths: [],
+    tags: [],
+    visibility: 'public',
+    status: 'published',
+    createdAt: FIXTURE_DATE,
+    comments: [],
+    views: 0,
+    likes: likedBy.length,
+    ...overrides,
+    likedBy,
+  };
+}
+
+/**
+ * 導きの主 authorId の導き
+ */
+export function comment(authorId: string, overrides: Partial<Comment> = {}): Comment {
+  return {
+    id: `comment-${authorId}`,
+    authorId,
+    author: authorId,
+    content: '',
+    createdAt: FIXTURE_DATE,
+    likes: 0,
+    likedBy: [],
+    ...overrides,
+  };
+}
+
+/**
+ * 統計値のない魂紋
+ */
+export function user(id: string, name: string, overrides: Partial<User> = {}): User {
+  return {
+    id,
+    name,
+    email: `${id}@example.com`,
+    department: '',
+    age: '',
+    joinedAt: FIXTURE_DATE,
+    offeringCount: 0,
+    totalLikes: 0,
+    totalComments: 0,
+    totalViews: 0,
+    ...overrides,
+  };
+}
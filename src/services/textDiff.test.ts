@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { diffChars, diffLines, diffSets } from './textDiff';
+
+describe('テキスト差分', () => {
+  it('行単位の差分は改めた行を除いた行・加えた行として示す', () => {
+    expect(diffLines('一\n二\n三', '一\n弐\n三\n四')).toEqual([
+      { type: 'equal', value: '一' },
+      { type: 'removed', value: '二' },
+      { type: 'added', value: '弐' },
+      { type: 'equal', value: '三' },
+      { type: 'added', value: '四' },
+    ]);
+  });
+
+  it('同じ種別が続く行は改行でつないだ1つの断片にまとめる', () => {
+    expect(diffLines('一\n二\n三', '三')).toEqual([
+      { type: 'removed', value: '一\n二' },
+      { type: 'equal', value: '三' },
+    ]);
+    expect(diffLines('同じ\n本文', '同じ\n本文')).toEqual([{ type: 'equal', value: '同じ\n本文' }]);
+  });
+
+  it('文字単位の差分はサロゲートペアを1文字として扱う', () => {
+    expect(diffChars('🍎と米', '🍊と米')).toEqual([
+      { type: 'removed', value: '🍎' },
+      { type: 'added', value: '🍊' },
+      { type: 'equal', value: 'と米' },
+    ]);
+    expect(diffChars('', '初穂')).toEqual([{ type: 'added', value: '初穂' }]);
+  });
+
+  it('集合の差分は加わった・除かれた要素をそれぞれの並びのまま返す', () => {
+    expect(diffSets(['日々', '学習', '感謝'], ['感謝', '創作', '日々', '発見'])).toEqual({
+      added: ['創作', '発見'],
+      removed: ['学習'],
+    });
+    expect(diffSets(['日々'], ['日々'])).toEqual({ added: [], removed: [] });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * 供物台（Kumotsudai）- テキスト差分
+ *
+ * 供物の改訂履歴を表示するための差分計算。
+ * 最長共通部分列（LCS）により、2つの版の間で残った・加わった・除かれた部分を求める。
+ *
+ * 機能:
+ * - 行単位の差分（内容）
+ * - 文字単位の差分（題名）
+ * - 集合の差分（ジャンル）
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+/**
+ * 差分の断片
+ */
+export interface IDiffPart {
+  /** 種別（共通・追加・削除） */
+  readonly type: 'equal' | 'added' | 'removed';
+
+  /** 断片の内容（行単位の差分では改行を含まない行の連結） */
+  readonly value: string;
+}
+
+/**
+ * 集合の差分
+ */
+export interface ISetDiff {
+  /** 加わった要素 */
+  readonly added: string[];
+
+  /** 除かれた要素 */
+  readonly removed: string[];
+}
+
+/**
+ * 要素列の差分（LCS）
+ * 同じ種別が連続する要素は1つの断片にまとめる
+ * @param before 変更前の要素列
+ * @param after 変更後の要素列
+ * @param separator 断片にまとめる際の区切り文字
+ */
+function diffSequence(before: readonly string[], after: readonly string[], separator: string): IDiffPart[] {
+  const rows = before.length;
+  const cols = after.length;
+
+  // lengths[i][j] は before[i..] と after[j..] の LCS 長
+  const lengths: Uint16Array[] = Array.from({ length: rows + 1 }, () => new Uint16Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: Array<{ type: IDiffPart['type']; values: string[] }> = [];
+  const push = (type: IDiffPart['type'], value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.values.push(value);
+    } else {
+      parts.push({ type, values: [value] });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      push('equal', before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < rows) push('removed', before[i++]);
+  while (j < cols) push('added', after[j++]);
+
+  return parts.map(({ type, values }) => ({ type, value: values.join(separator) }));
+}
+
+/**
+ * 行単位の差分
+ */
+export function diffLines(before: string, after: string): IDiffPart[] {
+  return diffSequence(before.split('\n'), after.split('\n'), '\n');
+}
+
+/**
+ * 文字単位の差分（サロゲートペアを1文字として扱う）
+ */
+export function diffChars(before: string, after: string): IDiffPart[] {
+  return diffSequence(Array.from(before), Array.from(after), '');
+}
+
+/**
+ * 集合の差分（順序は変更後・変更前の並びを保つ）
+ */
+export function diffSets(before: readonly string[], after: readonly string[]): ISetDiff {
+  return {
+    added: after.filter((value) => !before.includes(value)),
+    removed: before.filter((value) => !after.includes(value)),
+  };
+}
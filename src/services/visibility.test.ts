@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { isViewableOffering, isWithinAudience } from './visibility';
+
+describe('供物の閲覧可否', () => {
+  it('状態・公開範囲が未設定の既存レコードは全員に見せる', () => {
+    expect(isViewableOffering({ authorId: 'user-a' }, null, [])).toBe(true);
+  });
+
+  it('秘蔵中は作者本人にのみ見せ、下書き・取り下げ済みは作者本人にも見せない', () => {
+    expect(isViewableOffering({ authorId: 'user-a', status: 'archived' }, 'user-a', [])).toBe(true);
+    expect(isViewableOffering({ authorId: 'user-a', status: 'archived' }, 'user-b', ['user-a'])).toBe(false);
+    expect(isViewableOffering({ authorId: 'user-a', status: 'draft' }, 'user-a', [])).toBe(false);
+    expect(isViewableOffering({ authorId: 'user-a', status: 'deleted' }, 'user-a', [])).toBe(false);
+  });
+
+  it('縁者のみの供物は作者本人と作者の縁者にのみ見せる', () => {
+    const offering = { authorId: 'user-a', status: 'published', visibility: 'followers' } as const;
+    expect(isWithinAudience(offering, 'user-a', [])).toBe(true);
+    expect(isWithinAudience(offering, 'user-b', ['user-a'])).toBe(true);
+    expect(isViewableOffering(offering, 'user-c', ['user-b'])).toBe(false);
+    expect(isViewableOffering(offering, null, [])).toBe(false);
+  });
+});
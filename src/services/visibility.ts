@@ -0,0 +1,60 @@
+/**
+ * 供物台（Kumotsudai）- 供物の閲覧可否
+ *
+ * 供物の状態・公開範囲から、閲覧者に供物を見せてよいかを判定する。
+ * サーバー側の読み取り（amplify/functions/offering-reader）とローカル実装で同じ規則を用いる。
+ *
+ * 機能:
+ * - 状態による判定（公開中は全員、秘蔵中は作者本人のみ。下書き・取り下げ済みは一覧・取得の対象外）
+ * - 公開範囲による判定（縁者のみの供物は作者本人と作者の縁者のみ）
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { OfferingStatus } from '../types/enterprise';
+import type { OfferingVisibility } from '../types/domain';
+
+/**
+ * 閲覧可否の判定に用いる供物の項目
+ * 状態・公開範囲が未設定の既存レコードは公開中・全員として扱う
+ */
+export interface IOfferingAccessFields {
+  readonly authorId: string;
+  readonly status?: OfferingStatus | null;
+  readonly visibility?: OfferingVisibility | null;
+}
+
+/**
+ * 公開範囲による判定（縁者のみの供物は作者本人と作者の縁者にのみ見せる）
+ * @param viewerId 閲覧者の魂紋 ID（未降霊は null）
+ * @param followingIds 閲覧者の結縁先の魂紋 ID
+ */
+export function isWithinAudience(
+  offering: IOfferingAccessFields,
+  viewerId: string | null,
+  followingIds: readonly string[]
+): boolean {
+  return offering.visibility !== 'followers' || offering.authorId === viewerId || followingIds.includes(offering.authorId);
+}
+
+/**
+ * 閲覧者に供物を見せてよいか
+ * 下書きは作者の下書き一覧からのみ扱うため、作者本人にも見せない
+ * @param viewerId 閲覧者の魂紋 ID（未降霊は null）
+ * @param followingIds 閲覧者の結縁先の魂紋 ID
+ */
+export function isViewableOffering(
+  offering: IOfferingAccessFields,
+  viewerId: string | null,
+  followingIds: readonly string[]
+): boolean {
+  switch (offering.status ?? 'published') {
+    case 'published':
+      return isWithinAudience(offering, viewerId, followingIds);
+    case 'archived':
+      return offering.authorId === viewerId;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * 供物台（Kumotsudai）- ドメインモデル型定義
+ *
+ * 画面（AppContext）・リポジトリ層・サーバー側の関数（amplify/functions）で共有する
+ * 供物・導き・魂紋などの型。React に依存しないため、Lambda からも読み込める。
+ *
+ * @version 1.0.0
+ * @author 供物台開発チーム
+ */
+
+import type { GuidanceType, IOffering, NotificationType, OfferingStatus } from './enterprise';
+
+// 導き（コメント）の型
+export interface Comment {
+  id: string;
+  authorId: string;
+  author: string;
+  content: string;
+  type?: GuidanceType; // 種類の導入前に記された導きは未設定
+  parentId?: string; // 返信の場合はスレッドの起点となる導き
+  createdAt: Date;
+  likes: number;
+  likedBy: string[];
+}
+
+// 供物（投稿）の型
+export interface Offering {
+  id: string;
+  title: string;
+  content: string;
+  author: string;
+  authorId: string;
+  genres: string[];
+  imagePaths: string[]; // 添付画像の保存先のパス（表示時に URL を取得する）
+  tags: string[]; // 題名・内容の #タグ（保存時に抽出する）
+  visibility: OfferingVisibility;
+  status: OfferingStatus;
+  createdAt: Date;
+  editedAt?: Date;
+  likes: number;
+  comments: Comment[];
+  likedBy: string[];
+  views: number; // 魂紋・日ごとに1回と数えた閲覧数（作者本人を除く）
+}
+
+// 供物の公開範囲の型（followers は作者と縁を結んだ魂紋のみ。非公開は秘蔵 archived で表す）
+export type OfferingVisibility = Extract<IOffering['visibility'], 'public' | 'followers'>;
+
+// 供物の改訂履歴（改める前の版）の型
+export interface OfferingRevision {
+  id: string;
+  offeringId: string;
+  editorId: string;
+  title: string;
+  content: string;
+  genres: string[];
+  revisedAt: Date;
+}
+
+// 魂紋（ユーザー）の型
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  department: string;
+  age: string;
+  avatar?: string;
+  joinedAt: Date;
+  offeringCount: number;
+  totalLikes: number;
+  totalComments: number;
+  totalViews: number;
+}
+
+// 便り（アプリ内通知）の型
+export interface AppNotification {
+  id: string;
+  userId: string; // 受信者
+  type: NotificationType;
+  title: string;
+  content: string;
+  relatedData?: {
+    offeringId?: string;
+    guidanceId?: string;
+    userId?: string; // 祈念・導きを捧げた魂紋
+  };
+  isRead: boolean;
+  createdAt: Date;
+  readAt?: Date;
+}
+
+// 探求の壇の絞り込み条件の型
+export interface SearchFilters {
+  genre: string; // 'all' は全てのジャンル
+  author: string;
+  date: 'all' | 'today' | 'week' | 'month';
+  minLikes: number;
+}
+
+// 保存した探求（名前付きの検索式と絞り込み条件）の型
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  createdAt: Date;
+}
+
+// 縁（フォロー）の型
+export interface Follow {
+  followerId: string; // 縁を結んだ魂紋
+  followeeId: string; // 縁を結ばれた魂紋
+  createdAt: Date;
+}
+
+// 魂紋の縁者・結縁先の型（魂紋 ID、新しい順）
+export interface FollowRelations {
+  followerIds: string[]; // 縁者（フォロワー）
+  followingIds: string[]; // 結縁先（フォロー中）
+}
@@ -95,7 +95,7 @@ export interface ILogEntry {
   readonly source: string;
   
   /** 追加データ */
-  readonly data?: Record<string, any>;
+  readonly data?: Record<string, unknown>;
   
   /** トレースID */
   readonly traceId?: string;
@@ -124,7 +124,7 @@ export interface IPerformanceMetrics {
   readonly duration?: number;
   
   /** メタデータ */
-  readonly metadata?: Record<string, any>;
+  readonly metadata?: Record<string, unknown>;
 }
 
 /**
@@ -146,7 +146,7 @@ export interface IErrorDetails {
   readonly timestamp: Date;
   
   /** 追加情報 */
-  readonly context?: Record<string, any>;
+  readonly context?: Record<string, unknown>;
 }
 
 // ============================================================================
@@ -159,7 +159,7 @@ export interface IErrorDetails {
  * 
  * @template T レスポンスデータの型
  */
-export interface IApiResponse<T = any> {
+export interface IApiResponse<T = unknown> {
   /** 成功フラグ */
   success: boolean;
   
@@ -175,7 +175,7 @@ export interface IApiResponse<T = any> {
     message: string;
     
     /** 詳細情報 */
-    details?: Record<string, any>;
+    details?: Record<string, unknown>;
   };
   
   /** リクエストID (X-Ray トレース用) */
@@ -213,6 +213,33 @@ export interface IPagination {
   hasPrevious: boolean;
 }
 
+/**
+ * カーソル方式のページネーション情報
+ * 総件数を数えられないバックエンド（DynamoDB）では、totalItems・totalPages は読み込み済みの件数・ページ数となる
+ * 
+ * @interface ICursorPagination
+ */
+export interface ICursorPagination extends IPagination {
+  /** 次のページの取得に使うカーソル（最後のページでは null） */
+  nextCursor: string | null;
+  
+  /** totalItems・totalPages が確定した値か */
+  isTotalExact: boolean;
+}
+
+/**
+ * カーソル方式で取得した1ページ分
+ * 
+ * @interface ICursorPage
+ */
+export interface ICursorPage<T> {
+  /** ページ内のアイテム */
+  items: T[];
+  
+  /** ページネーション情報 */
+  pagination: ICursorPagination;
+}
+
 /**
  * ソート情報
  * 
@@ -505,6 +532,8 @@ export type NotificationType =
   | 'prayer_received'       // 祈念を受けた
   | 'guidance_received'     // 導きを受けた
   | 'guidance_reply'        // 導きに返信があった
+  | 'saved_search_match'    // 保存した探求に一致する供物が奉納された
+  | 'mention_received'      // 供物・導きで @名前 を呼ばれた
   | 'follower_new'          // 新しいフォロワー
   | 'offering_featured'     // 供物が注目された
   | 'system_announcement'   // システムお知らせ
@@ -683,7 +712,7 @@ export interface IWebSocketMessage {
   type: 'prayer' | 'guidance' | 'notification' | 'heartbeat' | 'error';
   
   /** ペイロード */
-  payload: any;
+  payload: unknown;
   
   /** タイムスタンプ */
   timestamp: Timestamp;
@@ -752,34 +781,26 @@ export interface IErrorBoundaryProps {
 // ============================================================================
 
 /**
- * 全ての型を含む名前空間
- * 
- * @namespace KumotsudaiTypes
- */
-export namespace KumotsudaiTypes {
-  export type User = IUser;
-  export type Offering = IOffering;
-  export type Prayer = IPrayer;
-  export type Guidance = IGuidance;
-  export type Notification = INotification;
-  export type AppSettings = IAppSettings;
-  export type SystemHealth = ISystemHealth;
-  export type CognitoUser = ICognitoUser;
-  export type WebSocketMessage = IWebSocketMessage;
-  export type SystemStatus = ISystemStatus;
-  export type LogEntry = ILogEntry;
-  export type PerformanceMetrics = IPerformanceMetrics;
-  export type ErrorDetails = IErrorDetails;
-  export type LoadingScreenProps = ILoadingScreenProps;
-  export type ErrorBoundaryState = IErrorBoundaryState;
-  export type ErrorBoundaryProps = IErrorBoundaryProps;
-  export type ApiResponse<T = any> = IApiResponse<T>;
-  export type Pagination = IPagination;
-  export type SortOptions = ISortOptions;
-  export type RankingItem = IRankingItem;
-}
-
-/**
- * デフォルトエクスポート
- */
-/* export default KumotsudaiTypes; */
\ No newline at end of file
+ * 接頭辞 I を外した型の別名
+ */
+export type User = IUser;
+export type Offering = IOffering;
+export type Prayer = IPrayer;
+export type Guidance = IGuidance;
+export type Notification = INotification;
+export type AppSettings = IAppSettings;
+export type SystemHealth = ISystemHealth;
+export type CognitoUser = ICognitoUser;
+export type WebSocketMessage = IWebSocketMessage;
+export type SystemStatus = ISystemStatus;
+export type LogEntry = ILogEntry;
+export type PerformanceMetrics = IPerformanceMetrics;
+export type ErrorDetails = IErrorDetails;
+export type LoadingScreenProps = ILoadingScreenProps;
+export type ErrorBoundaryState = IErrorBoundaryState;
+export type ErrorBoundaryProps = IErrorBoundaryProps;
+export type ApiResponse<T = unknown> = IApiResponse<T>;
+export type Pagination = IPagination;
+export type CursorPagination = ICursorPagination;
+export type SortOptions = ISortOptions;
+export type RankingItem = IRankingItem;
\ No newline at end of file
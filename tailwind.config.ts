@@ -6,6 +6,7 @@
  */
 
 import type { Config } from 'tailwindcss'
+import plugin from 'tailwindcss/plugin'
 
 const config: Config = {
   content: [
@@ -251,7 +252,7 @@ const config: Config = {
   // V4対応：プラグイン設定
   plugins: [
     // カスタムユーティリティクラス
-    function({ addUtilities, addComponents }: any) {
+    plugin(function({ addUtilities, addComponents }) {
       addUtilities({
         // パフォーマンス最適化
         '.performance-optimized': {
@@ -411,7 +412,7 @@ const config: Config = {
           },
         },
       });
-    },
+    }),
   ],
 }
 